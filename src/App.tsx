@@ -5,6 +5,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { LoginForm } from "./components/auth/LoginForm";
+import { ChangePasswordForm } from "./components/auth/ChangePasswordForm";
+import { LockScreen } from "./components/auth/LockScreen";
 import { DashboardLayout } from "./components/layout/DashboardLayout";
 import { Dashboard } from "./pages/Dashboard";
 import { Members } from "./pages/Members";
@@ -12,21 +14,52 @@ import { Payments } from "./pages/Payments";
 import { Reports } from "./pages/Reports";
 import { Messages } from "./pages/Messages";
 import { Settings } from "./pages/Settings";
+import { Users } from "./pages/Users";
+import { AuditLog } from "./pages/AuditLog";
+import { RecycleBin } from "./pages/RecycleBin";
+import { Reconciliation } from "./pages/Reconciliation";
 import { useAuthStore } from "./store/authStore";
+import { useSessionTimeout } from "./hooks/use-session-timeout";
+import { Capability } from "./types";
 
 const queryClient = new QueryClient();
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, checkAuth } = useAuthStore();
+  const { user, hasCheckedAuth, checkAuth } = useAuthStore();
+  useSessionTimeout();
 
   useEffect(() => {
     checkAuth();
   }, [checkAuth]);
 
+  // Nothing is shown until the provider confirms there is an active session
+  if (!hasCheckedAuth) {
+    return null;
+  }
+
   if (!user) {
     return <LoginForm />;
   }
 
+  if (user.must_change_password) {
+    return <ChangePasswordForm />;
+  }
+
+  return (
+    <>
+      {children}
+      <LockScreen />
+    </>
+  );
+}
+
+function RequireCapability({ capability, children }: { capability: Capability; children: React.ReactNode }) {
+  const { can } = useAuthStore();
+
+  if (!can(capability)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   return <>{children}</>;
 }
 
@@ -50,9 +83,41 @@ const App = () => (
             <Route path="dashboard" element={<Dashboard />} />
             <Route path="members" element={<Members />} />
             <Route path="payments" element={<Payments />} />
+            <Route
+              path="reconciliation"
+              element={
+                <RequireCapability capability="payments.create">
+                  <Reconciliation />
+                </RequireCapability>
+              }
+            />
             <Route path="reports" element={<Reports />} />
             <Route path="messages" element={<Messages />} />
             <Route path="settings" element={<Settings />} />
+            <Route
+              path="users"
+              element={
+                <RequireCapability capability="users.manage">
+                  <Users />
+                </RequireCapability>
+              }
+            />
+            <Route
+              path="audit"
+              element={
+                <RequireCapability capability="audit.view">
+                  <AuditLog />
+                </RequireCapability>
+              }
+            />
+            <Route
+              path="recycle-bin"
+              element={
+                <RequireCapability capability="recycle_bin.manage">
+                  <RecycleBin />
+                </RequireCapability>
+              }
+            />
           </Route>
         </Routes>
       </BrowserRouter>
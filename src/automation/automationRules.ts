@@ -0,0 +1,179 @@
+import { addDays, format, subDays } from 'date-fns';
+import {
+  AutomationRule,
+  AutomationRuleKind,
+  AutomationSendInput,
+  Installment,
+  Member,
+  Message,
+  MessageTemplate,
+  Payment,
+  Settings,
+} from '@/types';
+import { getOutstandingAmount } from '@/utils/scheduleUtils';
+import { getNetAmount } from '@/utils/paymentUtils';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { MessageDraft } from '@/utils/messageUtils';
+import { isArchived } from '@/utils/templateUtils';
+
+export const AUTOMATION_RULE_LABELS: Record<AutomationRuleKind, { name: string; description: string }> = {
+  due_reminder: {
+    name: 'Reminder before due',
+    description: 'Sent once per installment when it falls within the reminder window',
+  },
+  overdue_notice: {
+    name: 'Second notice',
+    description: 'Sent once per installment still unpaid this many days after its due date',
+  },
+  payment_thank_you: {
+    name: 'Thank you',
+    description: 'Sent once per payment received within this many days',
+  },
+};
+
+const RULE_MESSAGE_TYPES: Record<AutomationRuleKind, Message['message_type']> = {
+  due_reminder: 'reminder',
+  overdue_notice: 'reminder',
+  payment_thank_you: 'thank_you',
+};
+
+export const DEFAULT_AUTOMATION_RULES: AutomationRule[] = [
+  { kind: 'due_reminder', enabled: false },
+  { kind: 'overdue_notice', enabled: false, days: 7 },
+  // On by default, as payments have always been thanked when logged
+  { kind: 'payment_thank_you', enabled: true, days: 3 },
+];
+
+// Used when a rule has no template of its own, in the template language
+const BUILT_IN_DRAFTS: Record<AutomationRuleKind, MessageDraft> = {
+  due_reminder: {
+    message_type: 'reminder',
+    message_subject: 'Payment Reminder',
+    message_content: 'Dear {{member.first_name}},\n\n' +
+      'Your membership contribution of {{currency member.next_due_amount}} is due on {{date member.next_due_date}}. ' +
+      'Please make your payment to continue supporting our cause.\n\n{{org.name}}',
+    sms_content: '{{org.name}}: {{currency member.next_due_amount}} due {{date member.next_due_date "d MMM"}}. Thank you for your support.',
+  },
+  overdue_notice: {
+    message_type: 'reminder',
+    message_subject: 'Second Notice: Contribution Overdue',
+    message_content: 'Dear {{member.first_name}},\n\n' +
+      'Our records show {{currency member.overdue_amount}} in contributions is now overdue. ' +
+      'If you have already paid, thank you and please disregard this notice; otherwise we would be grateful for your payment soon.\n\n{{org.name}}',
+    sms_content: '{{org.name}}: {{currency member.overdue_amount}} is overdue. If you have already paid, thank you.',
+  },
+  payment_thank_you: {
+    message_type: 'thank_you',
+    message_subject: 'Thank You for Your Contribution',
+    message_content: 'Dear {{member.first_name}},\n\n' +
+      'Thank you for your contribution of {{currency member.last_payment_amount}} on {{date member.last_payment_date}}. ' +
+      'Your support helps us continue our important work.\n\n{{org.name}}',
+    sms_content: 'Thank you for your contribution of {{currency member.last_payment_amount}} on {{date member.last_payment_date "d MMM"}}. {{org.name}}',
+  },
+};
+
+// Every rule, in a fixed order, with defaults filled in for any not yet saved
+export function getAutomationRules(settings: Settings | null): AutomationRule[] {
+  const saved = settings?.automation_rules ?? [];
+  return DEFAULT_AUTOMATION_RULES.map(rule => ({ ...rule, ...saved.find(s => s.kind === rule.kind) }));
+}
+
+export function getRuleDraft(rule: AutomationRule, templates: MessageTemplate[]): MessageDraft {
+  const template = templates.find(t => t.id === rule.template_id && !isArchived(t));
+  if (!template) return BUILT_IN_DRAFTS[rule.kind];
+  return {
+    message_type: RULE_MESSAGE_TYPES[rule.kind],
+    message_subject: template.subject,
+    message_content: template.content,
+    sms_content: template.sms_content,
+  };
+}
+
+export function getRuleTemplates(kind: AutomationRuleKind, templates: MessageTemplate[]): MessageTemplate[] {
+  return templates.filter(t => t.message_type === RULE_MESSAGE_TYPES[kind] && !isArchived(t));
+}
+
+export function getAutomationKey(kind: AutomationRuleKind, recordId: string): string {
+  return `${kind}:${recordId}`;
+}
+
+export interface AutomationData {
+  members: Member[];
+  installments: Installment[];
+  payments: Payment[];
+  settings: Settings;
+}
+
+// One member's share of a rule: every installment or payment not yet covered,
+// sent as a single message
+export interface AutomationCandidate {
+  member: Member;
+  sends: Omit<AutomationSendInput, 'run_id'>[];
+  detail: string;
+}
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function isThankablePayment(payment: Payment, payments: Payment[]): boolean {
+  return payment.status === 'paid' && !payment.deleted_at && !payment.reverses && getNetAmount(payment, payments) > 0;
+}
+
+// Installments or payments the rule applies to today, grouped by active member.
+// Anything whose key is in sentKeys is skipped and counted as already sent.
+export function findAutomationCandidates(
+  rule: AutomationRule,
+  data: AutomationData,
+  sentKeys: Set<string>,
+  today: Date
+): { candidates: AutomationCandidate[]; alreadySent: number } {
+  const todayKey = toDateKey(today);
+  const currency = data.settings.default_currency;
+  let matches: { member_id: string; installment_id?: string; payment_id?: string; detail: string }[];
+
+  if (rule.kind === 'payment_thank_you') {
+    const since = toDateKey(subDays(today, rule.days ?? 0));
+    matches = data.payments
+      .filter(p => isThankablePayment(p, data.payments) && p.payment_date.slice(0, 10) >= since && p.payment_date.slice(0, 10) <= todayKey)
+      .map(p => ({
+        member_id: p.member_id,
+        payment_id: p.id,
+        detail: `${formatCurrency(getNetAmount(p, data.payments), currency)} on ${formatDate(p.payment_date)}`,
+      }));
+  } else {
+    const inWindow = rule.kind === 'due_reminder'
+      ? (i: Installment) => i.due_date >= todayKey && i.due_date <= toDateKey(addDays(today, data.settings.reminder_window_days))
+      : (i: Installment) => i.due_date <= toDateKey(subDays(today, rule.days ?? 0));
+    matches = data.installments
+      .filter(i => getOutstandingAmount(i) > 0 && inWindow(i))
+      .map(i => ({
+        member_id: i.member_id,
+        installment_id: i.id,
+        detail: `${formatCurrency(getOutstandingAmount(i), currency)} due ${formatDate(i.due_date)}`,
+      }));
+  }
+
+  let alreadySent = 0;
+  const byMember = new Map<string, AutomationCandidate>();
+  matches.forEach(match => {
+    const member = data.members.find(m => m.id === match.member_id && m.active && !m.deleted_at);
+    if (!member) return;
+    const key = getAutomationKey(rule.kind, match.installment_id ?? match.payment_id);
+    if (sentKeys.has(key)) {
+      alreadySent += 1;
+      return;
+    }
+
+    const candidate = byMember.get(member.id) ?? { member, sends: [], detail: '' };
+    candidate.sends.push({
+      key,
+      rule: rule.kind,
+      member_id: member.id,
+      installment_id: match.installment_id,
+      payment_id: match.payment_id,
+    });
+    candidate.detail = candidate.detail ? `${candidate.detail}; ${match.detail}` : match.detail;
+    byMember.set(member.id, candidate);
+  });
+
+  return { candidates: [...byMember.values()], alreadySent };
+}
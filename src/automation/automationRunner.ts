@@ -0,0 +1,99 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AutomationRuleResult, AutomationRun, Message, Payment } from '@/types';
+import { DataProvider } from '@/data/DataProvider';
+import { buildPersonalizedMessages } from '@/utils/messageUtils';
+import {
+  findAutomationCandidates,
+  getAutomationKey,
+  getAutomationRules,
+  getRuleDraft,
+  isThankablePayment,
+} from './automationRules';
+
+export function countSent(run: AutomationRun): number {
+  return run.results.reduce((total, result) => total + result.sent.length, 0);
+}
+
+export function countFailed(run: AutomationRun): number {
+  return run.results.reduce((total, result) => total + result.failed.length, 0);
+}
+
+// One pass over every enabled rule. Messages are queued for the outbox, never
+// sent here. Scheduled runs that found nothing to do are not kept in the history.
+export async function runAutomation(
+  provider: DataProvider,
+  trigger: AutomationRun['trigger'],
+  now: Date = new Date()
+): Promise<AutomationRun> {
+  const startedAt = now.toISOString();
+  const [members, installments, payments, templates, settings, sends] = await Promise.all([
+    provider.getMembers(),
+    provider.getInstallments(),
+    provider.getPayments(),
+    provider.getMessageTemplates(),
+    provider.getSettings(),
+    provider.getAutomationSends(),
+  ]);
+  const sentKeys = new Set(sends.map(send => send.key));
+  const runId = uuidv4();
+  const results: AutomationRuleResult[] = [];
+
+  for (const rule of getAutomationRules(settings).filter(r => r.enabled)) {
+    const draft = getRuleDraft(rule, templates);
+    const { candidates, alreadySent } = findAutomationCandidates(rule, { members, installments, payments, settings }, sentKeys, now);
+    const result: AutomationRuleResult = { rule: rule.kind, sent: [], failed: [], already_sent: alreadySent, unreachable: 0 };
+
+    for (const candidate of candidates) {
+      const recipient = { member_id: candidate.member.id, member_name: candidate.member.full_name, detail: candidate.detail };
+      try {
+        const messages = buildPersonalizedMessages(candidate.member, draft, { installments, payments, settings, today: now }, startedAt);
+        if (messages.length === 0) {
+          result.unreachable += 1;
+          continue;
+        }
+        const created = await provider.createAutomatedMessages(candidate.sends.map(send => ({ ...send, run_id: runId })), messages);
+        if (!created) {
+          // Another tab recorded the same send in the meantime
+          result.already_sent += candidate.sends.length;
+          continue;
+        }
+        candidate.sends.forEach(send => sentKeys.add(send.key));
+        result.sent.push({ ...recipient, message_count: created.length });
+      } catch (error) {
+        result.failed.push({ ...recipient, error: (error as Error).message });
+      }
+    }
+    results.push(result);
+  }
+
+  const run: AutomationRun = { id: runId, trigger, started_at: startedAt, finished_at: new Date().toISOString(), results };
+  if (trigger === 'manual' || countSent(run) + countFailed(run) > 0) {
+    await provider.saveAutomationRun(run);
+  }
+  return run;
+}
+
+// The thank-you rule for a payment just logged, so it goes out without waiting
+// for the next run. Recorded like any other send, so the scheduler skips it later.
+export async function thankForPayment(provider: DataProvider, payment: Payment, now: Date = new Date()): Promise<Message[]> {
+  const [members, installments, payments, templates, settings] = await Promise.all([
+    provider.getMembers(),
+    provider.getInstallments(),
+    provider.getPayments(),
+    provider.getMessageTemplates(),
+    provider.getSettings(),
+  ]);
+  const rule = getAutomationRules(settings).find(r => r.kind === 'payment_thank_you');
+  const member = members.find(m => m.id === payment.member_id);
+  if (!rule?.enabled || !member || !isThankablePayment(payment, payments)) return [];
+
+  const messages = buildPersonalizedMessages(member, getRuleDraft(rule, templates), { installments, payments, settings, today: now }, now.toISOString());
+  if (messages.length === 0) return [];
+  const created = await provider.createAutomatedMessages([{
+    key: getAutomationKey(rule.kind, payment.id),
+    rule: rule.kind,
+    member_id: member.id,
+    payment_id: payment.id,
+  }], messages);
+  return created ?? [];
+}
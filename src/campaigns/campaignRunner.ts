@@ -0,0 +1,88 @@
+import { CampaignSendUpdate, CampaignVariant, Member, Message, NewsletterCampaign } from '@/types';
+import { DataProvider } from '@/data/DataProvider';
+import { buildPersonalizedMessages } from '@/utils/messageUtils';
+import { getCampaignAudience, getCampaignDraft, getDueStage, pickTestSlice, pickWinner } from './campaignUtils';
+
+export interface CampaignRunFailure {
+  campaign: NewsletterCampaign;
+  error: string;
+}
+
+export interface CampaignRunResult {
+  advanced: NewsletterCampaign[];
+  failed: CampaignRunFailure[];
+}
+
+// Sends the campaign's next stage: everyone, or the A/B test slice, at the
+// start; the winning subject to the rest of the audience at the finish. `force`
+// sends the next stage now instead of waiting for its time. Returns the queued
+// messages, or null when another tab sent the stage first.
+export async function advanceCampaign(
+  provider: DataProvider,
+  campaign: NewsletterCampaign,
+  now: Date = new Date(),
+  force = false
+): Promise<Message[] | null> {
+  const stage = force
+    ? (campaign.status === 'testing' ? 'finish' : campaign.status === 'draft' || campaign.status === 'scheduled' ? 'start' : null)
+    : getDueStage(campaign, now);
+  if (!stage) return null;
+
+  const [members, installments, payments, messages, settings, segments] = await Promise.all([
+    provider.getMembers(),
+    provider.getInstallments(),
+    provider.getPayments(),
+    provider.getMessages(),
+    provider.getSettings(),
+    provider.getSegments(),
+  ]);
+  // The audience is worked out again at each stage, so members who joined or
+  // left the segment in the meantime are picked up
+  const audience = getCampaignAudience(campaign, members, { payments, installments, messages, segments }, now);
+  const sentAt = now.toISOString();
+
+  let reached = 0;
+  const build = (recipients: { member: Member; variant: CampaignVariant }[]) => recipients.flatMap(({ member, variant }) => {
+    const built = buildPersonalizedMessages(member, getCampaignDraft(campaign, variant), { installments, payments, settings, today: now }, sentAt);
+    if (built.length > 0) reached += 1;
+    return built.map(message => ({ ...message, campaign_id: campaign.id, campaign_variant: campaign.ab_test ? variant : undefined }));
+  });
+
+  let queued: Omit<Message, 'id'>[];
+  let update: CampaignSendUpdate;
+  if (stage === 'start' && campaign.ab_test) {
+    queued = build(pickTestSlice(campaign, audience));
+    update = { status: 'testing', test_sent_at: sentAt, recipient_count: reached };
+  } else if (stage === 'start') {
+    queued = build(audience.map(member => ({ member, variant: 'a' })));
+    update = { status: 'sent', sent_at: sentAt, recipient_count: reached };
+  } else {
+    const winner = pickWinner(campaign, messages);
+    const messaged = new Set(messages.filter(m => m.campaign_id === campaign.id && m.member_id).map(m => m.member_id));
+    queued = build(audience.filter(member => !messaged.has(member.id)).map(member => ({ member, variant: winner })));
+    update = {
+      status: 'sent',
+      sent_at: sentAt,
+      ab_test: campaign.ab_test && { ...campaign.ab_test, winner },
+      recipient_count: campaign.recipient_count + reached,
+    };
+  }
+
+  return provider.recordCampaignSend(campaign.id, campaign.status, update, queued);
+}
+
+// Sends every campaign stage that has come due. One campaign failing, say
+// because its segment was deleted, does not hold up the others.
+export async function runCampaigns(provider: DataProvider, now: Date = new Date()): Promise<CampaignRunResult> {
+  const campaigns = await provider.getCampaigns();
+  const result: CampaignRunResult = { advanced: [], failed: [] };
+
+  for (const campaign of campaigns.filter(c => getDueStage(c, now))) {
+    try {
+      if (await advanceCampaign(provider, campaign, now)) result.advanced.push(campaign);
+    } catch (error) {
+      result.failed.push({ campaign, error: (error as Error).message });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,183 @@
+import { addDays, addHours } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CampaignStatus,
+  CampaignVariant,
+  Installment,
+  Member,
+  Message,
+  NewsletterCampaign,
+  MemberSegment,
+  Payment,
+} from '@/types';
+import { getNetAmount, isReversal } from '@/utils/paymentUtils';
+import { getSegmentMembers } from '@/utils/segmentUtils';
+import { MessageDraft } from '@/utils/messageUtils';
+
+export const DEFAULT_DONATION_WINDOW_DAYS = 14;
+export const DEFAULT_TEST_PERCENT = 20;
+export const DEFAULT_TEST_WAIT_HOURS = 4;
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  testing: 'Testing subjects',
+  sent: 'Sent',
+  cancelled: 'Cancelled',
+};
+
+export function isEditable(campaign: NewsletterCampaign): boolean {
+  return campaign.status === 'draft' || campaign.status === 'scheduled';
+}
+
+export function getVariantSubject(campaign: NewsletterCampaign, variant: CampaignVariant): string {
+  return variant === 'b' && campaign.ab_test ? campaign.ab_test.subject_b : campaign.subject;
+}
+
+export function getCampaignDraft(campaign: NewsletterCampaign, variant: CampaignVariant = 'a'): MessageDraft {
+  return {
+    message_type: 'announcement',
+    message_subject: getVariantSubject(campaign, variant),
+    message_content: campaign.content,
+    sms_content: campaign.sms_content,
+  };
+}
+
+// Which stage is due, if any: the first send once the scheduled time has come,
+// then, for A/B tests, the rest of the audience once the wait is over
+export function getDueStage(campaign: NewsletterCampaign, now: Date = new Date()): 'start' | 'finish' | null {
+  if (campaign.status === 'scheduled' && campaign.scheduled_at && new Date(campaign.scheduled_at) <= now) return 'start';
+  if (campaign.status === 'testing' && campaign.ab_test && campaign.test_sent_at &&
+    addHours(new Date(campaign.test_sent_at), campaign.ab_test.wait_hours) <= now) return 'finish';
+  return null;
+}
+
+export interface AudienceData {
+  payments: Payment[];
+  installments: Installment[];
+  messages: Message[];
+  segments: MemberSegment[];
+}
+
+// The campaign's segment, or every active member when it has none. A segment
+// decides for itself whether inactive members are in. Throws if the segment has
+// been deleted since, rather than falling back to everyone.
+export function getCampaignAudience(campaign: NewsletterCampaign, members: Member[], data: AudienceData, today: Date = new Date()): Member[] {
+  if (!campaign.segment_id) return members.filter(member => member.active);
+
+  const segment = data.segments.find(s => s.id === campaign.segment_id);
+  if (!segment) throw new Error(`The segment for ${campaign.name} no longer exists`);
+  return getSegmentMembers(segment, members, data, today);
+}
+
+// A stable pseudo-random order, so a campaign always picks the same test slice
+// from the same audience and a retried send does not pick different people
+function shuffleKey(campaignId: string, memberId: string): number {
+  let hash = 2166136261;
+  for (const char of `${campaignId}:${memberId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// The test slice, alternately given subject A and B. At least one member gets
+// each subject whenever the audience has two or more.
+export function pickTestSlice(campaign: NewsletterCampaign, audience: Member[]): { member: Member; variant: CampaignVariant }[] {
+  const percent = campaign.ab_test?.test_percent ?? 0;
+  const size = Math.min(audience.length, Math.max(2, Math.round(audience.length * percent / 100)));
+  return [...audience]
+    .sort((a, b) => shuffleKey(campaign.id, a.id) - shuffleKey(campaign.id, b.id))
+    .slice(0, size)
+    .map((member, index) => ({ member, variant: index % 2 === 0 ? 'a' : 'b' }));
+}
+
+export interface VariantResult {
+  variant: CampaignVariant;
+  subject: string;
+  emailed: number; // email messages sent with this subject
+  opened: number;
+  open_rate: number; // 0-1
+}
+
+// Subjects only show on email, so SMS messages are left out of the comparison
+export function getVariantResults(campaign: NewsletterCampaign, messages: Message[]): VariantResult[] {
+  return (['a', 'b'] as const).map(variant => {
+    const emails = messages.filter(m =>
+      m.campaign_id === campaign.id && m.campaign_variant === variant && m.channel === 'email' && !m.deleted_at
+    );
+    const opened = emails.filter(m => m.opened_at).length;
+    return {
+      variant,
+      subject: getVariantSubject(campaign, variant),
+      emailed: emails.length,
+      opened,
+      open_rate: emails.length > 0 ? opened / emails.length : 0,
+    };
+  });
+}
+
+// The subject opened by the larger share of its test group. A tie, including
+// no opens at all, goes to subject A.
+export function pickWinner(campaign: NewsletterCampaign, messages: Message[]): CampaignVariant {
+  const [a, b] = getVariantResults(campaign, messages);
+  return b.open_rate > a.open_rate ? 'b' : 'a';
+}
+
+export interface CampaignStats {
+  recipients: number; // members with at least one message
+  delivered: number; // members whose message was handed over or confirmed, without a bounce or failure
+  opened: number; // members who opened the email
+  donors: number; // recipients who paid within the donation window
+  donations: number; // net amount they paid in that window
+}
+
+// Worked out per member: someone reached by both email and SMS counts once.
+// Donations are payments received within donation_window_days of the member's
+// first campaign message; refunds and voids since are taken off.
+export function getCampaignStats(campaign: NewsletterCampaign, messages: Message[], payments: Payment[]): CampaignStats {
+  const byMember = new Map<string, Message[]>();
+  messages
+    .filter(message => message.campaign_id === campaign.id && message.member_id && !message.deleted_at)
+    .forEach(message => byMember.set(message.member_id!, [...(byMember.get(message.member_id!) ?? []), message]));
+
+  const stats: CampaignStats = { recipients: byMember.size, delivered: 0, opened: 0, donors: 0, donations: 0 };
+  byMember.forEach((memberMessages, memberId) => {
+    if (memberMessages.some(m => m.delivery_status === 'sent' || m.delivery_status === 'delivered')) stats.delivered += 1;
+    if (memberMessages.some(m => m.opened_at)) stats.opened += 1;
+
+    const from = new Date(memberMessages.reduce((first, m) => m.sent_at < first ? m.sent_at : first, memberMessages[0].sent_at));
+    const until = addDays(from, campaign.donation_window_days);
+    const given = payments
+      .filter(p => p.member_id === memberId && p.status === 'paid' && !p.deleted_at && !isReversal(p))
+      .filter(p => {
+        const paidAt = new Date(p.payment_date);
+        return paidAt >= from && paidAt <= until;
+      })
+      .reduce((total, p) => total + getNetAmount(p, payments), 0);
+    if (given > 0) {
+      stats.donors += 1;
+      stats.donations += given;
+    }
+  });
+  return stats;
+}
+
+// Bulk announcements used to be logged as a single message with no member. The
+// database upgrade turns each into a sent campaign so it is listed with the rest.
+export function campaignFromBulkMessage(message: Message, now: string): NewsletterCampaign {
+  return {
+    id: uuidv4(),
+    name: message.message_subject || 'Announcement',
+    subject: message.message_subject || '',
+    content: message.message_content,
+    status: 'sent',
+    scheduled_at: message.sent_at,
+    sent_at: message.sent_at,
+    donation_window_days: DEFAULT_DONATION_WINDOW_DAYS,
+    recipient_count: 0,
+    legacy: true,
+    created_at: message.sent_at,
+    updated_at: now,
+  };
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import { Lock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuthStore } from '@/store/authStore';
+
+// Rendered as a modal layer on top of the app rather than in place of it, so
+// open dialogs and forms underneath keep their state. It also sits above any
+// of those dialogs, which would otherwise trap focus away from the password field.
+export function LockScreen() {
+  const { user, session, isLocked, unlock, logout } = useAuthStore();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const expired = !!session && new Date(session.expires_at).getTime() <= Date.now();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await unlock(password);
+      setPassword('');
+      setError(null);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <DialogPrimitive.Root open={isLocked}>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay className="fixed inset-0 z-[100] bg-muted" />
+        <DialogPrimitive.Content
+          className="fixed inset-0 z-[100] flex items-center justify-center p-4"
+          onEscapeKeyDown={(e) => e.preventDefault()}
+          onPointerDownOutside={(e) => e.preventDefault()}
+          onInteractOutside={(e) => e.preventDefault()}
+        >
+          <Card className="w-full max-w-md shadow-large">
+            <CardHeader className="space-y-1">
+              <DialogPrimitive.Title asChild>
+                <CardTitle className="text-2xl text-center flex items-center justify-center gap-2">
+                  <Lock className="h-5 w-5" />
+                  Session locked
+                </CardTitle>
+              </DialogPrimitive.Title>
+              <DialogPrimitive.Description asChild>
+                <CardDescription className="text-center">
+                  {expired
+                    ? `Your session has expired. Enter the password for ${user?.email} to continue.`
+                    : `Locked after a period of inactivity. Enter the password for ${user?.email} to continue.`}
+                </CardDescription>
+              </DialogPrimitive.Description>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="unlock_password">Password</Label>
+                  <Input
+                    id="unlock_password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                    required
+                  />
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Unlocking...' : 'Unlock'}
+                </Button>
+                <Button type="button" variant="ghost" className="w-full" onClick={logout}>
+                  Sign out
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  );
+}
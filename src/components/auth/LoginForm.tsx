@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -10,10 +10,14 @@ import { useToast } from '@/hooks/use-toast';
 export function LoginForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const { login, isLoading } = useAuthStore();
+  const { login, isLoading, loginError, showDemoHint, checkDemoAccounts } = useAuthStore();
   const { toast } = useToast();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    checkDemoAccounts();
+  }, [checkDemoAccounts]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -27,7 +31,7 @@ export function LoginForm() {
     } else {
       toast({
         title: 'Login failed',
-        description: 'Invalid email or password.',
+        description: useAuthStore.getState().loginError || 'Invalid email or password.',
         variant: 'destructive',
       });
     }
@@ -51,7 +55,7 @@ export function LoginForm() {
                 type="email"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                placeholder="admin@example.com"
+                placeholder="you@example.com"
                 required
               />
             </div>
@@ -66,15 +70,18 @@ export function LoginForm() {
                 required
               />
             </div>
+            {loginError && <p className="text-sm text-destructive">{loginError}</p>}
             <Button type="submit" className="w-full" disabled={isLoading}>
               {isLoading ? 'Signing in...' : 'Sign in'}
             </Button>
           </form>
-          <div className="mt-4 text-sm text-muted-foreground">
-            <p>Demo accounts:</p>
-            <p>Admin: admin@example.com / admin123</p>
-            <p>Staff: staff@example.com / staff123</p>
-          </div>
+          {showDemoHint && (
+            <div className="mt-4 text-sm text-muted-foreground">
+              <p>Demo accounts:</p>
+              <p>Admin: admin@example.com / admin123</p>
+              <p>Staff: staff@example.com / staff123</p>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -3,9 +3,13 @@ import {
   Home,
   Users,
   CreditCard,
+  Landmark,
   FileText,
   MessageSquare,
   Settings,
+  UserCog,
+  History,
+  Trash2,
   LogOut,
 } from 'lucide-react';
 import {
@@ -22,19 +26,27 @@ import {
 } from '@/components/ui/sidebar';
 import { Button } from '@/components/ui/button';
 import { useAuthStore } from '@/store/authStore';
+import { useInboxStore } from '@/store/inboxStore';
+import { Capability } from '@/types';
+import { getRole } from '@/utils/permissions';
 import { cn } from '@/lib/utils';
 
-const navigation = [
+const navigation: { name: string; href: string; icon: typeof Home; requires?: Capability }[] = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
   { name: 'Members', href: '/members', icon: Users },
   { name: 'Payments', href: '/payments', icon: CreditCard },
+  { name: 'Reconciliation', href: '/reconciliation', icon: Landmark, requires: 'payments.create' },
   { name: 'Reports', href: '/reports', icon: FileText },
   { name: 'Messages', href: '/messages', icon: MessageSquare },
   { name: 'Settings', href: '/settings', icon: Settings },
+  { name: 'Users', href: '/users', icon: UserCog, requires: 'users.manage' },
+  { name: 'Audit Log', href: '/audit', icon: History, requires: 'audit.view' },
+  { name: 'Recycle Bin', href: '/recycle-bin', icon: Trash2, requires: 'recycle_bin.manage' },
 ];
 
 export function AppSidebar() {
-  const { logout, user } = useAuthStore();
+  const { logout, user, roles, can } = useAuthStore();
+  const unreadReplies = useInboxStore(state => state.inbound.filter(message => !message.read_at).length);
 
   const handleLogout = async () => {
     await logout();
@@ -56,7 +68,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navigation.map((item) => (
+              {navigation.filter(item => !item.requires || can(item.requires)).map((item) => (
                 <SidebarMenuItem key={item.name}>
                   <SidebarMenuButton asChild>
                     <NavLink
@@ -72,6 +84,14 @@ export function AppSidebar() {
                     >
                       <item.icon className="h-4 w-4" />
                       {item.name}
+                      {item.href === '/messages' && unreadReplies > 0 && (
+                        <span
+                          className="ml-auto rounded-full bg-primary px-2 py-0.5 text-xs font-semibold text-primary-foreground"
+                          title={`${unreadReplies} unread ${unreadReplies === 1 ? 'reply' : 'replies'}`}
+                        >
+                          {unreadReplies}
+                        </span>
+                      )}
                     </NavLink>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
@@ -85,7 +105,7 @@ export function AppSidebar() {
         <div className="flex items-center justify-between">
           <div className="text-sm">
             <div className="font-medium text-sidebar-foreground">{user?.email}</div>
-            <div className="text-sidebar-foreground/60 capitalize">{user?.role}</div>
+            <div className="text-sidebar-foreground/60">{user && (getRole(user.role, roles)?.name ?? user.role)}</div>
           </div>
           <Button
             variant="ghost"
@@ -6,14 +6,36 @@ import { TopBar } from './TopBar';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useMembersStore } from '@/store/membersStore';
 import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
 import { useMessagesStore } from '@/store/messagesStore';
+import { useReceiptsStore } from '@/store/receiptsStore';
+import { useTemplatesStore } from '@/store/templatesStore';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { useFundsStore } from '@/store/fundsStore';
+import { useInboxStore } from '@/store/inboxStore';
+import { useCampaignsStore } from '@/store/campaignsStore';
 import { seedData } from '@/data/seedData';
+import { useOutbox } from '@/hooks/use-outbox';
+import { useAutomation } from '@/hooks/use-automation';
+import { useInbox } from '@/hooks/use-inbox';
+import { useCampaigns } from '@/hooks/use-campaigns';
 
 export function DashboardLayout() {
   const { fetchSettings } = useSettingsStore();
   const { fetchMembers } = useMembersStore();
   const { fetchPayments } = usePaymentsStore();
+  const { fetchInstallments } = useInstallmentsStore();
   const { fetchMessages } = useMessagesStore();
+  const { fetchReceipts } = useReceiptsStore();
+  const { fetchTemplates } = useTemplatesStore();
+  const { fetchSegments } = useSegmentsStore();
+  const { fetchFunds } = useFundsStore();
+  const { fetchInbox } = useInboxStore();
+  const { fetchCampaigns } = useCampaignsStore();
+  useOutbox();
+  useAutomation();
+  useInbox();
+  useCampaigns();
 
   useEffect(() => {
     const initializeApp = async () => {
@@ -25,12 +47,19 @@ export function DashboardLayout() {
         fetchSettings(),
         fetchMembers(),
         fetchPayments(),
+        fetchInstallments(),
         fetchMessages(),
+        fetchReceipts(),
+        fetchTemplates(),
+        fetchSegments(),
+        fetchFunds(),
+        fetchInbox(),
+        fetchCampaigns(),
       ]);
     };
 
     initializeApp();
-  }, [fetchSettings, fetchMembers, fetchPayments, fetchMessages]);
+  }, [fetchSettings, fetchMembers, fetchPayments, fetchInstallments, fetchMessages, fetchReceipts, fetchTemplates, fetchSegments, fetchFunds, fetchInbox, fetchCampaigns]);
 
   return (
     <SidebarProvider>
@@ -3,6 +3,7 @@ import { Search, Plus, Moon, Sun } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
 import { GlobalSearch } from '@/components/GlobalSearch';
 import { MemberForm } from '@/components/members/MemberForm';
 import { PaymentForm } from '@/components/payments/PaymentForm';
@@ -11,6 +12,7 @@ import { Member } from '@/types';
 
 export function TopBar() {
   const { settings, toggleTheme } = useSettingsStore();
+  const { can } = useAuthStore();
   const [showMemberForm, setShowMemberForm] = useState(false);
   const [showPaymentForm, setShowPaymentForm] = useState(false);
   const [showMessageForm, setShowMessageForm] = useState(false);
@@ -43,14 +45,16 @@ export function TopBar() {
           </div>
 
           <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowMemberForm(true)}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Quick Add
-            </Button>
+            {can('members.create') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowMemberForm(true)}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Quick Add
+              </Button>
+            )}
             
             <Button
               variant="ghost"
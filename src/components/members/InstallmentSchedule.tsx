@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { CalendarClock, Ban, FileX, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useAuthStore } from '@/store/authStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { Installment, InstallmentResolution } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { INSTALLMENT_STATE_LABELS, getOutstandingAmount, isInstallmentOverdue } from '@/utils/scheduleUtils';
+import { useToast } from '@/hooks/use-toast';
+
+const RESOLUTION_LABELS: Record<InstallmentResolution, string> = {
+  waived: 'Waive',
+  written_off: 'Write off',
+};
+
+interface InstallmentScheduleProps {
+  installments: Installment[];
+}
+
+export function InstallmentSchedule({ installments }: InstallmentScheduleProps) {
+  const { resolveInstallment } = useInstallmentsStore();
+  const { can } = useAuthStore();
+  const { settings } = useSettingsStore();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<{ installment: Installment; resolution: InstallmentResolution } | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const canEdit = can('payments.edit');
+
+  const sorted = [...installments].sort((a, b) => b.due_date.localeCompare(a.due_date));
+  const outstanding = installments.reduce((total, installment) => total + getOutstandingAmount(installment), 0);
+
+  const resolve = async (installment: Installment, resolution: InstallmentResolution | null) => {
+    setIsSubmitting(true);
+    try {
+      await resolveInstallment(installment.id, resolution, note);
+      toast({
+        title: resolution ? `Installment ${INSTALLMENT_STATE_LABELS[resolution].toLowerCase()}` : 'Installment reopened',
+        description: `The ${formatDate(installment.due_date)} installment has been updated.`,
+      });
+      setPending(null);
+      setNote('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update installment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const getStateBadge = (installment: Installment) => {
+    if (isInstallmentOverdue(installment)) {
+      return <Badge variant="destructive">Overdue</Badge>;
+    }
+    switch (installment.state) {
+      case 'paid':
+        return <Badge variant="default" className="bg-green-100 text-green-800">Paid</Badge>;
+      case 'partially_paid':
+        return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Partially paid</Badge>;
+      case 'waived':
+      case 'written_off':
+        return <Badge variant="outline">{INSTALLMENT_STATE_LABELS[installment.state]}</Badge>;
+      default:
+        return <Badge variant="secondary">Open</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Installments
+        </CardTitle>
+        <CardDescription>
+          {formatCurrency(outstanding, settings?.default_currency)} outstanding. Payments are applied to the oldest open installment first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No installments scheduled.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>State</TableHead>
+                  {canEdit && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map(installment => (
+                  <TableRow key={installment.id}>
+                    <TableCell className="text-sm">{formatDate(installment.due_date)}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(installment.expected_amount, settings?.default_currency)}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(installment.paid_amount, settings?.default_currency)}</TableCell>
+                    <TableCell>
+                      {getStateBadge(installment)}
+                      {installment.resolution_note && (
+                        <div className="mt-1 text-xs text-muted-foreground">{installment.resolution_note}</div>
+                      )}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          {installment.state === 'waived' || installment.state === 'written_off' ? (
+                            <Button variant="outline" size="sm" onClick={() => resolve(installment, null)} disabled={isSubmitting}>
+                              <RotateCcw className="w-4 h-4 mr-2" />
+                              Reopen
+                            </Button>
+                          ) : installment.state !== 'paid' && (
+                            <>
+                              <Button variant="outline" size="sm" onClick={() => setPending({ installment, resolution: 'waived' })}>
+                                <Ban className="w-4 h-4 mr-2" />
+                                Waive
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => setPending({ installment, resolution: 'written_off' })}>
+                                <FileX className="w-4 h-4 mr-2" />
+                                Write off
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pending && `${RESOLUTION_LABELS[pending.resolution]} the ${formatDate(pending.installment.due_date)} installment`}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="resolution_note">Reason</Label>
+            <Textarea
+              id="resolution_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional note for the member's record"
+            />
+            {pending && pending.installment.paid_amount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(pending.installment.paid_amount, settings?.default_currency)} already paid towards it will move to the next open installment.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+            <Button onClick={() => pending && resolve(pending.installment, pending.resolution)} disabled={isSubmitting}>
+              {pending && RESOLUTION_LABELS[pending.resolution]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -13,6 +13,7 @@ import { useMembersStore } from '@/store/membersStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { Member } from '@/types';
 import { useToast } from '@/hooks/use-toast';
+import { PermissionDeniedError } from '@/utils/permissions';
 
 const memberSchema = z.object({
   full_name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -124,7 +125,7 @@ export function MemberForm({ member, open = false, onOpenChange }: MemberFormPro
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to save member. Please try again.',
+        description: error instanceof PermissionDeniedError ? error.message : 'Failed to save member. Please try again.',
         variant: 'destructive',
       });
     } finally {
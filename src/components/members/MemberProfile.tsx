@@ -5,15 +5,26 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
 import { useMembersStore } from '@/store/membersStore';
 import { usePaymentsStore } from '@/store/paymentsStore';
 import { useMessagesStore } from '@/store/messagesStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
 import { Member, Payment } from '@/types';
-import { formatCurrency, formatDate, getNextDueDate, getLastPaymentDate, getPaymentStatus } from '@/utils/dateUtils';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { getMemberBalance, getNextDueInstallment, getOutstandingAmount, getPaymentStatus } from '@/utils/scheduleUtils';
+import { buildMemberMessages } from '@/utils/messageUtils';
 import { PaymentForm } from '../payments/PaymentForm';
 import { MessageForm } from '../messages/MessageForm';
+import { ConversationThread } from '../messages/ConversationThread';
 import { MemberForm } from './MemberForm';
+import { InstallmentSchedule } from './InstallmentSchedule';
+import { PaymentStatusBadge } from '../payments/PaymentStatusBadge';
+import { ReceiptActions } from '../payments/ReceiptActions';
 import { useToast } from '@/hooks/use-toast';
 
 export function MemberProfile() {
@@ -23,7 +34,10 @@ export function MemberProfile() {
   
   const { members, updateMember } = useMembersStore();
   const { payments, getPaymentsByMember } = usePaymentsStore();
-  const { createMessage } = useMessagesStore();
+  const { messages, createMessage } = useMessagesStore();
+  const { installments } = useInstallmentsStore();
+  const { settings } = useSettingsStore();
+  const { can } = useAuthStore();
   
   const [member, setMember] = useState<Member | null>(null);
   const [memberPayments, setMemberPayments] = useState<Payment[]>([]);
@@ -59,9 +73,13 @@ export function MemberProfile() {
     );
   }
 
-  const lastPaymentDate = getLastPaymentDate(memberPayments);
-  const nextDueDate = getNextDueDate(member, lastPaymentDate);
-  const paymentStatus = getPaymentStatus(member, memberPayments);
+  const memberInstallments = installments.filter(i => i.member_id === member.id);
+  const nextDue = getNextDueInstallment(memberInstallments);
+  const paymentStatus = getPaymentStatus(memberInstallments);
+  const balance = getMemberBalance(memberInstallments, memberPayments);
+  const lastOpened = messages
+    .filter(m => m.member_id === member.id && m.opened_at)
+    .reduce<string | undefined>((latest, m) => (!latest || m.opened_at > latest ? m.opened_at : latest), undefined);
 
   const handleToggleActive = async () => {
     try {
@@ -79,16 +97,43 @@ export function MemberProfile() {
     }
   };
 
+  // Opting back in is a staff decision, so the date the member left is kept until then
+  const handleToggleOptOut = async (channel: 'email' | 'sms', receives: boolean) => {
+    const field = channel === 'email' ? 'email_opt_out_at' : 'sms_opt_out_at';
+    try {
+      await updateMember(member.id, { [field]: receives ? undefined : new Date().toISOString() });
+      toast({
+        title: receives ? 'Opted back in' : 'Opted out',
+        description: `${member.full_name} will ${receives ? 'now' : 'no longer'} receive ${channel === 'email' ? 'email' : 'SMS'} messages.`
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update contact preferences.',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const handleSendReminder = async () => {
+    if (!nextDue) return;
     try {
-      await createMessage({
-        member_id: member.id,
+      const reminders = buildMemberMessages(member, {
         message_type: 'reminder',
         message_subject: 'Payment Reminder',
-        message_content: `Dear ${member.full_name}, your membership contribution of ${formatCurrency(member.payment_amount)} is due on ${formatDate(nextDueDate)}. Please make your payment to continue supporting our cause.`,
-        sent_at: new Date().toISOString(),
-        channel: 'email'
-      });
+        message_content: `Dear ${member.full_name}, your membership contribution of ${formatCurrency(getOutstandingAmount(nextDue))} is due on ${formatDate(nextDue.due_date)}. Please make your payment to continue supporting our cause.`,
+      }, new Date().toISOString(), settings?.sms_country_code);
+      if (reminders.length === 0) {
+        toast({
+          title: 'No way to reach member',
+          description: `${member.full_name} has no usable email address or phone number.`,
+          variant: 'destructive'
+        });
+        return;
+      }
+      for (const messageData of reminders) {
+        await createMessage(messageData);
+      }
       
       toast({
         title: 'Reminder sent',
@@ -107,6 +152,8 @@ export function MemberProfile() {
     switch (paymentStatus) {
       case 'current':
         return <Badge variant="default" className="bg-green-100 text-green-800">Current</Badge>;
+      case 'partially_paid':
+        return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Partially Paid</Badge>;
       case 'due_soon':
         return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Due Soon</Badge>;
       case 'overdue':
@@ -221,7 +268,21 @@ export function MemberProfile() {
               <div className="flex items-center gap-3">
                 <Mail className="h-4 w-4 text-muted-foreground" />
                 <span>{member.email}</span>
+                {member.email_invalid_at && (
+                  <Badge
+                    variant="destructive"
+                    title={`${member.email_invalid_reason ?? 'Hard bounce'} (${formatDate(member.email_invalid_at)})`}
+                  >
+                    Email invalid
+                  </Badge>
+                )}
               </div>
+              {member.email_invalid_at && (
+                <p className="text-xs text-muted-foreground">
+                  Bounced on {formatDate(member.email_invalid_at)}: {member.email_invalid_reason ?? 'address does not exist'}.
+                  Emails are skipped until the address is changed.
+                </p>
+              )}
               {member.location && (
                 <div className="flex items-center gap-3">
                   <MapPin className="h-4 w-4 text-muted-foreground" />
@@ -234,6 +295,32 @@ export function MemberProfile() {
                   <p className="text-sm text-muted-foreground">{member.address}</p>
                 </div>
               )}
+              <Separator />
+              <div className="space-y-3">
+                <h4 className="font-medium">Messages</h4>
+                {(['email', 'sms'] as const).map(channel => {
+                  const optedOutAt = channel === 'email' ? member.email_opt_out_at : member.sms_opt_out_at;
+                  return (
+                    <div key={channel} className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor={`receives_${channel}`}>{channel === 'email' ? 'Receives email' : 'Receives SMS'}</Label>
+                        {optedOutAt && (
+                          <p className="text-xs text-muted-foreground">Opted out {formatDate(optedOutAt)}</p>
+                        )}
+                      </div>
+                      <Switch
+                        id={`receives_${channel}`}
+                        checked={!optedOutAt}
+                        onCheckedChange={(receives) => handleToggleOptOut(channel, receives)}
+                        disabled={!can('members.edit')}
+                      />
+                    </div>
+                  );
+                })}
+                {lastOpened && (
+                  <p className="text-xs text-muted-foreground">Last opened an email {formatDate(lastOpened)}</p>
+                )}
+              </div>
             </CardContent>
           </Card>
 
@@ -260,7 +347,7 @@ export function MemberProfile() {
               </div>
               <div>
                 <label className="font-medium">Next Due Date</label>
-                <p>{formatDate(nextDueDate)}</p>
+                <p>{nextDue ? formatDate(nextDue.due_date) : 'Nothing scheduled'}</p>
               </div>
               <div>
                 <label className="font-medium">Preferred Contact</label>
@@ -268,10 +355,43 @@ export function MemberProfile() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Balance</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="font-medium">Owed Now</label>
+                <p className={`text-lg ${balance.owed > 0 ? 'text-destructive' : ''}`}>{formatCurrency(balance.owed)}</p>
+              </div>
+              <div>
+                <label className="font-medium">Left on Next Installment</label>
+                <p>
+                  {nextDue
+                    ? `${formatCurrency(balance.remaining)} of ${formatCurrency(nextDue.expected_amount)}`
+                    : 'Nothing scheduled'}
+                </p>
+              </div>
+              <div>
+                <label className="font-medium">Paid to Date</label>
+                <p>{formatCurrency(balance.paid)}</p>
+              </div>
+              <div>
+                <label className="font-medium">Credit on Account</label>
+                <p className={balance.credit > 0 ? 'text-green-700' : ''}>{formatCurrency(balance.credit)}</p>
+                {balance.credit > 0 && (
+                  <p className="text-xs text-muted-foreground">Applied to upcoming installments as they fall due.</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
-        {/* Payment History */}
-        <div className="lg:col-span-2">
+        {/* Schedule, Payment History and Conversation */}
+        <div className="lg:col-span-2 space-y-6">
+          <InstallmentSchedule installments={memberInstallments} />
+
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>Payment History</CardTitle>
@@ -279,7 +399,7 @@ export function MemberProfile() {
                 variant="outline" 
                 size="sm"
                 onClick={handleSendReminder}
-                disabled={paymentStatus === 'current'}
+                disabled={!nextDue || paymentStatus === 'current'}
               >
                 <Send className="mr-2 h-4 w-4" />
                 Send Reminder
@@ -305,19 +425,17 @@ export function MemberProfile() {
                           </div>
                           <div className="flex flex-col">
                             <span className="text-sm capitalize">{payment.payment_method}</span>
-                            <Badge 
-                              variant={payment.status === 'paid' ? 'default' : 'destructive'}
-                              className="w-fit"
-                            >
-                              {payment.status}
-                            </Badge>
+                            <PaymentStatusBadge payment={payment} className="w-fit" />
                           </div>
                         </div>
-                        {payment.notes && (
-                          <div className="text-sm text-muted-foreground max-w-xs">
-                            {payment.notes}
-                          </div>
-                        )}
+                        <div className="flex items-center gap-4">
+                          {(payment.reversal_reason || payment.notes) && (
+                            <div className="text-sm text-muted-foreground max-w-xs">
+                              {payment.reversal_reason || payment.notes}
+                            </div>
+                          )}
+                          <ReceiptActions payment={payment} />
+                        </div>
                       </div>
                       {index < memberPayments.length - 1 && <Separator className="my-2" />}
                     </div>
@@ -326,6 +444,8 @@ export function MemberProfile() {
               )}
             </CardContent>
           </Card>
+
+          <ConversationThread member={member} />
         </div>
       </div>
     </div>
@@ -9,7 +9,10 @@ import {
   Mail,
   AlertCircle,
   CheckCircle,
-  Clock
+  CircleDollarSign,
+  Clock,
+  Filter,
+  Pencil
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -20,9 +23,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useMembersStore } from '@/store/membersStore';
 import { usePaymentsStore } from '@/store/paymentsStore';
-import { Member } from '@/types';
-import { formatCurrency, formatDate, getPaymentStatus, getNextDueDate, getLastPaymentDate } from '@/utils/dateUtils';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { useAuthStore } from '@/store/authStore';
+import { Member, MemberSegment } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { getPaymentStatus, getNextDueDate, getMemberBalance, MemberBalance } from '@/utils/scheduleUtils';
 import { searchMembers } from '@/utils/searchUtils';
+import { describeSegment, getSegmentMembers } from '@/utils/segmentUtils';
+import { SegmentBuilder } from './SegmentBuilder';
 
 interface MemberTableProps {
   onEditMember: (member: Member) => void;
@@ -34,12 +45,21 @@ interface MemberTableProps {
 export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSendMessage }: MemberTableProps) {
   const { members } = useMembersStore();
   const { payments } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
+  const { messages } = useMessagesStore();
+  const { settings } = useSettingsStore();
+  const { segments } = useSegmentsStore();
+  const { can } = useAuthStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [frequencyFilter, setFrequencyFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [locationFilter, setLocationFilter] = useState<string>('all');
+  const [segmentFilter, setSegmentFilter] = useState<string>('all');
+  const [editingSegment, setEditingSegment] = useState<MemberSegment | null>(null);
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
+  const activeSegment = segments.find(s => s.id === segmentFilter);
 
   const uniqueLocations = useMemo(() => {
     const locations = members
@@ -49,12 +69,23 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
     return ['all', ...locations];
   }, [members]);
 
+  const balances = useMemo(() => {
+    const map = new Map<string, MemberBalance>();
+    members.forEach(m => map.set(m.id, getMemberBalance(
+      installments.filter(i => i.member_id === m.id),
+      payments.filter(p => p.member_id === m.id)
+    )));
+    return map;
+  }, [members, installments, payments]);
+
   const filteredMembers = useMemo(() => {
-    let filtered = members;
+    let filtered = activeSegment
+      ? getSegmentMembers(activeSegment, members, { payments, installments, messages })
+      : members;
 
     // Search filter
     if (searchTerm) {
-      const searchResults = searchMembers(members, searchTerm);
+      const searchResults = searchMembers(filtered, searchTerm);
       filtered = searchResults.map(result => result.member);
     }
 
@@ -74,19 +105,21 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
         if (statusFilter === 'active') return m.active;
         if (statusFilter === 'inactive') return !m.active;
         
-        const memberPayments = payments.filter(p => p.member_id === m.id);
-        const paymentStatus = getPaymentStatus(m, memberPayments);
+        const memberInstallments = installments.filter(i => i.member_id === m.id);
+        const paymentStatus = getPaymentStatus(memberInstallments);
         
         if (statusFilter === 'current') return paymentStatus === 'current';
+        if (statusFilter === 'partially_paid') return paymentStatus === 'partially_paid';
         if (statusFilter === 'due_soon') return paymentStatus === 'due_soon';
         if (statusFilter === 'overdue') return paymentStatus === 'overdue';
+        if (statusFilter === 'in_credit') return (balances.get(m.id)?.credit ?? 0) > 0;
         
         return true;
       });
     }
 
     return filtered;
-  }, [members, payments, searchTerm, frequencyFilter, statusFilter, locationFilter]);
+  }, [members, payments, installments, messages, balances, activeSegment, searchTerm, frequencyFilter, statusFilter, locationFilter]);
 
   const paginatedMembers = useMemo(() => {
     const startIndex = (currentPage - 1) * itemsPerPage;
@@ -95,34 +128,55 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
 
   const totalPages = Math.ceil(filteredMembers.length / itemsPerPage);
 
+  const openBuilder = (segment: MemberSegment | null) => {
+    setEditingSegment(segment);
+    setIsBuilderOpen(true);
+  };
+
   const getStatusBadge = (member: Member) => {
     if (!member.active) {
       return <Badge variant="secondary">Inactive</Badge>;
     }
     
-    const memberPayments = payments.filter(p => p.member_id === member.id);
-    const status = getPaymentStatus(member, memberPayments);
+    const memberInstallments = installments.filter(i => i.member_id === member.id);
+    const status = getPaymentStatus(memberInstallments);
+    const balance = balances.get(member.id);
+    const creditBadge = balance && balance.credit > 0 && (
+      <Badge variant="outline" className="border-green-300 text-green-800 dark:text-green-200">
+        {formatCurrency(balance.credit)} credit
+      </Badge>
+    );
     
     switch (status) {
       case 'current':
         return (
-          <Badge variant="default" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
-            <CheckCircle className="w-3 h-3 mr-1" />
-            Current
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="default" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Current
+            </Badge>
+            {creditBadge}
+          </div>
+        );
+      case 'partially_paid':
+        return (
+          <Badge variant="default" className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+            <CircleDollarSign className="w-3 h-3 mr-1" />
+            {formatCurrency(balance?.remaining ?? 0)} left
           </Badge>
         );
       case 'due_soon':
         return (
           <Badge variant="default" className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
             <Clock className="w-3 h-3 mr-1" />
-            Due Soon
+            Due Soon · {formatCurrency(balance?.remaining ?? 0)}
           </Badge>
         );
       case 'overdue':
         return (
           <Badge variant="destructive">
             <AlertCircle className="w-3 h-3 mr-1" />
-            Overdue
+            Overdue · {formatCurrency(balance?.owed ?? 0)}
           </Badge>
         );
       default:
@@ -131,10 +185,8 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
   };
 
   const getNextDue = (member: Member) => {
-    const memberPayments = payments.filter(p => p.member_id === member.id);
-    const lastPayment = getLastPaymentDate(memberPayments);
-    const nextDue = getNextDueDate(member, lastPayment);
-    return formatDate(nextDue);
+    const nextDue = getNextDueDate(installments.filter(i => i.member_id === member.id));
+    return nextDue ? formatDate(nextDue) : '—';
   };
 
   return (
@@ -176,8 +228,10 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
                 <SelectItem value="active">Active</SelectItem>
                 <SelectItem value="inactive">Inactive</SelectItem>
                 <SelectItem value="current">Current</SelectItem>
+                <SelectItem value="partially_paid">Partially Paid</SelectItem>
                 <SelectItem value="due_soon">Due Soon</SelectItem>
                 <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="in_credit">In Credit</SelectItem>
               </SelectContent>
             </Select>
             
@@ -193,8 +247,40 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
                 ))}
               </SelectContent>
             </Select>
+
+            <Select
+              value={activeSegment ? segmentFilter : 'all'}
+              onValueChange={(value) => {
+                setSegmentFilter(value);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <Filter className="w-3 h-3 mr-1" />
+                <SelectValue placeholder="Segment" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Members</SelectItem>
+                {segments.map(segment => (
+                  <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {can('segments.manage') && (
+              activeSegment ? (
+                <Button variant="outline" size="icon" onClick={() => openBuilder(activeSegment)} title="Edit segment">
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => openBuilder(null)}>New Segment</Button>
+              )
+            )}
           </div>
         </div>
+        {activeSegment && (
+          <p className="text-sm text-muted-foreground">{describeSegment(activeSegment, settings?.default_currency)}</p>
+        )}
       </CardHeader>
       
       <CardContent>
@@ -256,25 +342,33 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => onEditMember(member)}>
-                        <Edit className="w-4 h-4 mr-2" />
-                        Edit
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => onAddPayment(member)}>
-                        <DollarSign className="w-4 h-4 mr-2" />
-                        Add Payment
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => onSendMessage(member)}>
-                        <MessageSquare className="w-4 h-4 mr-2" />
-                        Send Message
-                      </DropdownMenuItem>
-                      <DropdownMenuItem 
-                        onClick={() => onDeleteMember(member)}
-                        className="text-destructive"
-                      >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Delete
-                      </DropdownMenuItem>
+                      {can('members.edit') && (
+                        <DropdownMenuItem onClick={() => onEditMember(member)}>
+                          <Edit className="w-4 h-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                      )}
+                      {can('payments.create') && (
+                        <DropdownMenuItem onClick={() => onAddPayment(member)}>
+                          <DollarSign className="w-4 h-4 mr-2" />
+                          Add Payment
+                        </DropdownMenuItem>
+                      )}
+                      {can('messages.send') && (
+                        <DropdownMenuItem onClick={() => onSendMessage(member)}>
+                          <MessageSquare className="w-4 h-4 mr-2" />
+                          Send Message
+                        </DropdownMenuItem>
+                      )}
+                      {can('members.delete') && (
+                        <DropdownMenuItem 
+                          onClick={() => onDeleteMember(member)}
+                          className="text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
@@ -337,6 +431,16 @@ export function MemberTable({ onEditMember, onDeleteMember, onAddPayment, onSend
           </div>
         )}
       </CardContent>
+
+      <SegmentBuilder
+        segment={editingSegment}
+        open={isBuilderOpen}
+        onOpenChange={setIsBuilderOpen}
+        onSaved={(segment) => {
+          setSegmentFilter(segment?.id ?? 'all');
+          setCurrentPage(1);
+        }}
+      />
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { useMembersStore } from '@/store/membersStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useAuthStore } from '@/store/authStore';
+import { useToast } from '@/hooks/use-toast';
+import { MemberSegment, SegmentCondition, SegmentField } from '@/types';
+import {
+  FREQUENCY_LABELS,
+  PAYMENT_METHOD_LABELS,
+  SEGMENT_FIELD_LABELS,
+  getConditionIssue,
+  getDefaultCondition,
+  getSegmentMembers,
+} from '@/utils/segmentUtils';
+
+const FIELDS = Object.keys(SEGMENT_FIELD_LABELS) as SegmentField[];
+
+interface SegmentBuilderProps {
+  segment?: MemberSegment | null; // a new segment when not given
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (segment: MemberSegment | null) => void; // null after a delete
+}
+
+// Blank numbers are left out of a condition rather than read as 0
+const toOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+export function SegmentBuilder({ segment, open, onOpenChange, onSaved }: SegmentBuilderProps) {
+  const { saveSegment, deleteSegment } = useSegmentsStore();
+  const { members } = useMembersStore();
+  const { payments } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
+  const { messages } = useMessagesStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [match, setMatch] = useState<MemberSegment['match']>('all');
+  const [conditions, setConditions] = useState<SegmentCondition[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const canEdit = can('segments.manage');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(segment?.name ?? '');
+    setMatch(segment?.match ?? 'all');
+    setConditions(segment?.conditions ?? [getDefaultCondition('active')]);
+  }, [open, segment]);
+
+  const locations = useMemo(() => [...new Set(members
+    .map(m => m.location)
+    .filter((location): location is string => Boolean(location)))].sort(), [members]);
+  const issues = conditions.map(getConditionIssue).filter((issue): issue is string => !!issue);
+
+  const matching = useMemo(() => {
+    if (issues.length > 0) return null;
+    const draft: MemberSegment = { id: '', name, match, conditions, created_at: '', updated_at: '' };
+    return getSegmentMembers(draft, members, { payments, installments, messages }).length;
+  }, [issues.length, name, match, conditions, members, payments, installments, messages]);
+
+  const updateCondition = (index: number, condition: SegmentCondition) => {
+    setConditions(current => current.map((c, i) => i === index ? condition : c));
+  };
+
+  const toggleValue = <T extends string>(values: T[], value: T, checked: boolean): T[] =>
+    checked ? [...values, value] : values.filter(v => v !== value);
+
+  // Closes the dialog once the segment is saved or deleted (null)
+  const save = async (action: () => Promise<MemberSegment | null>, title: string) => {
+    setIsSaving(true);
+    try {
+      const saved = await action();
+      toast({ title });
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save the segment.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || conditions.length === 0 || issues.length > 0) {
+      toast({
+        title: 'Segment incomplete',
+        description: !name.trim() ? 'Give the segment a name.' : issues[0] ?? 'Add at least one condition.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await save(() => saveSegment({ id: segment?.id, name: name.trim(), match, conditions }), `${name.trim()} saved`);
+  };
+
+  const handleDelete = async () => {
+    if (!segment || !confirm(`Delete the ${segment.name} segment?`)) return;
+    await save(async () => {
+      await deleteSegment(segment.id);
+      return null;
+    }, `${segment.name} deleted`);
+  };
+
+  const renderEditor = (condition: SegmentCondition, index: number) => {
+    switch (condition.field) {
+      case 'location':
+        return locations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No member has a location yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {locations.map(location => (
+              <label key={location} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={condition.values.includes(location)}
+                  onCheckedChange={(checked) => updateCondition(index, { ...condition, values: toggleValue(condition.values, location, checked === true) })}
+                />
+                {location}
+              </label>
+            ))}
+          </div>
+        );
+      case 'payment_frequency':
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {(Object.keys(FREQUENCY_LABELS) as (keyof typeof FREQUENCY_LABELS)[]).map(value => (
+              <label key={value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={condition.values.includes(value)}
+                  onCheckedChange={(checked) => updateCondition(index, { ...condition, values: toggleValue(condition.values, value, checked === true) })}
+                />
+                {FREQUENCY_LABELS[value]}
+              </label>
+            ))}
+          </div>
+        );
+      case 'payment_method':
+        return (
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {(Object.keys(PAYMENT_METHOD_LABELS) as (keyof typeof PAYMENT_METHOD_LABELS)[]).map(value => (
+              <label key={value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={condition.values.includes(value)}
+                  onCheckedChange={(checked) => updateCondition(index, { ...condition, values: toggleValue(condition.values, value, checked === true) })}
+                />
+                {PAYMENT_METHOD_LABELS[value]}
+              </label>
+            ))}
+          </div>
+        );
+      case 'active':
+        return (
+          <Select value={condition.value ? 'active' : 'inactive'} onValueChange={(value) => updateCondition(index, { ...condition, value: value === 'active' })}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="inactive">Inactive</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+      case 'created_at':
+        return (
+          <div className="flex items-center gap-2 text-sm">
+            <Input type="date" className="w-40" value={condition.from ?? ''} onChange={(e) => updateCondition(index, { ...condition, from: e.target.value || undefined })} />
+            to
+            <Input type="date" className="w-40" value={condition.to ?? ''} onChange={(e) => updateCondition(index, { ...condition, to: e.target.value || undefined })} />
+          </div>
+        );
+      case 'overdue_days':
+        return (
+          <div className="flex items-center gap-2 text-sm">
+            by more than
+            <Input
+              type="number"
+              min={0}
+              className="w-24"
+              value={condition.days}
+              onChange={(e) => updateCondition(index, { ...condition, days: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+            />
+            days
+          </div>
+        );
+      case 'lifetime_total':
+        return (
+          <div className="flex items-center gap-2 text-sm">
+            at least
+            <Input type="number" min={0} className="w-28" value={condition.min ?? ''} onChange={(e) => updateCondition(index, { ...condition, min: toOptionalNumber(e.target.value) })} />
+            at most
+            <Input type="number" min={0} className="w-28" value={condition.max ?? ''} onChange={(e) => updateCondition(index, { ...condition, max: toOptionalNumber(e.target.value) })} />
+          </div>
+        );
+      case 'last_payment_before':
+        return (
+          <Input
+            type="date"
+            className="w-40"
+            value={condition.date}
+            onChange={(e) => e.target.value && updateCondition(index, { ...condition, date: e.target.value })}
+          />
+        );
+      case 'never_messaged':
+        return <p className="text-sm text-muted-foreground">No message has been logged for the member.</p>;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment ? `Edit ${segment.name}` : 'New Segment'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="segment_name">Name</Label>
+              <Input id="segment_name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Lapsed monthly donors" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment_match">Members who match</Label>
+              <Select value={match} onValueChange={(value) => setMatch(value as MemberSegment['match'])}>
+                <SelectTrigger id="segment_match">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All of the conditions</SelectItem>
+                  <SelectItem value="any">Any of the conditions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex items-start gap-3 rounded-md border p-3">
+                <Select value={condition.field} onValueChange={(value) => updateCondition(index, getDefaultCondition(value as SegmentField))}>
+                  <SelectTrigger className="w-44 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELDS.map(field => (
+                      <SelectItem key={field} value={field}>{SEGMENT_FIELD_LABELS[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex-1 pt-2">{renderEditor(condition, index)}</div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setConditions(current => current.filter((_, i) => i !== index))}
+                  title="Remove condition"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setConditions(current => [...current, getDefaultCondition('location')])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Condition
+            </Button>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {matching === null ? issues[0] : `${matching} ${matching === 1 ? 'member matches' : 'members match'} today.`}
+            {' '}Segments are worked out again each time they are used.
+          </p>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div>
+            {segment && (
+              <Button variant="outline" className="text-destructive" onClick={handleDelete} disabled={!canEdit || isSaving}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!canEdit || isSaving}>Save Segment</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
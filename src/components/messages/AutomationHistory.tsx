@@ -0,0 +1,100 @@
+import { useEffect } from 'react';
+import { Play } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAutomationStore } from '@/store/automationStore';
+import { useAuthStore } from '@/store/authStore';
+import { AUTOMATION_RULE_LABELS } from '@/automation/automationRules';
+import { formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+
+const RUN_TIME_FORMAT = 'MMM dd, yyyy HH:mm';
+
+// What each automation run sent, rule by rule
+export function AutomationHistory() {
+  const { runs, isRunning, fetchRuns, runAutomation } = useAutomationStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const handleRun = async () => {
+    try {
+      await runAutomation('manual');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to run automation.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Automation Runs</CardTitle>
+          <CardDescription>Scheduled runs are listed when they sent something or hit an error.</CardDescription>
+        </div>
+        <Button onClick={handleRun} disabled={isRunning || !can('messages.bulk_send')}>
+          <Play className="w-4 h-4 mr-2" />
+          {isRunning ? 'Running...' : 'Run Now'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {runs.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No automation runs yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Trigger</TableHead>
+                <TableHead>What happened</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="align-top text-sm whitespace-nowrap">{formatDate(run.started_at, RUN_TIME_FORMAT)}</TableCell>
+                  <TableCell className="align-top">
+                    <Badge variant="outline" className="capitalize">{run.trigger}</Badge>
+                  </TableCell>
+                  <TableCell className="space-y-3 text-sm">
+                    {run.results.length === 0 && <div className="text-muted-foreground">No rules were turned on</div>}
+                    {run.results.map(result => (
+                      <div key={result.rule} className="space-y-1">
+                        <div className="font-medium">
+                          {AUTOMATION_RULE_LABELS[result.rule].name}: {result.sent.length} sent
+                          <span className="font-normal text-muted-foreground">
+                            {result.already_sent > 0 && ` · ${result.already_sent} already sent`}
+                            {result.unreachable > 0 && ` · ${result.unreachable} with no usable email or phone`}
+                          </span>
+                        </div>
+                        {result.sent.map(recipient => (
+                          <div key={recipient.member_id} className="text-muted-foreground">
+                            {recipient.member_name}: {recipient.detail}
+                          </div>
+                        ))}
+                        {result.failed.map(recipient => (
+                          <div key={recipient.member_id} className="text-destructive">
+                            {recipient.member_name}: {recipient.error}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
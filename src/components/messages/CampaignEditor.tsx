@@ -0,0 +1,333 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCampaignsStore } from '@/store/campaignsStore';
+import { useMembersStore } from '@/store/membersStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { NewsletterCampaign, NewsletterCampaignInput } from '@/types';
+import { validateMessageTemplate } from '@/utils/templateUtils';
+import { countSmsSegments } from '@/utils/smsUtils';
+import {
+  DEFAULT_DONATION_WINDOW_DAYS,
+  DEFAULT_TEST_PERCENT,
+  DEFAULT_TEST_WAIT_HOURS,
+  getCampaignAudience,
+} from '@/campaigns/campaignUtils';
+import { useToast } from '@/hooks/use-toast';
+import { TemplatePreview } from './TemplatePreview';
+import { TemplateVariables } from './TemplateVariables';
+
+interface CampaignEditorProps {
+  campaign: NewsletterCampaign | null; // null for a new campaign
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_MEMBERS = 'all';
+
+interface CampaignDraft {
+  name: string;
+  segment_id: string; // ALL_MEMBERS for every active member
+  subject: string;
+  content: string;
+  sms_content: string;
+  ab_enabled: boolean;
+  subject_b: string;
+  test_percent: number;
+  wait_hours: number;
+  donation_window_days: number;
+  scheduled_at: string; // datetime-local value, empty for a draft
+}
+
+const EMPTY_DRAFT: CampaignDraft = {
+  name: '',
+  segment_id: ALL_MEMBERS,
+  subject: '',
+  content: '',
+  sms_content: '',
+  ab_enabled: false,
+  subject_b: '',
+  test_percent: DEFAULT_TEST_PERCENT,
+  wait_hours: DEFAULT_TEST_WAIT_HOURS,
+  donation_window_days: DEFAULT_DONATION_WINDOW_DAYS,
+  scheduled_at: '',
+};
+
+const toLocalInput = (iso?: string) => iso ? format(parseISO(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+function toDraft(campaign: NewsletterCampaign): CampaignDraft {
+  return {
+    name: campaign.name,
+    segment_id: campaign.segment_id ?? ALL_MEMBERS,
+    subject: campaign.subject,
+    content: campaign.content,
+    sms_content: campaign.sms_content ?? '',
+    ab_enabled: !!campaign.ab_test,
+    subject_b: campaign.ab_test?.subject_b ?? '',
+    test_percent: campaign.ab_test?.test_percent ?? DEFAULT_TEST_PERCENT,
+    wait_hours: campaign.ab_test?.wait_hours ?? DEFAULT_TEST_WAIT_HOURS,
+    donation_window_days: campaign.donation_window_days,
+    scheduled_at: toLocalInput(campaign.scheduled_at),
+  };
+}
+
+function toInput(draft: CampaignDraft): NewsletterCampaignInput {
+  return {
+    name: draft.name,
+    segment_id: draft.segment_id === ALL_MEMBERS ? undefined : draft.segment_id,
+    subject: draft.subject,
+    content: draft.content,
+    sms_content: draft.sms_content,
+    ab_test: draft.ab_enabled
+      ? { subject_b: draft.subject_b, test_percent: draft.test_percent, wait_hours: draft.wait_hours }
+      : undefined,
+    scheduled_at: draft.scheduled_at ? new Date(draft.scheduled_at).toISOString() : undefined,
+    donation_window_days: draft.donation_window_days,
+  };
+}
+
+const toWholeNumber = (value: string, min: number, max: number) => Math.min(max, Math.max(min, Math.floor(Number(value) || 0)));
+
+export function CampaignEditor({ campaign, open, onOpenChange }: CampaignEditorProps) {
+  const { saveCampaign } = useCampaignsStore();
+  const { members } = useMembersStore();
+  const { payments } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
+  const { messages } = useMessagesStore();
+  const { settings } = useSettingsStore();
+  const { segments } = useSegmentsStore();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CampaignDraft>(EMPTY_DRAFT);
+  const [previewMemberId, setPreviewMemberId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(campaign ? toDraft(campaign) : EMPTY_DRAFT);
+  }, [open, campaign]);
+
+  const issues = useMemo(() => {
+    const found = validateMessageTemplate(draft).map(issue => issue.message);
+    if (draft.ab_enabled) {
+      if (!draft.subject_b.trim()) found.push('Subject B: give a second subject to test against the first.');
+      found.push(...validateMessageTemplate({ subject: draft.subject_b, content: '' }).map(issue => issue.message.replace('Subject', 'Subject B')));
+    }
+    if (draft.scheduled_at && new Date(draft.scheduled_at) <= new Date()) found.push('The send time is in the past.');
+    return found;
+  }, [draft]);
+
+  // Worked out again when each stage is sent, so this is only today's count
+  const audienceCount = useMemo(() => {
+    const input = toInput(draft);
+    try {
+      return getCampaignAudience({ ...input, id: '', status: 'draft', recipient_count: 0, created_at: '', updated_at: '' } as NewsletterCampaign,
+        members, { payments, installments, messages, segments }).length;
+    } catch {
+      return 0;
+    }
+  }, [draft, members, payments, installments, messages, segments]);
+
+  const previewMember = members.find(m => m.id === previewMemberId) ?? members.find(m => m.active) ?? members[0];
+  const smsInfo = countSmsSegments(draft.sms_content || draft.content);
+
+  const setField = <K extends keyof CampaignDraft>(key: K, value: CampaignDraft[K]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveCampaign({ ...toInput(draft), id: campaign?.id });
+      toast({
+        title: saved.status === 'scheduled' ? 'Campaign scheduled' : 'Campaign saved',
+        description: saved.scheduled_at
+          ? `"${saved.name}" goes out ${format(parseISO(saved.scheduled_at), 'MMM dd, yyyy HH:mm')}.`
+          : `"${saved.name}" is saved as a draft.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save campaign.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{campaign ? `Edit ${campaign.name}` : 'New campaign'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="campaign_name">Name *</Label>
+              <Input id="campaign_name" value={draft.name} onChange={(e) => setField('name', e.target.value)} placeholder="e.g. Spring newsletter" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign_audience">Audience</Label>
+              <Select value={draft.segment_id} onValueChange={(value) => setField('segment_id', value)}>
+                <SelectTrigger id="campaign_audience">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_MEMBERS}>All active members</SelectItem>
+                  {segments.map(segment => (
+                    <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {audienceCount} {audienceCount === 1 ? 'member' : 'members'} today
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign_subject">{draft.ab_enabled ? 'Subject A' : 'Subject'}</Label>
+            <Input id="campaign_subject" value={draft.subject} onChange={(e) => setField('subject', e.target.value)} />
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Switch id="campaign_ab" checked={draft.ab_enabled} onCheckedChange={(checked) => setField('ab_enabled', checked)} />
+              <Label htmlFor="campaign_ab">Test two subjects first</Label>
+            </div>
+            {draft.ab_enabled && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_subject_b">Subject B</Label>
+                  <Input id="campaign_subject_b" value={draft.subject_b} onChange={(e) => setField('subject_b', e.target.value)} />
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  Send to
+                  <Input
+                    type="number"
+                    min={1}
+                    max={50}
+                    className="w-20"
+                    value={draft.test_percent}
+                    onChange={(e) => setField('test_percent', toWholeNumber(e.target.value, 1, 50))}
+                  />
+                  % of the audience, wait
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    value={draft.wait_hours}
+                    onChange={(e) => setField('wait_hours', toWholeNumber(e.target.value, 1, 168))}
+                  />
+                  hours, then send the subject with more opens to everyone else.
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign_content">Message</Label>
+            <Textarea
+              id="campaign_content"
+              rows={8}
+              className="font-mono text-sm"
+              value={draft.content}
+              onChange={(e) => setField('content', e.target.value)}
+            />
+            <TemplateVariables />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaign_sms">SMS Text</Label>
+            <Textarea
+              id="campaign_sms"
+              rows={3}
+              className="font-mono text-sm"
+              value={draft.sms_content}
+              placeholder="Leave empty to send the message as the text"
+              onChange={(e) => setField('sms_content', e.target.value)}
+            />
+            <div className="text-xs text-muted-foreground">
+              About {smsInfo.length} characters before variables are filled in · {smsInfo.segments} {smsInfo.segments === 1 ? 'segment' : 'segments'} ({smsInfo.encoding})
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="campaign_scheduled_at">Send at</Label>
+              <Input
+                id="campaign_scheduled_at"
+                type="datetime-local"
+                value={draft.scheduled_at}
+                onChange={(e) => setField('scheduled_at', e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to keep it as a draft.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign_window">Count donations for</Label>
+              <div className="flex items-center gap-2 text-sm">
+                <Input
+                  id="campaign_window"
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  value={draft.donation_window_days}
+                  onChange={(e) => setField('donation_window_days', toWholeNumber(e.target.value, 1, 365))}
+                />
+                days after sending
+              </div>
+            </div>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="space-y-1 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+              {issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+
+          {previewMember && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base">Preview</CardTitle>
+                <Select value={previewMember.id} onValueChange={setPreviewMemberId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map(member => (
+                      <SelectItem key={member.id} value={member.id}>{member.full_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <TemplatePreview template={draft} member={previewMember} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !draft.name.trim() || issues.length > 0}>
+            {draft.scheduled_at ? 'Schedule Campaign' : 'Save Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Ban, Pencil, Plus, Send } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCampaignsStore } from '@/store/campaignsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { useAuthStore } from '@/store/authStore';
+import { NewsletterCampaign } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { CAMPAIGN_STATUS_LABELS, getCampaignStats, getVariantResults, isEditable } from '@/campaigns/campaignUtils';
+import { useToast } from '@/hooks/use-toast';
+import { CampaignEditor } from './CampaignEditor';
+
+const TIME_FORMAT = 'MMM dd, yyyy HH:mm';
+
+const STATUS_VARIANTS: Record<NewsletterCampaign['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  scheduled: 'secondary',
+  testing: 'secondary',
+  sent: 'default',
+  cancelled: 'destructive',
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export function CampaignList() {
+  const { campaigns, sendNow, cancelCampaign } = useCampaignsStore();
+  const { messages } = useMessagesStore();
+  const { payments } = usePaymentsStore();
+  const { settings } = useSettingsStore();
+  const { segments } = useSegmentsStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<NewsletterCampaign | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const canSend = can('messages.bulk_send');
+  const currency = settings?.default_currency;
+
+  const openEditor = (campaign: NewsletterCampaign | null) => {
+    setEditing(campaign);
+    setIsEditorOpen(true);
+  };
+
+  const run = async (campaign: NewsletterCampaign, action: () => Promise<unknown>, title: string) => {
+    setBusyId(campaign.id);
+    try {
+      await action();
+      toast({ title, description: campaign.name });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update campaign.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSendNow = (campaign: NewsletterCampaign) => {
+    const prompt = campaign.status === 'testing'
+      ? `Stop the subject test for ${campaign.name} and send the leading subject to everyone else now?`
+      : `Send ${campaign.name} now?`;
+    if (!confirm(prompt)) return;
+    run(campaign, () => sendNow(campaign.id), campaign.status === 'testing' ? 'Campaign finished' : 'Campaign sent');
+  };
+
+  const handleCancel = (campaign: NewsletterCampaign) => {
+    if (!confirm(`Cancel ${campaign.name}? Messages already queued still go out.`)) return;
+    run(campaign, () => cancelCampaign(campaign.id), 'Campaign cancelled');
+  };
+
+  const describeAudience = (campaign: NewsletterCampaign) => {
+    if (campaign.legacy) return 'All members';
+    if (!campaign.segment_id) return 'All active members';
+    return segments.find(s => s.id === campaign.segment_id)?.name ?? 'Deleted segment';
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Campaigns</CardTitle>
+          <CardDescription>Newsletters sent to all active members or a saved segment, now or at a set time.</CardDescription>
+        </div>
+        <Button onClick={() => openEditor(null)} disabled={!canSend}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Campaign
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {campaigns.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No campaigns yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Audience</TableHead>
+                <TableHead>Send Time</TableHead>
+                <TableHead className="text-right">Recipients</TableHead>
+                <TableHead className="text-right">Delivered</TableHead>
+                <TableHead className="text-right">Opened</TableHead>
+                <TableHead className="text-right">Donations</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map(campaign => {
+                const stats = getCampaignStats(campaign, messages, payments);
+                const hasStats = !campaign.legacy && stats.recipients > 0;
+                const sendTime = campaign.sent_at ?? campaign.test_sent_at ?? campaign.scheduled_at;
+                return (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {campaign.name}
+                        <Badge variant={STATUS_VARIANTS[campaign.status]}>{CAMPAIGN_STATUS_LABELS[campaign.status]}</Badge>
+                      </div>
+                      {campaign.ab_test && (campaign.status === 'testing' || campaign.status === 'sent') && (
+                        <div className="mt-1 space-y-0.5 text-xs font-normal text-muted-foreground">
+                          {getVariantResults(campaign, messages).map(result => (
+                            <p key={result.variant}>
+                              {result.variant.toUpperCase()}: "{result.subject}" · {formatPercent(result.open_rate)} of {result.emailed} opened
+                              {campaign.ab_test?.winner === result.variant && ' · winner'}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      {campaign.legacy && (
+                        <p className="mt-1 text-xs font-normal text-muted-foreground">Logged before campaigns, without per-member results</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeAudience(campaign)}</TableCell>
+                    <TableCell className="text-sm">{sendTime ? formatDate(sendTime, TIME_FORMAT) : '—'}</TableCell>
+                    <TableCell className="text-right">{hasStats ? stats.recipients : '—'}</TableCell>
+                    <TableCell className="text-right">{hasStats ? stats.delivered : '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {hasStats ? `${stats.opened} (${formatPercent(stats.opened / stats.recipients)})` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {hasStats ? (
+                        <div>
+                          <div>{formatCurrency(stats.donations, currency)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {stats.donors} {stats.donors === 1 ? 'donor' : 'donors'} within {campaign.donation_window_days} days
+                          </div>
+                        </div>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        {isEditable(campaign) && (
+                          <Button variant="outline" size="sm" onClick={() => openEditor(campaign)} disabled={!canSend} title="Edit">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {(isEditable(campaign) || campaign.status === 'testing') && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleSendNow(campaign)}
+                              disabled={!canSend || busyId === campaign.id}
+                              title={campaign.status === 'testing' ? 'Send the leading subject now' : 'Send now'}
+                            >
+                              <Send className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleCancel(campaign)}
+                              disabled={!canSend || busyId === campaign.id}
+                              title="Cancel"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CampaignEditor campaign={editing} open={isEditorOpen} onOpenChange={setIsEditorOpen} />
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useInboxStore } from '@/store/inboxStore';
+import { useAuthStore } from '@/store/authStore';
+import { getReplyText } from '@/email/inbound';
+import { CHANNEL_LABELS } from '@/utils/messageUtils';
+import { formatDate } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { InboundMessage, Member, Message } from '@/types';
+
+const UNASSIGNED = 'unassigned';
+const TIME_FORMAT = 'MMM dd, yyyy HH:mm';
+
+type ConversationEntry =
+  | { direction: 'out'; at: string; message: Message }
+  | { direction: 'in'; at: string; message: InboundMessage };
+
+interface ConversationThreadProps {
+  member: Member;
+}
+
+// A member's sent messages and replies in time order. Opening it marks the replies read.
+export function ConversationThread({ member }: ConversationThreadProps) {
+  const { messages } = useMessagesStore();
+  const { inbound, threads, staff, markThreadRead, assignThread } = useInboxStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const canReply = can('messages.send');
+  const thread = threads.find(t => t.member_id === member.id);
+  const replies = inbound.filter(message => message.member_id === member.id);
+  const unread = replies.filter(message => !message.read_at).length;
+
+  const entries: ConversationEntry[] = [
+    ...messages.filter(message => message.member_id === member.id).map((message): ConversationEntry => ({ direction: 'out', at: message.sent_at, message })),
+    ...replies.map((message): ConversationEntry => ({ direction: 'in', at: message.received_at, message })),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  useEffect(() => {
+    if (!canReply || unread === 0) return;
+    markThreadRead(member.id).catch(error => console.error('Failed to mark replies read:', error));
+  }, [canReply, unread, member.id, markThreadRead]);
+
+  const handleAssign = async (value: string) => {
+    try {
+      await assignThread(member.id, value === UNASSIGNED ? null : value);
+      const assignee = staff.find(s => s.id === value);
+      toast({
+        title: assignee ? 'Conversation assigned' : 'Conversation unassigned',
+        description: assignee ? `${assignee.full_name} is now looking after ${member.full_name}.` : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to assign the conversation.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+        <CardTitle>Conversation</CardTitle>
+        <Select value={thread?.assigned_to ?? UNASSIGNED} onValueChange={handleAssign} disabled={!canReply}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {staff.map(person => (
+              <SelectItem key={person.id} value={person.id}>{person.full_name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No messages with this member yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+            {entries.map(entry => (
+              <div
+                key={`${entry.direction}-${entry.message.id}`}
+                className={cn(
+                  'max-w-[85%] rounded-lg border p-3 text-sm',
+                  entry.direction === 'in' ? 'bg-muted' : 'ml-auto bg-primary/5'
+                )}
+              >
+                <div className="mb-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {entry.direction === 'in' ? member.full_name : 'Sent'}
+                  </span>
+                  <Badge variant="outline">{CHANNEL_LABELS[entry.message.channel]}</Badge>
+                  <span>{formatDate(entry.at, TIME_FORMAT)}</span>
+                </div>
+                {entry.direction === 'out' ? (
+                  <>
+                    {entry.message.message_subject && <div className="font-medium">{entry.message.message_subject}</div>}
+                    <p className="whitespace-pre-wrap">{entry.message.message_content}</p>
+                  </>
+                ) : (
+                  <>
+                    {entry.message.subject && <div className="font-medium">{entry.message.subject}</div>}
+                    <p className="whitespace-pre-wrap">{getReplyText(entry.message.body)}</p>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
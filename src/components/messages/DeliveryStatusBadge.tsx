@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge';
+import { Message } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+
+interface DeliveryStatusBadgeProps {
+  message: Message;
+}
+
+// Waiting retries show when the next attempt is due; failures carry the last error as a tooltip.
+// Delivered means the relay or gateway confirmed it, or the member opened it
+export function DeliveryStatusBadge({ message }: DeliveryStatusBadgeProps) {
+  const status = message.delivery_status ?? 'sent';
+  const attempts = message.delivery_attempts ?? 0;
+
+  if (status === 'sent') {
+    return <Badge variant="default" title={message.delivered_at && formatDate(message.delivered_at, 'MMM dd, yyyy HH:mm')}>Sent</Badge>;
+  }
+  if (status === 'delivered') {
+    return <Badge variant="default" title={message.delivered_at && formatDate(message.delivered_at, 'MMM dd, yyyy HH:mm')}>Delivered</Badge>;
+  }
+  if (status === 'failed' || status === 'bounced') {
+    return (
+      <Badge variant="destructive" className="capitalize" title={message.last_error}>
+        {status}
+      </Badge>
+    );
+  }
+  if (status === 'queued' && message.last_error) {
+    return (
+      <Badge variant="secondary" title={message.last_error}>
+        Retrying ({attempts} tried)
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="outline" className="capitalize">
+      {status}
+    </Badge>
+  );
+}
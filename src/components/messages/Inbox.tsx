@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Inbox as InboxIcon } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useInboxStore } from '@/store/inboxStore';
+import { useMembersStore } from '@/store/membersStore';
+import { useAuthStore } from '@/store/authStore';
+import { getReplyText } from '@/email/inbound';
+import { CHANNEL_LABELS } from '@/utils/messageUtils';
+import { formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+import { InboundMessage } from '@/types';
+
+const UNASSIGNED = 'unassigned';
+const TIME_FORMAT = 'MMM dd, yyyy HH:mm';
+
+type InboxFilter = 'all' | 'unread' | 'mine' | 'unassigned';
+
+interface ConversationSummary {
+  member_id: string;
+  latest: InboundMessage;
+  unread: number;
+  assigned_to?: string;
+}
+
+// Member replies grouped into one conversation per member, newest first
+export function Inbox() {
+  const { inbound, threads, staff, isChecking, checkMailbox, linkToMember, assignThread } = useInboxStore();
+  const { members } = useMembersStore();
+  const { user, can } = useAuthStore();
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<InboxFilter>('all');
+  const canReply = can('messages.send');
+
+  const reportError = (error: unknown, fallback: string) => {
+    toast({ title: 'Error', description: (error as Error).message || fallback, variant: 'destructive' });
+  };
+
+  const conversations = [...inbound.reduce((byMember, message) => {
+    if (!message.member_id || !members.some(m => m.id === message.member_id)) return byMember;
+    const summary = byMember.get(message.member_id) ?? {
+      member_id: message.member_id,
+      latest: message,
+      unread: 0,
+      assigned_to: threads.find(t => t.member_id === message.member_id)?.assigned_to,
+    };
+    if (message.received_at > summary.latest.received_at) summary.latest = message;
+    if (!message.read_at) summary.unread += 1;
+    return byMember.set(message.member_id, summary);
+  }, new Map<string, ConversationSummary>()).values()]
+    .filter(summary => {
+      switch (filter) {
+        case 'unread': return summary.unread > 0;
+        case 'mine': return summary.assigned_to === user?.id;
+        case 'unassigned': return !summary.assigned_to;
+        default: return true;
+      }
+    })
+    .sort((a, b) => b.latest.received_at.localeCompare(a.latest.received_at));
+
+  const unmatched = inbound
+    .filter(message => !message.member_id || !members.some(m => m.id === message.member_id))
+    .sort((a, b) => b.received_at.localeCompare(a.received_at));
+
+  const handleCheck = async () => {
+    try {
+      const result = await checkMailbox();
+      if (!result) return;
+      toast({
+        title: 'Mailbox checked',
+        description: result.recorded === 0
+          ? 'No new replies.'
+          : `${result.recorded} new ${result.recorded === 1 ? 'reply' : 'replies'}${result.unmatched > 0 ? `, ${result.unmatched} from unknown senders` : ''}.`,
+      });
+    } catch (error) {
+      reportError(error, 'Failed to check the mailbox.');
+    }
+  };
+
+  const handleAssign = async (memberId: string, value: string) => {
+    try {
+      await assignThread(memberId, value === UNASSIGNED ? null : value);
+    } catch (error) {
+      reportError(error, 'Failed to assign the conversation.');
+    }
+  };
+
+  const handleLink = async (message: InboundMessage, memberId: string) => {
+    try {
+      await linkToMember(message.id, memberId);
+      toast({ title: 'Reply linked', description: `Added to ${members.find(m => m.id === memberId)?.full_name}'s conversation.` });
+    } catch (error) {
+      reportError(error, 'Failed to link the reply.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle>Conversations</CardTitle>
+            <CardDescription>Replies by email and SMS, threaded by member. The mailbox is checked every 5 minutes.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as InboxFilter)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="unread">Unread</SelectItem>
+                <SelectItem value="mine">Assigned to me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleCheck} disabled={isChecking || !canReply}>
+              <InboxIcon className="w-4 h-4 mr-2" />
+              {isChecking ? 'Checking...' : 'Check Mailbox'}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {conversations.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No conversations to show.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Latest reply</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Assigned to</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conversations.map(summary => (
+                  <TableRow key={summary.member_id}>
+                    <TableCell className="whitespace-nowrap">
+                      <Link to={`/members/${summary.member_id}`} className="font-medium hover:underline">
+                        {members.find(m => m.id === summary.member_id)?.full_name}
+                      </Link>
+                      {summary.unread > 0 && <Badge className="ml-2">{summary.unread} new</Badge>}
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="truncate text-sm" title={getReplyText(summary.latest.body)}>
+                        <span className="text-muted-foreground">{CHANNEL_LABELS[summary.latest.channel]}: </span>
+                        {getReplyText(summary.latest.body)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(summary.latest.received_at, TIME_FORMAT)}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={summary.assigned_to ?? UNASSIGNED}
+                        onValueChange={(value) => handleAssign(summary.member_id, value)}
+                        disabled={!canReply}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                          {staff.map(person => (
+                            <SelectItem key={person.id} value={person.id}>{person.full_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {unmatched.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Unknown Senders</CardTitle>
+            <CardDescription>Replies whose address or number matched no member. Link one to add it to a conversation.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Member</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unmatched.map(message => (
+                  <TableRow key={message.id}>
+                    <TableCell className="text-sm">{message.from}</TableCell>
+                    <TableCell className="max-w-md">
+                      {message.subject && <div className="text-sm font-medium">{message.subject}</div>}
+                      <p className="truncate text-sm text-muted-foreground">{getReplyText(message.body)}</p>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(message.received_at, TIME_FORMAT)}</TableCell>
+                    <TableCell>
+                      <Select value="" onValueChange={(memberId) => handleLink(message, memberId)} disabled={!canReply}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="Link to member" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {members.filter(m => m.active).map(member => (
+                            <SelectItem key={member.id} value={member.id}>{member.full_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
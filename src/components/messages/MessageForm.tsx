@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,19 +11,37 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useMessagesStore } from '@/store/messagesStore';
+import { useAuthStore } from '@/store/authStore';
+import { PermissionDeniedError } from '@/utils/permissions';
 import { useMembersStore } from '@/store/membersStore';
-import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
 import { useSettingsStore } from '@/store/settingsStore';
-import { Member } from '@/types';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useTemplatesStore } from '@/store/templatesStore';
+import { useCampaignsStore } from '@/store/campaignsStore';
+import { Member, MessageTemplate } from '@/types';
 import { useToast } from '@/hooks/use-toast';
-import { formatCurrency, formatDate, getNextDueDate, getLastPaymentDate, isDue } from '@/utils/dateUtils';
+import { isDue } from '@/utils/scheduleUtils';
+import { describeSegment, getSegmentMembers } from '@/utils/segmentUtils';
+import { buildTemplateContext, renderMessageTemplate, validateMessageTemplate } from '@/utils/templateUtils';
+import { buildPersonalizedMessages, CHANNEL_LABELS, getContactChannels, isOptedOut, MessageDraft } from '@/utils/messageUtils';
+import { countSmsSegments } from '@/utils/smsUtils';
+import { DEFAULT_DONATION_WINDOW_DAYS } from '@/campaigns/campaignUtils';
+import { TemplatePreview } from './TemplatePreview';
+import { TemplateVariables } from './TemplateVariables';
 
 const messageSchema = z.object({
   message_type: z.enum(['reminder', 'thank_you', 'announcement']),
   message_subject: z.string().min(1, 'Subject is required'),
   message_content: z.string().min(1, 'Message content is required'),
-  recipient_type: z.enum(['single', 'bulk', 'due_members']),
+  sms_content: z.string().optional(),
+  recipient_type: z.enum(['single', 'bulk', 'due_members', 'segment']),
   member_id: z.string().optional(),
+  segment_id: z.string().optional(),
+}).refine(data => data.recipient_type !== 'segment' || !!data.segment_id, {
+  message: 'Choose a segment',
+  path: ['segment_id'],
 });
 
 type MessageFormData = z.infer<typeof messageSchema>;
@@ -34,30 +53,22 @@ interface MessageFormProps {
   onSuccess?: () => void;
 }
 
-const messageTemplates = {
-  reminder: {
-    subject: 'Payment Reminder',
-    content: 'Your membership contribution is due on {{due_date}}. Amount: {{payment_amount}}. Please make your payment to continue supporting our cause.',
-  },
-  thank_you: {
-    subject: 'Thank You for Your Contribution',
-    content: 'Thank you for your contribution of {{amount}} on {{date}}. Your support helps us continue our important work.',
-  },
-  announcement: {
-    subject: 'Important Announcement',
-    content: 'We have an important update to share with you...',
-  },
-};
-
 export function MessageForm({ preselectedMember, open = false, onOpenChange, onSuccess }: MessageFormProps) {
-  const { createMessage, createBulkReminders } = useMessagesStore();
+  const { messages, createMessage, createMessages } = useMessagesStore();
+  const { can } = useAuthStore();
+  const canBulkSend = can('messages.bulk_send');
   const { members } = useMembersStore();
+  const { installments } = useInstallmentsStore();
   const { payments } = usePaymentsStore();
   const { settings } = useSettingsStore();
+  const { segments } = useSegmentsStore();
+  const { getActiveTemplates } = useTemplatesStore();
+  const { saveCampaign, sendNow } = useCampaignsStore();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [previewContent, setPreviewContent] = useState('');
+  const [templateId, setTemplateId] = useState('');
   const [selectedMembers, setSelectedMembers] = useState<Member[]>([]);
+  const [previewIndex, setPreviewIndex] = useState(0);
 
   const {
     register,
@@ -70,7 +81,7 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
     resolver: zodResolver(messageSchema),
     defaultValues: {
       message_type: 'announcement',
-      recipient_type: preselectedMember ? 'single' : 'bulk',
+      recipient_type: preselectedMember || !canBulkSend ? 'single' : 'bulk',
       member_id: preselectedMember?.id,
     },
   });
@@ -78,7 +89,34 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
   const watchedType = watch('message_type');
   const watchedRecipientType = watch('recipient_type');
   const watchedMemberId = watch('member_id');
+  const watchedSegmentId = watch('segment_id');
+  const watchedSubject = watch('message_subject');
   const watchedContent = watch('message_content');
+  const watchedSmsContent = watch('sms_content');
+  const typeTemplates = getActiveTemplates(watchedType);
+  const composed = { subject: watchedSubject ?? '', content: watchedContent ?? '', sms_content: watchedSmsContent };
+  const issues = validateMessageTemplate(composed);
+  const countryCode = settings?.sms_country_code;
+  const selectedSegment = segments.find(s => s.id === watchedSegmentId);
+  const channelCounts = selectedMembers.reduce((counts, member) => {
+    const channels = getContactChannels(member, countryCode);
+    if (channels.includes('email')) counts.email += 1;
+    if (channels.includes('sms')) counts.sms += 1;
+    if (channels.length === 0 && isOptedOut(member, countryCode)) counts.optedOut += 1;
+    else if (channels.length === 0) counts.unreachable += 1;
+    return counts;
+  }, { email: 0, sms: 0, unreachable: 0, optedOut: 0 });
+
+  const previewMember = selectedMembers[Math.min(previewIndex, selectedMembers.length - 1)];
+  const previewChannels = previewMember ? getContactChannels(previewMember, countryCode) : [];
+
+  // Segments are counted on the text as the previewed recipient would get it
+  const renderedSms = useMemo(() => {
+    if (!previewMember || issues.length > 0) return watchedSmsContent || watchedContent || '';
+    const context = buildTemplateContext(previewMember, { installments, payments, settings });
+    return renderMessageTemplate({ subject: '', content: watchedContent ?? '', sms_content: watchedSmsContent }, context).sms_content;
+  }, [previewMember, issues.length, watchedContent, watchedSmsContent, installments, payments, settings]);
+  const smsInfo = countSmsSegments(renderedSms);
 
   useEffect(() => {
     if (preselectedMember) {
@@ -87,13 +125,20 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
     }
   }, [preselectedMember, setValue]);
 
+  const applyTemplate = useCallback((template: MessageTemplate | undefined) => {
+    setTemplateId(template?.id ?? '');
+    if (!template) return;
+    setValue('message_subject', template.subject);
+    setValue('message_content', template.content);
+    setValue('sms_content', template.sms_content ?? '');
+  }, [setValue]);
+
+  // Switching type starts from the first saved template of that type
   useEffect(() => {
-    if (watchedType && messageTemplates[watchedType]) {
-      const template = messageTemplates[watchedType];
-      setValue('message_subject', template.subject);
-      setValue('message_content', template.content);
+    if (watchedType) {
+      applyTemplate(useTemplatesStore.getState().getActiveTemplates(watchedType)[0]);
     }
-  }, [watchedType, setValue]);
+  }, [watchedType, applyTemplate]);
 
   useEffect(() => {
     let targetMembers: Member[] = [];
@@ -106,80 +151,99 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
     } else if (watchedRecipientType === 'due_members') {
       targetMembers = members.filter(m => {
         if (!m.active) return false;
-        const memberPayments = payments.filter(p => p.member_id === m.id);
-        return isDue(m, memberPayments, settings?.reminder_window_days || 3);
+        const memberInstallments = installments.filter(i => i.member_id === m.id);
+        return isDue(memberInstallments, settings?.reminder_window_days || 3);
       });
+    } else if (watchedRecipientType === 'segment' && selectedSegment) {
+      targetMembers = getSegmentMembers(selectedSegment, members, { payments, installments, messages });
     }
     
     setSelectedMembers(targetMembers);
-  }, [watchedRecipientType, watchedMemberId, members, payments, settings]);
-
-  useEffect(() => {
-    if (selectedMembers.length > 0 && watchedContent) {
-      const member = selectedMembers[0];
-      const memberPayments = payments.filter(p => p.member_id === member.id);
-      const lastPayment = getLastPaymentDate(memberPayments);
-      const nextDue = getNextDueDate(member, lastPayment);
-      
-      let content = watchedContent;
-      content = content.replace(/\{\{due_date\}\}/g, formatDate(nextDue));
-      content = content.replace(/\{\{payment_amount\}\}/g, formatCurrency(member.payment_amount, settings?.default_currency));
-      content = content.replace(/\{\{member_name\}\}/g, member.full_name);
-      content = content.replace(/\{\{amount\}\}/g, formatCurrency(member.payment_amount, settings?.default_currency));
-      content = content.replace(/\{\{date\}\}/g, formatDate(new Date()));
-      
-      setPreviewContent(content);
-    }
-  }, [watchedContent, selectedMembers, payments, settings]);
+    setPreviewIndex(0);
+  }, [watchedRecipientType, watchedMemberId, selectedSegment, members, installments, payments, messages, settings]);
 
   const onSubmit = async (data: MessageFormData) => {
     setIsSubmitting(true);
+    const draft: MessageDraft = {
+      message_type: data.message_type,
+      message_subject: data.message_subject,
+      message_content: data.message_content,
+      sms_content: data.sms_content,
+    };
+    
+    // Each recipient gets the template filled in with their own details
+    const sentAt = new Date().toISOString();
+    const personalize = (member: Member) =>
+      buildPersonalizedMessages(member, draft, { installments, payments, settings }, sentAt);
     
     try {
-      if (data.recipient_type === 'due_members') {
-        // Use bulk reminder function
+      if (data.message_type === 'announcement' && (data.recipient_type === 'bulk' || data.recipient_type === 'segment')) {
+        // Announcements to many members are recorded as a campaign sent now, so
+        // they get the same per-member results as a scheduled one
+        const segment = data.recipient_type === 'segment' ? segments.find(s => s.id === data.segment_id) : undefined;
+        if (data.recipient_type === 'segment' && !segment) throw new Error('Segment not found');
+        const campaign = await saveCampaign({
+          name: data.message_subject,
+          segment_id: segment?.id,
+          subject: data.message_subject,
+          content: data.message_content,
+          sms_content: data.sms_content,
+          donation_window_days: DEFAULT_DONATION_WINDOW_DAYS,
+        });
+        const sent = await sendNow(campaign.id);
+
+        toast({
+          title: 'Campaign Sent',
+          description: `Sent ${sent?.length ?? 0} messages to ${segment?.name ?? 'all active members'}. Results are under Campaigns.`,
+        });
+      } else if (data.recipient_type === 'due_members') {
         const dueMembers = members.filter(m => {
           if (!m.active) return false;
-          const memberPayments = payments.filter(p => p.member_id === m.id);
-          return isDue(m, memberPayments, settings?.reminder_window_days || 3);
+          const memberInstallments = installments.filter(i => i.member_id === m.id);
+          return isDue(memberInstallments, settings?.reminder_window_days || 3);
         });
         
-        await createBulkReminders(dueMembers.map(m => m.id));
+        await createMessages(dueMembers.flatMap(personalize));
         
         toast({
           title: 'Reminders Sent',
           description: `Sent ${dueMembers.length} reminder messages to due members.`,
         });
+      } else if (data.recipient_type === 'segment') {
+        // Worked out again at send time, so the list is as of now
+        const segment = segments.find(s => s.id === data.segment_id);
+        if (!segment) throw new Error('Segment not found');
+        const segmentMembers = getSegmentMembers(segment, members, { payments, installments, messages });
+        await createMessages(segmentMembers.flatMap(personalize));
+
+        toast({
+          title: 'Messages Sent',
+          description: `Sent ${segmentMembers.length} messages to ${segment.name}.`,
+        });
       } else if (data.recipient_type === 'bulk') {
         // Send to all active members
         const activeMembers = members.filter(m => m.active);
-        const promises = activeMembers.map(member =>
-          createMessage({
-            member_id: member.id,
-            message_type: data.message_type,
-            message_subject: data.message_subject,
-            message_content: data.message_content,
-            sent_at: new Date().toISOString(),
-            channel: 'email',
-          })
-        );
-        
-        await Promise.all(promises);
+        await createMessages(activeMembers.flatMap(personalize));
         
         toast({
           title: 'Messages Sent',
           description: `Sent ${activeMembers.length} messages to all active members.`,
         });
       } else {
-        // Single member
-        await createMessage({
-          member_id: data.member_id!,
-          message_type: data.message_type,
-          message_subject: data.message_subject,
-          message_content: data.message_content,
-          sent_at: new Date().toISOString(),
-          channel: 'email',
-        });
+        // Single member, once per channel they take
+        const member = members.find(m => m.id === data.member_id);
+        if (!member) throw new Error('Member not found');
+        if (isOptedOut(member, countryCode)) {
+          toast({
+            title: 'Not Sent',
+            description: `${member.full_name} has opted out or their email bounced, so no message was sent.`,
+            variant: 'destructive',
+          });
+          return;
+        }
+        for (const messageData of personalize(member)) {
+          await createMessage(messageData);
+        }
         
         toast({
           title: 'Message Sent',
@@ -193,7 +257,7 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to send message. Please try again.',
+        description: error instanceof PermissionDeniedError ? error.message : 'Failed to send message. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -239,14 +303,37 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="single">Single Member</SelectItem>
-                    <SelectItem value="bulk">All Active Members</SelectItem>
-                    <SelectItem value="due_members">Due Members Only</SelectItem>
+                    {canBulkSend && (
+                      <>
+                        <SelectItem value="bulk">All Active Members</SelectItem>
+                        <SelectItem value="due_members">Due Members Only</SelectItem>
+                        {segments.length > 0 && <SelectItem value="segment">Saved Segment</SelectItem>}
+                      </>
+                    )}
                   </SelectContent>
                 </Select>
               </div>
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="template_id">Template</Label>
+            <Select
+              value={templateId || 'none'}
+              onValueChange={(value) => applyTemplate(typeTemplates.find(t => t.id === value))}
+            >
+              <SelectTrigger id="template_id">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No template</SelectItem>
+                {typeTemplates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {watchedRecipientType === 'single' && (
             <div className="space-y-2">
               <Label htmlFor="member_id">Member *</Label>
@@ -277,6 +364,25 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
             </div>
           )}
 
+          {watchedRecipientType === 'segment' && (
+            <div className="space-y-2">
+              <Label htmlFor="segment_id">Segment *</Label>
+              <Select value={watchedSegmentId || ''} onValueChange={(value) => setValue('segment_id', value)}>
+                <SelectTrigger id="segment_id">
+                  <SelectValue placeholder="Select a segment" />
+                </SelectTrigger>
+                <SelectContent>
+                  {segments.map(segment => (
+                    <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.segment_id && (
+                <p className="text-sm text-destructive">{errors.segment_id.message}</p>
+              )}
+            </div>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="text-base">Recipients ({selectedMembers.length})</CardTitle>
@@ -292,6 +398,16 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
                 {watchedRecipientType === 'due_members' && (
                   <div>{selectedMembers.length} members with due payments</div>
                 )}
+                {watchedRecipientType === 'segment' && selectedSegment && (
+                  <div>{selectedMembers.length} members in {selectedSegment.name}: {describeSegment(selectedSegment, settings?.default_currency)}</div>
+                )}
+                {selectedMembers.length > 0 && (
+                  <div className="pt-1">
+                    By preferred contact: {channelCounts.email} by email, {channelCounts.sms} by SMS
+                    {channelCounts.unreachable > 0 && `, ${channelCounts.unreachable} with no usable email or phone`}
+                    {channelCounts.optedOut > 0 && `, ${channelCounts.optedOut} opted out or bounced (skipped)`}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -316,25 +432,81 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
               placeholder="Enter your message..."
               rows={6}
             />
-            <div className="text-xs text-muted-foreground">
-              Available variables: {'{{due_date}}'}, {'{{payment_amount}}'}, {'{{member_name}}'}, {'{{amount}}'}, {'{{date}}'}
-            </div>
+            <TemplateVariables />
             {errors.message_content && (
               <p className="text-sm text-destructive">{errors.message_content.message}</p>
             )}
           </div>
 
-          {previewContent && selectedMembers.length > 0 && (
+          {channelCounts.sms > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="sms_content">SMS Text</Label>
+              <Textarea
+                id="sms_content"
+                {...register('sms_content')}
+                placeholder="Leave empty to send the message content as the text"
+                rows={3}
+              />
+              <div className={`text-xs ${smsInfo.segments > 1 ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                {smsInfo.length} characters · {smsInfo.segments} {smsInfo.segments === 1 ? 'segment' : 'segments'} ({smsInfo.encoding}) · {smsInfo.remaining} left in this segment
+                {smsInfo.encoding === 'UCS-2' && ' · non-Latin characters limit each segment to 70'}
+              </div>
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <ul className="space-y-1 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+              {issues.map(issue => <li key={issue.message}>{issue.message}</li>)}
+            </ul>
+          )}
+
+          {watchedContent && issues.length === 0 && previewMember && (
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle className="text-base">Preview</CardTitle>
+                {selectedMembers.length > 1 && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewIndex(index => Math.max(index - 1, 0))}
+                      disabled={previewIndex === 0}
+                      title="Previous recipient"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Select value={previewMember.id} onValueChange={(value) => setPreviewIndex(selectedMembers.findIndex(m => m.id === value))}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedMembers.map((member, index) => (
+                          <SelectItem key={member.id} value={member.id}>{index + 1}. {member.full_name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPreviewIndex(index => Math.min(index + 1, selectedMembers.length - 1))}
+                      disabled={previewIndex >= selectedMembers.length - 1}
+                      title="Next recipient"
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
               </CardHeader>
-              <CardContent>
-                <div className="space-y-2 text-sm">
-                  <div><strong>To:</strong> {selectedMembers[0].full_name}</div>
-                  <div><strong>Subject:</strong> {watch('message_subject')}</div>
-                  <div className="pt-2 whitespace-pre-wrap">{previewContent}</div>
+              <CardContent className="space-y-2">
+                <div className="text-xs text-muted-foreground">
+                  {selectedMembers.length > 1 && `Recipient ${previewIndex + 1} of ${selectedMembers.length} · `}
+                  {previewChannels.length > 0
+                    ? `Sent by ${previewChannels.map(channel => CHANNEL_LABELS[channel]).join(' and ')}`
+                    : 'No usable email or phone; nothing will be sent'}
                 </div>
+                <TemplatePreview template={composed} member={previewMember} showSms={previewChannels.includes('sms')} />
               </CardContent>
             </Card>
           )}
@@ -348,7 +520,7 @@ export function MessageForm({ preselectedMember, open = false, onOpenChange, onS
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={isSubmitting || selectedMembers.length === 0}>
+            <Button type="submit" disabled={isSubmitting || selectedMembers.length === 0 || issues.length > 0}>
               {isSubmitting ? 'Sending...' : `Send to ${selectedMembers.length} ${selectedMembers.length === 1 ? 'Member' : 'Members'}`}
             </Button>
           </div>
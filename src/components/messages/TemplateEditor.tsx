@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useTemplatesStore } from '@/store/templatesStore';
+import { useMembersStore } from '@/store/membersStore';
+import { MessageTemplate, MessageTemplateInput } from '@/types';
+import { validateMessageTemplate } from '@/utils/templateUtils';
+import { countSmsSegments } from '@/utils/smsUtils';
+import { useToast } from '@/hooks/use-toast';
+import { TemplatePreview } from './TemplatePreview';
+import { TemplateVariables } from './TemplateVariables';
+
+interface TemplateEditorProps {
+  template: MessageTemplate | null; // null for a new template
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_TEMPLATE: MessageTemplateInput = {
+  name: '',
+  message_type: 'announcement',
+  subject: '',
+  content: '',
+  sms_content: '',
+};
+
+export function TemplateEditor({ template, open, onOpenChange }: TemplateEditorProps) {
+  const { saveTemplate } = useTemplatesStore();
+  const { members } = useMembersStore();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<MessageTemplateInput>(EMPTY_TEMPLATE);
+  const [previewMemberId, setPreviewMemberId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(template ? {
+      name: template.name,
+      message_type: template.message_type,
+      subject: template.subject,
+      content: template.content,
+      sms_content: template.sms_content ?? '',
+    } : EMPTY_TEMPLATE);
+  }, [open, template]);
+
+  const issues = useMemo(() => validateMessageTemplate(draft), [draft]);
+  const previewMember = members.find(m => m.id === previewMemberId) ?? members.find(m => m.active) ?? members[0];
+  const smsInfo = countSmsSegments(draft.sms_content || draft.content);
+
+  const setField = <K extends keyof MessageTemplateInput>(key: K, value: MessageTemplateInput[K]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveTemplate({ ...draft, id: template?.id });
+      toast({ title: 'Template saved', description: `"${saved.name}" is ready to use.` });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save template.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? `Edit ${template.name}` : 'New template'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="template_name">Name *</Label>
+              <Input id="template_name" value={draft.name} onChange={(e) => setField('name', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template_type">Message Type</Label>
+              <Select value={draft.message_type} onValueChange={(value) => setField('message_type', value as MessageTemplate['message_type'])}>
+                <SelectTrigger id="template_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reminder">Payment Reminder</SelectItem>
+                  <SelectItem value="thank_you">Thank You</SelectItem>
+                  <SelectItem value="announcement">Announcement</SelectItem>
+                  <SelectItem value="statement">Statement</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template_subject">Subject</Label>
+            <Input id="template_subject" value={draft.subject} onChange={(e) => setField('subject', e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template_content">Message</Label>
+            <Textarea
+              id="template_content"
+              rows={8}
+              className="font-mono text-sm"
+              value={draft.content}
+              onChange={(e) => setField('content', e.target.value)}
+            />
+            <TemplateVariables />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template_sms">SMS Text</Label>
+            <Textarea
+              id="template_sms"
+              rows={3}
+              className="font-mono text-sm"
+              value={draft.sms_content}
+              placeholder="Leave empty to send the message as the text"
+              onChange={(e) => setField('sms_content', e.target.value)}
+            />
+            <div className="text-xs text-muted-foreground">
+              About {smsInfo.length} characters before variables are filled in · {smsInfo.segments} {smsInfo.segments === 1 ? 'segment' : 'segments'} ({smsInfo.encoding})
+            </div>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="space-y-1 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+              {issues.map(issue => <li key={issue.message}>{issue.message}</li>)}
+            </ul>
+          )}
+
+          {previewMember && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base">Preview</CardTitle>
+                <Select value={previewMember.id} onValueChange={setPreviewMemberId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members.map(member => (
+                      <SelectItem key={member.id} value={member.id}>{member.full_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                <TemplatePreview template={draft} member={previewMember} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !draft.name.trim() || issues.length > 0}>
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Copy, Pencil, Plus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useTemplatesStore } from '@/store/templatesStore';
+import { useAuthStore } from '@/store/authStore';
+import { MessageTemplate } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+import { isArchived, validateMessageTemplate } from '@/utils/templateUtils';
+import { useToast } from '@/hooks/use-toast';
+import { TemplateEditor } from './TemplateEditor';
+
+export function TemplateLibrary() {
+  const { templates, duplicateTemplate, archiveTemplate } = useTemplatesStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<MessageTemplate | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const canManage = can('templates.manage');
+
+  const visible = templates.filter(template => showArchived || !isArchived(template));
+
+  const openEditor = (template: MessageTemplate | null) => {
+    setEditing(template);
+    setIsEditorOpen(true);
+  };
+
+  const run = async (action: () => Promise<MessageTemplate>, title: string) => {
+    try {
+      const template = await action();
+      toast({ title, description: template.name });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update template.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>Saved wording offered when composing a message.</CardDescription>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="show_archived_templates" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show_archived_templates" className="text-sm">Show archived</Label>
+          </div>
+          <Button onClick={() => openEditor(null)} disabled={!canManage}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No templates yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(template => {
+                const issueCount = validateMessageTemplate(template).length;
+                return (
+                  <TableRow key={template.id} className={isArchived(template) ? 'opacity-60' : undefined}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {template.name}
+                        {isArchived(template) && <Badge variant="secondary">Archived</Badge>}
+                        {issueCount > 0 && <Badge variant="destructive">{issueCount} {issueCount === 1 ? 'issue' : 'issues'}</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="capitalize">{template.message_type.replace('_', ' ')}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{template.subject}</TableCell>
+                    <TableCell className="text-sm">{formatDate(template.updated_at)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openEditor(template)} disabled={!canManage} title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => run(() => duplicateTemplate(template.id), 'Template duplicated')}
+                          disabled={!canManage}
+                          title="Duplicate"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        {isArchived(template) ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => run(() => archiveTemplate(template.id, false), 'Template restored')}
+                            disabled={!canManage}
+                            title="Restore"
+                          >
+                            <ArchiveRestore className="w-4 h-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => run(() => archiveTemplate(template.id, true), 'Template archived')}
+                            disabled={!canManage}
+                            title="Archive"
+                          >
+                            <Archive className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <TemplateEditor template={editing} open={isEditorOpen} onOpenChange={setIsEditorOpen} />
+    </Card>
+  );
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import { Member, MessageTemplateInput } from '@/types';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { buildTemplateContext, renderMessageTemplate } from '@/utils/templateUtils';
+
+interface TemplatePreviewProps {
+  template: Pick<MessageTemplateInput, 'subject' | 'content' | 'sms_content'>;
+  member: Member;
+  showSms?: boolean;
+}
+
+// The template as this member would receive it, using their real schedule and payments
+export function TemplatePreview({ template, member, showSms = true }: TemplatePreviewProps) {
+  const { installments } = useInstallmentsStore();
+  const { payments } = usePaymentsStore();
+  const { settings } = useSettingsStore();
+
+  const rendered = useMemo(() => {
+    try {
+      return renderMessageTemplate(template, buildTemplateContext(member, { installments, payments, settings }));
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }, [template, member, installments, payments, settings]);
+
+  if (typeof rendered === 'string') {
+    return <p className="text-sm text-destructive">{rendered}</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div><strong>To:</strong> {member.full_name}</div>
+      <div><strong>Subject:</strong> {rendered.subject}</div>
+      <div className="pt-2 whitespace-pre-wrap">{rendered.content}</div>
+      {showSms && (
+        <div className="pt-2 border-t">
+          <div><strong>SMS:</strong></div>
+          <div className="whitespace-pre-wrap">{rendered.sms_content}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { ChevronDown } from 'lucide-react';
+import { MESSAGE_TEMPLATE_SCHEMA } from '@/utils/templateUtils';
+import { TEMPLATE_HELPERS } from '@/utils/templateEngine';
+
+// Reference card for the template language: every variable, then the helpers and blocks
+export function TemplateVariables() {
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs">
+          Variables and helpers
+          <ChevronDown className="ml-1 h-3 w-3" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-3 rounded-md border p-3 text-xs">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+          {Object.entries(MESSAGE_TEMPLATE_SCHEMA).map(([path, variable]) => (
+            <div key={path} className="contents">
+              <dt className="font-mono">{`{{${path}}}`}</dt>
+              <dd className="text-muted-foreground">
+                {variable.description}
+                {variable.item && ` (each has ${Object.keys(variable.item).join(', ')})`}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <ul className="space-y-1 text-muted-foreground">
+          {Object.entries(TEMPLATE_HELPERS).map(([name, description]) => (
+            <li key={name}><span className="font-mono text-foreground">{name}</span>: {description}</li>
+          ))}
+          <li>
+            <span className="font-mono text-foreground">{'{{#if …}}…{{else}}…{{/if}}'}</span>,{' '}
+            <span className="font-mono text-foreground">{'{{#unless …}}'}</span> and{' '}
+            <span className="font-mono text-foreground">{'{{#each member.recent_payments}}…{{/each}}'}</span>
+          </li>
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { parseISO } from 'date-fns';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -9,20 +10,32 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { usePaymentsStore } from '@/store/paymentsStore';
-import { useMessagesStore } from '@/store/messagesStore';
+import { useAutomationStore } from '@/store/automationStore';
 import { useMembersStore } from '@/store/membersStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useFundsStore } from '@/store/fundsStore';
+import { useReceiptsStore } from '@/store/receiptsStore';
+import { ToastAction } from '@/components/ui/toast';
 import { Member, Payment } from '@/types';
 import { useToast } from '@/hooks/use-toast';
+import { PermissionDeniedError } from '@/utils/permissions';
 import { formatCurrency } from '@/utils/dateUtils';
+import { getMemberBalance } from '@/utils/scheduleUtils';
+import { generateReceiptPDF } from '@/utils/exportUtils';
+import { FUND_KIND_LABELS, GENERAL_FUND_NAME, isFundOpen } from '@/utils/fundUtils';
+
+// Select value for the general fund, which payments record as no fund_id
+const GENERAL_FUND = 'general';
 
 const paymentSchema = z.object({
   member_id: z.string().min(1, 'Please select a member'),
   amount: z.number().min(0.01, 'Amount must be greater than 0'),
   payment_date: z.string().min(1, 'Payment date is required'),
   payment_method: z.enum(['bank', 'cash', 'branch']),
-  status: z.enum(['paid', 'unpaid', 'overdue']),
+  status: z.enum(['paid', 'unpaid']),
   notes: z.string().optional(),
+  fund_id: z.string().optional(),
 });
 
 type PaymentFormData = z.infer<typeof paymentSchema>;
@@ -36,10 +49,13 @@ interface PaymentFormProps {
 }
 
 export function PaymentForm({ payment, preselectedMember, open = false, onOpenChange, onSuccess }: PaymentFormProps) {
-  const { createPayment, updatePayment } = usePaymentsStore();
-  const { createMessage } = useMessagesStore();
+  const { payments, createPayment, updatePayment } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
+  const { thankForPayment } = useAutomationStore();
   const { members } = useMembersStore();
   const { settings } = useSettingsStore();
+  const { funds: allFunds } = useFundsStore();
+  const { issueReceipt } = useReceiptsStore();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedMember, setSelectedMember] = useState<Member | null>(null);
@@ -105,9 +121,10 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
     }
   }, [watchedMemberId, members, setValue, preselectedMember]);
 
-  const onSubmit = async (data: PaymentFormData) => {
+  const onSubmit = async (formData: PaymentFormData) => {
     setIsSubmitting(true);
-    
+    const data = { ...formData, fund_id: formData.fund_id && formData.fund_id !== GENERAL_FUND ? formData.fund_id : undefined };
+
     try {
       if (payment) {
         await updatePayment(payment.id, data);
@@ -116,23 +133,26 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
           description: 'Payment has been updated successfully.',
         });
       } else {
-        await createPayment(data as Omit<Payment, 'id'>);
-        
-        // Create thank you message if payment is marked as paid
-        if (data.status === 'paid' && selectedMember) {
-          await createMessage({
-            member_id: selectedMember.id,
-            message_type: 'thank_you',
-            message_subject: 'Thank You for Your Contribution',
-            message_content: `Thank you for your contribution of ${formatCurrency(data.amount, settings?.default_currency)} on ${new Date(data.payment_date).toLocaleDateString()}.`,
-            sent_at: new Date().toISOString(),
-            channel: 'email',
-          });
+        const created = await createPayment(data as Omit<Payment, 'id'>);
+
+        // Money received gets a numbered receipt straight away, ready to print
+        const receipt = data.status === 'paid' ? await issueReceipt(created.id) : undefined;
+
+        // Thanked straight away when the thank-you rule is on, rather than at the next automation run
+        if (data.status === 'paid') {
+          await thankForPayment(created);
         }
         
         toast({
           title: 'Payment Logged',
-          description: `Payment of ${formatCurrency(data.amount, settings?.default_currency)} has been logged successfully.`,
+          description: receipt
+            ? `Payment of ${formatCurrency(data.amount, settings?.default_currency)} has been logged with receipt ${receipt.number}.`
+            : `Payment of ${formatCurrency(data.amount, settings?.default_currency)} has been logged successfully.`,
+          action: receipt && (
+            <ToastAction altText="Print receipt" onClick={() => generateReceiptPDF(receipt)}>
+              Print receipt
+            </ToastAction>
+          ),
         });
       }
 
@@ -143,7 +163,7 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to save payment. Please try again.',
+        description: error instanceof PermissionDeniedError ? error.message : 'Failed to save payment. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -151,6 +171,20 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
     }
   };
 
+  // Where a new payment would land: what it clears of the amount owed, and what carries forward
+  const balance = selectedMember && getMemberBalance(
+    installments.filter(i => i.member_id === selectedMember.id),
+    payments.filter(p => p.member_id === selectedMember.id)
+  );
+  const watchedAmount = watch('amount');
+  const watchedDate = watch('payment_date');
+  const watchedFundId = watch('fund_id') || GENERAL_FUND;
+  // Funds open on the payment date, plus the one an edited payment already has
+  const funds = allFunds.filter(fund =>
+    fund.id === payment?.fund_id || isFundOpen(fund, watchedDate ? parseISO(watchedDate) : new Date())
+  );
+  const enteredAmount = Number.isFinite(watchedAmount) ? watchedAmount : 0;
+
   const filteredMembers = members.filter(m => 
     m.full_name.toLowerCase().includes(watch('member_id')?.toLowerCase() || '') ||
     m.phone_number.includes(watch('member_id') || '') ||
@@ -205,6 +239,12 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
               <div className="text-sm text-muted-foreground">
                 Expected: {formatCurrency(selectedMember.payment_amount, settings?.default_currency)}
               </div>
+              {balance && (
+                <div className="text-sm text-muted-foreground">
+                  Owed now: {formatCurrency(balance.owed, settings?.default_currency)}
+                  {balance.credit > 0 && ` · Credit: ${formatCurrency(balance.credit, settings?.default_currency)}`}
+                </div>
+              )}
             </div>
           )}
 
@@ -220,6 +260,15 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
             {errors.amount && (
               <p className="text-sm text-destructive">{errors.amount.message}</p>
             )}
+            {!payment && balance && enteredAmount > 0 && watch('status') === 'paid' && (
+              <p className="text-xs text-muted-foreground">
+                {enteredAmount < balance.owed
+                  ? `Partial payment: ${formatCurrency(balance.owed - enteredAmount, settings?.default_currency)} will still be owed.`
+                  : enteredAmount > balance.owed
+                    ? `${formatCurrency(enteredAmount - balance.owed, settings?.default_currency)} beyond what is owed rolls forward to the next installments.`
+                    : 'Clears everything owed.'}
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -263,11 +312,35 @@ export function PaymentForm({ payment, preselectedMember, open = false, onOpenCh
               <SelectContent>
                 <SelectItem value="paid">Paid</SelectItem>
                 <SelectItem value="unpaid">Unpaid</SelectItem>
-                <SelectItem value="overdue">Overdue</SelectItem>
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">
+              Only paid entries count towards the member's installments.
+            </p>
           </div>
 
+          {(funds.length > 0 || payment?.fund_id) && (
+            <div className="space-y-2">
+              <Label htmlFor="fund_id">Designation</Label>
+              <Select
+                value={watchedFundId}
+                onValueChange={(value) => setValue('fund_id', value)}
+              >
+                <SelectTrigger id="fund_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={GENERAL_FUND}>{GENERAL_FUND_NAME}</SelectItem>
+                  {funds.map(fund => (
+                    <SelectItem key={fund.id} value={fund.id}>
+                      {fund.name} ({FUND_KIND_LABELS[fund.kind].toLowerCase()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="notes">Notes</Label>
             <Textarea
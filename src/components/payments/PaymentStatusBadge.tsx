@@ -0,0 +1,32 @@
+import { Badge } from '@/components/ui/badge';
+import { Payment } from '@/types';
+import { REVERSAL_LABELS } from '@/utils/paymentUtils';
+
+interface PaymentStatusBadgeProps {
+  payment: Payment;
+  className?: string;
+}
+
+// Refunds and voids show on both sides: the original is marked, and the
+// reversing entry says what it is
+export function PaymentStatusBadge({ payment, className }: PaymentStatusBadgeProps) {
+  if (payment.reverses && payment.reversal_type) {
+    return (
+      <Badge variant="outline" className={className}>
+        {payment.reversal_type === 'void' ? 'Void' : 'Refund'}
+      </Badge>
+    );
+  }
+  if (payment.reversed_by && payment.reversal_type) {
+    return (
+      <Badge variant="secondary" className={className}>
+        {REVERSAL_LABELS[payment.reversal_type]}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant={payment.status === 'paid' ? 'default' : 'destructive'} className={className}>
+      {payment.status}
+    </Badge>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { FileText, Printer, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useReceiptsStore } from '@/store/receiptsStore';
+import { useAuthStore } from '@/store/authStore';
+import { Payment, Receipt } from '@/types';
+import { generateReceiptPDF } from '@/utils/exportUtils';
+import { canIssueReceipt } from '@/utils/receiptUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReceiptActionsProps {
+  payment: Payment;
+}
+
+// Receipt number plus issue, reprint and void for one payment
+export function ReceiptActions({ payment }: ReceiptActionsProps) {
+  const { receipts, issueReceipt, voidReceipt } = useReceiptsStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [voiding, setVoiding] = useState<Receipt | null>(null);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const paymentReceipts = receipts.filter(receipt => receipt.payment_id === payment.id);
+  const active = paymentReceipts.find(receipt => receipt.status === 'issued');
+  const voidedCount = paymentReceipts.length - (active ? 1 : 0);
+
+  const handleIssue = async () => {
+    setIsSubmitting(true);
+    try {
+      const receipt = await issueReceipt(payment.id);
+      generateReceiptPDF(receipt);
+      toast({
+        title: 'Receipt issued',
+        description: `Receipt ${receipt.number} has been created.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to issue receipt.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+    setIsSubmitting(true);
+    try {
+      const receipt = await voidReceipt(voiding.id, reason);
+      toast({
+        title: 'Receipt voided',
+        description: `Receipt ${receipt.number} stays on record, marked void.`,
+      });
+      setVoiding(null);
+      setReason('');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to void receipt.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      {active ? (
+        <>
+          <Badge variant="outline" title={voidedCount > 0 ? `${voidedCount} earlier receipts voided` : undefined}>
+            {active.number}
+          </Badge>
+          <Button variant="outline" size="sm" onClick={() => generateReceiptPDF(active, { reprint: true })} title="Reprint receipt">
+            <Printer className="w-4 h-4" />
+          </Button>
+          {can('receipts.void') && (
+            <Button variant="outline" size="sm" className="text-destructive" onClick={() => setVoiding(active)} title="Void receipt">
+              <Ban className="w-4 h-4" />
+            </Button>
+          )}
+        </>
+      ) : canIssueReceipt(payment) && can('payments.create') ? (
+        <Button variant="outline" size="sm" onClick={handleIssue} disabled={isSubmitting}>
+          <FileText className="w-4 h-4 mr-2" />
+          Receipt
+        </Button>
+      ) : voidedCount > 0 ? (
+        <Badge variant="secondary">Receipt void</Badge>
+      ) : null}
+
+      <Dialog open={!!voiding} onOpenChange={(open) => !open && setVoiding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void receipt {voiding?.number}</DialogTitle>
+            <DialogDescription>
+              The number is never reused. A new receipt for this payment gets the next number.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void_receipt_reason">Reason</Label>
+            <Textarea
+              id="void_receipt_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Donor name misspelled"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoiding(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleVoid} disabled={isSubmitting || !reason.trim()}>
+              Void
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
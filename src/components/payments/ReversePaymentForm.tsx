@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { Payment, PaymentReversalType } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface ReversePaymentFormProps {
+  payment: Payment | null;
+  type: PaymentReversalType;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReversePaymentForm({ payment, type, onOpenChange }: ReversePaymentFormProps) {
+  const { reversePayment } = usePaymentsStore();
+  const { settings } = useSettingsStore();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setAmount(payment ? String(payment.amount) : '');
+    setReason('');
+  }, [payment]);
+
+  const title = type === 'void' ? 'Void payment' : 'Refund payment';
+
+  const handleSubmit = async () => {
+    if (!payment) return;
+    setIsSubmitting(true);
+    try {
+      await reversePayment(payment.id, {
+        type,
+        reason,
+        amount: type === 'refund' ? Number(amount) : undefined,
+      });
+      toast({
+        title: type === 'void' ? 'Payment voided' : 'Payment refunded',
+        description: `The ${formatDate(payment.payment_date)} payment stays on record, marked ${type === 'void' ? 'voided' : 'refunded'}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || `Failed to ${type} payment.`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {payment && (type === 'void'
+              ? `Cancels the ${formatCurrency(payment.amount, settings?.default_currency)} payment of ${formatDate(payment.payment_date)} as if it was never received. Its receipt, if any, is voided.`
+              : `Returns money from the ${formatCurrency(payment.amount, settings?.default_currency)} payment of ${formatDate(payment.payment_date)}. Its receipt, if any, is voided and reissued for whatever is kept.`)}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {type === 'refund' && (
+            <div className="space-y-2">
+              <Label htmlFor="refund_amount">Amount</Label>
+              <Input
+                id="refund_amount"
+                type="number"
+                step="0.01"
+                min={0.01}
+                max={payment?.amount}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="reversal_reason">Reason</Label>
+            <Textarea
+              id="reversal_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={type === 'void' ? 'e.g. Entered twice' : 'e.g. Donor asked for their money back'}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant={type === 'void' ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={isSubmitting || !reason.trim()}
+          >
+            {type === 'void' ? 'Void' : 'Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,21 +3,26 @@ import { Download, FileText, Calendar } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
-import { useMembersStore } from '@/store/membersStore';
-import { usePaymentsStore } from '@/store/paymentsStore';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useFundsStore } from '@/store/fundsStore';
+import { useSegmentScope } from '@/hooks/use-segment-scope';
 import { formatCurrency, getMonthlyCollected } from '@/utils/dateUtils';
 import { exportAnnualSummaryPDF, exportAnnualSummaryCSV } from '@/utils/exportUtils';
+import { getCollectedByFund } from '@/utils/fundUtils';
 import { useToast } from '@/hooks/use-toast';
+import { ReportScopeSelect } from './ReportScopeSelect';
 
 export function AnnualSummary() {
   const { toast } = useToast();
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString());
 
-  const { members } = useMembersStore();
-  const { payments } = usePaymentsStore();
+  const [segmentId, setSegmentId] = useState('all');
+
+  const { members, payments, segment } = useSegmentScope(segmentId);
   const { settings } = useSettingsStore();
+  const { funds } = useFundsStore();
 
   const annualData = useMemo(() => {
     const year = parseInt(selectedYear);
@@ -40,6 +45,10 @@ export function AnnualSummary() {
 
     // Calculate totals
     const totalCollected = monthlyData.reduce((sum, month) => sum + month.collected, 0);
+    const fundCollections = getCollectedByFund(payments, funds, fundPayments =>
+      Array.from({ length: 12 }, (_, monthIndex) => getMonthlyCollected(fundPayments, new Date(year, monthIndex, 1)))
+        .reduce((sum, collected) => sum + collected, 0)
+    );
     const averageMonthly = totalCollected / 12;
     const peakMonth = monthlyData.reduce((max, month) => 
       month.collected > max.collected ? month : max
@@ -67,13 +76,14 @@ export function AnnualSummary() {
       startYearMembers,
       endYearMembers,
       newMembers,
-      memberGrowthRate: startYearMembers > 0 ? ((newMembers / startYearMembers) * 100) : 0
+      memberGrowthRate: startYearMembers > 0 ? ((newMembers / startYearMembers) * 100) : 0,
+      fundCollections
     };
-  }, [selectedYear, members, payments]);
+  }, [selectedYear, members, payments, funds]);
 
   const handleExportPDF = async () => {
     try {
-      await exportAnnualSummaryPDF(members, payments, settings, parseInt(selectedYear));
+      await exportAnnualSummaryPDF(members, payments, settings, parseInt(selectedYear), segment?.name, funds);
       toast({
         title: 'PDF exported',
         description: 'Annual summary has been downloaded.'
@@ -89,7 +99,7 @@ export function AnnualSummary() {
 
   const handleExportCSV = () => {
     try {
-      const csvContent = exportAnnualSummaryCSV(members, payments, settings, parseInt(selectedYear));
+      const csvContent = exportAnnualSummaryCSV(members, payments, settings, parseInt(selectedYear), segment?.name, funds);
       const filename = `annual-summary-${selectedYear}.csv`;
       const blob = new Blob([csvContent], { type: 'text/csv' });
       const url = URL.createObjectURL(blob);
@@ -136,6 +146,7 @@ export function AnnualSummary() {
               })}
             </SelectContent>
           </Select>
+          <ReportScopeSelect value={segmentId} onValueChange={setSegmentId} />
         </div>
 
         <div className="flex gap-2">
@@ -237,6 +248,35 @@ export function AnnualSummary() {
         </Card>
       </div>
 
+      {/* Collections by Fund */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Collected by Fund</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fund</TableHead>
+                <TableHead className="text-right">Collected</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {annualData.fundCollections.map(row => (
+                <TableRow key={row.fund_id ?? 'general'}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.collected)}</TableCell>
+                  <TableCell className="text-right">
+                    {annualData.totalCollected !== 0 ? `${((row.collected / annualData.totalCollected) * 100).toFixed(1)}%` : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
       {/* Performance Insights */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
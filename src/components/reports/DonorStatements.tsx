@@ -0,0 +1,189 @@
+import { useState, useMemo } from 'react';
+import { Calendar, Download, FileStack, Mail } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useReceiptsStore } from '@/store/receiptsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { DonorStatement, Message } from '@/types';
+import { formatCurrency } from '@/utils/dateUtils';
+import {
+  generateDonorStatementPDF,
+  generateMergedDonorStatementsPDF,
+  getDonorStatementFileName,
+  getDonorStatements,
+  pdfToBase64,
+} from '@/utils/exportUtils';
+import { useToast } from '@/hooks/use-toast';
+import { useSegmentScope } from '@/hooks/use-segment-scope';
+import { ReportScopeSelect } from './ReportScopeSelect';
+
+export function DonorStatements() {
+  const { toast } = useToast();
+  const [selectedYear, setSelectedYear] = useState((new Date().getFullYear() - 1).toString());
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [segmentId, setSegmentId] = useState('all');
+
+  const { members, payments } = useSegmentScope(segmentId);
+  const { receipts } = useReceiptsStore();
+  const { createMessages } = useMessagesStore();
+  const { settings } = useSettingsStore();
+  const { can } = useAuthStore();
+
+  const statements = useMemo(
+    () => getDonorStatements(members, payments, parseInt(selectedYear)),
+    [members, payments, selectedYear]
+  );
+  const grandTotal = statements.reduce((sum, statement) => sum + statement.total, 0);
+
+  const handleDownload = (statement: DonorStatement) => {
+    if (!settings) return;
+    generateDonorStatementPDF(statement, receipts, settings).save(getDonorStatementFileName(statement));
+  };
+
+  // Browsers may ask once before allowing a page to download several files
+  const handleDownloadEach = () => {
+    statements.forEach(handleDownload);
+    toast({
+      title: 'Statements downloaded',
+      description: `${statements.length} statements for ${selectedYear}.`,
+    });
+  };
+
+  const handleDownloadMerged = () => {
+    if (!settings) return;
+    generateMergedDonorStatementsPDF(statements, receipts, settings).save(`statements-${selectedYear}.pdf`);
+    toast({
+      title: 'Statements downloaded',
+      description: `${statements.length} statements in one file.`,
+    });
+  };
+
+  const handleQueueEmails = async () => {
+    if (!settings) return;
+    const recipients = statements.filter(statement => statement.member.email);
+    if (!confirm(`Queue ${recipients.length} statement emails for ${selectedYear}?`)) return;
+
+    setIsQueueing(true);
+    try {
+      const sentAt = new Date().toISOString();
+      const messagesData: Omit<Message, 'id'>[] = recipients.map(statement => ({
+        member_id: statement.member.id,
+        message_type: 'statement',
+        message_subject: `Your ${statement.year} contribution statement from ${settings.org_name}`,
+        message_content: `Dear ${statement.member.full_name},\n\nThank you for your support in ${statement.year}. ` +
+          `Your contributions totalled ${formatCurrency(statement.total, settings.default_currency)}. ` +
+          `Your statement is attached for your records.\n\n${settings.org_name}`,
+        sent_at: sentAt,
+        channel: 'email',
+        attachments: [{
+          file_name: getDonorStatementFileName(statement),
+          content_type: 'application/pdf',
+          content_base64: pdfToBase64(generateDonorStatementPDF(statement, receipts, settings)),
+        }],
+      }));
+      await createMessages(messagesData);
+      toast({
+        title: 'Statements queued',
+        description: `${messagesData.length} statement emails have been queued.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to queue statements.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <h1 className="text-2xl font-bold">Donor Statements</h1>
+          <Select value={selectedYear} onValueChange={setSelectedYear}>
+            <SelectTrigger className="w-32">
+              <Calendar className="mr-2 h-4 w-4" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 5 }, (_, i) => {
+                const year = new Date().getFullYear() - i;
+                return (
+                  <SelectItem key={year} value={year.toString()}>
+                    {year}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+          <ReportScopeSelect value={segmentId} onValueChange={setSegmentId} />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDownloadEach} disabled={statements.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            One PDF Each
+          </Button>
+          <Button variant="outline" onClick={handleDownloadMerged} disabled={statements.length === 0}>
+            <FileStack className="mr-2 h-4 w-4" />
+            Merged PDF
+          </Button>
+          <Button
+            onClick={handleQueueEmails}
+            disabled={statements.length === 0 || isQueueing || !can('messages.bulk_send')}
+          >
+            <Mail className="mr-2 h-4 w-4" />
+            Email Statements
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Donors ({statements.length})</CardTitle>
+          <CardDescription>
+            Everyone with a payment received in {selectedYear}, totalling {formatCurrency(grandTotal, settings?.default_currency)} after refunds and voids.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {statements.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No contributions recorded for {selectedYear}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Contributions</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead className="text-right">Statement</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statements.map(statement => (
+                  <TableRow key={statement.member.id}>
+                    <TableCell className="font-medium">{statement.member.full_name}</TableCell>
+                    <TableCell className="text-sm">{statement.member.email}</TableCell>
+                    <TableCell className="text-sm">{statement.contributions.filter(p => !p.reverses).length}</TableCell>
+                    <TableCell className="text-sm">{formatCurrency(statement.total, settings?.default_currency)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => handleDownload(statement)}>
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,12 +5,15 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { useMembersStore } from '@/store/membersStore';
-import { usePaymentsStore } from '@/store/paymentsStore';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useFundsStore } from '@/store/fundsStore';
+import { useSegmentScope } from '@/hooks/use-segment-scope';
 import { formatCurrency, formatDate, getMonthlyExpectedIncome, getMonthlyCollected } from '@/utils/dateUtils';
 import { exportMonthlyReportPDF, exportMonthlyReportCSV } from '@/utils/exportUtils';
+import { getNetAmount, isReversal } from '@/utils/paymentUtils';
+import { getCollectedByFund } from '@/utils/fundUtils';
 import { useToast } from '@/hooks/use-toast';
+import { ReportScopeSelect } from './ReportScopeSelect';
 
 const COLORS = ['hsl(var(--primary))', 'hsl(var(--secondary))', 'hsl(var(--accent))', 'hsl(var(--muted))'];
 
@@ -21,9 +24,11 @@ export function MonthlyReport() {
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
   });
 
-  const { members } = useMembersStore();
-  const { payments } = usePaymentsStore();
+  const [segmentId, setSegmentId] = useState('all');
+
+  const { members, payments, installments, segment } = useSegmentScope(segmentId);
   const { settings } = useSettingsStore();
+  const { funds } = useFundsStore();
 
   const reportData = useMemo(() => {
     const [year, month] = selectedMonth.split('-').map(Number);
@@ -72,6 +77,8 @@ export function MonthlyReport() {
         .filter(p => {
           const paymentDate = new Date(p.payment_date);
           return p.status === 'paid' && 
+                 !isReversal(p) &&
+                 getNetAmount(p, payments) > 0 &&
                  paymentDate.getFullYear() === year && 
                  paymentDate.getMonth() === month - 1;
         })
@@ -79,6 +86,7 @@ export function MonthlyReport() {
     );
 
     const unpaidMembers = activeMembers.filter(member => !paidMemberIds.has(member.id));
+    const fundCollections = getCollectedByFund(payments, funds, p => getMonthlyCollected(p, reportDate));
 
     return {
       period: `${new Date(year, month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}`,
@@ -88,9 +96,10 @@ export function MonthlyReport() {
       collectionRate: expectedIncome > 0 ? (collected / expectedIncome) * 100 : 0,
       frequencyStats,
       locationStats,
-      unpaidMembers
+      unpaidMembers,
+      fundCollections
     };
-  }, [selectedMonth, members, payments]);
+  }, [selectedMonth, members, payments, funds]);
 
   const frequencyChartData = Object.entries(reportData.frequencyStats).map(([freq, data]) => ({
     frequency: freq.replace('_', ' '),
@@ -108,7 +117,7 @@ export function MonthlyReport() {
     try {
       const [year, month] = selectedMonth.split('-').map(Number);
       const reportDate = new Date(year, month - 1, 1);
-      await exportMonthlyReportPDF(members, payments, settings, reportDate);
+      await exportMonthlyReportPDF(members, payments, installments, settings, reportDate, segment?.name, funds);
       toast({
         title: 'PDF exported',
         description: 'Monthly report has been downloaded.'
@@ -126,7 +135,7 @@ export function MonthlyReport() {
     try {
       const [year, month] = selectedMonth.split('-').map(Number);
       const reportDate = new Date(year, month - 1, 1);
-      const csvContent = exportMonthlyReportCSV(members, payments, settings, reportDate);
+      const csvContent = exportMonthlyReportCSV(members, payments, installments, settings, reportDate, segment?.name, funds);
       const filename = `monthly-report-${year}-${month.toString().padStart(2, '0')}.csv`;
       const blob = new Blob([csvContent], { type: 'text/csv' });
       const url = URL.createObjectURL(blob);
@@ -176,6 +185,7 @@ export function MonthlyReport() {
               })}
             </SelectContent>
           </Select>
+          <ReportScopeSelect value={segmentId} onValueChange={setSegmentId} />
         </div>
 
         <div className="flex gap-2">
@@ -336,6 +346,35 @@ export function MonthlyReport() {
         </Card>
       </div>
 
+      {/* Collections by Fund */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Collected by Fund</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fund</TableHead>
+                <TableHead className="text-right">Collected</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reportData.fundCollections.map(row => (
+                <TableRow key={row.fund_id ?? 'general'}>
+                  <TableCell>{row.name}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.collected)}</TableCell>
+                  <TableCell className="text-right">
+                    {reportData.collected !== 0 ? `${((row.collected / reportData.collected) * 100).toFixed(1)}%` : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
       {/* Unpaid Members */}
       {reportData.unpaidMembers.length > 0 && (
         <Card>
@@ -0,0 +1,29 @@
+import { Users } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSegmentsStore } from '@/store/segmentsStore';
+
+interface ReportScopeSelectProps {
+  value: string; // a segment id, or 'all'
+  onValueChange: (value: string) => void;
+}
+
+// Limits a report and its exports to one saved segment
+export function ReportScopeSelect({ value, onValueChange }: ReportScopeSelectProps) {
+  const { segments } = useSegmentsStore();
+  if (segments.length === 0) return null;
+
+  return (
+    <Select value={segments.some(s => s.id === value) ? value : 'all'} onValueChange={onValueChange}>
+      <SelectTrigger className="w-48">
+        <Users className="mr-2 h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Members</SelectItem>
+        {segments.map(segment => (
+          <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
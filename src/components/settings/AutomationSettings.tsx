@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Timer } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTemplatesStore } from '@/store/templatesStore';
+import { useAuthStore } from '@/store/authStore';
+import { AutomationRule } from '@/types';
+import { AUTOMATION_RULE_LABELS, getAutomationRules, getRuleTemplates } from '@/automation/automationRules';
+import { useToast } from '@/hooks/use-toast';
+
+const BUILT_IN_WORDING = 'built_in';
+
+export function AutomationSettings() {
+  const { settings, updateSettings } = useSettingsStore();
+  const { templates } = useTemplatesStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AutomationRule[] | null>(null);
+  const [windowDays, setWindowDays] = useState<string | null>(null);
+  const canEdit = can('settings.write');
+  const currentRules = rules ?? getAutomationRules(settings);
+  const currentWindowDays = windowDays ?? String(settings?.reminder_window_days ?? 3);
+
+  const setRule = (kind: AutomationRule['kind'], updates: Partial<AutomationRule>) => {
+    setRules(currentRules.map(rule => rule.kind === kind ? { ...rule, ...updates } : rule));
+  };
+
+  const handleSave = async () => {
+    const reminderWindow = Number(currentWindowDays);
+    if (!Number.isInteger(reminderWindow) || reminderWindow < 0 || currentRules.some(rule => rule.days !== undefined && (!Number.isInteger(rule.days) || rule.days < 0))) {
+      toast({
+        title: 'Invalid days',
+        description: 'Days must be whole numbers, zero or more.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateSettings({ reminder_window_days: reminderWindow, automation_rules: currentRules });
+      setRules(null);
+      setWindowDays(null);
+      toast({ title: 'Automation updated' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save automation settings.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Automation
+        </CardTitle>
+        <CardDescription>
+          Checked every 15 minutes while someone who may send to all members is signed in. Each member gets a
+          rule's message once per installment or payment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="reminder_window_days">Reminder window (days before due)</Label>
+          <Input
+            id="reminder_window_days"
+            type="number"
+            min={0}
+            value={currentWindowDays}
+            onChange={(e) => setWindowDays(e.target.value)}
+            disabled={!canEdit}
+          />
+        </div>
+
+        {currentRules.map(rule => {
+          const ruleTemplates = getRuleTemplates(rule.kind, templates);
+          return (
+            <div key={rule.kind} className="space-y-3 rounded-md border p-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Label htmlFor={`automation_${rule.kind}`} className="font-medium">{AUTOMATION_RULE_LABELS[rule.kind].name}</Label>
+                  <p className="text-sm text-muted-foreground">{AUTOMATION_RULE_LABELS[rule.kind].description}</p>
+                </div>
+                <Switch
+                  id={`automation_${rule.kind}`}
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => setRule(rule.kind, { enabled })}
+                  disabled={!canEdit}
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                {rule.days !== undefined && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`automation_${rule.kind}_days`}>Days</Label>
+                    <Input
+                      id={`automation_${rule.kind}_days`}
+                      type="number"
+                      min={0}
+                      value={rule.days}
+                      onChange={(e) => setRule(rule.kind, { days: Number(e.target.value) })}
+                      disabled={!canEdit}
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor={`automation_${rule.kind}_template`}>Template</Label>
+                  <Select
+                    value={ruleTemplates.some(t => t.id === rule.template_id) ? rule.template_id : BUILT_IN_WORDING}
+                    onValueChange={(value) => setRule(rule.kind, { template_id: value === BUILT_IN_WORDING ? undefined : value })}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger id={`automation_${rule.kind}_template`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={BUILT_IN_WORDING}>Built-in wording</SelectItem>
+                      {ruleTemplates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <Button onClick={handleSave} disabled={!canEdit}>Save Automation</Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Download, Upload, AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBackupStore } from '@/store/backupStore';
+import { useAuthStore } from '@/store/authStore';
+import { downloadFile } from '@/utils/exportUtils';
+import { formatDate } from '@/utils/dateUtils';
+import { ImportMode } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+
+const modeDescriptions: Record<ImportMode, string> = {
+  replace: 'Delete current records and replace them with the file contents.',
+  merge: 'Update records with matching ids and add the rest.',
+  append: 'Add every record from the file as a new record.',
+};
+
+export function BackupSettings() {
+  const { toast } = useToast();
+  const { isWorking, report, exportBackup, checkImport, applyImport, clearReport } = useBackupStore();
+  const { can } = useAuthStore();
+  const canExport = can('data.export');
+  const canImport = can('data.import');
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const errors = report?.issues.filter(issue => issue.severity === 'error') || [];
+  const warnings = report?.issues.filter(issue => issue.severity === 'warning') || [];
+  const canApply = !!fileContent && !!report && report.dryRun && report.mode === mode && errors.length === 0;
+
+  const handleExport = async () => {
+    try {
+      const json = await exportBackup();
+      downloadFile(json, `donor-hub-backup-${formatDate(new Date(), 'yyyy-MM-dd')}.json`, 'application/json');
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: 'Failed to export data.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    clearReport();
+    if (!file) {
+      setFileContent(null);
+      setFileName('');
+      return;
+    }
+    setFileName(file.name);
+    setFileContent(await file.text());
+  };
+
+  const handleCheck = async () => {
+    if (!fileContent) return;
+    try {
+      await checkImport(fileContent, mode);
+    } catch (error) {
+      toast({
+        title: 'Check failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!fileContent) return;
+    if (mode === 'replace' && !confirm('Replace all current records with the contents of this file?')) return;
+
+    try {
+      await applyImport(fileContent, mode);
+      toast({
+        title: 'Import complete',
+        description: `${fileName} has been imported.`,
+      });
+      setFileContent(null);
+      setFileName('');
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: `${(error as Error).message}. No changes were made.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup &amp; Restore</CardTitle>
+        <CardDescription>
+          Export all data to a JSON file, or import a previous backup.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={handleExport} disabled={!canExport}>
+          <Download className="mr-2 h-4 w-4" />
+          Export Backup
+        </Button>
+
+        <div className="space-y-2">
+          <Label htmlFor="backup_file">Backup file</Label>
+          <Input id="backup_file" type="file" accept="application/json,.json" onChange={handleFileChange} disabled={!canImport} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="import_mode">Import mode</Label>
+          <Select
+            value={mode}
+            onValueChange={(value) => {
+              setMode(value as ImportMode);
+              clearReport();
+            }}
+          >
+            <SelectTrigger id="import_mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Merge by id</SelectItem>
+              <SelectItem value="append">Append as new</SelectItem>
+              <SelectItem value="replace">Replace everything</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{modeDescriptions[mode]}</p>
+        </div>
+
+        {report && (
+          <div className="space-y-3 rounded-lg border p-3 text-sm">
+            <div className="flex items-center gap-2 font-medium">
+              {errors.length > 0 ? (
+                <AlertCircle className="h-4 w-4 text-destructive" />
+              ) : (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              )}
+              {errors.length > 0
+                ? `${errors.length} errors must be fixed before importing`
+                : report.applied ? 'Import applied' : 'File is ready to import'}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(['members', 'payments', 'installments', 'messages'] as const).map(collection => (
+                <Badge key={collection} variant="outline" className="capitalize">
+                  {collection}: {report.counts[collection].valid}/{report.counts[collection].total} valid
+                </Badge>
+              ))}
+              {report.schemaVersion === 0 && <Badge variant="secondary">Unversioned file</Badge>}
+            </div>
+            {report.issues.length > 0 && (
+              <ul className="max-h-60 space-y-1 overflow-y-auto">
+                {[...errors, ...warnings].map((issue, i) => (
+                  <li key={i} className="flex gap-2">
+                    {issue.severity === 'error' ? (
+                      <AlertCircle className="mt-0.5 h-3 w-3 flex-shrink-0 text-destructive" />
+                    ) : (
+                      <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0 text-yellow-600" />
+                    )}
+                    <span>
+                      <span className="capitalize">{issue.collection}</span>
+                      {issue.index >= 0 && ` #${issue.index + 1}`}: {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleCheck} disabled={!fileContent || !canImport || isWorking}>
+            Check File
+          </Button>
+          <Button onClick={handleImport} disabled={!canApply || !canImport || isWorking}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isWorking ? 'Working...' : 'Import'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
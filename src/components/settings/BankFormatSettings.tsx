@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Landmark, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { BankCsvMapping } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+
+const EMPTY_MAPPING: Omit<BankCsvMapping, 'id'> = {
+  bank_name: '',
+  delimiter: '',
+  date_column: 'Date',
+  date_format: 'yyyy-MM-dd',
+  amount_column: 'Amount',
+  credit_column: '',
+  decimal_separator: '.',
+  description_column: 'Description',
+  reference_column: '',
+  payer_column: '',
+  transaction_id_column: '',
+};
+
+// Optional columns are stored as undefined rather than blank text
+const OPTIONAL_COLUMNS = ['amount_column', 'credit_column', 'reference_column', 'payer_column', 'transaction_id_column'] as const;
+
+const COLUMN_FIELDS: { key: keyof BankCsvMapping; label: string; hint?: string }[] = [
+  { key: 'date_column', label: 'Date column' },
+  { key: 'date_format', label: 'Date format', hint: 'e.g. dd/MM/yyyy' },
+  { key: 'amount_column', label: 'Amount column', hint: 'Signed amounts' },
+  { key: 'credit_column', label: 'Credit column', hint: 'If credits have their own column' },
+  { key: 'description_column', label: 'Description column' },
+  { key: 'reference_column', label: 'Reference column' },
+  { key: 'payer_column', label: 'Payer name column' },
+  { key: 'transaction_id_column', label: 'Transaction id column' },
+];
+
+export function BankFormatSettings() {
+  const { settings, updateSettings } = useSettingsStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<BankCsvMapping | null>(null);
+  const mappings = settings?.bank_csv_mappings ?? [];
+  const canEdit = can('settings.write');
+
+  const save = async (next: BankCsvMapping[], title: string) => {
+    try {
+      await updateSettings({ bank_csv_mappings: next });
+      toast({ title });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save bank formats.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.bank_name.trim() || !editing.date_column.trim() || !editing.description_column.trim() ||
+      !(editing.amount_column?.trim() || editing.credit_column?.trim())) {
+      toast({
+        title: 'Missing columns',
+        description: 'Name the bank and give the date, description and amount or credit columns.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const mapping: BankCsvMapping = { ...editing, bank_name: editing.bank_name.trim() };
+    OPTIONAL_COLUMNS.forEach(key => {
+      mapping[key] = mapping[key]?.trim() || undefined;
+    });
+    const exists = mappings.some(m => m.id === mapping.id);
+    const next = exists ? mappings.map(m => m.id === mapping.id ? mapping : m) : [...mappings, mapping];
+    if (await save(next, `${mapping.bank_name} format saved`)) setEditing(null);
+  };
+
+  const handleDelete = async (mapping: BankCsvMapping) => {
+    if (!confirm(`Remove the ${mapping.bank_name} format?`)) return;
+    await save(mappings.filter(m => m.id !== mapping.id), `${mapping.bank_name} format removed`);
+  };
+
+  const setField = (key: keyof BankCsvMapping, value: string) => {
+    setEditing(current => current && { ...current, [key]: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Bank Statement Formats
+        </CardTitle>
+        <CardDescription>
+          Which columns each bank's CSV export uses. OFX and CAMT.053 files need no setup.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mappings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No bank formats yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {mappings.map(mapping => (
+              <li key={mapping.id} className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <div className="text-sm font-medium">{mapping.bank_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {mapping.date_column} ({mapping.date_format}) · {mapping.credit_column || mapping.amount_column} · {mapping.description_column}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setEditing({ ...EMPTY_MAPPING, ...mapping })}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" className="text-destructive" onClick={() => handleDelete(mapping)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={() => setEditing({ id: uuidv4(), ...EMPTY_MAPPING })} disabled={!canEdit}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Bank
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing?.bank_name || 'New bank format'}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="bank_name">Bank</Label>
+                <Input id="bank_name" value={editing.bank_name} onChange={(e) => setField('bank_name', e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="bank_delimiter">Delimiter</Label>
+                  <Input
+                    id="bank_delimiter"
+                    value={editing.delimiter}
+                    placeholder="Auto"
+                    maxLength={1}
+                    onChange={(e) => setField('delimiter', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank_decimal">Decimal</Label>
+                  <Select value={editing.decimal_separator} onValueChange={(value) => setField('decimal_separator', value)}>
+                    <SelectTrigger id="bank_decimal">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">1,234.50</SelectItem>
+                      <SelectItem value=",">1.234,50</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {COLUMN_FIELDS.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`bank_${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`bank_${field.key}`}
+                    value={editing[field.key] ?? ''}
+                    placeholder={field.hint}
+                    onChange={(e) => setField(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
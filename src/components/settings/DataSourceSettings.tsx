@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Database } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getDataProviderConfig, setDataProviderConfig } from '@/data/providerRegistry';
+import { useAuthStore } from '@/store/authStore';
+import { useToast } from '@/hooks/use-toast';
+
+export function DataSourceSettings() {
+  const { toast } = useToast();
+  const { can } = useAuthStore();
+  const initialConfig = getDataProviderConfig();
+  const [type, setType] = useState<'local' | 'rest'>(initialConfig.type);
+  const [baseUrl, setBaseUrl] = useState(initialConfig.type === 'rest' ? initialConfig.baseUrl : '');
+
+  const handleSave = () => {
+    if (type === 'rest' && !/^https?:\/\//.test(baseUrl.trim())) {
+      toast({
+        title: 'Invalid URL',
+        description: 'Enter the full API address, e.g. https://api.example.org.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setDataProviderConfig(type === 'rest' ? { type: 'rest', baseUrl: baseUrl.trim() } : { type: 'local' });
+    toast({
+      title: 'Data source updated',
+      description: 'Reloading to connect to the new data source.',
+    });
+
+    // Every store caches data from the previous provider, so start fresh
+    setTimeout(() => window.location.reload(), 500);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Data Source
+        </CardTitle>
+        <CardDescription>
+          Choose where member, payment and message data is stored.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="data_source_type">Storage</Label>
+          <Select value={type} onValueChange={(value) => setType(value as 'local' | 'rest')}>
+            <SelectTrigger id="data_source_type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="local">This browser only</SelectItem>
+              <SelectItem value="rest">Shared server (HTTP API)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === 'rest' && (
+          <div className="space-y-2">
+            <Label htmlFor="api_base_url">API Base URL</Label>
+            <Input
+              id="api_base_url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder="https://api.example.org"
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!can('settings.write')}>Save Data Source</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
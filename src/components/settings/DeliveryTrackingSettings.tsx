@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Activity } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useMembersStore } from '@/store/membersStore';
+import { useAuthStore } from '@/store/authStore';
+import { WEBHOOK_FIXTURES, buildFixturePayload } from '@/email/webhookFixtures';
+import { WebhookResult } from '@/email/deliveryEvents';
+import { formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+
+// Messages that have left the outbox are the only ones a relay could report on
+const REPORTABLE_STATUSES = ['sent', 'delivered', 'bounced'];
+
+export function DeliveryTrackingSettings() {
+  const { toast } = useToast();
+  const { can } = useAuthStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const { messages, recordDeliveryEvents } = useMessagesStore();
+  const { members } = useMembersStore();
+  const [baseUrl, setBaseUrl] = useState<string | null>(null);
+  const [messageId, setMessageId] = useState('');
+  const [fixtureKey, setFixtureKey] = useState('delivered');
+  const [rawPayload, setRawPayload] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+  const canEdit = can('settings.write');
+  const canRecord = can('messages.send');
+  const currentBaseUrl = baseUrl ?? settings?.tracking_base_url ?? '';
+
+  const candidates = messages
+    .filter(m => m.member_id && REPORTABLE_STATUSES.includes(m.delivery_status ?? 'sent'))
+    .slice(0, 20);
+  const message = candidates.find(m => m.id === messageId) ?? null;
+  const fixtures = Object.entries(WEBHOOK_FIXTURES).filter(([, fixture]) => !message || fixture.channels.includes(message.channel));
+
+  const handleSave = async () => {
+    const trimmed = currentBaseUrl.trim();
+    if (trimmed && !/^https?:\/\//.test(trimmed)) {
+      toast({ title: 'Invalid address', description: 'Enter the full address, e.g. https://track.example.org.', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      await updateSettings({ tracking_base_url: trimmed || undefined });
+      setBaseUrl(null);
+      toast({ title: 'Delivery tracking updated' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save delivery tracking settings.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const record = async (payload: unknown) => {
+    setIsRecording(true);
+    try {
+      const result: WebhookResult = await recordDeliveryEvents(payload);
+      if (result.recorded > 0) await useMembersStore.getState().fetchMembers();
+      const parts = [`${result.recorded} recorded`];
+      if (result.duplicates > 0) parts.push(`${result.duplicates} already seen`);
+      if (result.unmatched > 0) parts.push(`${result.unmatched} for unknown messages`);
+      toast({
+        title: result.errors.length > 0 ? 'Some events were left out' : 'Events recorded',
+        description: [parts.join(', '), ...result.errors].join('. '),
+        variant: result.errors.length > 0 && result.recorded === 0 ? 'destructive' : undefined,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to record delivery events.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const handleReplay = () => {
+    if (!message) return;
+    const member = members.find(m => m.id === message.member_id) ?? null;
+    const key = fixtures.some(([k]) => k === fixtureKey) ? fixtureKey : fixtures[0][0];
+    record(buildFixturePayload(key, message, member));
+  };
+
+  const handleIngest = async () => {
+    if (await record(rawPayload)) setRawPayload('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Delivery Tracking
+        </CardTitle>
+        <CardDescription>
+          Relays, SMS gateways and the tracking server report deliveries, opens, clicks, bounces and unsubscribes
+          to the delivery webhook. Hard bounces mark the member's email invalid; complaints and unsubscribes opt them out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="tracking_base_url">Tracking server</Label>
+          <Input
+            id="tracking_base_url"
+            value={currentBaseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder="https://track.example.org"
+            disabled={!canEdit}
+          />
+          <p className="text-xs text-muted-foreground">
+            When set, emails to one member carry an open pixel, tracked links and an unsubscribe link.
+          </p>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!canEdit}>Save Tracking</Button>
+        </div>
+
+        <div className="space-y-3 rounded-md border p-3">
+          <Label className="font-medium">Try the webhook</Label>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhook_message">Message</Label>
+              <Select value={messageId} onValueChange={setMessageId}>
+                <SelectTrigger id="webhook_message">
+                  <SelectValue placeholder={candidates.length === 0 ? 'No sent messages yet' : 'Choose a sent message'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(m => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {members.find(member => member.id === m.member_id)?.full_name ?? 'Unknown'} · {m.message_subject} ({formatDate(m.sent_at, 'MMM dd')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook_fixture">Outcome</Label>
+              <Select value={fixtureKey} onValueChange={setFixtureKey}>
+                <SelectTrigger id="webhook_fixture">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fixtures.map(([key, fixture]) => (
+                    <SelectItem key={key} value={key}>{fixture.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleReplay} disabled={!message || !canRecord || isRecording}>
+              Replay Fixture
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="webhook_payload">Or paste a webhook body</Label>
+            <Textarea
+              id="webhook_payload"
+              rows={4}
+              className="font-mono text-xs"
+              value={rawPayload}
+              onChange={(e) => setRawPayload(e.target.value)}
+              placeholder='{"events": [{"id": "evt-1", "type": "delivered", "message_id": "...", "timestamp": 1760000000}]}'
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleIngest} disabled={!rawPayload.trim() || !canRecord || isRecording}>
+              Record Events
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
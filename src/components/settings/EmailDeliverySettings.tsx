@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Mail } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  EmailTransportConfig,
+  getEmailTransport,
+  getEmailTransportConfig,
+  isEmailTransportReady,
+  setEmailTransportConfig,
+} from '@/email/transportRegistry';
+import { formatSender } from '@/email/deliveryQueue';
+import { smtpSink, CapturedEmail } from '@/email/smtpSink';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+
+export function EmailDeliverySettings() {
+  const { toast } = useToast();
+  const { can } = useAuthStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const initialConfig = getEmailTransportConfig();
+  const [type, setType] = useState<EmailTransportConfig['type']>(initialConfig.type);
+  const [fromEmail, setFromEmail] = useState<string | null>(null);
+  const [bridgeUrl, setBridgeUrl] = useState(initialConfig.type === 'smtp' ? initialConfig.bridgeUrl : '');
+  const [username, setUsername] = useState(initialConfig.type === 'smtp' ? initialConfig.username ?? '' : '');
+  const [password, setPassword] = useState(initialConfig.type === 'smtp' ? initialConfig.password ?? '' : '');
+  const [relayUrl, setRelayUrl] = useState(initialConfig.type === 'http' ? initialConfig.url : '');
+  const [apiKey, setApiKey] = useState(initialConfig.type === 'http' ? initialConfig.apiKey ?? '' : '');
+  const [captured, setCaptured] = useState<CapturedEmail[]>(() => smtpSink.getCaptured());
+  const [isTesting, setIsTesting] = useState(false);
+  const [secretMissing, setSecretMissing] = useState(() => !isEmailTransportReady());
+  const canEdit = can('settings.write');
+  const senderAddress = fromEmail ?? settings?.from_email ?? '';
+
+  const buildConfig = (): EmailTransportConfig | string => {
+    switch (type) {
+      case 'smtp':
+        if (!/^wss?:\/\//.test(bridgeUrl.trim())) return 'Enter the bridge address, e.g. wss://mail.example.org:8025.';
+        return { type: 'smtp', bridgeUrl: bridgeUrl.trim(), username: username.trim() || undefined, password: password || undefined };
+      case 'http':
+        if (!/^https?:\/\//.test(relayUrl.trim())) return 'Enter the full relay address, e.g. https://relay.example.org/send.';
+        return { type: 'http', url: relayUrl.trim(), apiKey: apiKey.trim() || undefined };
+      case 'sink':
+        return { type: 'sink' };
+      default:
+        return { type: 'none' };
+    }
+  };
+
+  const handleSave = async () => {
+    const config = buildConfig();
+    if (typeof config === 'string') {
+      toast({ title: 'Invalid address', description: config, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      if (settings && senderAddress.trim() !== settings.from_email) {
+        await updateSettings({ from_email: senderAddress.trim() });
+      }
+      setEmailTransportConfig(config);
+      setSecretMissing(!isEmailTransportReady());
+      toast({ title: 'Email delivery updated' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save email delivery settings.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Goes straight through the saved transport, bypassing the outbox, to the sender address
+  const handleTest = async () => {
+    if (!settings) return;
+    const transport = getEmailTransport();
+    if (!transport) {
+      toast({
+        title: 'No transport configured',
+        description: 'Choose and save a transport before sending a test email.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      await transport.send({
+        message_id: `test-${Date.now()}`,
+        from: formatSender(settings),
+        to: [settings.from_email],
+        subject: `Test email from ${settings.org_name}`,
+        text: `This test was sent through ${transport.name}. If you can read it, email delivery is working.`,
+      });
+      setCaptured(smtpSink.getCaptured());
+      toast({
+        title: 'Test email sent',
+        description: `${transport.name} accepted a message for ${settings.from_email}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Test email failed',
+        description: (error as Error).message || 'The transport did not accept the message.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Delivery
+        </CardTitle>
+        <CardDescription>
+          How queued messages leave the app. Failed sends are retried with increasing delays before giving up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="from_email">Sender address</Label>
+          <Input
+            id="from_email"
+            type="email"
+            value={senderAddress}
+            onChange={(e) => setFromEmail(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email_transport_type">Transport</Label>
+          <Select value={type} onValueChange={(value) => setType(value as EmailTransportConfig['type'])}>
+            <SelectTrigger id="email_transport_type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not configured (email waits in the outbox)</SelectItem>
+              <SelectItem value="sink">Local sink (nothing leaves this browser)</SelectItem>
+              <SelectItem value="smtp">SMTP server (through a WebSocket bridge)</SelectItem>
+              <SelectItem value="http">HTTP mail relay</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === 'smtp' && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="smtp_bridge_url">Bridge URL</Label>
+              <Input
+                id="smtp_bridge_url"
+                value={bridgeUrl}
+                onChange={(e) => setBridgeUrl(e.target.value)}
+                placeholder="wss://mail.example.org:8025"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smtp_username">Username</Label>
+              <Input id="smtp_username" value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smtp_password">Password</Label>
+              <Input id="smtp_password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        {type === 'http' && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="relay_url">Relay URL</Label>
+              <Input
+                id="relay_url"
+                value={relayUrl}
+                onChange={(e) => setRelayUrl(e.target.value)}
+                placeholder="https://relay.example.org/send"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="relay_api_key">API key</Label>
+              <Input id="relay_api_key" type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        {(type === 'smtp' || type === 'http') && (
+          <p className={`text-sm ${secretMissing ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {secretMissing
+              ? 'The password or API key has to be entered again since the page was loaded. Email waits in the outbox until it is.'
+              : 'Passwords and API keys are never saved in the browser, only kept until the page is closed or reloaded.'}
+          </p>
+        )}
+
+        {type === 'sink' && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Mail is kept in memory until the page reloads. Addresses containing "bounce" are refused and
+              "tempfail" deferred, to try out the retry handling.
+            </p>
+            {captured.length > 0 && (
+              <ul className="space-y-1 rounded-md border p-3 text-xs">
+                {captured.slice(0, 5).map(email => (
+                  <li key={email.id} className="flex justify-between gap-2">
+                    <span className="truncate">{email.recipients.join(', ')}</span>
+                    <span className="text-muted-foreground">{formatDate(email.received_at, 'MMM dd HH:mm')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={isTesting || !settings}>
+            Send Test Email
+          </Button>
+          <Button onClick={handleSave} disabled={!canEdit}>Save Email Delivery</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
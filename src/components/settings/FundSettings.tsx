@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Pencil, PiggyBank, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useFundsStore } from '@/store/fundsStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useAuthStore } from '@/store/authStore';
+import { Fund, FundInput, FundKind } from '@/types';
+import { formatCurrency } from '@/utils/dateUtils';
+import { describeFundWindow, FUND_KIND_LABELS } from '@/utils/fundUtils';
+import { useToast } from '@/hooks/use-toast';
+
+// The dialog keeps the goal as typed, so a blank goal stays blank rather than 0
+type FundDraft = Omit<FundInput, 'goal_amount'> & { id?: string; goal_amount: string };
+
+function toDraft(fund?: Fund): FundDraft {
+  return {
+    id: fund?.id,
+    kind: fund?.kind ?? 'campaign',
+    name: fund?.name ?? '',
+    description: fund?.description,
+    start_date: fund?.start_date,
+    end_date: fund?.end_date,
+    goal_amount: fund?.goal_amount?.toString() ?? '',
+  };
+}
+
+export function FundSettings() {
+  const { settings } = useSettingsStore();
+  const { funds, saveFund, archiveFund, deleteFund } = useFundsStore();
+  const { payments } = usePaymentsStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<FundDraft | null>(null);
+  const canEdit = can('funds.manage');
+
+  const save = async (action: () => Promise<unknown>, title: string) => {
+    try {
+      await action();
+      toast({ title });
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save funds.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const goal = editing.goal_amount.trim() === '' ? undefined : Number(editing.goal_amount);
+    const problem = !editing.name.trim()
+      ? 'Give the fund a name.'
+      : goal !== undefined && !(goal > 0)
+        ? 'The goal must be more than 0, or left blank.'
+        : editing.start_date && editing.end_date && editing.start_date > editing.end_date
+          ? 'The start date is after the end date.'
+          : null;
+    if (problem) {
+      toast({ title: 'Fund incomplete', description: problem, variant: 'destructive' });
+      return;
+    }
+
+    const name = editing.name.trim();
+    if (await save(() => saveFund({ ...editing, name, goal_amount: goal }), `${name} saved`)) setEditing(null);
+  };
+
+  const handleArchive = async (fund: Fund, archived: boolean) => {
+    await save(() => archiveFund(fund.id, archived), `${fund.name} ${archived ? 'archived' : 'restored'}`);
+  };
+
+  // Only funds nothing was given to can be removed; the rest are archived so
+  // their payments keep a named designation
+  const handleDelete = async (fund: Fund) => {
+    if (!confirm(`Remove ${fund.name}?`)) return;
+    await save(() => deleteFund(fund.id), `${fund.name} removed`);
+  };
+
+  const setField = <K extends keyof FundDraft>(key: K, value: FundDraft[K]) => {
+    setEditing(current => current && { ...current, [key]: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PiggyBank className="h-5 w-5" />
+          Funds and Campaigns
+        </CardTitle>
+        <CardDescription>
+          Restricted funds and fundraising appeals payments can be designated to. Anything else goes to the general fund.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {funds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No funds or campaigns yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {funds.map(fund => {
+              const inUse = payments.some(p => p.fund_id === fund.id);
+              return (
+                <li key={fund.id} className={`flex items-center justify-between rounded-md border p-3 ${fund.archived_at ? 'opacity-60' : ''}`}>
+                  <div>
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {fund.name}
+                      <Badge variant="outline">{FUND_KIND_LABELS[fund.kind]}</Badge>
+                      {fund.archived_at && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {describeFundWindow(fund)}
+                      {fund.goal_amount !== undefined && ` · Goal ${formatCurrency(fund.goal_amount, settings?.default_currency)}`}
+                    </div>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditing(toDraft(fund))} title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      {inUse ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleArchive(fund, !fund.archived_at)}
+                          title={fund.archived_at ? 'Restore' : 'Archive'}
+                        >
+                          {fund.archived_at ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" className="text-destructive" onClick={() => handleDelete(fund)} title="Remove">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={() => setEditing(toDraft())} disabled={!canEdit}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Fund
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing?.name || 'New fund'}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="fund_name">Name</Label>
+                  <Input id="fund_name" value={editing.name} placeholder="e.g. School supplies 2026" onChange={(e) => setField('name', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fund_kind">Kind</Label>
+                  <Select value={editing.kind} onValueChange={(value) => setField('kind', value as FundKind)}>
+                    <SelectTrigger id="fund_kind">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FUND_KIND_LABELS) as FundKind[]).map(kind => (
+                        <SelectItem key={kind} value={kind}>{FUND_KIND_LABELS[kind]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="fund_description">Description</Label>
+                <Textarea
+                  id="fund_description"
+                  rows={3}
+                  value={editing.description ?? ''}
+                  onChange={(e) => setField('description', e.target.value)}
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="fund_goal">Goal</Label>
+                  <Input
+                    id="fund_goal"
+                    type="number"
+                    min={0}
+                    value={editing.goal_amount}
+                    placeholder="No goal"
+                    onChange={(e) => setField('goal_amount', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fund_start">Starts</Label>
+                  <Input id="fund_start" type="date" value={editing.start_date ?? ''} onChange={(e) => setField('start_date', e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fund_end">Ends</Label>
+                  <Input id="fund_end" type="date" value={editing.end_date ?? ''} onChange={(e) => setField('end_date', e.target.value)} />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Payments can be designated to it between these dates. Leave them empty for a fund that is always open.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
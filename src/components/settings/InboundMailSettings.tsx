@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { Inbox } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MailboxConfig, getMailboxConfig, isMailboxReady, setMailboxConfig } from '@/email/mailboxRegistry';
+import { localMailbox } from '@/email/localMailbox';
+import { INBOUND_FIXTURES, buildReplyEmail, buildSmsReplyPayload } from '@/email/inboundFixtures';
+import { InboundResult } from '@/email/inbound';
+import { useInboxStore } from '@/store/inboxStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useMembersStore } from '@/store/membersStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+
+export function InboundMailSettings() {
+  const { toast } = useToast();
+  const { can } = useAuthStore();
+  const { settings } = useSettingsStore();
+  const { messages } = useMessagesStore();
+  const { members } = useMembersStore();
+  const { checkMailbox, recordInbound } = useInboxStore();
+  const initialConfig = getMailboxConfig();
+  const [type, setType] = useState<MailboxConfig['type']>(initialConfig.type);
+  const [bridgeUrl, setBridgeUrl] = useState(initialConfig.type === 'imap' ? initialConfig.bridgeUrl : '');
+  const [username, setUsername] = useState(initialConfig.type === 'imap' ? initialConfig.username ?? '' : '');
+  const [password, setPassword] = useState(initialConfig.type === 'imap' ? initialConfig.password ?? '' : '');
+  const [folder, setFolder] = useState(initialConfig.type === 'imap' ? initialConfig.mailbox ?? '' : '');
+  const [messageId, setMessageId] = useState('');
+  const [fixtureKey, setFixtureKey] = useState('paid_at_branch');
+  const [rawPayload, setRawPayload] = useState('');
+  const [isRecording, setIsRecording] = useState(false);
+  const [secretMissing, setSecretMissing] = useState(() => !isMailboxReady());
+  const canEdit = can('settings.write');
+  const canRecord = can('messages.send');
+
+  const candidates = messages.filter(m => m.member_id && members.some(member => member.id === m.member_id)).slice(0, 20);
+  const message = candidates.find(m => m.id === messageId) ?? null;
+  const fixtures = Object.entries(INBOUND_FIXTURES).filter(([, fixture]) => !message || fixture.channel === message.channel);
+
+  const handleSave = () => {
+    if (type === 'imap' && !/^wss?:\/\//.test(bridgeUrl.trim())) {
+      toast({ title: 'Invalid address', description: 'Enter the bridge address, e.g. wss://mail.example.org:8143.', variant: 'destructive' });
+      return;
+    }
+    setMailboxConfig(type === 'imap'
+      ? { type: 'imap', bridgeUrl: bridgeUrl.trim(), username: username.trim() || undefined, password: password || undefined, mailbox: folder.trim() || undefined }
+      : { type: 'local' });
+    setSecretMissing(!isMailboxReady());
+    toast({ title: 'Mailbox updated' });
+  };
+
+  const report = (result: InboundResult) => {
+    const parts = [`${result.recorded} recorded`];
+    if (result.duplicates > 0) parts.push(`${result.duplicates} already in the inbox`);
+    if (result.unmatched > 0) parts.push(`${result.unmatched} from unknown senders`);
+    toast({
+      title: result.errors.length > 0 ? 'Some messages were left out' : 'Replies recorded',
+      description: [parts.join(', '), ...result.errors].join('. '),
+      variant: result.errors.length > 0 && result.recorded === 0 ? 'destructive' : undefined,
+    });
+  };
+
+  const run = async (action: () => Promise<InboundResult | null>) => {
+    setIsRecording(true);
+    try {
+      const result = await action();
+      if (result) report(result);
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to record replies.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  // Email replies go through the local mailbox when it is the one being read,
+  // so the whole IMAP path is exercised; otherwise they are posted as raw mail
+  const handleReply = () => {
+    const member = message && members.find(m => m.id === message.member_id);
+    if (!message || !member || !settings) return;
+    const key = fixtures.some(([k]) => k === fixtureKey) ? fixtureKey : fixtures[0][0];
+    const fixture = INBOUND_FIXTURES[key];
+    run(async () => {
+      if (fixture.channel === 'sms') return recordInbound(buildSmsReplyPayload(fixture, member));
+      const raw = buildReplyEmail(fixture, message, member, settings.from_email);
+      if (getMailboxConfig().type !== 'local') return recordInbound({ messages: [{ raw }] });
+      localMailbox.deliver(raw);
+      return checkMailbox();
+    });
+  };
+
+  const handleIngest = async () => {
+    if (await run(() => recordInbound(rawPayload))) setRawPayload('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Replies
+        </CardTitle>
+        <CardDescription>
+          Email replies are read from a mailbox every 5 minutes; SMS gateways post replies to the inbound webhook.
+          Each reply is threaded to the member who sent it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="mailbox_type">Mailbox</Label>
+          <Select value={type} onValueChange={(value) => setType(value as MailboxConfig['type'])} disabled={!canEdit}>
+            <SelectTrigger id="mailbox_type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="local">Local mailbox (in this browser)</SelectItem>
+              <SelectItem value="imap">IMAP server (through a WebSocket bridge)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === 'imap' && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="imap_bridge_url">Bridge URL</Label>
+              <Input
+                id="imap_bridge_url"
+                value={bridgeUrl}
+                onChange={(e) => setBridgeUrl(e.target.value)}
+                placeholder="wss://mail.example.org:8143"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="imap_username">Username</Label>
+              <Input id="imap_username" value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="imap_password">Password</Label>
+              <Input id="imap_password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="imap_folder">Folder</Label>
+              <Input id="imap_folder" value={folder} onChange={(e) => setFolder(e.target.value)} placeholder="INBOX" />
+            </div>
+            <p className={`text-sm md:col-span-2 ${secretMissing ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {secretMissing
+                ? 'The password has to be entered again since the page was loaded. The mailbox is not checked until it is.'
+                : 'The password is never saved in the browser, only kept until the page is closed or reloaded.'}
+            </p>
+          </div>
+        )}
+
+        {type === 'local' && (
+          <p className="text-sm text-muted-foreground">
+            Holds the last 50 messages dropped into it until the page reloads. Use the sample replies below to fill it.
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!canEdit}>Save Mailbox</Button>
+        </div>
+
+        <div className="space-y-3 rounded-md border p-3">
+          <Label className="font-medium">Try a reply</Label>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="reply_message">In reply to</Label>
+              <Select value={messageId} onValueChange={setMessageId}>
+                <SelectTrigger id="reply_message">
+                  <SelectValue placeholder={candidates.length === 0 ? 'No sent messages yet' : 'Choose a sent message'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map(m => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {members.find(member => member.id === m.member_id)?.full_name} · {m.message_subject || m.message_type} ({formatDate(m.sent_at, 'MMM dd')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reply_fixture">Reply</Label>
+              <Select value={fixtureKey} onValueChange={setFixtureKey}>
+                <SelectTrigger id="reply_fixture">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fixtures.map(([key, fixture]) => (
+                    <SelectItem key={key} value={key}>{fixture.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleReply} disabled={!message || !canRecord || isRecording}>
+              Send Sample Reply
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inbound_payload">Or paste an inbound webhook body</Label>
+            <Textarea
+              id="inbound_payload"
+              rows={4}
+              className="font-mono text-xs"
+              value={rawPayload}
+              onChange={(e) => setRawPayload(e.target.value)}
+              placeholder='{"messages": [{"id": "sms-1", "channel": "sms", "from": "+251911223344", "text": "Paid today", "timestamp": 1760000000}]}'
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleIngest} disabled={!rawPayload.trim() || !canRecord || isRecording}>
+              Record Replies
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_IDLE_LOCK_MINUTES, DEFAULT_SESSION_MAX_HOURS } from '@/utils/sessionUtils';
+
+export function SecuritySettings() {
+  const { settings, updateSettings } = useSettingsStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const [idleMinutes, setIdleMinutes] = useState(String(DEFAULT_IDLE_LOCK_MINUTES));
+  const [maxHours, setMaxHours] = useState(String(DEFAULT_SESSION_MAX_HOURS));
+
+  useEffect(() => {
+    if (settings) {
+      setIdleMinutes(String(settings.idle_lock_minutes ?? DEFAULT_IDLE_LOCK_MINUTES));
+      setMaxHours(String(settings.session_max_hours ?? DEFAULT_SESSION_MAX_HOURS));
+    }
+  }, [settings]);
+
+  const handleSave = async () => {
+    const idle = Number(idleMinutes);
+    const hours = Number(maxHours);
+    if (!Number.isFinite(idle) || idle < 1 || !Number.isFinite(hours) || hours < 1) {
+      toast({
+        title: 'Invalid values',
+        description: 'Both limits must be at least 1.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateSettings({ idle_lock_minutes: idle, session_max_hours: hours });
+      toast({
+        title: 'Security settings saved',
+        description: 'New session lengths apply from the next sign-in.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save settings.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Sessions
+        </CardTitle>
+        <CardDescription>
+          Lock unattended screens and sign people out after a fixed time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="idle_lock_minutes">Lock after inactivity (minutes)</Label>
+          <Input
+            id="idle_lock_minutes"
+            type="number"
+            min={1}
+            value={idleMinutes}
+            onChange={(e) => setIdleMinutes(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="session_max_hours">Session length (hours)</Label>
+          <Input
+            id="session_max_hours"
+            type="number"
+            min={1}
+            value={maxHours}
+            onChange={(e) => setMaxHours(e.target.value)}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!can('settings.write')}>Save</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { MessageSquare } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SmsGatewayConfig, getSmsGateway, getSmsGatewayConfig, isSmsGatewayReady, setSmsGatewayConfig } from '@/sms/gatewayRegistry';
+import { fakeSmsGateway, CapturedSms } from '@/sms/fakeSmsGateway';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useAuthStore } from '@/store/authStore';
+import { formatDate } from '@/utils/dateUtils';
+import { DEFAULT_SMS_COUNTRY_CODE, normalizePhoneNumber } from '@/utils/smsUtils';
+import { useToast } from '@/hooks/use-toast';
+
+export function SmsGatewaySettings() {
+  const { toast } = useToast();
+  const { can } = useAuthStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const initialConfig = getSmsGatewayConfig();
+  const [type, setType] = useState<SmsGatewayConfig['type']>(initialConfig.type);
+  const [url, setUrl] = useState(initialConfig.type === 'http' ? initialConfig.url : '');
+  const [apiKey, setApiKey] = useState(initialConfig.type === 'http' ? initialConfig.apiKey ?? '' : '');
+  const [countryCode, setCountryCode] = useState<string | null>(null);
+  const [senderId, setSenderId] = useState<string | null>(null);
+  const [testNumber, setTestNumber] = useState('');
+  const [captured, setCaptured] = useState<CapturedSms[]>(() => fakeSmsGateway.getCaptured());
+  const [isTesting, setIsTesting] = useState(false);
+  const [secretMissing, setSecretMissing] = useState(() => !isSmsGatewayReady());
+  const canEdit = can('settings.write');
+  const currentCountryCode = countryCode ?? settings?.sms_country_code ?? DEFAULT_SMS_COUNTRY_CODE;
+  const currentSenderId = senderId ?? settings?.sms_sender_id ?? '';
+
+  const handleSave = async () => {
+    if (type === 'http' && !/^https?:\/\//.test(url.trim())) {
+      toast({
+        title: 'Invalid URL',
+        description: 'Enter the full gateway address, e.g. https://sms.example.org/send.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!/^[1-9]\d{0,2}$/.test(currentCountryCode)) {
+      toast({
+        title: 'Invalid country code',
+        description: 'Enter the calling code digits only, e.g. 251.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateSettings({ sms_country_code: currentCountryCode, sms_sender_id: currentSenderId.trim() || undefined });
+      setSmsGatewayConfig(type === 'http' ? { type: 'http', url: url.trim(), apiKey: apiKey.trim() || undefined } : { type });
+      setSecretMissing(!isSmsGatewayReady());
+      toast({ title: 'SMS gateway updated' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save SMS settings.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Goes straight through the saved gateway, bypassing the outbox
+  const handleTest = async () => {
+    const to = normalizePhoneNumber(testNumber, settings?.sms_country_code);
+    if (!to) {
+      toast({ title: 'Invalid number', description: `"${testNumber}" is not a phone number.`, variant: 'destructive' });
+      return;
+    }
+    const gateway = getSmsGateway();
+    if (!gateway) {
+      toast({
+        title: 'No gateway configured',
+        description: 'Choose and save a gateway before sending a test message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      await gateway.send({
+        message_id: `test-${Date.now()}`,
+        to,
+        from: settings?.sms_sender_id,
+        text: `Test message from ${settings?.org_name ?? 'Donor Hub'} via ${gateway.name}.`,
+      });
+      setCaptured(fakeSmsGateway.getCaptured());
+      toast({ title: 'Test SMS sent', description: `${gateway.name} accepted a message for ${to}.` });
+    } catch (error) {
+      toast({
+        title: 'Test SMS failed',
+        description: (error as Error).message || 'The gateway did not accept the message.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          SMS Gateway
+        </CardTitle>
+        <CardDescription>
+          Members who prefer SMS (or both) get text messages through this gateway.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="sms_country_code">Country code</Label>
+            <Input
+              id="sms_country_code"
+              value={currentCountryCode}
+              onChange={(e) => setCountryCode(e.target.value.replace(/\D/g, ''))}
+              placeholder="251"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sms_sender_id">Sender ID</Label>
+            <Input
+              id="sms_sender_id"
+              value={currentSenderId}
+              maxLength={11}
+              onChange={(e) => setSenderId(e.target.value)}
+              placeholder="Gateway default"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sms_gateway_type">Gateway</Label>
+          <Select value={type} onValueChange={(value) => setType(value as SmsGatewayConfig['type'])}>
+            <SelectTrigger id="sms_gateway_type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not configured (texts wait in the outbox)</SelectItem>
+              <SelectItem value="fake">Local fake gateway (nothing is sent)</SelectItem>
+              <SelectItem value="http">HTTP SMS gateway</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === 'http' ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sms_gateway_url">Gateway URL</Label>
+              <Input
+                id="sms_gateway_url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://sms.example.org/send"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="sms_gateway_key">API key</Label>
+              <Input id="sms_gateway_key" type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} />
+            </div>
+            <p className={`text-sm md:col-span-2 ${secretMissing ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {secretMissing
+                ? 'The API key has to be entered again since the page was loaded. Texts wait in the outbox until it is.'
+                : 'The API key is never saved in the browser, only kept until the page is closed or reloaded.'}
+            </p>
+          </div>
+        ) : type === 'fake' && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Texts are kept in memory until the page reloads. Numbers ending in 0000 are rejected and 9999
+              answered as busy, to try out the retry handling.
+            </p>
+            {captured.length > 0 && (
+              <ul className="space-y-1 rounded-md border p-3 text-xs">
+                {captured.slice(0, 5).map(sms => (
+                  <li key={sms.id} className="flex justify-between gap-2">
+                    <span className="truncate">{sms.to}: {sms.text}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">{formatDate(sms.received_at, 'MMM dd HH:mm')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Input
+            className="w-48"
+            value={testNumber}
+            onChange={(e) => setTestNumber(e.target.value)}
+            placeholder="Test number"
+            aria-label="Test number"
+          />
+          <Button variant="outline" onClick={handleTest} disabled={isTesting || !testNumber.trim()}>
+            Send Test SMS
+          </Button>
+          <Button onClick={handleSave} disabled={!canEdit}>Save SMS Gateway</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useUsersStore } from '@/store/usersStore';
+import { Capability, RoleDefinition } from '@/types';
+import { ALL_CAPABILITIES, CAPABILITY_LABELS } from '@/utils/permissions';
+import { useToast } from '@/hooks/use-toast';
+
+interface RoleFormProps {
+  role?: RoleDefinition;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export function RoleForm({ role, open = false, onOpenChange }: RoleFormProps) {
+  const { saveRole } = useUsersStore();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [capabilities, setCapabilities] = useState<Capability[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setName(role?.name || '');
+    setDescription(role?.description || '');
+    setCapabilities(role?.capabilities || []);
+  }, [role, open]);
+
+  const toggleCapability = (capability: Capability, checked: boolean) => {
+    setCapabilities(current =>
+      checked ? [...current, capability] : current.filter(c => c !== capability)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim().length < 2) {
+      toast({
+        title: 'Name required',
+        description: 'Role name must be at least 2 characters.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await saveRole({
+        id: role?.id,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        // Keep the stored list in the same order as the checkboxes
+        capabilities: ALL_CAPABILITIES.filter(c => capabilities.includes(c)),
+      });
+      toast({
+        title: role ? 'Role Updated' : 'Role Created',
+        description: `${name.trim()} has been saved.`,
+      });
+      onOpenChange?.(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save role.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{role ? 'Edit Role' : 'Add Role'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="role_name">Name *</Label>
+            <Input id="role_name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Treasurer" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role_description">Description</Label>
+            <Input
+              id="role_description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this role is for"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Permissions</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALL_CAPABILITIES.map(capability => (
+                <label key={capability} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={capabilities.includes(capability)}
+                    onCheckedChange={(checked) => toggleCapability(capability, checked === true)}
+                  />
+                  {CAPABILITY_LABELS[capability]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange?.(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : role ? 'Update Role' : 'Add Role'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useUsersStore } from '@/store/usersStore';
+import { useAuthStore } from '@/store/authStore';
+import { User } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { generateTemporaryPassword } from '@/utils/passwordUtils';
+
+const userSchema = z.object({
+  full_name: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Invalid email address'),
+  role: z.string().min(1, 'Select a role'),
+});
+
+type UserFormData = z.infer<typeof userSchema>;
+
+interface UserFormProps {
+  user?: User;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  onCreated?: (user: User, temporaryPassword: string) => void;
+}
+
+export function UserForm({ user, open = false, onOpenChange, onCreated }: UserFormProps) {
+  const { createUser, updateUser } = useUsersStore();
+  const { roles } = useAuthStore();
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<UserFormData>({
+    resolver: zodResolver(userSchema),
+    defaultValues: { role: 'staff' },
+  });
+
+  useEffect(() => {
+    if (user) {
+      reset({ full_name: user.full_name, email: user.email, role: user.role });
+    } else {
+      reset({ full_name: '', email: '', role: 'staff' });
+    }
+  }, [user, reset, open]);
+
+  const onSubmit = async (data: UserFormData) => {
+    setIsSubmitting(true);
+
+    try {
+      if (user) {
+        await updateUser(user.id, { full_name: data.full_name, role: data.role });
+        toast({
+          title: 'User Updated',
+          description: `${data.full_name} has been updated.`,
+        });
+      } else {
+        const temporaryPassword = generateTemporaryPassword();
+        const created = await createUser({ full_name: data.full_name, email: data.email, role: data.role }, temporaryPassword);
+        onCreated?.(created, temporaryPassword);
+      }
+
+      onOpenChange?.(false);
+      reset();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save user.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{user ? 'Edit User' : 'Add User'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="user_full_name">Full Name *</Label>
+            <Input id="user_full_name" {...register('full_name')} placeholder="Enter full name" />
+            {errors.full_name && (
+              <p className="text-sm text-destructive">{errors.full_name.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="user_email">Email *</Label>
+            <Input
+              id="user_email"
+              type="email"
+              {...register('email')}
+              placeholder="Enter email address"
+              disabled={!!user}
+            />
+            {errors.email && (
+              <p className="text-sm text-destructive">{errors.email.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="user_role">Role *</Label>
+            <Select
+              value={watch('role')}
+              onValueChange={(value) => setValue('role', value)}
+            >
+              <SelectTrigger id="user_role">
+                <SelectValue placeholder="Select role" />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map(role => (
+                  <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!user && (
+            <p className="text-sm text-muted-foreground">
+              A temporary password will be generated. The user must change it on first sign-in.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange?.(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : user ? 'Update User' : 'Add User'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,51 @@
-import { Member, Payment, Message, User, Settings } from '@/types';
+import {
+  Member,
+  Payment,
+  PaymentReversal,
+  Installment,
+  InstallmentResolution,
+  Receipt,
+  Message,
+  MessageDeliveryUpdate,
+  MessageEventInput,
+  MessageEventsResult,
+  MessageTemplate,
+  MessageTemplateInput,
+  MemberSegment,
+  MemberSegmentInput,
+  Fund,
+  FundInput,
+  NewsletterCampaign,
+  NewsletterCampaignInput,
+  CampaignStatus,
+  CampaignSendUpdate,
+  InboundMessage,
+  InboundMessageInput,
+  InboundMessagesResult,
+  MessageThread,
+  AutomationRun,
+  AutomationSend,
+  AutomationSendInput,
+  RecycleBin,
+  RecycleBinEntity,
+  User,
+  NewUser,
+  StaffMember,
+  RoleDefinition,
+  Session,
+  SessionEvent,
+  AuditEntry,
+  AuditLogFilter,
+  Settings,
+  ImportOptions,
+  ImportReport,
+} from '@/types';
+
+// Where withAuditLog writes its entries. The base providers implement it, but it
+// is kept off DataProvider so nothing handed to the app can append entries itself.
+export interface AuditSink {
+  appendAuditEntries(entries: AuditEntry[]): Promise<void>; // append-only: entries are never changed or removed
+}
 
 export interface DataProvider {
   // Members
@@ -10,28 +57,131 @@ export interface DataProvider {
   
   // Payments
   getPayments(): Promise<Payment[]>;
+  getPayment(id: string): Promise<Payment | null>;
   getPaymentsByMember(memberId: string): Promise<Payment[]>;
+  getPaymentsByDateRange(from: string, to: string): Promise<Payment[]>; // inclusive ISO bounds
+  // A fund_id has to name a fund, and a new designation one open on the payment date
   createPayment(payment: Omit<Payment, 'id'>): Promise<Payment>;
+  // Editing what the receipt prints (amount, member, method, date or status) voids
+  // the payment's receipt in the same write and reissues it while the payment is
+  // still paid; deleting the payment voids it
   updatePayment(id: string, updates: Partial<Payment>): Promise<Payment>;
   deletePayment(id: string): Promise<void>;
+  // Adds a negative entry linked to the original and marks the original; returns
+  // the new entry. Reversed payments and reversing entries cannot be edited or deleted.
+  // The original's receipt is voided in the same write, and reissued for what is
+  // left when only part of the payment was refunded.
+  reversePayment(id: string, reversal: PaymentReversal): Promise<Payment>;
+
+  // Pledge schedules. Reads bring each member's installments up to date and
+  // re-allocate their payments first, so overdue never goes stale.
+  getInstallments(): Promise<Installment[]>;
+  getInstallmentsByMember(memberId: string): Promise<Installment[]>;
+  resolveInstallment(id: string, resolution: InstallmentResolution | null, note?: string): Promise<Installment>; // null reopens
   
+  // Receipts. Numbers are sequential and never reused; a payment has at most one
+  // issued receipt at a time, and voiding one frees the payment for a new number.
+  getReceipts(): Promise<Receipt[]>;
+  getReceiptsByPayment(paymentId: string): Promise<Receipt[]>; // voided ones included
+  issueReceipt(paymentId: string): Promise<Receipt>;
+  voidReceipt(id: string, reason: string): Promise<Receipt>;
+
   // Messages
   getMessages(): Promise<Message[]>;
   getMessagesByMember(memberId: string): Promise<Message[]>;
+  getMessage(id: string): Promise<Message | null>;
   createMessage(message: Omit<Message, 'id'>): Promise<Message>;
+  createMessages(messages: Omit<Message, 'id'>[]): Promise<Message[]>; // bulk send, one write
   deleteMessage(id: string): Promise<void>;
+  // Outbox. A claim marks a due message 'sending' until leaseUntil, so two tabs
+  // never send the same message; null means it was not due or someone else has it.
+  claimMessageForDelivery(id: string, leaseUntil: string): Promise<Message | null>;
+  updateMessageDelivery(id: string, update: MessageDeliveryUpdate): Promise<Message>;
+  // Delivery events from webhooks. Each one updates its message and, for hard
+  // bounces, complaints and unsubscribes, the member, in the same write.
+  recordMessageEvents(events: MessageEventInput[]): Promise<MessageEventsResult>;
+
+  // Replies from members. Recording matches each one to a member and the message
+  // it answers, and skips any already stored under the same external id.
+  getInboundMessages(): Promise<InboundMessage[]>;
+  recordInboundMessages(messages: InboundMessageInput[]): Promise<InboundMessagesResult>;
+  markInboundRead(ids: string[]): Promise<void>;
+  linkInboundMessage(id: string, memberId: string): Promise<InboundMessage>; // for a sender no member matched
+  getMessageThreads(): Promise<MessageThread[]>; // only members whose conversation has been assigned
+  assignThread(memberId: string, userId: string | null): Promise<MessageThread>; // null unassigns
+
+  // Message templates. Archived ones are returned too; they are never deleted.
+  getMessageTemplates(): Promise<MessageTemplate[]>;
+  saveMessageTemplate(template: MessageTemplateInput & { id?: string }): Promise<MessageTemplate>; // refuses templates with syntax errors
+  archiveMessageTemplate(id: string, archived: boolean): Promise<MessageTemplate>;
+
+  // Member segments, each saved on its own so edits to different segments never
+  // overwrite each other. One a campaign still has to send to cannot be deleted.
+  getSegments(): Promise<MemberSegment[]>; // by name
+  saveSegment(segment: MemberSegmentInput & { id?: string }): Promise<MemberSegment>;
+  deleteSegment(id: string): Promise<void>;
+
+  // Funds and fundraising campaigns that payments are designated to. Archived
+  // ones are returned too; only a fund no payment was designated to can be deleted.
+  getFunds(): Promise<Fund[]>; // by name
+  saveFund(fund: FundInput & { id?: string }): Promise<Fund>;
+  archiveFund(id: string, archived: boolean): Promise<Fund>;
+  deleteFund(id: string): Promise<void>;
+
+  // Newsletter campaigns. Only drafts and scheduled campaigns can be edited. A
+  // send queues one stage's messages and moves the campaign on in one write, or
+  // does neither and returns null if the campaign has left the `from` status.
+  getCampaigns(): Promise<NewsletterCampaign[]>; // newest first
+  saveCampaign(campaign: NewsletterCampaignInput & { id?: string }): Promise<NewsletterCampaign>; // scheduled when scheduled_at is set
+  cancelCampaign(id: string): Promise<NewsletterCampaign>;
+  recordCampaignSend(id: string, from: CampaignStatus, update: CampaignSendUpdate, messages: Omit<Message, 'id'>[]): Promise<Message[] | null>;
+
+  // Automation. Queues the messages and records the sends in one write, or does
+  // neither and returns null if any of the keys is already on record.
+  getAutomationSends(): Promise<AutomationSend[]>;
+  createAutomatedMessages(sends: AutomationSendInput[], messages: Omit<Message, 'id'>[]): Promise<Message[] | null>;
+  getAutomationRuns(): Promise<AutomationRun[]>; // newest first
+  saveAutomationRun(run: AutomationRun): Promise<void>;
   
-  // Auth
+  // Recycle bin. Deletes above are soft; restoring a member brings back the
+  // payments and messages deleted with it, purging is permanent.
+  getRecycleBin(): Promise<RecycleBin>;
+  restoreDeleted(entity: RecycleBinEntity, id: string): Promise<void>;
+  purgeDeleted(entity: RecycleBinEntity, id: string): Promise<void>; // refused until the retention period has passed
+
+  // Auth. login throws LoginThrottledError while repeated failures are being delayed.
   login(email: string, password: string): Promise<User | null>;
-  getCurrentUser(): Promise<User | null>;
+  getCurrentUser(): Promise<User | null>; // null unless the session is active (not expired or locked)
+  getSession(): Promise<Session | null>; // the session as stored, including locked or expired ones
+  lockSession(reason: 'idle' | 'expired'): Promise<void>;
+  unlockSession(password: string): Promise<User>; // re-checks the password, renewing an expired session
   logout(): Promise<void>;
+  getSessionEvents(): Promise<SessionEvent[]>; // newest first
+  changePassword(currentPassword: string, newPassword: string): Promise<User>; // for the signed-in user
+  hasDemoAccounts(): Promise<boolean>; // true while the built-in demo logins still work
+
+  // Users and roles
+  getUsers(): Promise<User[]>;
+  getStaff(): Promise<StaffMember[]>; // active users, open to anyone signed in
+  createUser(user: NewUser, temporaryPassword: string): Promise<User>;
+  updateUser(id: string, updates: Partial<Pick<User, 'full_name' | 'role' | 'active'>>): Promise<User>;
+  resetUserPassword(id: string, temporaryPassword: string): Promise<void>;
+  getRoles(): Promise<RoleDefinition[]>; // built-in roles followed by custom ones
+  saveRole(role: Omit<RoleDefinition, 'id' | 'built_in'> & { id?: string }): Promise<RoleDefinition>;
+  deleteRole(id: string): Promise<void>;
   
   // Settings
   getSettings(): Promise<Settings>;
   updateSettings(updates: Partial<Settings>): Promise<Settings>;
   
+  // Audit trail. Entries are written by withAuditLog alone, through the base
+  // provider's AuditSink.
+  getAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]>; // newest first
+
   // Data management
   exportData(): Promise<string>; // JSON string
-  importData(data: string): Promise<void>;
+  // Validates first; a dry run only reports, a real import applies all-or-nothing
+  // and throws ImportValidationError if the report contains errors.
+  importData(data: string, options?: ImportOptions): Promise<ImportReport>;
   clearData(): Promise<void>;
 }
\ No newline at end of file
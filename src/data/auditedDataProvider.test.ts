@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AuditWriteError, withAuditLog } from './auditedDataProvider';
+import { AuditSink, DataProvider } from './DataProvider';
+import { AuditEntry, Fund, Member } from '@/types';
+
+const member = { id: 'm1', full_name: 'Ada Lovelace' } as Member;
+
+// Just enough of a base provider for the calls under test
+function fakeProvider(overrides: Partial<Record<keyof (DataProvider & AuditSink), unknown>> = {}) {
+  const written: AuditEntry[] = [];
+  const base = {
+    getCurrentUser: vi.fn(async () => ({ id: 'u1', email: 'admin@example.org' })),
+    createMember: vi.fn(async () => member),
+    appendAuditEntries: vi.fn(async (entries: AuditEntry[]) => { written.push(...entries); }),
+    ...overrides,
+  } as unknown as DataProvider & AuditSink;
+  return { provider: withAuditLog(base, base), written };
+}
+
+describe('withAuditLog', () => {
+  it('records an entry for the signed-in user after the change', async () => {
+    const { provider, written } = fakeProvider();
+
+    await expect(provider.createMember({} as never)).resolves.toBe(member);
+    expect(written).toEqual([expect.objectContaining({
+      entity: 'member',
+      entity_id: 'm1',
+      action: 'create',
+      summary: 'Ada Lovelace',
+      actor_id: 'u1',
+      actor_email: 'admin@example.org',
+    })]);
+  });
+
+  it('tells the caller when the entry could not be written', async () => {
+    const { provider } = fakeProvider({
+      appendAuditEntries: vi.fn(async () => { throw new Error('Quota exceeded'); }),
+    });
+
+    const error = await provider.createMember({} as never).catch(e => e);
+    expect(error).toBeInstanceOf(AuditWriteError);
+    expect(error.message).toMatch(/saved, but could not be recorded.*Quota exceeded/);
+    expect(error.result).toBe(member);
+  });
+
+  it('writes nothing when the change itself fails', async () => {
+    const { provider, written } = fakeProvider({
+      createMember: vi.fn(async () => { throw new Error('Name is required'); }),
+    });
+
+    await expect(provider.createMember({} as never)).rejects.toThrow('Name is required');
+    expect(written).toEqual([]);
+  });
+
+  it('logs member changes from delivery events without reading the members back', async () => {
+    const after = { ...member, email_opt_out_at: '2026-01-01T00:00:00.000Z' };
+    const { provider, written } = fakeProvider({
+      recordMessageEvents: vi.fn(async () => ({ recorded: 1, duplicates: 0, unmatched: 0, member_changes: [{ before: member, after }] })),
+    });
+
+    await provider.recordMessageEvents([]);
+    expect(written).toEqual([expect.objectContaining({
+      entity: 'member',
+      entity_id: 'm1',
+      summary: 'Ada Lovelace (delivery event)',
+      changes: [{ field: 'email_opt_out_at', before: undefined, after: '2026-01-01T00:00:00.000Z' }],
+    })]);
+  });
+
+  it('records one entry per fund rather than a settings diff', async () => {
+    const fund = { id: 'f1', kind: 'fund', name: 'Roof repair', created_at: '', updated_at: '' } as Fund;
+    const renamed = { ...fund, name: 'Roof and gutters' };
+    const { provider, written } = fakeProvider({
+      getFunds: vi.fn(async () => [fund]),
+      saveFund: vi.fn(async () => renamed),
+      archiveFund: vi.fn(async () => ({ ...renamed, archived_at: '2026-02-01T00:00:00.000Z' })),
+    });
+
+    await provider.saveFund({ id: 'f1', kind: 'fund', name: 'Roof and gutters' });
+    await provider.archiveFund('f1', true);
+    expect(written).toEqual([
+      expect.objectContaining({ entity: 'fund', entity_id: 'f1', action: 'update', changes: [{ field: 'name', before: 'Roof repair', after: 'Roof and gutters' }] }),
+      expect.objectContaining({ entity: 'fund', entity_id: 'f1', action: 'archive', summary: 'Roof and gutters' }),
+    ]);
+  });
+
+  it('keeps the audit sink out of reach of callers', () => {
+    const { provider } = fakeProvider();
+
+    expect((provider as Partial<AuditSink>).appendAuditEntries).toBeUndefined();
+  });
+});
@@ -0,0 +1,709 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AuditSink, DataProvider } from './DataProvider';
+import { AuditChange, AuditEntry, Member, Message, Payment, Receipt, RecycleBin, RecycleBinEntity } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+
+type AuditDraft = Omit<AuditEntry, 'id' | 'occurred_at' | 'actor_id' | 'actor_email'> & { id?: string };
+
+type Recorder<K extends keyof DataProvider> = DataProvider[K] extends (...args: infer A) => Promise<infer R>
+  ? (provider: DataProvider, args: A, call: () => Promise<R>) => Promise<{ result: R; entries: AuditDraft[] }>
+  : never;
+
+type Recorders = { [K in keyof DataProvider]?: Recorder<K> };
+
+// The change went through but its audit entries could not be written. Raised
+// to the caller so the gap is seen; `result` is what the call itself returned.
+export class AuditWriteError extends Error {
+  constructor(public result: unknown, public cause: unknown) {
+    super(`The change was saved, but could not be recorded in the audit log: ${(cause as Error)?.message || cause}`);
+    this.name = 'AuditWriteError';
+  }
+}
+
+// Field-level differences between two versions of a record. A missing
+// "before" is a create, a missing "after" is a delete.
+export function diffRecords(before: object | null | undefined, after: object | null | undefined): AuditChange[] {
+  const beforeRecord = (before || {}) as Record<string, unknown>;
+  const afterRecord = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+  return [...fields]
+    .filter(field => field !== 'id')
+    .filter(field => JSON.stringify(beforeRecord[field]) !== JSON.stringify(afterRecord[field]))
+    .map(field => ({ field, before: beforeRecord[field], after: afterRecord[field] }));
+}
+
+async function describePayment(provider: DataProvider, payment: { member_id: string; amount: number }) {
+  const member = await provider.getMember(payment.member_id);
+  return `${formatCurrency(payment.amount)} from ${member?.full_name || 'unknown member'}`;
+}
+
+// Receipts a payment change voided or reissued, as children of the payment's entry
+function receiptEntries(before: Receipt[], after: Receipt[], parentId: string): AuditDraft[] {
+  return after.flatMap((receipt): AuditDraft[] => {
+    const previous = before.find(r => r.id === receipt.id);
+    const changes = diffRecords(previous, receipt);
+    if (changes.length === 0) return [];
+    return [{
+      entity: 'receipt',
+      entity_id: receipt.id,
+      action: previous ? 'void' : 'create',
+      summary: previous
+        ? `${receipt.number}: ${receipt.void_reason}`
+        : `${receipt.number}: ${formatCurrency(receipt.amount, receipt.currency)} from ${receipt.donor_name} (replaces ${receipt.replaces})`,
+      changes,
+      parent_id: parentId,
+    }];
+  });
+}
+
+function summarizeBinItem(entity: RecycleBinEntity, item: Member | Payment | Message): string {
+  if (entity === 'member') return (item as Member).full_name;
+  if (entity === 'payment') return formatCurrency((item as Payment).amount);
+  const message = item as Message;
+  return message.message_subject || message.message_type;
+}
+
+function findInBin(bin: RecycleBin, entity: RecycleBinEntity, id: string): Member | Payment | Message | undefined {
+  const items: (Member | Payment | Message)[] = entity === 'member' ? bin.members : entity === 'payment' ? bin.payments : bin.messages;
+  return items.find(item => item.id === id);
+}
+
+// Restoring or purging a member also covers the related records, which get child entries
+function recordBinAction(action: 'restore' | 'purge') {
+  return async (provider: DataProvider, [entity, id]: [RecycleBinEntity, string], call: () => Promise<void>) => {
+    const bin = await provider.getRecycleBin();
+    const item = findInBin(bin, entity, id);
+    const result = await call();
+    const parentId = uuidv4();
+    const related: AuditDraft[] = entity !== 'member' ? [] : [
+      ...bin.payments
+        .filter(payment => action === 'purge' ? payment.member_id === id : payment.deleted_with === id)
+        .map((payment): AuditDraft => ({
+          entity: 'payment', entity_id: payment.id, action, summary: summarizeBinItem('payment', payment), changes: [], parent_id: parentId,
+        })),
+      ...bin.messages
+        .filter(message => action === 'purge' ? message.member_id === id : message.deleted_with === id)
+        .map((message): AuditDraft => ({
+          entity: 'message', entity_id: message.id, action, summary: summarizeBinItem('message', message), changes: [], parent_id: parentId,
+        })),
+    ];
+    return {
+      result,
+      entries: [
+        {
+          id: parentId,
+          entity,
+          entity_id: id,
+          action,
+          summary: item ? summarizeBinItem(entity, item) : id,
+          changes: action === 'purge' ? diffRecords(item, null) : [],
+        },
+        ...related,
+      ],
+    };
+  };
+}
+
+// Every mutating call has a recorder, except these, which are left out on purpose:
+// - claimMessageForDelivery and updateMessageDelivery are outbox bookkeeping. A
+//   claim is a lease that runs out by itself, and the message keeps its own
+//   delivery status, attempt count and last error.
+// - recordInboundMessages stores replies fetched from the mailbox by whichever
+//   tab polled it, so there is no actor to name. Each reply keeps its source and
+//   received time, and linking one to a member is audited.
+// - markInboundRead only changes what the inbox highlights, and the reply
+//   already records who read it and when.
+// - saveAutomationRun is itself a log of the run; the messages it queued are
+//   audited through createAutomatedMessages.
+const recorders: Recorders = {
+  createMember: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'member', entity_id: result.id, action: 'create', summary: result.full_name, changes: diffRecords(null, result) }],
+    };
+  },
+
+  updateMember: async (provider, [id], call) => {
+    const before = await provider.getMember(id);
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'member', entity_id: id, action: 'update', summary: result.full_name, changes: diffRecords(before, result) }],
+    };
+  },
+
+  // Deleting a member also moves their payments and messages to the recycle
+  // bin, so each of those gets its own entry pointing back at the member's
+  deleteMember: async (provider, [id], call) => {
+    const [member, payments, messages] = await Promise.all([
+      provider.getMember(id),
+      provider.getPaymentsByMember(id),
+      provider.getMessagesByMember(id),
+    ]);
+    const result = await call();
+    const parentId = uuidv4();
+    const summary = member?.full_name || id;
+    return {
+      result,
+      entries: [
+        { id: parentId, entity: 'member', entity_id: id, action: 'delete', summary, changes: diffRecords(member, null) },
+        ...payments.map((payment): AuditDraft => ({
+          entity: 'payment',
+          entity_id: payment.id,
+          action: 'delete',
+          summary: `${formatCurrency(payment.amount)} from ${summary}`,
+          changes: diffRecords(payment, null),
+          parent_id: parentId,
+        })),
+        ...messages.map((message): AuditDraft => ({
+          entity: 'message',
+          entity_id: message.id,
+          action: 'delete',
+          summary: message.message_subject || message.message_type,
+          changes: diffRecords(message, null),
+          parent_id: parentId,
+        })),
+      ],
+    };
+  },
+
+  createPayment: async (provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'payment',
+        entity_id: result.id,
+        action: 'create',
+        summary: await describePayment(provider, result),
+        changes: diffRecords(null, result),
+      }],
+    };
+  },
+
+  updatePayment: async (provider, [id], call) => {
+    const [before, receiptsBefore] = await Promise.all([provider.getPayment(id), provider.getReceiptsByPayment(id)]);
+    const result = await call();
+    const receiptsAfter = await provider.getReceiptsByPayment(id);
+    const parentId = uuidv4();
+    return {
+      result,
+      entries: [
+        {
+          id: parentId,
+          entity: 'payment',
+          entity_id: id,
+          action: 'update',
+          summary: await describePayment(provider, result),
+          changes: diffRecords(before, result),
+        },
+        ...receiptEntries(receiptsBefore, receiptsAfter, parentId),
+      ],
+    };
+  },
+
+  deletePayment: async (provider, [id], call) => {
+    const [before, receiptsBefore] = await Promise.all([provider.getPayment(id), provider.getReceiptsByPayment(id)]);
+    const summary = before ? await describePayment(provider, before) : id;
+    const result = await call();
+    const receiptsAfter = await provider.getReceiptsByPayment(id);
+    const parentId = uuidv4();
+    return {
+      result,
+      entries: [
+        { id: parentId, entity: 'payment', entity_id: id, action: 'delete', summary, changes: diffRecords(before, null) },
+        ...receiptEntries(receiptsBefore, receiptsAfter, parentId),
+      ],
+    };
+  },
+
+  // The original gets the refund or void entry; the new negative payment and the
+  // receipt voided or reissued with it hang off it
+  reversePayment: async (provider, [id, reversal], call) => {
+    const [before, receiptsBefore] = await Promise.all([provider.getPayment(id), provider.getReceiptsByPayment(id)]);
+    const result = await call();
+    const [after, receiptsAfter] = await Promise.all([provider.getPayment(id), provider.getReceiptsByPayment(id)]);
+    const parentId = uuidv4();
+    return {
+      result,
+      entries: [
+        {
+          id: parentId,
+          entity: 'payment',
+          entity_id: id,
+          action: reversal.type,
+          summary: `${before ? await describePayment(provider, before) : id}: ${reversal.reason.trim()}`,
+          changes: diffRecords(before, after),
+        },
+        {
+          entity: 'payment',
+          entity_id: result.id,
+          action: 'create',
+          summary: await describePayment(provider, result),
+          changes: diffRecords(null, result),
+          parent_id: parentId,
+        },
+        ...receiptEntries(receiptsBefore, receiptsAfter, parentId),
+      ],
+    };
+  },
+
+  issueReceipt: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'receipt',
+        entity_id: result.id,
+        action: 'create',
+        summary: `${result.number}: ${formatCurrency(result.amount, result.currency)} from ${result.donor_name}`,
+        changes: diffRecords(null, result),
+      }],
+    };
+  },
+
+  voidReceipt: async (provider, [id, reason], call) => {
+    const before = (await provider.getReceipts()).find(receipt => receipt.id === id) || null;
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'receipt',
+        entity_id: id,
+        action: 'void',
+        summary: `${result.number}: ${reason.trim()}`,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  resolveInstallment: async (provider, [id], call) => {
+    const [memberId] = id.split(':');
+    const before = (await provider.getInstallmentsByMember(memberId)).find(installment => installment.id === id);
+    const result = await call();
+    const member = await provider.getMember(result.member_id);
+    return {
+      result,
+      entries: [{
+        entity: 'installment',
+        entity_id: id,
+        action: 'update',
+        summary: `${formatDate(result.due_date)} installment for ${member?.full_name || 'unknown member'}`,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  createMessage: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'message',
+        entity_id: result.id,
+        action: 'create',
+        summary: result.message_subject || result.message_type,
+        changes: diffRecords(null, result),
+      }],
+    };
+  },
+
+  createMessages: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: result.map((message): AuditDraft => ({
+        entity: 'message',
+        entity_id: message.id,
+        action: 'create',
+        summary: message.message_subject || message.message_type,
+        changes: diffRecords(null, message),
+      })),
+    };
+  },
+
+  createAutomatedMessages: async (_provider, [sends], call) => {
+    const result = await call();
+    return {
+      result,
+      entries: (result ?? []).map((message): AuditDraft => ({
+        entity: 'message',
+        entity_id: message.id,
+        action: 'create',
+        summary: `${message.message_subject || message.message_type} (automatic, ${sends[0]?.rule.replace(/_/g, ' ')})`,
+        changes: diffRecords(null, message),
+      })),
+    };
+  },
+
+  saveCampaign: async (provider, [campaign], call) => {
+    const campaigns = await provider.getCampaigns();
+    const before = campaign.id ? campaigns.find(existing => existing.id === campaign.id) : undefined;
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'campaign',
+        entity_id: result.id,
+        action: before ? 'update' : 'create',
+        summary: result.name,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  cancelCampaign: async (provider, [id], call) => {
+    const campaigns = await provider.getCampaigns();
+    const before = campaigns.find(existing => existing.id === id);
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'campaign', entity_id: id, action: 'update', summary: `${result.name} (cancelled)`, changes: diffRecords(before, result) }],
+    };
+  },
+
+  // Nothing is logged when the send lost the race and wrote nothing
+  recordCampaignSend: async (provider, [id], call) => {
+    const campaigns = await provider.getCampaigns();
+    const before = campaigns.find(existing => existing.id === id);
+    const result = await call();
+    if (!result) return { result, entries: [] };
+
+    const after = (await provider.getCampaigns()).find(existing => existing.id === id);
+    return {
+      result,
+      entries: [
+        {
+          entity: 'campaign',
+          entity_id: id,
+          action: 'update',
+          summary: `${after?.name ?? 'Campaign'} (${result.length} ${result.length === 1 ? 'message' : 'messages'} queued)`,
+          changes: diffRecords(before, after),
+        },
+        ...result.map((message): AuditDraft => ({
+          entity: 'message',
+          entity_id: message.id,
+          action: 'create',
+          summary: `${message.message_subject || message.message_type} (campaign)`,
+          changes: diffRecords(null, message),
+        })),
+      ],
+    };
+  },
+
+  // Delivery events themselves are not audited, but the member changes they cause are
+  recordMessageEvents: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: result.member_changes.map(({ before, after }): AuditDraft => ({
+        entity: 'member',
+        entity_id: after.id,
+        action: 'update',
+        summary: `${after.full_name} (delivery event)`,
+        changes: diffRecords(before, after),
+      })),
+    };
+  },
+
+  // Entries are keyed by member, since a conversation is a member's thread
+  linkInboundMessage: async (provider, [id, memberId], call) => {
+    const inbound = await provider.getInboundMessages();
+    const before = inbound.find(message => message.id === id);
+    const result = await call();
+    const member = await provider.getMember(memberId);
+    return {
+      result,
+      entries: [{
+        entity: 'conversation',
+        entity_id: memberId,
+        action: 'update',
+        summary: `${member?.full_name || 'unknown member'} (reply from ${result.from} linked)`,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  assignThread: async (provider, [memberId], call) => {
+    const threads = await provider.getMessageThreads();
+    const before = threads.find(thread => thread.member_id === memberId);
+    const result = await call();
+    const member = await provider.getMember(memberId);
+    return {
+      result,
+      entries: [{
+        entity: 'conversation',
+        entity_id: memberId,
+        action: 'update',
+        summary: member?.full_name || memberId,
+        changes: diffRecords(before, result).filter(change => change.field !== 'member_id'),
+      }],
+    };
+  },
+
+  deleteMessage: async (provider, [id], call) => {
+    const before = await provider.getMessage(id);
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'message',
+        entity_id: id,
+        action: 'delete',
+        summary: before?.message_subject || before?.message_type || id,
+        changes: diffRecords(before, null),
+      }],
+    };
+  },
+
+  restoreDeleted: recordBinAction('restore'),
+  purgeDeleted: recordBinAction('purge'),
+
+  updateSettings: async (provider, _args, call) => {
+    const before = await provider.getSettings();
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'settings', action: 'update', summary: 'Settings', changes: diffRecords(before, result) }],
+    };
+  },
+
+  // Imports are recorded as one entry with counts; the backup file itself is the detail
+  importData: async (_provider, [, options], call) => {
+    const result = await call();
+    if (options?.dryRun) return { result, entries: [] };
+    return {
+      result,
+      entries: [{
+        entity: 'data',
+        action: 'import',
+        summary: `Imported backup (${result.mode})`,
+        changes: (['members', 'payments', 'installments', 'messages'] as const).map(collection => ({
+          field: collection,
+          after: result.counts[collection].valid,
+        })),
+      }],
+    };
+  },
+
+  clearData: async (provider, _args, call) => {
+    const [members, payments, messages] = await Promise.all([
+      provider.getMembers(),
+      provider.getPayments(),
+      provider.getMessages(),
+    ]);
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'data',
+        action: 'clear',
+        summary: 'Cleared all data',
+        changes: [
+          { field: 'members', before: members.length, after: 0 },
+          { field: 'payments', before: payments.length, after: 0 },
+          { field: 'messages', before: messages.length, after: 0 },
+        ],
+      }],
+    };
+  },
+
+  createUser: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'user', entity_id: result.id, action: 'create', summary: result.email, changes: diffRecords(null, result) }],
+    };
+  },
+
+  updateUser: async (provider, [id], call) => {
+    const users = await provider.getUsers();
+    const before = users.find(user => user.id === id);
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'user', entity_id: id, action: 'update', summary: result.email, changes: diffRecords(before, result) }],
+    };
+  },
+
+  resetUserPassword: async (provider, [id], call) => {
+    const users = await provider.getUsers();
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'user',
+        entity_id: id,
+        action: 'password_reset',
+        summary: users.find(user => user.id === id)?.email || id,
+        changes: [],
+      }],
+    };
+  },
+
+  changePassword: async (_provider, _args, call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'user', entity_id: result.id, action: 'password_change', summary: result.email, changes: [] }],
+    };
+  },
+
+  saveMessageTemplate: async (provider, [template], call) => {
+    const templates = await provider.getMessageTemplates();
+    const before = template.id ? templates.find(existing => existing.id === template.id) : undefined;
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'template',
+        entity_id: result.id,
+        action: before ? 'update' : 'create',
+        summary: result.name,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  archiveMessageTemplate: async (provider, [id, archived], call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'template',
+        entity_id: id,
+        action: archived ? 'archive' : 'restore',
+        summary: result.name,
+        changes: [],
+      }],
+    };
+  },
+
+  saveSegment: async (provider, [segment], call) => {
+    const segments = await provider.getSegments();
+    const before = segment.id ? segments.find(existing => existing.id === segment.id) : undefined;
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'segment',
+        entity_id: result.id,
+        action: before ? 'update' : 'create',
+        summary: result.name,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  deleteSegment: async (provider, [id], call) => {
+    const segments = await provider.getSegments();
+    const before = segments.find(segment => segment.id === id);
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'segment', entity_id: id, action: 'delete', summary: before?.name || id, changes: diffRecords(before, null) }],
+    };
+  },
+
+  saveFund: async (provider, [fund], call) => {
+    const funds = await provider.getFunds();
+    const before = fund.id ? funds.find(existing => existing.id === fund.id) : undefined;
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'fund',
+        entity_id: result.id,
+        action: before ? 'update' : 'create',
+        summary: result.name,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  archiveFund: async (_provider, [id, archived], call) => {
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'fund', entity_id: id, action: archived ? 'archive' : 'restore', summary: result.name, changes: [] }],
+    };
+  },
+
+  deleteFund: async (provider, [id], call) => {
+    const funds = await provider.getFunds();
+    const before = funds.find(fund => fund.id === id);
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'fund', entity_id: id, action: 'delete', summary: before?.name || id, changes: diffRecords(before, null) }],
+    };
+  },
+
+  saveRole: async (provider, [role], call) => {
+    const roles = await provider.getRoles();
+    const before = role.id ? roles.find(existing => existing.id === role.id) : undefined;
+    const result = await call();
+    return {
+      result,
+      entries: [{
+        entity: 'role',
+        entity_id: result.id,
+        action: before ? 'update' : 'create',
+        summary: result.name,
+        changes: diffRecords(before, result),
+      }],
+    };
+  },
+
+  deleteRole: async (provider, [id], call) => {
+    const roles = await provider.getRoles();
+    const before = roles.find(role => role.id === id);
+    const result = await call();
+    return {
+      result,
+      entries: [{ entity: 'role', entity_id: id, action: 'delete', summary: before?.name || id, changes: diffRecords(before, null) }],
+    };
+  },
+};
+
+// Wraps a provider so every mutating call appends audit entries once it has
+// succeeded. Failed or denied calls leave no trace here; sign-in activity is
+// covered by session events instead. If the entries cannot be written the call
+// rejects with AuditWriteError, even though the change itself was saved.
+export function withAuditLog(provider: DataProvider, sink: AuditSink): DataProvider {
+  return new Proxy(provider, {
+    get(target, property, receiver) {
+      // The sink is only reachable from here, even on a base provider that has it
+      if (property === 'appendAuditEntries') return undefined;
+      const value = Reflect.get(target, property, receiver);
+      const recorder = recorders[property as keyof DataProvider] as
+        | ((provider: DataProvider, args: unknown[], call: () => Promise<unknown>) => Promise<{ result: unknown; entries: AuditDraft[] }>)
+        | undefined;
+      if (!recorder || typeof value !== 'function') {
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+
+      return async (...args: unknown[]) => {
+        const actor = await target.getCurrentUser();
+        const { result, entries } = await recorder(target, args, () => value.apply(target, args));
+        if (entries.length === 0) return result;
+
+        const occurredAt = new Date().toISOString();
+        try {
+          await sink.appendAuditEntries(entries.map(entry => ({
+            ...entry,
+            id: entry.id || uuidv4(),
+            occurred_at: occurredAt,
+            actor_id: actor?.id || 'unknown',
+            actor_email: actor?.email || 'unknown',
+          })));
+        } catch (error) {
+          throw new AuditWriteError(result, error);
+        }
+        return result;
+      };
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { DataProvider } from './DataProvider';
+import { Capability } from '@/types';
+import { assertCapability } from '@/utils/permissions';
+
+type GuardedMethod = {
+  [K in keyof DataProvider]: DataProvider[K] extends (...args: never[]) => Promise<unknown> ? K : never;
+}[keyof DataProvider];
+
+// Every mutating (or otherwise sensitive) call and the capability it needs.
+// Reads, auth calls and getRoles stay open so the app can work out who is signed in.
+const METHOD_CAPABILITIES: Partial<Record<GuardedMethod, Capability>> = {
+  createMember: 'members.create',
+  updateMember: 'members.edit',
+  deleteMember: 'members.delete',
+  createPayment: 'payments.create',
+  updatePayment: 'payments.edit',
+  deletePayment: 'payments.delete',
+  reversePayment: 'payments.reverse',
+  resolveInstallment: 'payments.edit',
+  issueReceipt: 'payments.create',
+  voidReceipt: 'receipts.void',
+  createMessage: 'messages.send',
+  createMessages: 'messages.bulk_send',
+  deleteMessage: 'messages.delete',
+  claimMessageForDelivery: 'messages.send',
+  updateMessageDelivery: 'messages.send',
+  recordMessageEvents: 'messages.send',
+  recordInboundMessages: 'messages.send',
+  markInboundRead: 'messages.send',
+  linkInboundMessage: 'messages.send',
+  assignThread: 'messages.send',
+  saveMessageTemplate: 'templates.manage',
+  archiveMessageTemplate: 'templates.manage',
+  saveSegment: 'segments.manage',
+  deleteSegment: 'segments.manage',
+  saveFund: 'funds.manage',
+  archiveFund: 'funds.manage',
+  deleteFund: 'funds.manage',
+  createAutomatedMessages: 'messages.send',
+  saveCampaign: 'messages.bulk_send',
+  cancelCampaign: 'messages.bulk_send',
+  recordCampaignSend: 'messages.bulk_send',
+  saveAutomationRun: 'messages.bulk_send',
+  getRecycleBin: 'recycle_bin.manage',
+  restoreDeleted: 'recycle_bin.manage',
+  purgeDeleted: 'recycle_bin.manage',
+  updateSettings: 'settings.write',
+  exportData: 'data.export',
+  importData: 'data.import',
+  clearData: 'data.clear',
+  getUsers: 'users.manage',
+  createUser: 'users.manage',
+  updateUser: 'users.manage',
+  resetUserPassword: 'users.manage',
+  getSessionEvents: 'users.manage',
+  getAuditLog: 'audit.view',
+  saveRole: 'users.manage',
+  deleteRole: 'users.manage',
+};
+
+// Wraps a provider so each guarded call checks the signed-in user's role first.
+// The check runs against the provider's own view of the session, so it holds
+// no matter which store or component made the call.
+export function withPermissions(provider: DataProvider): DataProvider {
+  const checkCapability = async (capability: Capability) => {
+    const [user, roles] = await Promise.all([provider.getCurrentUser(), provider.getRoles()]);
+    assertCapability(user, roles, capability);
+  };
+
+  return new Proxy(provider, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      const capability = METHOD_CAPABILITIES[property as GuardedMethod];
+      if (!capability || typeof value !== 'function') {
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+
+      return async (...args: unknown[]) => {
+        await checkCapability(capability);
+        return value.apply(target, args);
+      };
+    },
+  });
+}
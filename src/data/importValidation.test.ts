@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { ExistingData, planImport } from './importValidation';
+import { Fund, Installment, Member, Message, Payment } from '@/types';
+
+const member: Member = {
+  id: 'm1',
+  full_name: 'Ada Lovelace',
+  phone_number: '+251911223344',
+  email: 'ada@example.org',
+  payment_amount: 100,
+  payment_frequency: 'monthly',
+  payment_start_date: '2026-01-01',
+  payment_method: 'bank',
+  preferred_contact: 'email',
+  active: true,
+  created_at: '2026-01-01T00:00:00.000Z',
+};
+
+const payment = (id: string, overrides: Partial<Payment> = {}): Payment => ({
+  id,
+  member_id: 'm1',
+  amount: 100,
+  payment_date: '2026-01-05T00:00:00.000Z',
+  payment_method: 'bank',
+  status: 'paid',
+  ...overrides,
+});
+
+const fund = (id: string): Fund => ({
+  id,
+  kind: 'fund',
+  name: `Fund ${id}`,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+const settings = {
+  org_name: 'Donor Hub',
+  org_address: '',
+  default_currency: 'ETB',
+  from_email: 'office@example.org',
+  reminder_window_days: 3,
+  default_payment_amount: 100,
+  theme: 'light',
+  primary_color: '#000000',
+};
+
+const noData: ExistingData = { members: [], payments: [], messages: [], funds: [] };
+
+const backup = (data: object) => JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...data });
+
+const errorsOf = (plan: ReturnType<typeof planImport>) =>
+  plan.report.issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+
+describe('planImport', () => {
+  it('reports a payment designated to a fund that does not exist', () => {
+    const plan = planImport(backup({ members: [member], payments: [payment('p1', { fund_id: 'f-missing' })] }), noData, { mode: 'merge' });
+
+    expect(errorsOf(plan)).toEqual(['Payment is designated to fund f-missing, which does not exist']);
+  });
+
+  it('accepts funds from the file or already stored', () => {
+    const file = backup({
+      members: [member],
+      payments: [payment('p1', { fund_id: 'f-file' }), payment('p2', { fund_id: 'f-stored' })],
+      settings: { ...settings, funds: [fund('f-file')] },
+    });
+
+    expect(errorsOf(planImport(file, { ...noData, funds: [fund('f-stored')] }, { mode: 'replace' }))).toEqual([]);
+  });
+
+  it('remaps references between records given new ids when appending', () => {
+    // Deleted along with the member, as deleteMember leaves them
+    const deletion = { deleted_at: '2026-02-01T00:00:00.000Z', deleted_by: 'u1' };
+    const deleted = { ...deletion, deleted_with: 'm1' };
+    const installment: Installment = {
+      id: 'm1:2026-01-01',
+      member_id: 'm1',
+      due_date: '2026-01-01',
+      expected_amount: 100,
+      paid_amount: 100,
+      allocations: [{ payment_id: 'p1', amount: 100 }],
+      state: 'paid',
+    };
+    const message: Message = {
+      id: 'x1',
+      member_id: 'm1',
+      message_type: 'thank_you',
+      message_content: 'Thank you.',
+      sent_at: '2026-01-05T00:00:00.000Z',
+      channel: 'email',
+      ...deleted,
+    };
+    const file = backup({
+      members: [{ ...member, ...deletion }],
+      payments: [payment('p1', deleted)],
+      installments: [installment],
+      messages: [message],
+    });
+
+    const plan = planImport(file, noData, { mode: 'append' });
+    const [newMember] = plan.members!.records;
+    const [newPayment] = plan.payments!.records;
+    expect(errorsOf(plan)).toEqual([]);
+    expect(newMember.id).not.toBe('m1');
+    expect(newPayment).toMatchObject({ member_id: newMember.id, deleted_with: newMember.id });
+    expect(plan.messages!.records[0]).toMatchObject({ member_id: newMember.id, deleted_with: newMember.id });
+    expect(plan.installments!.records[0]).toMatchObject({
+      id: `${newMember.id}:2026-01-01`,
+      member_id: newMember.id,
+      allocations: [{ payment_id: newPayment.id, amount: 100 }],
+    });
+  });
+});
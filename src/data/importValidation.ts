@@ -0,0 +1,295 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as z from 'zod';
+import { getSnapshotVersion, migrateSnapshot } from './migrations';
+import {
+  memberRecordSchema,
+  paymentRecordSchema,
+  installmentRecordSchema,
+  messageRecordSchema,
+  settingsRecordSchema,
+  formatZodIssues,
+} from './schemas';
+import { Member, Payment, Installment, Message, Settings, Fund, ImportOptions, ImportReport, ImportIssue } from '@/types';
+import { getInstallmentId } from '@/utils/scheduleUtils';
+
+export class ImportValidationError extends Error {
+  constructor(public report: ImportReport) {
+    const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+    super(`Import rejected: ${errorCount} ${errorCount === 1 ? 'error' : 'errors'} found`);
+    this.name = 'ImportValidationError';
+  }
+}
+
+export interface ExistingData {
+  members: Member[];
+  payments: Payment[];
+  messages: Message[];
+  funds: Fund[];
+}
+
+export interface CollectionWrite<T> {
+  replace: boolean; // clear the collection before writing
+  records: T[];
+}
+
+export interface ImportPlan {
+  report: ImportReport;
+  members?: CollectionWrite<Member>;
+  payments?: CollectionWrite<Payment>;
+  installments?: CollectionWrite<Installment>;
+  messages?: CollectionWrite<Message>;
+  settings?: Settings;
+}
+
+type RecordCollection = 'members' | 'payments' | 'installments' | 'messages';
+
+function validateCollection<T extends { id: string }>(
+  collection: RecordCollection,
+  records: unknown[],
+  schema: z.ZodTypeAny,
+  report: ImportReport
+): { record: T; index: number }[] {
+  const valid: { record: T; index: number }[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach((raw, index) => {
+    const result = schema.safeParse(raw);
+    const recordId = typeof (raw as { id?: unknown })?.id === 'string' ? (raw as { id: string }).id : undefined;
+
+    if (!result.success) {
+      report.issues.push({
+        collection,
+        index,
+        recordId,
+        severity: 'error',
+        message: formatZodIssues(result.error).join('; '),
+      });
+      return;
+    }
+
+    const record = result.data as T;
+    if (seenIds.has(record.id)) {
+      report.issues.push({ collection, index, recordId, severity: 'error', message: `Duplicate id ${record.id} in file` });
+      return;
+    }
+    seenIds.add(record.id);
+    valid.push({ record, index });
+  });
+
+  report.counts[collection] = {
+    total: records.length,
+    valid: valid.length,
+    invalid: records.length - valid.length,
+  };
+  return valid;
+}
+
+// Validates a backup file against the current schema and the data already stored,
+// and works out exactly what to write. Nothing is written here; callers apply the
+// plan atomically only when the report contains no errors.
+export function planImport(jsonData: string, existing: ExistingData, options: ImportOptions): ImportPlan {
+  const report: ImportReport = {
+    mode: options.mode,
+    dryRun: !!options.dryRun,
+    applied: false,
+    schemaVersion: 0,
+    counts: {
+      members: { total: 0, valid: 0, invalid: 0 },
+      payments: { total: 0, valid: 0, invalid: 0 },
+      installments: { total: 0, valid: 0, invalid: 0 },
+      messages: { total: 0, valid: 0, invalid: 0 },
+    },
+    issues: [],
+  };
+  const fileError = (message: string): ImportPlan => {
+    report.issues.push({ collection: 'file', index: -1, severity: 'error', message });
+    return { report };
+  };
+
+  let raw;
+  try {
+    raw = JSON.parse(jsonData);
+  } catch (error) {
+    return fileError(`File is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return fileError('File does not contain a backup object');
+  }
+  if (!raw.members && !raw.payments && !raw.messages && !raw.settings) {
+    return fileError('File contains no members, payments, messages or settings');
+  }
+
+  report.schemaVersion = getSnapshotVersion(raw);
+  let data;
+  try {
+    data = migrateSnapshot(raw);
+  } catch (error) {
+    return fileError((error as Error).message);
+  }
+
+  const has = {
+    members: Array.isArray(raw.members),
+    payments: Array.isArray(raw.payments),
+    installments: Array.isArray(raw.installments),
+    messages: Array.isArray(raw.messages),
+  };
+
+  const importedMembers = validateCollection<Member>('members', data.members, memberRecordSchema, report);
+  const importedPayments = validateCollection<Payment>('payments', data.payments, paymentRecordSchema, report);
+  const importedInstallments = validateCollection<Installment>('installments', data.installments, installmentRecordSchema, report);
+  const importedMessages = validateCollection<Message>('messages', data.messages, messageRecordSchema, report);
+
+  let settings: Settings | undefined;
+  if (data.settings) {
+    const result = settingsRecordSchema.safeParse(data.settings);
+    if (result.success) {
+      settings = result.data as Settings;
+    } else {
+      report.issues.push({
+        collection: 'settings',
+        index: 0,
+        severity: 'error',
+        message: formatZodIssues(result.error).join('; '),
+      });
+    }
+  }
+
+  // Append gives every imported record a fresh id, so remap references between them
+  const memberIdMap = new Map<string, string>();
+  const paymentIdMap = new Map<string, string>();
+  if (options.mode === 'append') {
+    importedMembers.forEach(({ record }) => memberIdMap.set(record.id, uuidv4()));
+    importedPayments.forEach(({ record }) => paymentIdMap.set(record.id, uuidv4()));
+  }
+  const remapMember = (id: string) => memberIdMap.get(id) ?? id;
+  const remapPayment = (id: string | undefined) => id && (paymentIdMap.get(id) ?? id);
+
+  const members = importedMembers.map(({ record }) =>
+    options.mode === 'append' ? { ...record, id: remapMember(record.id) } : record
+  );
+  const payments = importedPayments.map(({ record }) =>
+    options.mode === 'append'
+      ? {
+          ...record,
+          id: remapPayment(record.id)!,
+          member_id: remapMember(record.member_id),
+          reverses: remapPayment(record.reverses),
+          reversed_by: remapPayment(record.reversed_by),
+          deleted_with: record.deleted_with && remapMember(record.deleted_with),
+        }
+      : record
+  );
+  // Installment ids are derived from the member, so they follow the remapped id
+  const installments = importedInstallments.map(({ record }) => {
+    if (options.mode !== 'append') return record;
+    const memberId = remapMember(record.member_id);
+    return {
+      ...record,
+      id: getInstallmentId(memberId, record.due_date),
+      member_id: memberId,
+      allocations: record.allocations.map(allocation => ({ ...allocation, payment_id: remapPayment(allocation.payment_id)! })),
+    };
+  });
+  const messages = importedMessages.map(({ record }) =>
+    options.mode === 'append'
+      ? {
+          ...record,
+          id: uuidv4(),
+          member_id: record.member_id ? remapMember(record.member_id) : undefined,
+          deleted_with: record.deleted_with && remapMember(record.deleted_with),
+        }
+      : record
+  );
+
+  // Members that will exist once the import is applied
+  const replacingMembers = options.mode === 'replace' && has.members;
+  const finalMembers = new Map<string, Member>();
+  if (!replacingMembers) existing.members.forEach(member => finalMembers.set(member.id, member));
+  members.forEach(member => finalMembers.set(member.id, member));
+
+  if (options.mode === 'merge') {
+    const existingMemberIds = new Set(existing.members.map(m => m.id));
+    const existingPaymentIds = new Set(existing.payments.map(p => p.id));
+    importedMembers.forEach(({ record, index }) => {
+      if (existingMemberIds.has(record.id)) {
+        report.issues.push({ collection: 'members', index, recordId: record.id, severity: 'warning', message: `Will overwrite existing member ${record.full_name}` });
+      }
+    });
+    importedPayments.forEach(({ record, index }) => {
+      if (existingPaymentIds.has(record.id)) {
+        report.issues.push({ collection: 'payments', index, recordId: record.id, severity: 'warning', message: 'Will overwrite existing payment' });
+      }
+    });
+  }
+
+  const emails = new Map<string, string>();
+  finalMembers.forEach(member => {
+    const email = member.email.toLowerCase();
+    const other = emails.get(email);
+    if (other && other !== member.id) {
+      const entry = importedMembers.find(({ record }) => remapMember(record.id) === member.id);
+      if (entry) {
+        report.issues.push({ collection: 'members', index: entry.index, recordId: entry.record.id, severity: 'warning', message: `Email ${member.email} is shared with another member` });
+      }
+    }
+    emails.set(email, member.id);
+  });
+
+  // Funds are only ever added or updated by an import, never cleared
+  const finalFundIds = new Set(existing.funds.map(fund => fund.id));
+  (settings as (Settings & { funds?: Fund[] }) | undefined)?.funds?.forEach(fund => finalFundIds.add(fund.id));
+
+  importedPayments.forEach(({ record, index }, i) => {
+    if (!finalMembers.has(payments[i].member_id)) {
+      report.issues.push({ collection: 'payments', index, recordId: record.id, severity: 'error', message: `Payment refers to member ${record.member_id}, which does not exist` });
+    } else if (record.fund_id && !finalFundIds.has(record.fund_id)) {
+      report.issues.push({ collection: 'payments', index, recordId: record.id, severity: 'error', message: `Payment is designated to fund ${record.fund_id}, which does not exist` });
+    } else if (new Date(record.payment_date) > new Date()) {
+      report.issues.push({ collection: 'payments', index, recordId: record.id, severity: 'warning', message: 'Payment date is in the future' });
+    }
+  });
+
+  // A refund or void whose original is missing still counts, but can no longer be traced
+  const finalPaymentIds = new Set(payments.map(payment => payment.id));
+  if (!(options.mode === 'replace' && has.payments)) existing.payments.forEach(payment => finalPaymentIds.add(payment.id));
+  importedPayments.forEach(({ record, index }, i) => {
+    const reverses = payments[i].reverses;
+    if (reverses && !finalPaymentIds.has(reverses)) {
+      report.issues.push({ collection: 'payments', index, recordId: record.id, severity: 'warning', message: `Reverses payment ${record.reverses}, which does not exist` });
+    }
+  });
+
+  importedInstallments.forEach(({ record, index }, i) => {
+    if (!finalMembers.has(installments[i].member_id)) {
+      report.issues.push({ collection: 'installments', index, recordId: record.id, severity: 'error', message: `Installment refers to member ${record.member_id}, which does not exist` });
+    }
+  });
+
+  importedMessages.forEach(({ record, index }, i) => {
+    const memberId = messages[i].member_id;
+    if (memberId && !finalMembers.has(memberId)) {
+      report.issues.push({ collection: 'messages', index, recordId: record.id, severity: 'warning', message: `Message refers to member ${record.member_id}, which does not exist` });
+    }
+  });
+
+  if (replacingMembers && !has.payments) {
+    const orphaned = existing.payments.filter(payment => !finalMembers.has(payment.member_id)).length;
+    if (orphaned > 0) {
+      report.issues.push({ collection: 'payments', index: -1, severity: 'warning', message: `${orphaned} existing payments will no longer match a member` });
+    }
+  }
+
+  const replace = options.mode === 'replace';
+  return {
+    report,
+    members: has.members ? { replace, records: members } : undefined,
+    payments: has.payments ? { replace, records: payments } : undefined,
+    installments: has.installments ? { replace, records: installments } : undefined,
+    messages: has.messages ? { replace, records: messages } : undefined,
+    settings,
+  };
+}
+
+export function hasImportErrors(report: ImportReport): boolean {
+  return report.issues.some((issue: ImportIssue) => issue.severity === 'error');
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DB_NAME, openDatabase, promisifyRequest } from './indexedDb';
+
+const SEGMENT = {
+  id: 'seg-1',
+  name: 'Lapsed',
+  match: 'all',
+  conditions: [{ field: 'active', value: false }],
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+const FUND = {
+  id: 'fund-1',
+  kind: 'fund',
+  name: 'School supplies',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+// A database as version 11 left it, with segments and funds saved in the settings
+function openVersion11(settings: object): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 11);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('meta').put(settings, 'settings');
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('upgradeSchema', () => {
+  it('moves segments and funds out of the settings into their own stores', async () => {
+    await openVersion11({ org_name: 'Hope Foundation', member_segments: [SEGMENT], funds: [FUND] });
+
+    const db = await openDatabase();
+    const tx = db.transaction(['segments', 'funds', 'meta'], 'readonly');
+    const [segments, funds, settings] = await Promise.all([
+      promisifyRequest(tx.objectStore('segments').getAll()),
+      promisifyRequest(tx.objectStore('funds').getAll()),
+      promisifyRequest(tx.objectStore('meta').get('settings')),
+    ]);
+    db.close();
+
+    expect(segments).toEqual([SEGMENT]);
+    expect(funds).toEqual([FUND]);
+    expect(settings).toEqual({ org_name: 'Hope Foundation' });
+  });
+});
@@ -0,0 +1,261 @@
+import { get, clear } from 'idb-keyval';
+import { v4 as uuidv4 } from 'uuid';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from './migrations';
+import { STARTER_MESSAGE_TEMPLATES } from '@/utils/templateUtils';
+import { campaignFromBulkMessage } from '@/campaigns/campaignUtils';
+
+export const DB_NAME = 'donor-hub';
+export const DB_VERSION = 13;
+
+export type StoreName = 'members' | 'payments' | 'installments' | 'messages' | 'meta' | 'users' | 'roles' | 'session_events' | 'audit_log' | 'receipts' | 'message_templates' | 'automation_sends' | 'automation_runs' | 'inbound_messages' | 'message_threads' | 'campaigns' | 'segments' | 'funds';
+
+// Stores covered by backups, imports and "clear data". Users, roles, the
+// session event log, the audit log, issued receipts, message templates, member
+// segments, funds, the automation records, the inbox and campaigns are
+// deliberately excluded; segments and funds still go into backups with the settings.
+export const DATA_STORES: StoreName[] = ['members', 'payments', 'installments', 'messages', 'meta'];
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionComplete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+function upgradeSchema(db: IDBDatabase, tx: IDBTransaction): void {
+  if (!db.objectStoreNames.contains('members')) {
+    const members = db.createObjectStore('members', { keyPath: 'id' });
+    members.createIndex('active', 'active');
+  }
+
+  if (!db.objectStoreNames.contains('payments')) {
+    const payments = db.createObjectStore('payments', { keyPath: 'id' });
+    payments.createIndex('member_id', 'member_id');
+    payments.createIndex('payment_date', 'payment_date');
+    payments.createIndex('status', 'status');
+  }
+
+  // Generated from member terms, but kept because waivers and write-offs live here
+  if (!db.objectStoreNames.contains('installments')) {
+    const installments = db.createObjectStore('installments', { keyPath: 'id' });
+    installments.createIndex('member_id', 'member_id');
+    installments.createIndex('due_date', 'due_date');
+  }
+
+  if (!db.objectStoreNames.contains('messages')) {
+    const messages = db.createObjectStore('messages', { keyPath: 'id' });
+    messages.createIndex('member_id', 'member_id');
+    messages.createIndex('sent_at', 'sent_at');
+  }
+
+  // Singletons such as settings and the current user, keyed out-of-line
+  if (!db.objectStoreNames.contains('meta')) {
+    db.createObjectStore('meta');
+  }
+
+  if (!db.objectStoreNames.contains('users')) {
+    const users = db.createObjectStore('users', { keyPath: 'id' });
+    users.createIndex('email', 'email', { unique: true });
+  }
+
+  // Custom roles only; the built-in ones live in code
+  if (!db.objectStoreNames.contains('roles')) {
+    db.createObjectStore('roles', { keyPath: 'id' });
+  }
+
+  if (!db.objectStoreNames.contains('session_events')) {
+    const sessionEvents = db.createObjectStore('session_events', { keyPath: 'id' });
+    sessionEvents.createIndex('occurred_at', 'occurred_at');
+  }
+
+  if (!db.objectStoreNames.contains('audit_log')) {
+    const auditLog = db.createObjectStore('audit_log', { keyPath: 'id' });
+    auditLog.createIndex('occurred_at', 'occurred_at');
+    auditLog.createIndex('entity', 'entity');
+    auditLog.createIndex('actor_id', 'actor_id');
+  }
+
+  // Kept outside backups and "clear data" so a receipt number is never handed out twice
+  if (!db.objectStoreNames.contains('receipts')) {
+    const receipts = db.createObjectStore('receipts', { keyPath: 'id' });
+    receipts.createIndex('sequence', 'sequence', { unique: true });
+    receipts.createIndex('payment_id', 'payment_id');
+  }
+
+  // Configuration like roles, so outside backups; starts with a few to edit
+  if (!db.objectStoreNames.contains('message_templates')) {
+    const templates = db.createObjectStore('message_templates', { keyPath: 'id' });
+    const now = new Date().toISOString();
+    STARTER_MESSAGE_TEMPLATES.forEach(template => {
+      templates.put({ ...template, id: uuidv4(), created_at: now, updated_at: now });
+    });
+  }
+
+  // Outside "clear data" too, so restoring a backup never repeats a reminder
+  if (!db.objectStoreNames.contains('automation_sends')) {
+    const sends = db.createObjectStore('automation_sends', { keyPath: 'key' });
+    sends.createIndex('member_id', 'member_id');
+  }
+
+  if (!db.objectStoreNames.contains('automation_runs')) {
+    const runs = db.createObjectStore('automation_runs', { keyPath: 'id' });
+    runs.createIndex('started_at', 'started_at');
+  }
+
+  // Cleared with the data, but not part of backups
+  if (!db.objectStoreNames.contains('inbound_messages')) {
+    const inbound = db.createObjectStore('inbound_messages', { keyPath: 'id' });
+    inbound.createIndex('member_id', 'member_id');
+    inbound.createIndex('external_id', 'external_id', { unique: true });
+    inbound.createIndex('received_at', 'received_at');
+  }
+
+  if (!db.objectStoreNames.contains('message_threads')) {
+    db.createObjectStore('message_threads', { keyPath: 'member_id' });
+  }
+
+  // Cleared with the data, but not part of backups. Bulk announcements were
+  // logged as one message with no member; each becomes a sent campaign.
+  if (!db.objectStoreNames.contains('campaigns')) {
+    const campaigns = db.createObjectStore('campaigns', { keyPath: 'id' });
+    campaigns.createIndex('status', 'status');
+
+    const now = new Date().toISOString();
+    const cursorRequest = tx.objectStore('messages').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (!cursor.value.member_id && !cursor.value.campaign_id) {
+        const campaign = campaignFromBulkMessage(cursor.value, now);
+        campaigns.put(campaign);
+        cursor.update({ ...cursor.value, campaign_id: campaign.id });
+      }
+      cursor.continue();
+    };
+  }
+
+  // Kept through "clear data" like templates. Segments and funds were saved
+  // with the settings until they got stores of their own.
+  const fromSettings: { field: string; store: IDBObjectStore }[] = [];
+  if (!db.objectStoreNames.contains('segments')) {
+    fromSettings.push({ field: 'member_segments', store: db.createObjectStore('segments', { keyPath: 'id' }) });
+  }
+
+  if (!db.objectStoreNames.contains('funds')) {
+    fromSettings.push({ field: 'funds', store: db.createObjectStore('funds', { keyPath: 'id' }) });
+  }
+  if (fromSettings.length > 0) moveOutOfSettings(tx, fromSettings);
+}
+
+// One read and one write of the settings, whichever fields are being moved,
+// so the moves cannot overwrite each other
+function moveOutOfSettings(tx: IDBTransaction, moves: { field: string; store: IDBObjectStore }[]): void {
+  const meta = tx.objectStore('meta');
+  const request = meta.get('settings');
+  request.onsuccess = () => {
+    const settings = request.result;
+    if (!settings || !moves.some(({ field }) => field in settings)) return;
+    moves.forEach(({ field, store }) => {
+      ((settings[field] ?? []) as unknown[]).forEach(record => store.put(record));
+      delete settings[field];
+    });
+    meta.put(settings, 'settings');
+  };
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgradeSchema(request.result, request.transaction!);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+  });
+}
+
+const LEGACY_MIGRATED_KEY = 'legacy_keyval_migrated';
+
+// Copies the whole-array collections written by earlier versions (idb-keyval's
+// default store) into the per-record object stores, once, in one transaction.
+export async function migrateLegacyKeyvalStore(db: IDBDatabase): Promise<void> {
+  const metaTx = db.transaction('meta', 'readonly');
+  const alreadyMigrated = await promisifyRequest(metaTx.objectStore('meta').get(LEGACY_MIGRATED_KEY));
+  if (alreadyMigrated) return;
+
+  const [members, payments, messages, settings, currentUser] = await Promise.all([
+    get('members'),
+    get('payments'),
+    get('messages'),
+    get('settings'),
+    get('currentUser'),
+  ]);
+
+  const tx = db.transaction(DATA_STORES, 'readwrite');
+  (members || []).forEach((member: unknown) => tx.objectStore('members').put(member));
+  (payments || []).forEach((payment: unknown) => tx.objectStore('payments').put(payment));
+  (messages || []).forEach((message: unknown) => tx.objectStore('messages').put(message));
+  if (settings) tx.objectStore('meta').put(settings, 'settings');
+  if (currentUser) tx.objectStore('meta').put(currentUser, 'currentUser');
+  tx.objectStore('meta').put(true, LEGACY_MIGRATED_KEY);
+  await transactionComplete(tx);
+
+  // Only drop the old copy once the new stores hold the data
+  await clear();
+}
+
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+// Brings records written by an older app version up to CURRENT_SCHEMA_VERSION.
+// Runs on every startup; a no-op once the stored version is current.
+export async function migrateStoredSchema(db: IDBDatabase): Promise<void> {
+  const versionTx = db.transaction('meta', 'readonly');
+  const storedVersion = await promisifyRequest(versionTx.objectStore('meta').get(SCHEMA_VERSION_KEY));
+  if (storedVersion === CURRENT_SCHEMA_VERSION) return;
+
+  const readTx = db.transaction(DATA_STORES, 'readonly');
+  const [members, payments, messages, settings] = await Promise.all([
+    promisifyRequest(readTx.objectStore('members').getAll()),
+    promisifyRequest(readTx.objectStore('payments').getAll()),
+    promisifyRequest(readTx.objectStore('messages').getAll()),
+    promisifyRequest(readTx.objectStore('meta').get('settings')),
+  ]);
+
+  const migrated = migrateSnapshot({
+    schemaVersion: storedVersion ?? 0,
+    members,
+    payments,
+    messages,
+    settings,
+  });
+
+  const tx = db.transaction(DATA_STORES, 'readwrite');
+  const replaceStore = (storeName: StoreName, records: unknown[]) => {
+    const store = tx.objectStore(storeName);
+    store.clear();
+    records.forEach(record => store.put(record));
+  };
+  replaceStore('members', migrated.members);
+  replaceStore('payments', migrated.payments);
+  replaceStore('messages', migrated.messages);
+  if (migrated.settings) tx.objectStore('meta').put(migrated.settings, 'settings');
+  stampSchemaVersion(tx);
+  await transactionComplete(tx);
+}
+
+// Queues the version write on a readwrite transaction that includes the meta store
+export function stampSchemaVersion(tx: IDBTransaction): void {
+  tx.objectStore('meta').put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+}
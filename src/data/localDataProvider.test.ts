@@ -0,0 +1,339 @@
+import { describe, expect, it } from 'vitest';
+import { localDataProvider } from './localDataProvider';
+import { handleDeliveryWebhook } from '@/email/deliveryEvents';
+import { buildFixturePayload } from '@/email/webhookFixtures';
+import { parseInboundEmail } from '@/email/inbound';
+import { INBOUND_FIXTURES, buildReplyEmail } from '@/email/inboundFixtures';
+
+async function receiptedPayment(amount: number) {
+  const member = await localDataProvider.createMember({
+    full_name: 'Ada Lovelace',
+    phone_number: '+251911000000',
+    email: 'ada@example.org',
+    payment_amount: amount,
+    payment_frequency: 'monthly',
+    payment_start_date: '2026-01-01',
+    payment_method: 'bank',
+    preferred_contact: 'email',
+    active: true,
+  });
+  const payment = await localDataProvider.createPayment({
+    member_id: member.id,
+    amount,
+    payment_date: '2026-01-05T00:00:00.000Z',
+    payment_method: 'bank',
+    status: 'paid',
+  });
+  const receipt = await localDataProvider.issueReceipt(payment.id);
+  return { payment, receipt };
+}
+
+describe('reversePayment', () => {
+  it('voids the receipt of a voided payment', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.reversePayment(payment.id, { type: 'void', reason: 'Entered twice' });
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([
+      expect.objectContaining({ id: receipt.id, status: 'void', void_reason: 'Payment voided: Entered twice' }),
+    ]);
+  });
+
+  it('voids the receipt of a fully refunded payment', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.reversePayment(payment.id, { type: 'refund', reason: 'Donor asked', amount: 100 });
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([
+      expect.objectContaining({ id: receipt.id, status: 'void', void_reason: 'Payment refunded: Donor asked' }),
+    ]);
+  });
+
+  it('reissues the receipt for what is left after a partial refund', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.reversePayment(payment.id, { type: 'refund', reason: 'Overpaid', amount: 30 });
+    const receipts = await localDataProvider.getReceiptsByPayment(payment.id);
+    const reissued = receipts.find(r => r.status === 'issued');
+
+    expect(receipts.find(r => r.id === receipt.id)).toMatchObject({ status: 'void', void_reason: 'Payment refunded: Overpaid' });
+    expect(reissued).toMatchObject({
+      amount: 70,
+      donor_name: 'Ada Lovelace',
+      payment_date: receipt.payment_date,
+      replaces: receipt.number,
+      sequence: receipt.sequence + 1,
+    });
+    expect(reissued!.number).not.toBe(receipt.number);
+  });
+
+  it('leaves payments without a receipt without one', async () => {
+    const { payment, receipt } = await receiptedPayment(50);
+    await localDataProvider.voidReceipt(receipt.id, 'Misprinted');
+
+    await localDataProvider.reversePayment(payment.id, { type: 'refund', reason: 'Overpaid', amount: 20 });
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([
+      expect.objectContaining({ id: receipt.id, status: 'void', void_reason: 'Misprinted' }),
+    ]);
+  });
+
+  it('touches no receipt when the reversal is refused', async () => {
+    const { payment, receipt } = await receiptedPayment(40);
+
+    await expect(localDataProvider.reversePayment(payment.id, { type: 'refund', reason: 'Too much', amount: 60 })).rejects.toThrow();
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([receipt]);
+  });
+});
+
+describe('payment edits', () => {
+  it('reissues the receipt with the new amount', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.updatePayment(payment.id, { amount: 120 });
+    const receipts = await localDataProvider.getReceiptsByPayment(payment.id);
+
+    expect(receipts.find(r => r.id === receipt.id)).toMatchObject({ status: 'void', void_reason: 'Payment edited' });
+    expect(receipts.find(r => r.status === 'issued')).toMatchObject({ amount: 120, replaces: receipt.number });
+  });
+
+  it('reissues the receipt to the member the payment moved to', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+    const other = await localDataProvider.createMember({
+      full_name: 'Charles Babbage',
+      phone_number: '+251911000001',
+      email: 'charles@example.org',
+      payment_amount: 100,
+      payment_frequency: 'monthly',
+      payment_start_date: '2026-01-01',
+      payment_method: 'cash',
+      preferred_contact: 'sms',
+      active: true,
+    });
+
+    await localDataProvider.updatePayment(payment.id, { member_id: other.id, payment_method: 'cash' });
+    const reissued = (await localDataProvider.getReceiptsByPayment(payment.id)).find(r => r.status === 'issued');
+
+    expect(reissued).toMatchObject({ member_id: other.id, donor_name: 'Charles Babbage', payment_method: 'cash' });
+    expect(reissued!.id).not.toBe(receipt.id);
+  });
+
+  it('only voids the receipt when the payment is no longer paid', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.updatePayment(payment.id, { status: 'unpaid' });
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([
+      expect.objectContaining({ id: receipt.id, status: 'void', void_reason: 'Payment edited' }),
+    ]);
+  });
+
+  it('keeps the receipt when nothing it prints changed', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.updatePayment(payment.id, { notes: 'Thanks' });
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([receipt]);
+  });
+
+  it('voids the receipt of a deleted payment', async () => {
+    const { payment, receipt } = await receiptedPayment(100);
+
+    await localDataProvider.deletePayment(payment.id);
+    expect(await localDataProvider.getReceiptsByPayment(payment.id)).toEqual([
+      expect.objectContaining({ id: receipt.id, status: 'void', void_reason: 'Payment deleted' }),
+    ]);
+  });
+});
+
+describe('segments', () => {
+  it('saves each segment on its own and lists them by name', async () => {
+    const lapsed = await localDataProvider.saveSegment({ name: 'Lapsed', match: 'all', conditions: [{ field: 'active', value: false }] });
+    const annual = await localDataProvider.saveSegment({ name: 'Annual', match: 'any', conditions: [{ field: 'payment_frequency', values: ['yearly'] }] });
+    const renamed = await localDataProvider.saveSegment({ ...lapsed, name: 'Lapsed donors' });
+
+    expect(renamed).toMatchObject({ id: lapsed.id, created_at: lapsed.created_at, name: 'Lapsed donors' });
+    expect((await localDataProvider.getSegments()).map(s => s.id)).toEqual([annual.id, lapsed.id]);
+  });
+
+  it('refuses a segment with an incomplete condition', async () => {
+    await expect(localDataProvider.saveSegment({ name: 'Nowhere', match: 'all', conditions: [{ field: 'location', values: [] }] }))
+      .rejects.toThrow('Choose at least one location.');
+  });
+
+  it('keeps a segment a campaign still has to send to', async () => {
+    const segment = await localDataProvider.saveSegment({ name: 'Active', match: 'all', conditions: [{ field: 'active', value: true }] });
+    const campaign = await localDataProvider.saveCampaign({ name: 'Spring appeal', segment_id: segment.id, subject: 'Spring', content: 'Hello', donation_window_days: 14 });
+
+    await expect(localDataProvider.deleteSegment(segment.id)).rejects.toThrow('Spring appeal');
+    await localDataProvider.cancelCampaign(campaign.id);
+    await localDataProvider.deleteSegment(segment.id);
+    expect((await localDataProvider.getSegments()).some(s => s.id === segment.id)).toBe(false);
+  });
+
+  it('backs segments up with the settings and restores them', async () => {
+    const backup = JSON.parse(await localDataProvider.exportData());
+    const segment = {
+      id: 'from-backup',
+      name: 'Monthly',
+      match: 'all',
+      conditions: [{ field: 'payment_frequency', values: ['monthly'] }],
+      created_at: '2025-06-01T00:00:00.000Z',
+      updated_at: '2025-06-01T00:00:00.000Z',
+    };
+    backup.settings.member_segments = [segment];
+
+    await localDataProvider.importData(JSON.stringify(backup), { mode: 'merge' });
+    expect(await localDataProvider.getSegments()).toContainEqual(segment);
+    expect(JSON.parse(await localDataProvider.exportData()).settings.member_segments).toContainEqual(segment);
+    expect(await localDataProvider.getSettings()).not.toHaveProperty('member_segments');
+  });
+});
+
+describe('funds', () => {
+  it('checks the fund a payment is designated to', async () => {
+    const { payment } = await receiptedPayment(25);
+    const fund = await localDataProvider.saveFund({ kind: 'fund', name: 'Roof repair' });
+    const closed = await localDataProvider.saveFund({ kind: 'campaign', name: 'Winter appeal', end_date: '2025-12-31' });
+
+    await expect(localDataProvider.updatePayment(payment.id, { fund_id: 'no-such-fund' })).rejects.toThrow('does not exist');
+    await expect(localDataProvider.updatePayment(payment.id, { fund_id: closed.id })).rejects.toThrow('Winter appeal is not open');
+    expect(await localDataProvider.updatePayment(payment.id, { fund_id: fund.id })).toMatchObject({ fund_id: fund.id });
+
+    await localDataProvider.archiveFund(fund.id, true);
+    await expect(localDataProvider.createPayment({ ...payment, fund_id: fund.id })).rejects.toThrow('Roof repair is archived');
+    expect(await localDataProvider.updatePayment(payment.id, { fund_id: fund.id, notes: 'Kept' })).toMatchObject({ fund_id: fund.id });
+  });
+
+  it('only deletes a fund nothing was designated to', async () => {
+    const { payment } = await receiptedPayment(30);
+    const used = await localDataProvider.saveFund({ kind: 'fund', name: 'Library' });
+    const unused = await localDataProvider.saveFund({ kind: 'fund', name: 'Garden' });
+    await localDataProvider.updatePayment(payment.id, { fund_id: used.id });
+    await localDataProvider.deletePayment(payment.id);
+
+    await expect(localDataProvider.deleteFund(used.id)).rejects.toThrow('archive it instead');
+    await localDataProvider.deleteFund(unused.id);
+    expect((await localDataProvider.getFunds()).map(f => f.id)).toContain(used.id);
+    expect((await localDataProvider.getFunds()).map(f => f.id)).not.toContain(unused.id);
+  });
+
+  it('backs funds up with the settings and restores them', async () => {
+    const fund = await localDataProvider.saveFund({ kind: 'campaign', name: 'Spring drive', goal_amount: 5000 });
+    const backup = await localDataProvider.exportData();
+    expect(JSON.parse(backup).settings.funds).toContainEqual(fund);
+
+    await localDataProvider.archiveFund(fund.id, true);
+    await localDataProvider.importData(backup, { mode: 'merge' });
+    expect(await localDataProvider.getFunds()).toContainEqual(fund);
+    expect(await localDataProvider.getSettings()).not.toHaveProperty('funds');
+  });
+});
+
+describe('recordMessageEvents', () => {
+  async function sentEmail() {
+    const member = await localDataProvider.createMember({
+      full_name: 'Grace Hopper',
+      phone_number: '+251911000002',
+      email: 'grace@example.org',
+      payment_amount: 50,
+      payment_frequency: 'monthly',
+      payment_start_date: '2026-01-01',
+      payment_method: 'bank',
+      preferred_contact: 'email',
+      active: true,
+    });
+    const message = await localDataProvider.createMessage({
+      member_id: member.id,
+      message_type: 'thank_you',
+      message_content: 'Thank you.',
+      sent_at: '2026-03-01T08:00:00.000Z',
+      channel: 'email',
+      delivery_status: 'sent',
+    });
+    return { member, message };
+  }
+
+  const now = new Date('2026-03-01T09:00:00.000Z');
+
+  it('records opens and clicks on the message', async () => {
+    const { member, message } = await sentEmail();
+
+    const result = await handleDeliveryWebhook(localDataProvider, buildFixturePayload('clicked', message, member, now));
+    expect(result).toMatchObject({ recorded: 3, duplicates: 0, unmatched: 0, member_changes: [], errors: [] });
+    expect((await localDataProvider.getMessages()).find(m => m.id === message.id)).toMatchObject({
+      delivery_status: 'delivered',
+      delivered_at: '2026-03-01T09:00:00.000Z',
+      opened_at: '2026-03-01T09:01:00.000Z',
+      clicked_at: '2026-03-01T09:01:30.000Z',
+    });
+  });
+
+  it('skips events it has already recorded', async () => {
+    const { member, message } = await sentEmail();
+    const payload = buildFixturePayload('opened', message, member, now);
+
+    await handleDeliveryWebhook(localDataProvider, payload);
+    expect(await handleDeliveryWebhook(localDataProvider, payload)).toMatchObject({ recorded: 0, duplicates: 2 });
+    expect((await localDataProvider.getMessages()).find(m => m.id === message.id)!.events).toHaveLength(2);
+  });
+
+  it('marks the member\'s address invalid after a hard bounce', async () => {
+    const { member, message } = await sentEmail();
+
+    const result = await handleDeliveryWebhook(localDataProvider, buildFixturePayload('hard_bounce', message, member, now));
+    expect(result.member_changes).toEqual([{ before: member, after: expect.objectContaining({ email_invalid_at: now.toISOString() }) }]);
+    expect(await localDataProvider.getMember(member.id)).toMatchObject({
+      email_invalid_at: now.toISOString(),
+      email_invalid_reason: '550 5.1.1 User unknown',
+    });
+  });
+
+  it.each(['unsubscribed', 'complained'])('opts the member out of email when %s', async fixtureKey => {
+    const { member, message } = await sentEmail();
+
+    await handleDeliveryWebhook(localDataProvider, buildFixturePayload(fixtureKey, message, member, now));
+    expect((await localDataProvider.getMember(member.id))!.email_opt_out_at).toBeTruthy();
+  });
+
+  it('counts events for unknown messages as unmatched', async () => {
+    const result = await handleDeliveryWebhook(localDataProvider, [
+      { id: 'e-unknown', type: 'delivered', message_id: 'no-such-message', timestamp: now.toISOString() },
+    ]);
+    expect(result).toMatchObject({ recorded: 0, unmatched: 1 });
+  });
+});
+
+describe('recordInboundMessages', () => {
+  it('links a reply to its member and the message it answers', async () => {
+    const member = await localDataProvider.createMember({
+      full_name: 'Katherine Johnson',
+      phone_number: '+251911000003',
+      email: 'katherine@example.org',
+      payment_amount: 50,
+      payment_frequency: 'monthly',
+      payment_start_date: '2026-01-01',
+      payment_method: 'bank',
+      preferred_contact: 'email',
+      active: true,
+    });
+    const message = await localDataProvider.createMessage({
+      member_id: member.id,
+      message_type: 'reminder',
+      message_subject: 'Your pledge',
+      message_content: 'A friendly reminder.',
+      sent_at: '2026-03-01T08:00:00.000Z',
+      channel: 'email',
+    });
+    const answer = parseInboundEmail(buildReplyEmail(INBOUND_FIXTURES.paid_at_branch, message, member, 'office@example.org'));
+    const stranger = parseInboundEmail(buildReplyEmail(INBOUND_FIXTURES.unknown_sender, message, member, 'office@example.org'));
+
+    expect(await localDataProvider.recordInboundMessages([answer, stranger])).toEqual({ recorded: 2, duplicates: 0, unmatched: 1 });
+    const inbound = await localDataProvider.getInboundMessages();
+    expect(inbound.find(m => m.external_id === answer.external_id)).toMatchObject({ member_id: member.id, in_reply_to: message.id });
+    expect(inbound.find(m => m.external_id === stranger.external_id)).toMatchObject({ member_id: undefined, in_reply_to: undefined });
+  });
+
+  it('skips mail whose external id is already stored', async () => {
+    const input = { channel: 'sms' as const, from: '+10000000001', body: 'Paid', received_at: '2026-03-02T10:00:00.000Z', external_id: 'gw-42' };
+
+    await localDataProvider.recordInboundMessages([input]);
+    expect(await localDataProvider.recordInboundMessages([input, input])).toEqual({ recorded: 0, duplicates: 2, unmatched: 0 });
+    expect((await localDataProvider.getInboundMessages()).filter(m => m.external_id === 'gw-42')).toHaveLength(1);
+  });
+});
@@ -1,148 +1,1418 @@
-import { get, set, del, clear } from 'idb-keyval';
 import { v4 as uuidv4 } from 'uuid';
-import { DataProvider } from './DataProvider';
-import { Member, Payment, Message, User, Settings } from '@/types';
+import { AuditSink, DataProvider } from './DataProvider';
+import {
+  DATA_STORES,
+  StoreName,
+  openDatabase,
+  migrateLegacyKeyvalStore,
+  migrateStoredSchema,
+  stampSchemaVersion,
+  promisifyRequest,
+  transactionComplete,
+} from './indexedDb';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { planImport, hasImportErrors, ImportValidationError, CollectionWrite } from './importValidation';
+import {
+  Member,
+  Payment,
+  PaymentReversal,
+  Installment,
+  InstallmentResolution,
+  Receipt,
+  Message,
+  MessageDeliveryUpdate,
+  MessageEventInput,
+  MessageEventsResult,
+  MessageTemplate,
+  MessageTemplateInput,
+  MemberSegment,
+  MemberSegmentInput,
+  Fund,
+  FundInput,
+  NewsletterCampaign,
+  NewsletterCampaignInput,
+  CampaignStatus,
+  CampaignSendUpdate,
+  InboundMessage,
+  InboundMessageInput,
+  InboundMessagesResult,
+  MessageThread,
+  AutomationRun,
+  AutomationSend,
+  AutomationSendInput,
+  SoftDeletable,
+  RecycleBin,
+  RecycleBinEntity,
+  User,
+  UserAccount,
+  NewUser,
+  StaffMember,
+  RoleDefinition,
+  Session,
+  SessionEvent,
+  AuditEntry,
+  AuditLogFilter,
+  Settings,
+  ImportOptions,
+  ImportReport,
+} from '@/types';
+import { hashPassword, verifyPassword, validatePasswordStrength } from '@/utils/passwordUtils';
+import { BUILT_IN_ROLES } from '@/utils/permissions';
+import { DEFAULT_SMS_COUNTRY_CODE } from '@/utils/smsUtils';
+import { validateMessageTemplate } from '@/utils/templateUtils';
+import { getConditionIssue } from '@/utils/segmentUtils';
+import { isFundOpen } from '@/utils/fundUtils';
+import { DEFAULT_AUTOMATION_RULES } from '@/automation/automationRules';
+import { applyMessageEvent } from '@/email/deliveryEvents';
+import { matchInboundMessage } from '@/email/inbound';
+import { buildSchedule } from '@/utils/scheduleUtils';
+import { RECEIPTED_PAYMENT_FIELDS, canIssueReceipt, formatReceiptNumber } from '@/utils/receiptUtils';
+import {
+  DEFAULT_IDLE_LOCK_MINUTES,
+  DEFAULT_SESSION_MAX_HOURS,
+  LoginAttempts,
+  LoginThrottledError,
+  getRetryAt,
+  isSessionExpired,
+} from '@/utils/sessionUtils';
 
-class LocalDataProvider implements DataProvider {
-  private async getCollection<T>(key: string): Promise<T[]> {
-    return (await get(key)) || [];
+const DEFAULT_RECYCLE_BIN_RETENTION_DAYS = 30;
+
+const RECYCLE_BIN_STORES: Record<RecycleBinEntity, StoreName> = {
+  member: 'members',
+  payment: 'payments',
+  message: 'messages',
+};
+
+class LocalDataProvider implements DataProvider, AuditSink {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().then(async (db) => {
+        await migrateLegacyKeyvalStore(db);
+        await migrateStoredSchema(db);
+        await this.ensureDemoAccounts(db);
+        return db;
+      });
+      // Allow a retry on the next call if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getAll<T>(storeName: StoreName): Promise<T[]> {
+    const db = await this.getDb();
+    return promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+  }
+
+  private async getAllByIndex<T>(storeName: StoreName, indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]> {
+    const db = await this.getDb();
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+    return promisifyRequest(index.getAll(query));
+  }
+
+  private async getRecord<T>(storeName: StoreName, key: string): Promise<T | null> {
+    const db = await this.getDb();
+    const record = await promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+    return (record as T) ?? null;
+  }
+
+  private async putRecord<T>(storeName: StoreName, record: T, key?: string): Promise<T> {
+    const db = await this.getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(record, key);
+    await transactionComplete(tx);
+    return record;
+  }
+
+  private async deleteRecord(storeName: StoreName, key: string): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete(key);
+    await transactionComplete(tx);
+  }
+
+  // Read-modify-write inside a single transaction so concurrent tabs cannot interleave
+  private async updateRecord<T extends { id: string }>(
+    storeName: StoreName,
+    id: string,
+    updates: Partial<T>,
+    notFoundMessage: string
+  ): Promise<T> {
+    const db = await this.getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const existing = await promisifyRequest<T | undefined>(store.get(id));
+    if (!existing) {
+      tx.abort();
+      throw new Error(notFoundMessage);
+    }
+
+    const updated = { ...existing, ...updates, id };
+    store.put(updated);
+    await transactionComplete(tx);
+    return updated;
+  }
+
+  // Soft-deleted records stay in their stores; normal reads skip them
+  private withoutDeleted<T extends SoftDeletable>(records: T[]): T[] {
+    return records.filter(record => !record.deleted_at);
   }
 
-  private async setCollection<T>(key: string, data: T[]): Promise<void> {
-    await set(key, data);
+  private async deletionMarker(): Promise<Required<Pick<SoftDeletable, 'deleted_at' | 'deleted_by'>>> {
+    const currentUser = await this.getCurrentUser();
+    return { deleted_at: new Date().toISOString(), deleted_by: currentUser?.id || 'unknown' };
   }
 
   // Members
   async getMembers(): Promise<Member[]> {
-    return this.getCollection<Member>('members');
+    return this.withoutDeleted(await this.getAll<Member>('members'));
   }
 
   async getMember(id: string): Promise<Member | null> {
-    const members = await this.getMembers();
-    return members.find(m => m.id === id) || null;
+    const member = await this.getRecord<Member>('members', id);
+    return member && !member.deleted_at ? member : null;
   }
 
   async createMember(memberData: Omit<Member, 'id' | 'created_at'>): Promise<Member> {
-    const members = await this.getMembers();
     const member: Member = {
       ...memberData,
       id: uuidv4(),
       created_at: new Date().toISOString()
     };
-    members.push(member);
-    await this.setCollection('members', members);
-    return member;
+    return this.putRecord('members', member);
   }
 
   async updateMember(id: string, updates: Partial<Member>): Promise<Member> {
-    const members = await this.getMembers();
-    const index = members.findIndex(m => m.id === id);
-    if (index === -1) throw new Error('Member not found');
-    
-    members[index] = { ...members[index], ...updates };
-    await this.setCollection('members', members);
-    return members[index];
+    // A new address gets a fresh start after a hard bounce on the old one
+    const existing = updates.email !== undefined ? await this.getRecord<Member>('members', id) : null;
+    const emailChanged = existing && existing.email_invalid_at && updates.email.trim().toLowerCase() !== existing.email.trim().toLowerCase();
+    return this.updateRecord<Member>('members', id, emailChanged
+      ? { ...updates, email_invalid_at: undefined, email_invalid_reason: undefined }
+      : updates, 'Member not found');
   }
 
+  // Soft delete: the member's payments and messages go to the recycle bin with
+  // them, tagged so a restore brings back exactly that set
   async deleteMember(id: string): Promise<void> {
-    const members = await this.getMembers();
-    const filtered = members.filter(m => m.id !== id);
-    await this.setCollection('members', filtered);
-    
-    // Also delete related payments and messages
-    const payments = await this.getPayments();
-    const messages = await this.getMessages();
-    await this.setCollection('payments', payments.filter(p => p.member_id !== id));
-    await this.setCollection('messages', messages.filter(m => m.member_id !== id));
+    const marker = await this.deletionMarker();
+    const db = await this.getDb();
+    const tx = db.transaction(['members', 'payments', 'messages'], 'readwrite');
+    const member = await promisifyRequest<Member | undefined>(tx.objectStore('members').get(id));
+    if (!member || member.deleted_at) {
+      tx.abort();
+      throw new Error('Member not found');
+    }
+    tx.objectStore('members').put({ ...member, ...marker });
+
+    for (const storeName of ['payments', 'messages'] as const) {
+      const store = tx.objectStore(storeName);
+      const related = await promisifyRequest<(Payment | Message)[]>(store.index('member_id').getAll(id));
+      related
+        .filter(record => !record.deleted_at)
+        .forEach(record => store.put({ ...record, ...marker, deleted_with: id }));
+    }
+
+    await transactionComplete(tx);
   }
 
   // Payments
   async getPayments(): Promise<Payment[]> {
-    return this.getCollection<Payment>('payments');
+    return this.withoutDeleted(await this.getAll<Payment>('payments'));
+  }
+
+  async getPayment(id: string): Promise<Payment | null> {
+    const payment = await this.getRecord<Payment>('payments', id);
+    return payment && !payment.deleted_at ? payment : null;
   }
 
   async getPaymentsByMember(memberId: string): Promise<Payment[]> {
-    const payments = await this.getPayments();
-    return payments.filter(p => p.member_id === memberId);
+    return this.withoutDeleted(await this.getAllByIndex<Payment>('payments', 'member_id', memberId));
+  }
+
+  async getPaymentsByDateRange(from: string, to: string): Promise<Payment[]> {
+    return this.withoutDeleted(await this.getAllByIndex<Payment>('payments', 'payment_date', IDBKeyRange.bound(from, to)));
   }
 
   async createPayment(paymentData: Omit<Payment, 'id'>): Promise<Payment> {
-    const payments = await this.getPayments();
+    await this.assertFundDesignation(paymentData);
     const payment: Payment = {
       ...paymentData,
       id: uuidv4()
     };
-    payments.push(payment);
-    await this.setCollection('payments', payments);
-    return payment;
+    return this.putRecord('payments', payment);
   }
 
   async updatePayment(id: string, updates: Partial<Payment>): Promise<Payment> {
-    const payments = await this.getPayments();
-    const index = payments.findIndex(p => p.id === id);
-    if (index === -1) throw new Error('Payment not found');
-    
-    payments[index] = { ...payments[index], ...updates };
-    await this.setCollection('payments', payments);
-    return payments[index];
+    await this.assertNotReversed(id);
+    const existing = await this.getRecord<Payment>('payments', id);
+    if (existing && updates.fund_id) await this.assertFundDesignation({ ...existing, ...updates }, existing.fund_id);
+    const currentUser = await this.getCurrentUser();
+
+    const db = await this.getDb();
+    const tx = db.transaction(['payments', 'members', 'receipts'], 'readwrite');
+    const store = tx.objectStore('payments');
+    const payment = await promisifyRequest<Payment | undefined>(store.get(id));
+    if (!payment) {
+      tx.abort();
+      throw new Error('Payment not found');
+    }
+    const updated = { ...payment, ...updates, id };
+    store.put(updated);
+    if (RECEIPTED_PAYMENT_FIELDS.some(field => updated[field] !== payment[field])) {
+      await this.replaceOutdatedReceipt(tx, updated, 'Payment edited', currentUser?.id || 'unknown');
+    }
+    await transactionComplete(tx);
+    return updated;
   }
 
   async deletePayment(id: string): Promise<void> {
-    const payments = await this.getPayments();
-    const filtered = payments.filter(p => p.id !== id);
-    await this.setCollection('payments', filtered);
+    await this.assertNotReversed(id);
+    const marker = await this.deletionMarker();
+
+    const db = await this.getDb();
+    const tx = db.transaction(['payments', 'members', 'receipts'], 'readwrite');
+    const store = tx.objectStore('payments');
+    const payment = await promisifyRequest<Payment | undefined>(store.get(id));
+    if (!payment) {
+      tx.abort();
+      throw new Error('Payment not found');
+    }
+    const deleted = { ...payment, ...marker };
+    store.put(deleted);
+    await this.replaceOutdatedReceipt(tx, deleted, 'Payment deleted', marker.deleted_by);
+    await transactionComplete(tx);
+  }
+
+  // A receipt has to show what the payment now says, so it is voided and, while
+  // the payment is still money received, reissued with the new values
+  private async replaceOutdatedReceipt(tx: IDBTransaction, payment: Payment, reason: string, userId: string): Promise<void> {
+    const store = tx.objectStore('receipts');
+    const receipts = await promisifyRequest<Receipt[]>(store.index('payment_id').getAll(payment.id));
+    const receipt = receipts.find(r => r.status === 'issued');
+    if (!receipt) return;
+
+    const now = new Date().toISOString();
+    store.put({ ...receipt, status: 'void', voided_at: now, voided_by: userId, void_reason: reason });
+
+    if (!canIssueReceipt(payment)) return;
+    const member = await promisifyRequest<Member | undefined>(tx.objectStore('members').get(payment.member_id));
+    if (!member) return;
+    const last = await promisifyRequest(store.index('sequence').openCursor(null, 'prev'));
+    const sequence = ((last?.value as Receipt | undefined)?.sequence ?? 0) + 1;
+    store.add({
+      ...receipt,
+      id: uuidv4(),
+      sequence,
+      number: formatReceiptNumber(sequence),
+      member_id: member.id,
+      donor_name: member.full_name,
+      donor_address: member.address,
+      donor_email: member.email,
+      donor_phone: member.phone_number,
+      amount: payment.amount,
+      payment_method: payment.payment_method,
+      payment_date: payment.payment_date,
+      issued_at: now,
+      issued_by: userId,
+      status: 'issued',
+      replaces: receipt.number,
+    });
+  }
+
+  // Archived funds and ones outside their dates only keep the payments already designated to them
+  private async assertFundDesignation(payment: Pick<Payment, 'fund_id' | 'payment_date'>, currentFundId?: string): Promise<void> {
+    if (!payment.fund_id) return;
+    const fund = await this.getRecord<Fund>('funds', payment.fund_id);
+    if (!fund) throw new Error('The fund this payment is designated to does not exist');
+    if (payment.fund_id !== currentFundId && !isFundOpen(fund, new Date(payment.payment_date))) {
+      throw new Error(`${fund.name} is ${fund.archived_at ? 'archived' : 'not open on the payment date'}`);
+    }
+  }
+
+  // Once a refund or void links two payments, both are history and stay as they are
+  private async assertNotReversed(id: string): Promise<void> {
+    const payment = await this.getRecord<Payment>('payments', id);
+    if (payment?.reverses) throw new Error('Refund and void entries cannot be changed');
+    if (payment?.reversed_by) throw new Error('Refunded or voided payments cannot be changed');
+  }
+
+  // A void is dated with the original, as if it never happened; a refund is
+  // dated today, when the money went back out
+  async reversePayment(id: string, reversal: PaymentReversal): Promise<Payment> {
+    const reason = reversal.reason.trim();
+    if (!reason) throw new Error('A reason is required');
+    const currentUser = await this.getCurrentUser();
+
+    const db = await this.getDb();
+    const tx = db.transaction(['payments', 'receipts'], 'readwrite');
+    const store = tx.objectStore('payments');
+    const original = await promisifyRequest<Payment | undefined>(store.get(id));
+    const reject = (message: string) => {
+      tx.abort();
+      return new Error(message);
+    };
+    if (!original || original.deleted_at) throw reject('Payment not found');
+    if (original.reverses) throw reject('Refund and void entries cannot be reversed');
+    if (original.reversed_by) throw reject(`Payment has already been ${original.reversal_type === 'void' ? 'voided' : 'refunded'}`);
+    if (original.status !== 'paid') throw reject('Only received payments can be refunded or voided');
+
+    const amount = reversal.type === 'void' ? original.amount : reversal.amount ?? original.amount;
+    if (!(amount > 0) || amount > original.amount) throw reject(`Refund must be more than 0 and at most ${original.amount}`);
+
+    const entry: Payment = {
+      id: uuidv4(),
+      member_id: original.member_id,
+      amount: -amount,
+      payment_date: reversal.type === 'void' ? original.payment_date : new Date().toISOString(),
+      payment_method: original.payment_method,
+      status: 'paid',
+      reverses: original.id,
+      reversal_type: reversal.type,
+      reversal_reason: reason,
+      fund_id: original.fund_id,
+      approved_by: currentUser?.id || 'unknown',
+    };
+    store.put(entry);
+    store.put({ ...original, reversed_by: entry.id, reversal_type: reversal.type });
+    await this.reissueReversedReceipt(tx, original, amount, reversal.type, reason, currentUser?.id || 'unknown');
+    await transactionComplete(tx);
+    return entry;
+  }
+
+  // The receipt no longer matches what was received, so it is voided. After a
+  // partial refund the donor still gave the rest, which gets a receipt of its own.
+  private async reissueReversedReceipt(
+    tx: IDBTransaction,
+    original: Payment,
+    reversedAmount: number,
+    type: PaymentReversal['type'],
+    reason: string,
+    userId: string
+  ): Promise<void> {
+    const store = tx.objectStore('receipts');
+    const receipts = await promisifyRequest<Receipt[]>(store.index('payment_id').getAll(original.id));
+    const receipt = receipts.find(r => r.status === 'issued');
+    if (!receipt) return;
+
+    const now = new Date().toISOString();
+    store.put({
+      ...receipt,
+      status: 'void',
+      voided_at: now,
+      voided_by: userId,
+      void_reason: `Payment ${type === 'void' ? 'voided' : 'refunded'}: ${reason}`,
+    });
+
+    const remaining = original.amount - reversedAmount;
+    if (!(remaining > 0)) return;
+    const last = await promisifyRequest(store.index('sequence').openCursor(null, 'prev'));
+    const sequence = ((last?.value as Receipt | undefined)?.sequence ?? 0) + 1;
+    store.add({
+      ...receipt,
+      id: uuidv4(),
+      sequence,
+      number: formatReceiptNumber(sequence),
+      amount: remaining,
+      issued_at: now,
+      issued_by: userId,
+      status: 'issued',
+      replaces: receipt.number,
+    });
+  }
+
+  // Installments
+  // Regenerates schedules as of today for one member or all of them, in one
+  // transaction, writing only installments that changed. Installments of
+  // members in the recycle bin are left alone; those of purged members go.
+  private async syncSchedules(memberId?: string): Promise<Installment[]> {
+    const db = await this.getDb();
+    const tx = db.transaction(['members', 'payments', 'installments'], 'readwrite');
+    const installmentStore = tx.objectStore('installments');
+    const [members, payments, stored] = memberId
+      ? await Promise.all([
+          promisifyRequest<Member | undefined>(tx.objectStore('members').get(memberId)).then(member => member ? [member] : []),
+          promisifyRequest<Payment[]>(tx.objectStore('payments').index('member_id').getAll(memberId)),
+          promisifyRequest<Installment[]>(installmentStore.index('member_id').getAll(memberId)),
+        ])
+      : await Promise.all([
+          promisifyRequest<Member[]>(tx.objectStore('members').getAll()),
+          promisifyRequest<Payment[]>(tx.objectStore('payments').getAll()),
+          promisifyRequest<Installment[]>(installmentStore.getAll()),
+        ]);
+
+    const knownMembers = new Set(members.map(member => member.id));
+    const schedules: Installment[] = [];
+    const today = new Date();
+
+    for (const member of members.filter(member => !member.deleted_at)) {
+      const existing = stored.filter(installment => installment.member_id === member.id);
+      const schedule = buildSchedule(member, existing, payments.filter(payment => payment.member_id === member.id), today);
+      const previous = new Map(existing.map(installment => [installment.id, installment]));
+      schedule.forEach(installment => {
+        if (JSON.stringify(previous.get(installment.id)) !== JSON.stringify(installment)) installmentStore.put(installment);
+        previous.delete(installment.id);
+      });
+      previous.forEach((_, id) => installmentStore.delete(id));
+      schedules.push(...schedule);
+    }
+    stored
+      .filter(installment => !knownMembers.has(installment.member_id))
+      .forEach(installment => installmentStore.delete(installment.id));
+
+    await transactionComplete(tx);
+    return schedules;
+  }
+
+  async getInstallments(): Promise<Installment[]> {
+    return this.syncSchedules();
+  }
+
+  async getInstallmentsByMember(memberId: string): Promise<Installment[]> {
+    return this.syncSchedules(memberId);
+  }
+
+  // Waiving or writing off releases anything paid towards the installment to
+  // the next one; reopening puts it back in line for allocation
+  async resolveInstallment(id: string, resolution: InstallmentResolution | null, note?: string): Promise<Installment> {
+    const installment = await this.getRecord<Installment>('installments', id);
+    if (!installment) throw new Error('Installment not found');
+    if (resolution && installment.state === 'paid') throw new Error('Installment is already paid');
+
+    const { resolved_at: _at, resolved_by: _by, resolution_note: _note, ...unresolved } = installment;
+    if (resolution) {
+      const currentUser = await this.getCurrentUser();
+      await this.putRecord<Installment>('installments', {
+        ...unresolved,
+        state: resolution,
+        resolved_at: new Date().toISOString(),
+        resolved_by: currentUser?.id || 'unknown',
+        resolution_note: note?.trim() || undefined,
+      });
+    } else {
+      await this.putRecord<Installment>('installments', { ...unresolved, state: 'open' });
+    }
+
+    const schedule = await this.syncSchedules(installment.member_id);
+    const updated = schedule.find(item => item.id === id);
+    if (!updated) throw new Error('Installment is no longer part of the schedule');
+    return updated;
+  }
+
+  // Receipts
+  async getReceipts(): Promise<Receipt[]> {
+    return this.getAll<Receipt>('receipts');
+  }
+
+  async getReceiptsByPayment(paymentId: string): Promise<Receipt[]> {
+    return this.getAllByIndex<Receipt>('receipts', 'payment_id', paymentId);
+  }
+
+  // The next number is read and taken in the same transaction, and the unique
+  // sequence index refuses a second receipt with the same number
+  async issueReceipt(paymentId: string): Promise<Receipt> {
+    const payment = await this.getRecord<Payment>('payments', paymentId);
+    if (!payment || payment.deleted_at) throw new Error('Payment not found');
+    if (!canIssueReceipt(payment)) throw new Error('Only received payments that have not been refunded or voided get a receipt');
+    const [member, settings, currentUser] = await Promise.all([
+      this.getRecord<Member>('members', payment.member_id),
+      this.getSettings(),
+      this.getCurrentUser(),
+    ]);
+    if (!member) throw new Error('Member not found');
+
+    const db = await this.getDb();
+    const tx = db.transaction('receipts', 'readwrite');
+    const store = tx.objectStore('receipts');
+    const existing = await promisifyRequest<Receipt[]>(store.index('payment_id').getAll(paymentId));
+    if (existing.some(receipt => receipt.status === 'issued')) {
+      tx.abort();
+      throw new Error('This payment already has a receipt; reprint it or void it first');
+    }
+    const last = await promisifyRequest(store.index('sequence').openCursor(null, 'prev'));
+    const sequence = ((last?.value as Receipt | undefined)?.sequence ?? 0) + 1;
+
+    const receipt: Receipt = {
+      id: uuidv4(),
+      sequence,
+      number: formatReceiptNumber(sequence),
+      payment_id: payment.id,
+      member_id: member.id,
+      donor_name: member.full_name,
+      donor_address: member.address,
+      donor_email: member.email,
+      donor_phone: member.phone_number,
+      org_name: settings.org_name,
+      org_address: settings.org_address,
+      amount: payment.amount,
+      currency: settings.default_currency,
+      payment_method: payment.payment_method,
+      payment_date: payment.payment_date,
+      issued_at: new Date().toISOString(),
+      issued_by: currentUser?.id || 'unknown',
+      status: 'issued',
+    };
+    store.add(receipt);
+    await transactionComplete(tx);
+    return receipt;
+  }
+
+  async voidReceipt(id: string, reason: string): Promise<Receipt> {
+    const trimmed = reason.trim();
+    if (!trimmed) throw new Error('A reason is required');
+    const receipt = await this.getRecord<Receipt>('receipts', id);
+    if (!receipt) throw new Error('Receipt not found');
+    if (receipt.status === 'void') throw new Error(`Receipt ${receipt.number} is already void`);
+
+    const currentUser = await this.getCurrentUser();
+    return this.putRecord<Receipt>('receipts', {
+      ...receipt,
+      status: 'void',
+      voided_at: new Date().toISOString(),
+      voided_by: currentUser?.id || 'unknown',
+      void_reason: trimmed,
+    });
   }
 
   // Messages
   async getMessages(): Promise<Message[]> {
-    return this.getCollection<Message>('messages');
+    return this.withoutDeleted(await this.getAll<Message>('messages'));
   }
 
   async getMessagesByMember(memberId: string): Promise<Message[]> {
-    const messages = await this.getMessages();
-    return messages.filter(m => m.member_id === memberId);
+    return this.withoutDeleted(await this.getAllByIndex<Message>('messages', 'member_id', memberId));
   }
 
-  async createMessage(messageData: Omit<Message, 'id'>): Promise<Message> {
-    const messages = await this.getMessages();
-    const message: Message = {
+  async getMessage(id: string): Promise<Message | null> {
+    const message = await this.getRecord<Message>('messages', id);
+    return message && !message.deleted_at ? message : null;
+  }
+
+  // New messages join the outbox unless the caller says otherwise
+  private toQueuedMessage(messageData: Omit<Message, 'id'>): Message {
+    return {
+      delivery_status: 'queued',
+      delivery_attempts: 0,
+      next_attempt_at: new Date().toISOString(),
       ...messageData,
       id: uuidv4()
     };
-    messages.push(message);
-    await this.setCollection('messages', messages);
-    return message;
+  }
+
+  async createMessage(messageData: Omit<Message, 'id'>): Promise<Message> {
+    return this.putRecord('messages', this.toQueuedMessage(messageData));
+  }
+
+  async createMessages(messagesData: Omit<Message, 'id'>[]): Promise<Message[]> {
+    const messages: Message[] = messagesData.map(messageData => this.toQueuedMessage(messageData));
+
+    const db = await this.getDb();
+    const tx = db.transaction('messages', 'readwrite');
+    messages.forEach(message => tx.objectStore('messages').put(message));
+    await transactionComplete(tx);
+    return messages;
   }
 
   async deleteMessage(id: string): Promise<void> {
-    const messages = await this.getMessages();
-    const filtered = messages.filter(m => m.id !== id);
-    await this.setCollection('messages', filtered);
+    await this.updateRecord<Message>('messages', id, await this.deletionMarker(), 'Message not found');
+  }
+
+  async claimMessageForDelivery(id: string, leaseUntil: string): Promise<Message | null> {
+    const db = await this.getDb();
+    const tx = db.transaction('messages', 'readwrite');
+    const store = tx.objectStore('messages');
+    const message = await promisifyRequest<Message | undefined>(store.get(id));
+    const now = new Date().toISOString();
+    // A 'sending' message whose lease has run out was left behind by a closed tab
+    const claimable = message && !message.deleted_at &&
+      (message.delivery_status === 'queued' || message.delivery_status === 'sending') &&
+      (!message.next_attempt_at || message.next_attempt_at <= now);
+    if (!claimable) {
+      await transactionComplete(tx);
+      return null;
+    }
+
+    const claimed: Message = {
+      ...message,
+      delivery_status: 'sending',
+      delivery_attempts: (message.delivery_attempts ?? 0) + 1,
+      next_attempt_at: leaseUntil,
+    };
+    store.put(claimed);
+    await transactionComplete(tx);
+    return claimed;
+  }
+
+  async updateMessageDelivery(id: string, update: MessageDeliveryUpdate): Promise<Message> {
+    return this.updateRecord<Message>('messages', id, update, 'Message not found');
+  }
+
+  async recordMessageEvents(events: MessageEventInput[]): Promise<MessageEventsResult> {
+    const result: MessageEventsResult = { recorded: 0, duplicates: 0, unmatched: 0, member_changes: [] };
+    const db = await this.getDb();
+    const tx = db.transaction(['messages', 'members'], 'readwrite');
+    const messageStore = tx.objectStore('messages');
+    const memberStore = tx.objectStore('members');
+    const messages = await promisifyRequest<Message[]>(messageStore.getAll());
+
+    for (const event of events) {
+      const message = messages.find(m => (event.message_id ? m.id === event.message_id : m.transport_message_id === event.transport_message_id));
+      if (!message) {
+        result.unmatched += 1;
+        continue;
+      }
+      const member = message.member_id ? await promisifyRequest<Member | undefined>(memberStore.get(message.member_id)) ?? null : null;
+      const applied = applyMessageEvent(message, member, event);
+      if (!applied) {
+        result.duplicates += 1;
+        continue;
+      }
+
+      messageStore.put(applied.message);
+      messages[messages.indexOf(message)] = applied.message;
+      if (member && applied.memberUpdates) {
+        const updated = { ...member, ...applied.memberUpdates };
+        memberStore.put(updated);
+        // A member hit by several events keeps their first before-image
+        const change = result.member_changes.find(c => c.after.id === member.id);
+        if (change) change.after = updated;
+        else result.member_changes.push({ before: member, after: updated });
+      }
+      result.recorded += 1;
+    }
+
+    await transactionComplete(tx);
+    return result;
+  }
+
+  // Inbound messages
+  async getInboundMessages(): Promise<InboundMessage[]> {
+    const messages = await this.getAll<InboundMessage>('inbound_messages');
+    return messages.sort((a, b) => a.received_at.localeCompare(b.received_at));
+  }
+
+  async recordInboundMessages(inputs: InboundMessageInput[]): Promise<InboundMessagesResult> {
+    const [members, messages, settings] = await Promise.all([this.getMembers(), this.getMessages(), this.getSettings()]);
+    const result: InboundMessagesResult = { recorded: 0, duplicates: 0, unmatched: 0 };
+    const db = await this.getDb();
+    const tx = db.transaction('inbound_messages', 'readwrite');
+    const store = tx.objectStore('inbound_messages');
+    const seen = new Set<string>();
+
+    for (const input of inputs) {
+      const existing = await promisifyRequest(store.index('external_id').count(input.external_id));
+      if (existing > 0 || seen.has(input.external_id)) {
+        result.duplicates += 1;
+        continue;
+      }
+      seen.add(input.external_id);
+
+      const match = matchInboundMessage(input, members, messages, settings.sms_country_code);
+      const message: InboundMessage = {
+        id: uuidv4(),
+        channel: input.channel,
+        member_id: match.member_id,
+        from: input.from,
+        subject: input.subject,
+        body: input.body,
+        received_at: input.received_at,
+        external_id: input.external_id,
+        in_reply_to: match.in_reply_to,
+      };
+      store.put(message);
+      result.recorded += 1;
+      if (!message.member_id) result.unmatched += 1;
+    }
+
+    await transactionComplete(tx);
+    return result;
+  }
+
+  async markInboundRead(ids: string[]): Promise<void> {
+    const currentUser = await this.getCurrentUser();
+    const readAt = new Date().toISOString();
+    const db = await this.getDb();
+    const tx = db.transaction('inbound_messages', 'readwrite');
+    const store = tx.objectStore('inbound_messages');
+    for (const id of ids) {
+      const message = await promisifyRequest<InboundMessage | undefined>(store.get(id));
+      if (message && !message.read_at) {
+        store.put({ ...message, read_at: readAt, read_by: currentUser?.id || 'unknown' });
+      }
+    }
+    await transactionComplete(tx);
+  }
+
+  async linkInboundMessage(id: string, memberId: string): Promise<InboundMessage> {
+    if (!(await this.getMember(memberId))) throw new Error('Member not found');
+    return this.updateRecord<InboundMessage>('inbound_messages', id, { member_id: memberId }, 'Message not found');
+  }
+
+  async getMessageThreads(): Promise<MessageThread[]> {
+    return this.getAll<MessageThread>('message_threads');
+  }
+
+  async assignThread(memberId: string, userId: string | null): Promise<MessageThread> {
+    if (userId) {
+      const account = await this.getRecord<UserAccount>('users', userId);
+      if (!account || !account.active) throw new Error('User not found');
+    }
+    const currentUser = await this.getCurrentUser();
+    const thread: MessageThread = userId
+      ? { member_id: memberId, assigned_to: userId, assigned_by: currentUser?.id || 'unknown', assigned_at: new Date().toISOString() }
+      : { member_id: memberId };
+    return this.putRecord('message_threads', thread);
+  }
+
+  // Message templates
+  async getMessageTemplates(): Promise<MessageTemplate[]> {
+    const templates = await this.getAll<MessageTemplate>('message_templates');
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveMessageTemplate(templateData: MessageTemplateInput & { id?: string }): Promise<MessageTemplate> {
+    const name = templateData.name.trim();
+    if (!name) throw new Error('Template name is required');
+    const syntaxError = validateMessageTemplate(templateData).find(issue => issue.kind === 'syntax');
+    if (syntaxError) throw new Error(syntaxError.message);
+
+    const now = new Date().toISOString();
+    const fields: MessageTemplateInput = {
+      name,
+      message_type: templateData.message_type,
+      subject: templateData.subject,
+      content: templateData.content,
+      sms_content: templateData.sms_content || undefined,
+    };
+    if (templateData.id) {
+      return this.updateRecord<MessageTemplate>('message_templates', templateData.id, { ...fields, updated_at: now }, 'Template not found');
+    }
+    return this.putRecord('message_templates', { ...fields, id: uuidv4(), created_at: now, updated_at: now });
+  }
+
+  async archiveMessageTemplate(id: string, archived: boolean): Promise<MessageTemplate> {
+    return this.updateRecord<MessageTemplate>('message_templates', id, {
+      archived_at: archived ? new Date().toISOString() : undefined,
+    }, 'Template not found');
+  }
+
+  // Member segments
+  async getSegments(): Promise<MemberSegment[]> {
+    const segments = await this.getAll<MemberSegment>('segments');
+    return segments.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveSegment(segmentData: MemberSegmentInput & { id?: string }): Promise<MemberSegment> {
+    const name = segmentData.name.trim();
+    if (!name) throw new Error('Segment name is required');
+    const issue = segmentData.conditions.map(getConditionIssue).find(Boolean);
+    if (issue) throw new Error(issue);
+
+    const now = new Date().toISOString();
+    const fields: MemberSegmentInput = { name, match: segmentData.match, conditions: segmentData.conditions };
+    if (segmentData.id) {
+      return this.updateRecord<MemberSegment>('segments', segmentData.id, { ...fields, updated_at: now }, 'Segment not found');
+    }
+    return this.putRecord('segments', { ...fields, id: uuidv4(), created_at: now, updated_at: now });
+  }
+
+  async deleteSegment(id: string): Promise<void> {
+    const campaigns = await this.getAll<NewsletterCampaign>('campaigns');
+    const pending = campaigns.filter(campaign => campaign.segment_id === id && ['draft', 'scheduled', 'testing'].includes(campaign.status));
+    if (pending.length > 0) {
+      throw new Error(`Change or cancel ${pending.map(campaign => campaign.name).join(', ')} before deleting this segment`);
+    }
+    await this.deleteRecord('segments', id);
+  }
+
+  // Funds
+  async getFunds(): Promise<Fund[]> {
+    const funds = await this.getAll<Fund>('funds');
+    return funds.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveFund(fundData: FundInput & { id?: string }): Promise<Fund> {
+    const name = fundData.name.trim();
+    if (!name) throw new Error('Fund name is required');
+    if (fundData.goal_amount !== undefined && !(fundData.goal_amount > 0)) throw new Error('The goal must be more than 0');
+    if (fundData.start_date && fundData.end_date && fundData.start_date > fundData.end_date) {
+      throw new Error('The start date is after the end date');
+    }
+
+    const now = new Date().toISOString();
+    const fields: FundInput = {
+      kind: fundData.kind,
+      name,
+      description: fundData.description?.trim() || undefined,
+      goal_amount: fundData.goal_amount,
+      start_date: fundData.start_date || undefined,
+      end_date: fundData.end_date || undefined,
+    };
+    if (fundData.id) {
+      return this.updateRecord<Fund>('funds', fundData.id, { ...fields, updated_at: now }, 'Fund not found');
+    }
+    return this.putRecord('funds', { ...fields, id: uuidv4(), created_at: now, updated_at: now });
+  }
+
+  async archiveFund(id: string, archived: boolean): Promise<Fund> {
+    const now = new Date().toISOString();
+    return this.updateRecord<Fund>('funds', id, { archived_at: archived ? now : undefined, updated_at: now }, 'Fund not found');
+  }
+
+  // Deleted payments count too, since they can still be restored
+  async deleteFund(id: string): Promise<void> {
+    const payments = await this.getAll<Payment>('payments');
+    if (payments.some(payment => payment.fund_id === id)) {
+      throw new Error('Payments are designated to this fund; archive it instead');
+    }
+    await this.deleteRecord('funds', id);
+  }
+
+  // Newsletter campaigns
+  async getCampaigns(): Promise<NewsletterCampaign[]> {
+    const campaigns = await this.getAll<NewsletterCampaign>('campaigns');
+    return campaigns.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async saveCampaign(campaignData: NewsletterCampaignInput & { id?: string }): Promise<NewsletterCampaign> {
+    const name = campaignData.name.trim();
+    if (!name) throw new Error('Campaign name is required');
+    const syntaxError = validateMessageTemplate(campaignData).find(issue => issue.kind === 'syntax');
+    if (syntaxError) throw new Error(syntaxError.message);
+    if (campaignData.ab_test) {
+      if (!campaignData.ab_test.subject_b.trim()) throw new Error('Subject B is required for an A/B test');
+      const subjectBError = validateMessageTemplate({ subject: campaignData.ab_test.subject_b, content: '' }).find(issue => issue.kind === 'syntax');
+      if (subjectBError) throw new Error(subjectBError.message.replace('Subject', 'Subject B'));
+    }
+
+    const now = new Date().toISOString();
+    const fields: NewsletterCampaignInput & Pick<NewsletterCampaign, 'status'> = {
+      name,
+      segment_id: campaignData.segment_id || undefined,
+      subject: campaignData.subject,
+      content: campaignData.content,
+      sms_content: campaignData.sms_content || undefined,
+      ab_test: campaignData.ab_test ? { ...campaignData.ab_test, winner: undefined } : undefined,
+      scheduled_at: campaignData.scheduled_at || undefined,
+      donation_window_days: campaignData.donation_window_days,
+      status: campaignData.scheduled_at ? 'scheduled' : 'draft',
+    };
+    if (!campaignData.id) {
+      const currentUser = await this.getCurrentUser();
+      return this.putRecord('campaigns', {
+        ...fields, id: uuidv4(), recipient_count: 0, created_at: now, updated_at: now, created_by: currentUser?.id,
+      });
+    }
+
+    const existing = await this.getRecord<NewsletterCampaign>('campaigns', campaignData.id);
+    if (existing && existing.status !== 'draft' && existing.status !== 'scheduled') {
+      throw new Error('Only draft and scheduled campaigns can be changed');
+    }
+    return this.updateRecord<NewsletterCampaign>('campaigns', campaignData.id, { ...fields, updated_at: now }, 'Campaign not found');
+  }
+
+  async cancelCampaign(id: string): Promise<NewsletterCampaign> {
+    const existing = await this.getRecord<NewsletterCampaign>('campaigns', id);
+    if (existing?.status === 'sent' || existing?.status === 'cancelled') {
+      throw new Error(`${existing.name} has already been ${existing.status}`);
+    }
+    return this.updateRecord<NewsletterCampaign>('campaigns', id, {
+      status: 'cancelled',
+      updated_at: new Date().toISOString(),
+    }, 'Campaign not found');
+  }
+
+  async recordCampaignSend(
+    id: string,
+    from: CampaignStatus,
+    update: CampaignSendUpdate,
+    messagesData: Omit<Message, 'id'>[]
+  ): Promise<Message[] | null> {
+    const messages: Message[] = messagesData.map(messageData => this.toQueuedMessage(messageData));
+
+    const db = await this.getDb();
+    const tx = db.transaction(['campaigns', 'messages'], 'readwrite');
+    const campaigns = tx.objectStore('campaigns');
+    const campaign = await promisifyRequest<NewsletterCampaign | undefined>(campaigns.get(id));
+    if (!campaign) {
+      tx.abort();
+      throw new Error('Campaign not found');
+    }
+    if (campaign.status !== from) {
+      await transactionComplete(tx);
+      return null;
+    }
+
+    campaigns.put({ ...campaign, ...update, updated_at: new Date().toISOString() });
+    messages.forEach(message => tx.objectStore('messages').put(message));
+    await transactionComplete(tx);
+    return messages;
+  }
+
+  // Automation
+  async getAutomationSends(): Promise<AutomationSend[]> {
+    return this.getAll<AutomationSend>('automation_sends');
+  }
+
+  async createAutomatedMessages(sends: AutomationSendInput[], messagesData: Omit<Message, 'id'>[]): Promise<Message[] | null> {
+    const messages: Message[] = messagesData.map(messageData => this.toQueuedMessage(messageData));
+
+    const db = await this.getDb();
+    const tx = db.transaction(['automation_sends', 'messages'], 'readwrite');
+    const sendStore = tx.objectStore('automation_sends');
+    const existing = await Promise.all(sends.map(send => promisifyRequest(sendStore.count(send.key))));
+    if (existing.some(count => count > 0)) {
+      await transactionComplete(tx);
+      return null;
+    }
+
+    const sentAt = new Date().toISOString();
+    const messageIds = messages.map(message => message.id);
+    sends.forEach(send => sendStore.add({ ...send, message_ids: messageIds, sent_at: sentAt }));
+    messages.forEach(message => tx.objectStore('messages').put(message));
+    await transactionComplete(tx);
+    return messages;
+  }
+
+  async getAutomationRuns(): Promise<AutomationRun[]> {
+    const runs = await this.getAll<AutomationRun>('automation_runs');
+    return runs.sort((a, b) => b.started_at.localeCompare(a.started_at));
+  }
+
+  async saveAutomationRun(run: AutomationRun): Promise<void> {
+    await this.putRecord('automation_runs', run);
+  }
+
+  // Recycle bin
+  async getRecycleBin(): Promise<RecycleBin> {
+    const [members, payments, messages] = await Promise.all([
+      this.getAll<Member>('members'),
+      this.getAll<Payment>('payments'),
+      this.getAll<Message>('messages'),
+    ]);
+    const deleted = <T extends SoftDeletable>(records: T[]) => records.filter(record => record.deleted_at);
+    return { members: deleted(members), payments: deleted(payments), messages: deleted(messages) };
+  }
+
+  async restoreDeleted(entity: RecycleBinEntity, id: string): Promise<void> {
+    const db = await this.getDb();
+    const tx = db.transaction(['members', 'payments', 'messages'], 'readwrite');
+    const restore = <T extends SoftDeletable>(record: T): T => {
+      const { deleted_at: _at, deleted_by: _by, deleted_with: _with, ...rest } = record;
+      return rest as T;
+    };
+
+    const storeName = RECYCLE_BIN_STORES[entity];
+    const record = await promisifyRequest<(Member | Payment | Message) | undefined>(tx.objectStore(storeName).get(id));
+    if (!record || !record.deleted_at) {
+      tx.abort();
+      throw new Error('Item is not in the recycle bin');
+    }
+
+    if (entity === 'member') {
+      // Bring back only what was deleted together with the member
+      for (const relatedStore of ['payments', 'messages'] as const) {
+        const store = tx.objectStore(relatedStore);
+        const related = await promisifyRequest<(Payment | Message)[]>(store.index('member_id').getAll(id));
+        related
+          .filter(item => item.deleted_with === id)
+          .forEach(item => store.put(restore(item)));
+      }
+    } else {
+      const memberId = (record as Payment | Message).member_id;
+      const member = memberId
+        ? await promisifyRequest<Member | undefined>(tx.objectStore('members').get(memberId))
+        : undefined;
+      if (member?.deleted_at) {
+        tx.abort();
+        throw new Error(`Restore ${member.full_name} first`);
+      }
+    }
+
+    tx.objectStore(storeName).put(restore(record));
+    await transactionComplete(tx);
+  }
+
+  // Permanent, and only once the item has spent the retention period in the bin
+  async purgeDeleted(entity: RecycleBinEntity, id: string): Promise<void> {
+    const { recycle_bin_retention_days } = await this.getSettings();
+    const cutoff = Date.now() - recycle_bin_retention_days * 24 * 60 * 60 * 1000;
+
+    const db = await this.getDb();
+    const tx = db.transaction(['members', 'payments', 'installments', 'messages'], 'readwrite');
+    const storeName = RECYCLE_BIN_STORES[entity];
+    const record = await promisifyRequest<SoftDeletable | undefined>(tx.objectStore(storeName).get(id));
+    if (!record || !record.deleted_at) {
+      tx.abort();
+      throw new Error('Item is not in the recycle bin');
+    }
+    if (new Date(record.deleted_at).getTime() > cutoff) {
+      tx.abort();
+      throw new Error(`Items can only be purged after ${recycle_bin_retention_days} days in the recycle bin`);
+    }
+
+    tx.objectStore(storeName).delete(id);
+    if (entity === 'member') {
+      // Payments, installments and messages cannot outlive their member
+      for (const relatedStore of ['payments', 'installments', 'messages'] as const) {
+        const store = tx.objectStore(relatedStore);
+        const keys = await promisifyRequest(store.index('member_id').getAllKeys(id));
+        keys.forEach(key => store.delete(key));
+      }
+    }
+    await transactionComplete(tx);
   }
 
   // Auth
-  async login(email: string, password: string): Promise<User | null> {
-    // Simple hardcoded auth for demo
-    const users = [
-      { id: '1', email: 'admin@example.com', password: 'admin123', role: 'admin' as const },
-      { id: '2', email: 'staff@example.com', password: 'staff123', role: 'staff' as const }
+  private toUser(account: UserAccount): User {
+    const { password_hash: _hash, password_salt: _salt, password_iterations: _iterations, ...user } = account;
+    return user;
+  }
+
+  private async findAccountByEmail(email: string): Promise<UserAccount | null> {
+    const accounts = await this.getAllByIndex<UserAccount>('users', 'email', email.trim().toLowerCase());
+    return accounts[0] || null;
+  }
+
+  // First run only: the two demo logins, until an administrator sets up real accounts
+  private async ensureDemoAccounts(db: IDBDatabase): Promise<void> {
+    const count = await promisifyRequest(db.transaction('users', 'readonly').objectStore('users').count());
+    if (count > 0) return;
+
+    const demoAccounts = [
+      { id: '1', email: 'admin@example.com', full_name: 'Demo Admin', password: 'admin123', role: 'admin' as const },
+      { id: '2', email: 'staff@example.com', full_name: 'Demo Staff', password: 'staff123', role: 'staff' as const }
     ];
-    
-    const user = users.find(u => u.email === email && u.password === password);
-    if (user) {
-      const { password: _, ...userWithoutPassword } = user;
-      await set('currentUser', userWithoutPassword);
-      return userWithoutPassword;
+    const accounts: UserAccount[] = [];
+    for (const { password, ...demo } of demoAccounts) {
+      const hashed = await hashPassword(password);
+      accounts.push({
+        ...demo,
+        active: true,
+        must_change_password: false,
+        is_demo: true,
+        created_at: new Date().toISOString(),
+        password_hash: hashed.hash,
+        password_salt: hashed.salt,
+        password_iterations: hashed.iterations,
+      });
+    }
+
+    const tx = db.transaction('users', 'readwrite');
+    accounts.forEach(account => tx.objectStore('users').put(account));
+    await transactionComplete(tx);
+  }
+
+  private async recordSessionEvent(event: Omit<SessionEvent, 'id' | 'occurred_at'>): Promise<void> {
+    await this.putRecord('session_events', {
+      ...event,
+      id: uuidv4(),
+      occurred_at: new Date().toISOString(),
+    });
+  }
+
+  private async getLoginAttempts(): Promise<Record<string, LoginAttempts>> {
+    return (await this.getRecord<Record<string, LoginAttempts>>('meta', 'login_attempts')) || {};
+  }
+
+  // Throttling is per email address, whether or not an account exists for it
+  private async recordLoginFailure(email: string): Promise<void> {
+    const attempts = await this.getLoginAttempts();
+    attempts[email] = {
+      failures: (attempts[email]?.failures || 0) + 1,
+      last_failed_at: new Date().toISOString(),
+    };
+    await this.putRecord('meta', attempts, 'login_attempts');
+  }
+
+  private async clearLoginFailures(email: string): Promise<void> {
+    const attempts = await this.getLoginAttempts();
+    if (!attempts[email]) return;
+    delete attempts[email];
+    await this.putRecord('meta', attempts, 'login_attempts');
+  }
+
+  private async assertNotThrottled(email: string, userId?: string): Promise<void> {
+    const attempts = await this.getLoginAttempts();
+    const retryAt = getRetryAt(attempts[email]);
+    if (retryAt) {
+      await this.recordSessionEvent({ type: 'login_throttled', email, user_id: userId });
+      throw new LoginThrottledError(retryAt);
     }
-    return null;
   }
 
+  private async verifyAccountPassword(account: UserAccount, password: string): Promise<boolean> {
+    return verifyPassword(password, {
+      hash: account.password_hash,
+      salt: account.password_salt,
+      iterations: account.password_iterations,
+    });
+  }
+
+  private async startSession(userId: string): Promise<Session> {
+    const settings = await this.getSettings();
+    const now = new Date();
+    const session: Session = {
+      id: uuidv4(),
+      user_id: userId,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + settings.session_max_hours * 60 * 60 * 1000).toISOString(),
+    };
+    await this.putRecord('meta', session, 'session');
+    return session;
+  }
+
+  async login(email: string, password: string): Promise<User | null> {
+    const normalizedEmail = email.trim().toLowerCase();
+    await this.assertNotThrottled(normalizedEmail);
+
+    const account = await this.findAccountByEmail(normalizedEmail);
+    const valid = !!account && account.active && await this.verifyAccountPassword(account, password);
+    if (!account || !valid) {
+      await this.recordLoginFailure(normalizedEmail);
+      await this.recordSessionEvent({
+        type: 'login_failed',
+        email: normalizedEmail,
+        user_id: account?.id,
+        detail: account && !account.active ? 'Account disabled' : undefined,
+      });
+      return null;
+    }
+
+    await this.clearLoginFailures(normalizedEmail);
+    const updated = await this.updateRecord<UserAccount>('users', account.id, { last_login_at: new Date().toISOString() }, 'User not found');
+    // Older versions kept a never-expiring 'currentUser' entry instead of a session
+    await this.deleteRecord('meta', 'currentUser');
+    const session = await this.startSession(updated.id);
+    await this.recordSessionEvent({ type: 'login', email: updated.email, user_id: updated.id, session_id: session.id });
+    return this.toUser(updated);
+  }
+
+  // Only an active session counts: expired or locked sessions have no current user
   async getCurrentUser(): Promise<User | null> {
-    return (await get('currentUser')) || null;
+    const session = await this.getSession();
+    if (!session || session.locked_at || isSessionExpired(session.expires_at)) return null;
+
+    const account = await this.getRecord<UserAccount>('users', session.user_id);
+    if (!account || !account.active) return null;
+    return this.toUser(account);
+  }
+
+  async getSession(): Promise<Session | null> {
+    return (await this.getRecord<Session>('meta', 'session')) || null;
+  }
+
+  async lockSession(reason: 'idle' | 'expired'): Promise<void> {
+    const session = await this.getSession();
+    if (!session || session.locked_at) return;
+
+    const account = await this.getRecord<UserAccount>('users', session.user_id);
+    await this.putRecord('meta', { ...session, locked_at: new Date().toISOString() }, 'session');
+    await this.recordSessionEvent({
+      type: reason === 'expired' ? 'expired' : 'locked',
+      email: account?.email || '',
+      user_id: session.user_id,
+      session_id: session.id,
+    });
+  }
+
+  async unlockSession(password: string): Promise<User> {
+    const session = await this.getSession();
+    if (!session) throw new Error('Not signed in');
+
+    const account = await this.getRecord<UserAccount>('users', session.user_id);
+    if (!account || !account.active) throw new Error('This account has been disabled');
+    await this.assertNotThrottled(account.email, account.id);
+
+    if (!(await this.verifyAccountPassword(account, password))) {
+      await this.recordLoginFailure(account.email);
+      await this.recordSessionEvent({ type: 'unlock_failed', email: account.email, user_id: account.id, session_id: session.id });
+      throw new Error('Incorrect password');
+    }
+
+    await this.clearLoginFailures(account.email);
+    // An expired session is replaced rather than extended
+    const { locked_at: _lockedAt, ...activeSession } = session;
+    const unlocked = isSessionExpired(session.expires_at)
+      ? await this.startSession(account.id)
+      : await this.putRecord<Session>('meta', activeSession, 'session');
+    await this.recordSessionEvent({ type: 'unlocked', email: account.email, user_id: account.id, session_id: unlocked.id });
+    return this.toUser(account);
   }
 
   async logout(): Promise<void> {
-    await del('currentUser');
+    const session = await this.getSession();
+    if (session) {
+      const account = await this.getRecord<UserAccount>('users', session.user_id);
+      await this.recordSessionEvent({ type: 'logout', email: account?.email || '', user_id: session.user_id, session_id: session.id });
+    }
+    await this.deleteRecord('meta', 'session');
+  }
+
+  async getSessionEvents(): Promise<SessionEvent[]> {
+    const events = await this.getAll<SessionEvent>('session_events');
+    return events.sort((a, b) => b.occurred_at.localeCompare(a.occurred_at));
+  }
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<User> {
+    const currentUser = await this.getCurrentUser();
+    if (!currentUser) throw new Error('Not signed in');
+
+    const account = await this.getRecord<UserAccount>('users', currentUser.id);
+    const valid = await verifyPassword(currentPassword, {
+      hash: account.password_hash,
+      salt: account.password_salt,
+      iterations: account.password_iterations,
+    });
+    if (!valid) throw new Error('Current password is incorrect');
+
+    const strengthError = validatePasswordStrength(newPassword);
+    if (strengthError) throw new Error(strengthError);
+    if (newPassword === currentPassword) throw new Error('New password must be different');
+
+    const hashed = await hashPassword(newPassword);
+    const updated = await this.updateRecord<UserAccount>('users', account.id, {
+      password_hash: hashed.hash,
+      password_salt: hashed.salt,
+      password_iterations: hashed.iterations,
+      must_change_password: false,
+    }, 'User not found');
+    return this.toUser(updated);
+  }
+
+  async hasDemoAccounts(): Promise<boolean> {
+    const accounts = await this.getAll<UserAccount>('users');
+    return accounts.some(account => account.is_demo && account.active);
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    const accounts = await this.getAll<UserAccount>('users');
+    return accounts.map(account => this.toUser(account));
+  }
+
+  async getStaff(): Promise<StaffMember[]> {
+    const accounts = await this.getAll<UserAccount>('users');
+    return accounts
+      .filter(account => account.active)
+      .map(account => ({ id: account.id, email: account.email, full_name: account.full_name }))
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+  }
+
+  async createUser(userData: NewUser, temporaryPassword: string): Promise<User> {
+    if (!(await this.roleExists(userData.role))) throw new Error('Unknown role');
+    const email = userData.email.trim().toLowerCase();
+    if (await this.findAccountByEmail(email)) {
+      throw new Error('A user with this email already exists');
+    }
+
+    const strengthError = validatePasswordStrength(temporaryPassword);
+    if (strengthError) throw new Error(strengthError);
+
+    const hashed = await hashPassword(temporaryPassword);
+    const account: UserAccount = {
+      ...userData,
+      id: uuidv4(),
+      email,
+      active: true,
+      must_change_password: true,
+      created_at: new Date().toISOString(),
+      password_hash: hashed.hash,
+      password_salt: hashed.salt,
+      password_iterations: hashed.iterations,
+    };
+
+    const db = await this.getDb();
+    const tx = db.transaction('users', 'readwrite');
+    const store = tx.objectStore('users');
+    store.add(account);
+
+    // The demo logins are public knowledge, so retire them once a real admin exists
+    if (account.role === 'admin') {
+      const accounts = await promisifyRequest<UserAccount[]>(store.getAll());
+      accounts
+        .filter(existing => existing.is_demo && existing.active)
+        .forEach(existing => store.put({ ...existing, active: false }));
+    }
+    await transactionComplete(tx);
+
+    return this.toUser(account);
+  }
+
+  async updateUser(id: string, updates: Partial<Pick<User, 'full_name' | 'role' | 'active'>>): Promise<User> {
+    const currentUser = await this.getCurrentUser();
+    if (updates.role && !(await this.roleExists(updates.role))) throw new Error('Unknown role');
+    const losesAdmin = updates.active === false || (updates.role && updates.role !== 'admin');
+
+    if (losesAdmin) {
+      if (id === currentUser?.id) {
+        throw new Error('You cannot disable or demote your own account');
+      }
+      const accounts = await this.getAll<UserAccount>('users');
+      const remainingAdmins = accounts.filter(a => a.id !== id && a.active && a.role === 'admin');
+      if (remainingAdmins.length === 0) {
+        throw new Error('At least one active administrator is required');
+      }
+    }
+
+    const { full_name, role, active } = updates;
+    const allowed = Object.fromEntries(
+      Object.entries({ full_name, role, active }).filter(([, value]) => value !== undefined)
+    ) as Partial<UserAccount>;
+    const updated = await this.updateRecord<UserAccount>('users', id, allowed, 'User not found');
+    return this.toUser(updated);
+  }
+
+  async resetUserPassword(id: string, temporaryPassword: string): Promise<void> {
+    const strengthError = validatePasswordStrength(temporaryPassword);
+    if (strengthError) throw new Error(strengthError);
+
+    const hashed = await hashPassword(temporaryPassword);
+    await this.updateRecord<UserAccount>('users', id, {
+      password_hash: hashed.hash,
+      password_salt: hashed.salt,
+      password_iterations: hashed.iterations,
+      must_change_password: true,
+    }, 'User not found');
+  }
+
+  private async roleExists(roleId: string): Promise<boolean> {
+    const roles = await this.getRoles();
+    return roles.some(role => role.id === roleId);
+  }
+
+  async getRoles(): Promise<RoleDefinition[]> {
+    const customRoles = await this.getAll<RoleDefinition>('roles');
+    return [...BUILT_IN_ROLES, ...customRoles.sort((a, b) => a.name.localeCompare(b.name))];
+  }
+
+  async saveRole(roleData: Omit<RoleDefinition, 'id' | 'built_in'> & { id?: string }): Promise<RoleDefinition> {
+    if (roleData.id && BUILT_IN_ROLES.some(role => role.id === roleData.id)) {
+      throw new Error('Built-in roles cannot be changed');
+    }
+    if (!roleData.name.trim()) throw new Error('Role name is required');
+
+    const role: RoleDefinition = {
+      id: roleData.id || uuidv4(),
+      name: roleData.name.trim(),
+      description: roleData.description,
+      capabilities: roleData.capabilities,
+    };
+    return this.putRecord('roles', role);
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    if (BUILT_IN_ROLES.some(role => role.id === id)) {
+      throw new Error('Built-in roles cannot be deleted');
+    }
+    const accounts = await this.getAll<UserAccount>('users');
+    if (accounts.some(account => account.role === id)) {
+      throw new Error('Reassign users with this role before deleting it');
+    }
+    await this.deleteRecord('roles', id);
   }
 
   // Settings
@@ -155,47 +1425,116 @@ class LocalDataProvider implements DataProvider {
       reminder_window_days: 3,
       default_payment_amount: 500,
       theme: 'light',
-      primary_color: '#3B82F6'
+      primary_color: '#3B82F6',
+      recycle_bin_retention_days: DEFAULT_RECYCLE_BIN_RETENTION_DAYS,
+      session_max_hours: DEFAULT_SESSION_MAX_HOURS,
+      idle_lock_minutes: DEFAULT_IDLE_LOCK_MINUTES,
+      bank_csv_mappings: [],
+      sms_country_code: DEFAULT_SMS_COUNTRY_CODE,
+      automation_rules: DEFAULT_AUTOMATION_RULES,
     };
-    
-    return (await get('settings')) || defaultSettings;
+
+    // Fill in fields added since the settings were first saved
+    const stored = await this.getRecord<Settings>('meta', 'settings');
+    return { ...defaultSettings, ...stored };
   }
 
   async updateSettings(updates: Partial<Settings>): Promise<Settings> {
     const settings = await this.getSettings();
     const newSettings = { ...settings, ...updates };
-    await set('settings', newSettings);
+    await this.putRecord('meta', newSettings, 'settings');
     return newSettings;
   }
 
+  // Audit trail
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await this.getDb();
+    const tx = db.transaction('audit_log', 'readwrite');
+    // add() rather than put() so an existing entry can never be overwritten
+    entries.forEach(entry => tx.objectStore('audit_log').add(entry));
+    await transactionComplete(tx);
+  }
+
+  async getAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    const from = filter.from || '';
+    // Dates are inclusive, so extend "to" past every timestamp on that day
+    const to = filter.to ? `${filter.to}\uffff` : '\uffff';
+    const entries = await this.getAllByIndex<AuditEntry>('audit_log', 'occurred_at', IDBKeyRange.bound(from, to));
+    return entries
+      .filter(entry => !filter.entity || entry.entity === filter.entity)
+      .filter(entry => !filter.actorId || entry.actor_id === filter.actorId)
+      .reverse();
+  }
+
   // Data management
   async exportData(): Promise<string> {
     const data = {
-      members: await this.getMembers(),
-      payments: await this.getPayments(),
-      messages: await this.getMessages(),
-      settings: await this.getSettings(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      // Backups are complete, so recycle bin contents are included
+      members: await this.getAll<Member>('members'),
+      payments: await this.getAll<Payment>('payments'),
+      installments: await this.getAll<Installment>('installments'),
+      messages: await this.getAll<Message>('messages'),
+      // Segments and funds are stored on their own but still travel with the
+      // settings, as they did before, so any backup restores them
+      settings: { ...await this.getSettings(), member_segments: await this.getSegments(), funds: await this.getFunds() },
       exportedAt: new Date().toISOString()
     };
     return JSON.stringify(data, null, 2);
   }
 
-  async importData(jsonData: string): Promise<void> {
-    try {
-      const data = JSON.parse(jsonData);
-      
-      if (data.members) await this.setCollection('members', data.members);
-      if (data.payments) await this.setCollection('payments', data.payments);
-      if (data.messages) await this.setCollection('messages', data.messages);
-      if (data.settings) await set('settings', data.settings);
-    } catch (error) {
-      throw new Error('Invalid data format');
+  async importData(jsonData: string, options: ImportOptions = { mode: 'replace' }): Promise<ImportReport> {
+    const existing = {
+      members: await this.getAll<Member>('members'),
+      payments: await this.getAll<Payment>('payments'),
+      messages: await this.getAll<Message>('messages'),
+      funds: await this.getFunds(),
+    };
+    const plan = planImport(jsonData, existing, options);
+
+    if (hasImportErrors(plan.report)) {
+      if (options.dryRun) return plan.report;
+      throw new ImportValidationError(plan.report);
     }
+    if (options.dryRun) return plan.report;
+
+    // One transaction across every store: the import lands completely or not at all
+    const db = await this.getDb();
+    const tx = db.transaction([...DATA_STORES, 'segments', 'funds'], 'readwrite');
+    const applyWrite = <T>(storeName: StoreName, write?: CollectionWrite<T>) => {
+      if (!write) return;
+      const store = tx.objectStore(storeName);
+      if (write.replace) store.clear();
+      write.records.forEach(record => store.put(record));
+    };
+
+    applyWrite('members', plan.members);
+    applyWrite('payments', plan.payments);
+    applyWrite('installments', plan.installments);
+    applyWrite('messages', plan.messages);
+    if (plan.settings) {
+      // Segments and funds travel with the settings in backups (see exportData)
+      const { member_segments: segments, funds, ...settings } = plan.settings as Settings & { member_segments?: MemberSegment[]; funds?: Fund[] };
+      segments?.forEach(segment => tx.objectStore('segments').put(segment));
+      funds?.forEach(fund => tx.objectStore('funds').put(fund));
+      tx.objectStore('meta').put(settings, 'settings');
+    }
+    stampSchemaVersion(tx);
+    await transactionComplete(tx);
+
+    return { ...plan.report, applied: true };
   }
 
   async clearData(): Promise<void> {
-    await clear();
+    const db = await this.getDb();
+    // The inbox and campaigns go too: they belong to the members and messages being cleared
+    const stores: StoreName[] = [...DATA_STORES, 'inbound_messages', 'message_threads', 'campaigns'];
+    const tx = db.transaction(stores, 'readwrite');
+    stores.forEach(storeName => tx.objectStore(storeName).clear());
+    stampSchemaVersion(tx);
+    await transactionComplete(tx);
   }
 }
 
-export const localDataProvider = new LocalDataProvider();
\ No newline at end of file
+export const localDataProvider = new LocalDataProvider();
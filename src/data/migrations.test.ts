@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, DataSnapshot, migrateSnapshot, migrations } from './migrations';
+import { ImportValidationError } from './importValidation';
+import { localDataProvider } from './localDataProvider';
+
+const snapshot = (data: Partial<DataSnapshot> = {}): DataSnapshot => ({
+  schemaVersion: 0,
+  members: [],
+  payments: [],
+  installments: [],
+  messages: [],
+  ...data,
+});
+
+const step = (version: number) => migrations.find(migration => migration.version === version)!;
+
+describe('migration steps', () => {
+  it('are numbered in order without gaps', () => {
+    expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1));
+  });
+
+  it('v1 defaults missing collections and coerces numeric fields', () => {
+    const data = step(1).up({
+      schemaVersion: 0,
+      members: [{ id: 'm1', payment_amount: '25' }, { id: 'm2', payment_amount: 'abc', active: false }],
+      payments: [{ id: 'p1', amount: '12.5' }],
+      messages: [{ id: 'x1' }, { id: 'x2', channel: 'sms' }],
+    } as unknown as DataSnapshot);
+
+    expect(data.members).toEqual([
+      { id: 'm1', payment_amount: 25, active: true },
+      { id: 'm2', payment_amount: 0, active: false },
+    ]);
+    expect(data.payments).toEqual([{ id: 'p1', amount: 12.5 }]);
+    expect(data.messages.map(message => message.channel)).toEqual(['email', 'sms']);
+  });
+
+  it('v1 fills in collections missing from the file', () => {
+    const data = step(1).up({ schemaVersion: 0 } as DataSnapshot);
+    expect(data.members).toEqual([]);
+    expect(data.payments).toEqual([]);
+    expect(data.messages).toEqual([]);
+  });
+
+  it("v2 turns manually set 'overdue' payments into 'unpaid'", () => {
+    const data = step(2).up(snapshot({
+      payments: [{ id: 'p1', status: 'overdue' }, { id: 'p2', status: 'paid' }, { id: 'p3', status: 'unpaid' }],
+    }));
+    expect(data.payments.map(payment => payment.status)).toEqual(['unpaid', 'paid', 'unpaid']);
+  });
+
+  it("v3 marks messages logged before delivery as 'sent' and keeps existing statuses", () => {
+    const data = step(3).up(snapshot({
+      messages: [{ id: 'x1' }, { id: 'x2', delivery_status: 'failed' }],
+    }));
+    expect(data.messages.map(message => message.delivery_status)).toEqual(['sent', 'failed']);
+  });
+});
+
+describe('migrateSnapshot', () => {
+  it('upgrades unversioned data through every step', () => {
+    const data = migrateSnapshot({
+      members: [{ id: 'm1', payment_amount: '10' }],
+      payments: [{ id: 'p1', amount: '10', status: 'overdue' }],
+      messages: [{ id: 'x1' }],
+    });
+
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(data.members[0]).toMatchObject({ payment_amount: 10, active: true });
+    expect(data.payments[0]).toMatchObject({ amount: 10, status: 'unpaid' });
+    expect(data.messages[0]).toMatchObject({ channel: 'email', delivery_status: 'sent' });
+    expect(data.installments).toEqual([]);
+  });
+
+  it('only runs the steps after the stored version', () => {
+    // At version 2 the overdue step has already run, so a later 'overdue' is left alone
+    const data = migrateSnapshot({
+      schemaVersion: 2,
+      payments: [{ id: 'p1', amount: '10', status: 'overdue' }],
+      messages: [{ id: 'x1' }],
+    });
+
+    expect(data.payments[0]).toEqual({ id: 'p1', amount: '10', status: 'overdue' });
+    expect(data.messages[0]).toEqual({ id: 'x1', delivery_status: 'sent' });
+  });
+
+  it('leaves current data unchanged', () => {
+    const raw = snapshot({ schemaVersion: CURRENT_SCHEMA_VERSION, payments: [{ id: 'p1', status: 'overdue' }] });
+    expect(migrateSnapshot(raw)).toEqual(raw);
+  });
+
+  it('treats a malformed version stamp as unversioned', () => {
+    expect(migrateSnapshot({ schemaVersion: '2', payments: [{ id: 'p1', status: 'overdue' }] }).payments[0].status).toBe('unpaid');
+  });
+
+  it('refuses data from a newer app version', () => {
+    expect(() => migrateSnapshot({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(/only supports up to/);
+  });
+});
+
+describe('importData', () => {
+  const newerBackup = JSON.stringify({
+    schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+    members: [],
+    payments: [],
+  });
+
+  it('rejects a backup with a newer schema version', async () => {
+    await expect(localDataProvider.importData(newerBackup)).rejects.toBeInstanceOf(ImportValidationError);
+  });
+
+  it('reports the newer schema version on a dry run', async () => {
+    const report = await localDataProvider.importData(newerBackup, { mode: 'replace', dryRun: true });
+    expect(report.applied).toBe(false);
+    expect(report.schemaVersion).toBe(CURRENT_SCHEMA_VERSION + 1);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ collection: 'file', severity: 'error', message: expect.stringMatching(/only supports up to/) }),
+    ]);
+  });
+});
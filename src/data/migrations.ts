@@ -0,0 +1,97 @@
+type StoredRecord = Record<string, unknown>;
+
+// Shape of exported backups and of the local database contents, at any version
+export interface DataSnapshot {
+  schemaVersion: number;
+  members: StoredRecord[];
+  payments: StoredRecord[];
+  installments: StoredRecord[];
+  messages: StoredRecord[];
+  settings?: StoredRecord;
+  [key: string]: unknown;
+}
+
+export interface Migration {
+  version: number; // version the data is at after this step runs
+  description: string;
+  up: (data: DataSnapshot) => DataSnapshot;
+}
+
+// Steps run in order from the stored version + 1 up to CURRENT_SCHEMA_VERSION.
+// Never edit a released step; add a new one instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalise unversioned data: default missing collections and coerce numeric fields',
+    up: (data) => ({
+      ...data,
+      members: (data.members || []).map(member => ({
+        ...member,
+        payment_amount: Number(member.payment_amount) || 0,
+        active: member.active !== false,
+      })),
+      payments: (data.payments || []).map(payment => ({
+        ...payment,
+        amount: Number(payment.amount) || 0,
+      })),
+      messages: (data.messages || []).map(message => ({
+        ...message,
+        channel: message.channel || 'email',
+      })),
+    }),
+  },
+  {
+    version: 2,
+    description: "Overdue is now worked out from installments: manually set 'overdue' payments become 'unpaid'",
+    up: (data) => ({
+      ...data,
+      payments: data.payments.map(payment => ({
+        ...payment,
+        status: payment.status === 'overdue' ? 'unpaid' : payment.status,
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Messages are now delivered: ones logged before delivery existed count as sent',
+    up: (data) => ({
+      ...data,
+      messages: data.messages.map(message => ({
+        ...message,
+        delivery_status: message.delivery_status ?? 'sent',
+      })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function getSnapshotVersion(raw: Record<string, unknown>): number {
+  const version = raw.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+// Upgrades data step by step to the current schema. Data without a version stamp is treated as version 0.
+export function migrateSnapshot(raw: Record<string, unknown>): DataSnapshot {
+  const fromVersion = getSnapshotVersion(raw);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Data uses schema version ${fromVersion}, but this app only supports up to ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  let data: DataSnapshot = {
+    ...raw,
+    schemaVersion: fromVersion,
+    members: Array.isArray(raw.members) ? raw.members : [],
+    payments: Array.isArray(raw.payments) ? raw.payments : [],
+    installments: Array.isArray(raw.installments) ? raw.installments : [],
+    messages: Array.isArray(raw.messages) ? raw.messages : [],
+    settings: raw.settings && typeof raw.settings === 'object' ? raw.settings as StoredRecord : undefined,
+  };
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    data = { ...migration.up(data), schemaVersion: migration.version };
+  }
+
+  return data;
+}
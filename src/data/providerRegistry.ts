@@ -0,0 +1,72 @@
+import { AuditSink, DataProvider } from './DataProvider';
+import { localDataProvider } from './localDataProvider';
+import { createRestDataProvider } from './restDataProvider';
+import { withPermissions } from './guardedDataProvider';
+import { withAuditLog } from './auditedDataProvider';
+
+export type DataProviderConfig =
+  | { type: 'local' }
+  | { type: 'rest'; baseUrl: string };
+
+const CONFIG_STORAGE_KEY = 'data-provider-config';
+
+let currentProvider: DataProvider | null = null;
+
+function getDefaultConfig(): DataProviderConfig {
+  const envType = import.meta.env.VITE_DATA_PROVIDER;
+  const envBaseUrl = import.meta.env.VITE_API_BASE_URL;
+  if (envType === 'rest' && envBaseUrl) {
+    return { type: 'rest', baseUrl: envBaseUrl };
+  }
+  return { type: 'local' };
+}
+
+export function getDataProviderConfig(): DataProviderConfig {
+  try {
+    const stored = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (stored) {
+      const config = JSON.parse(stored) as DataProviderConfig;
+      if (config.type === 'local') return config;
+      if (config.type === 'rest' && config.baseUrl) return config;
+    }
+  } catch (error) {
+    console.error('Failed to read data provider config:', error);
+  }
+  return getDefaultConfig();
+}
+
+function createBaseProvider(config: DataProviderConfig): DataProvider & AuditSink {
+  switch (config.type) {
+    case 'rest':
+      return createRestDataProvider({ baseUrl: config.baseUrl });
+    case 'local':
+    default:
+      return localDataProvider;
+  }
+}
+
+// Providers handed to the app always enforce role permissions, and record an
+// audit entry for every change that gets past that check
+export function createDataProvider(config: DataProviderConfig): DataProvider {
+  const base = createBaseProvider(config);
+  return withAuditLog(withPermissions(base), base);
+}
+
+// Persists the choice and swaps the active provider. Stores only see the new
+// provider on their next call, so callers should refetch (or reload) afterwards.
+export function setDataProviderConfig(config: DataProviderConfig): void {
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  currentProvider = createDataProvider(config);
+}
+
+export function getDataProvider(): DataProvider {
+  if (!currentProvider) {
+    currentProvider = createDataProvider(getDataProviderConfig());
+  }
+  return currentProvider;
+}
+
+// Injects a provider directly, bypassing the stored config (useful for tests and mocks)
+export function setDataProvider(provider: DataProvider): void {
+  currentProvider = provider;
+}
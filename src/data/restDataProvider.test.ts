@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, createRestDataProvider } from './restDataProvider';
+import { LoginThrottledError } from '@/utils/sessionUtils';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+type StubResponse = { status?: number; body?: unknown; headers?: Record<string, string> };
+
+// A stand-in for the server: answers each request with the next queued
+// response and records what the provider sent
+function stubServer(...responses: StubResponse[]) {
+  const requests: RecordedRequest[] = [];
+  const fetch = vi.fn(async (url: string, init: RequestInit = {}) => {
+    requests.push({
+      method: init.method ?? 'GET',
+      url,
+      headers: init.headers as Record<string, string>,
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+    });
+    const { status = 200, body, headers = {} } = responses.shift() ?? { status: 204 };
+    const text = body === undefined ? null : typeof body === 'string' ? body : JSON.stringify(body);
+    return new Response(status === 204 ? null : text, { status, headers });
+  });
+  const provider = createRestDataProvider({ baseUrl: 'https://api.example.org/v1/', fetch: fetch as unknown as typeof globalThis.fetch });
+  return { provider, requests };
+}
+
+function stubLocalStorage() {
+  const values = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+    removeItem: (key: string) => values.delete(key),
+  });
+  return values;
+}
+
+let storage: Map<string, string>;
+
+beforeEach(() => {
+  storage = stubLocalStorage();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('request shapes', () => {
+  it('reads from the base URL without a trailing slash and parses the JSON body', async () => {
+    const { provider, requests } = stubServer({ body: [{ id: 'm1' }] });
+
+    await expect(provider.getMembers()).resolves.toEqual([{ id: 'm1' }]);
+    expect(requests).toEqual([{
+      method: 'GET',
+      url: 'https://api.example.org/v1/members',
+      headers: { Accept: 'application/json' },
+      body: undefined,
+    }]);
+  });
+
+  it('sends JSON bodies with a content type', async () => {
+    const { provider, requests } = stubServer({ body: { id: 'p1', amount: 20 } });
+
+    await provider.updatePayment('p1', { amount: 20 });
+    expect(requests[0]).toMatchObject({
+      method: 'PATCH',
+      url: 'https://api.example.org/v1/payments/p1',
+      headers: { 'Content-Type': 'application/json' },
+      body: { amount: 20 },
+    });
+  });
+
+  it('encodes ids and query parameters', async () => {
+    const { provider, requests } = stubServer({ body: [] }, { body: [] });
+
+    await provider.getPaymentsByMember('a/b c');
+    await provider.getAuditLog({ entity: 'payment', from: '2026-01-01' });
+    expect(requests.map(request => request.url)).toEqual([
+      'https://api.example.org/v1/payments?member_id=a%2Fb%20c',
+      'https://api.example.org/v1/audit?entity=payment&from=2026-01-01',
+    ]);
+  });
+
+  it('creates without an id and replaces with one', async () => {
+    const { provider, requests } = stubServer({ body: {} }, { body: {} });
+    const template = { name: 'Thanks', message_type: 'thank_you' as const, subject: 'Thank you', content: 'Hi' };
+
+    await provider.saveMessageTemplate(template);
+    await provider.saveMessageTemplate({ ...template, id: 't1' });
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST https://api.example.org/v1/message-templates',
+      'PUT https://api.example.org/v1/message-templates/t1',
+    ]);
+  });
+
+  it('resolves empty and 204 responses to undefined', async () => {
+    const { provider } = stubServer({ status: 204 }, { status: 200, body: '' });
+
+    await expect(provider.deleteMember('m1')).resolves.toBeUndefined();
+    await expect(provider.lockSession('idle')).resolves.toBeUndefined();
+  });
+
+  it('keeps the login token and sends it as a bearer token', async () => {
+    const { provider, requests } = stubServer({ body: { user: { id: 'u1' }, token: 'secret-token' } }, { body: [] });
+
+    await expect(provider.login('a@example.org', 'pw')).resolves.toEqual({ id: 'u1' });
+    await provider.getMembers();
+    expect(requests[0].body).toEqual({ email: 'a@example.org', password: 'pw' });
+    expect(requests[1].headers.Authorization).toBe('Bearer secret-token');
+    expect(storage.get('api-token')).toBe('secret-token');
+  });
+
+  it('skips the server for an empty audit batch', async () => {
+    const { provider, requests } = stubServer();
+
+    await provider.appendAuditEntries([]);
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('errors', () => {
+  it('raises ApiError with the server message and status', async () => {
+    const { provider } = stubServer({ status: 422, body: { message: 'Amount must be positive' } });
+
+    const error = await provider.createPayment({} as never).catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Amount must be positive', status: 422 });
+  });
+
+  it('falls back to a generic message for a non-JSON error body', async () => {
+    const { provider } = stubServer({ status: 502, body: '<html>Bad gateway</html>' });
+
+    await expect(provider.getMembers()).rejects.toMatchObject({ message: 'Request failed with status 502', status: 502 });
+  });
+
+  it('reads Retry-After into the error', async () => {
+    const { provider } = stubServer({ status: 503, headers: { 'Retry-After': '30' } });
+
+    await expect(provider.getMembers()).rejects.toMatchObject({ status: 503, retryAfterSeconds: 30 });
+  });
+
+  it('answers null for a missing record', async () => {
+    const { provider } = stubServer({ status: 404 });
+
+    await expect(provider.getMember('missing')).resolves.toBeNull();
+  });
+
+  it('drops the token when the session is no longer valid', async () => {
+    storage.set('api-token', 'stale');
+    const { provider } = stubServer({ status: 401 });
+
+    await expect(provider.getCurrentUser()).resolves.toBeNull();
+    expect(storage.has('api-token')).toBe(false);
+  });
+});
+
+describe('conflicts', () => {
+  it('answers null when a message was already claimed', async () => {
+    const { provider, requests } = stubServer({ status: 409 });
+
+    await expect(provider.claimMessageForDelivery('x1', '2026-01-01T00:05:00.000Z')).resolves.toBeNull();
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.org/v1/messages/x1/claim',
+      body: { lease_until: '2026-01-01T00:05:00.000Z' },
+    });
+  });
+
+  it('answers null when a campaign has moved on', async () => {
+    const { provider, requests } = stubServer({ status: 409 });
+
+    await expect(provider.recordCampaignSend('c1', 'scheduled', { status: 'sent', recipient_count: 0 }, [])).resolves.toBeNull();
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.org/v1/campaigns/c1/sends',
+      body: { from: 'scheduled', update: { status: 'sent', recipient_count: 0 }, messages: [] },
+    });
+  });
+
+  it('answers null when an automated send is already on record', async () => {
+    const { provider, requests } = stubServer({ status: 409 });
+
+    await expect(provider.createAutomatedMessages([], [])).resolves.toBeNull();
+    expect(requests[0]).toMatchObject({ method: 'POST', url: 'https://api.example.org/v1/automation/sends', body: { sends: [], messages: [] } });
+  });
+
+  it('still raises other failures', async () => {
+    const { provider } = stubServer({ status: 500 }, { status: 500 }, { status: 500 });
+
+    await expect(provider.claimMessageForDelivery('x1', '2026-01-01T00:05:00.000Z')).rejects.toBeInstanceOf(ApiError);
+    await expect(provider.recordCampaignSend('c1', 'scheduled', { status: 'sent', recipient_count: 0 }, [])).rejects.toBeInstanceOf(ApiError);
+    await expect(provider.createAutomatedMessages([], [])).rejects.toBeInstanceOf(ApiError);
+  });
+});
+
+describe('throttling', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('turns a throttled login into LoginThrottledError', async () => {
+    const { provider } = stubServer({ status: 429, headers: { 'Retry-After': '120' } });
+
+    const error = await provider.login('a@example.org', 'pw').catch(e => e);
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.retryAt).toEqual(new Date('2026-01-01T12:02:00.000Z'));
+  });
+
+  it('waits a minute when the server gives no Retry-After', async () => {
+    const { provider } = stubServer({ status: 429 });
+
+    const error = await provider.unlockSession('pw').catch(e => e);
+    expect(error).toBeInstanceOf(LoginThrottledError);
+    expect(error.retryAt).toEqual(new Date('2026-01-01T12:01:00.000Z'));
+  });
+
+  it('treats a wrong password as a failed login rather than an error', async () => {
+    const { provider } = stubServer({ status: 401 });
+
+    await expect(provider.login('a@example.org', 'wrong')).resolves.toBeNull();
+  });
+});
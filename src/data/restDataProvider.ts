@@ -0,0 +1,570 @@
+import { AuditSink, DataProvider } from './DataProvider';
+import { planImport, hasImportErrors, ImportValidationError } from './importValidation';
+import {
+  Member,
+  Payment,
+  PaymentReversal,
+  Installment,
+  InstallmentResolution,
+  Receipt,
+  Message,
+  MessageDeliveryUpdate,
+  MessageEventInput,
+  MessageEventsResult,
+  MessageTemplate,
+  MessageTemplateInput,
+  MemberSegment,
+  MemberSegmentInput,
+  Fund,
+  FundInput,
+  NewsletterCampaign,
+  NewsletterCampaignInput,
+  CampaignStatus,
+  CampaignSendUpdate,
+  InboundMessage,
+  InboundMessageInput,
+  InboundMessagesResult,
+  MessageThread,
+  AutomationRun,
+  AutomationSend,
+  AutomationSendInput,
+  RecycleBin,
+  RecycleBinEntity,
+  User,
+  NewUser,
+  StaffMember,
+  RoleDefinition,
+  Session,
+  SessionEvent,
+  AuditEntry,
+  AuditLogFilter,
+  Settings,
+  ImportOptions,
+  ImportReport,
+} from '@/types';
+import { LoginThrottledError } from '@/utils/sessionUtils';
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface RestDataProviderOptions {
+  baseUrl: string;
+  // Injectable so the provider can be exercised against a mock server or a stubbed fetch
+  fetch?: typeof fetch;
+  tokenStorageKey?: string;
+}
+
+class RestDataProvider implements DataProvider, AuditSink {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+  private tokenStorageKey: string;
+
+  constructor(options: RestDataProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = options.fetch || window.fetch.bind(window);
+    this.tokenStorageKey = options.tokenStorageKey || 'api-token';
+  }
+
+  private getToken(): string | null {
+    return localStorage.getItem(this.tokenStorageKey);
+  }
+
+  private setToken(token: string | null): void {
+    if (token) {
+      localStorage.setItem(this.tokenStorageKey, token);
+    } else {
+      localStorage.removeItem(this.tokenStorageKey);
+    }
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const token = this.getToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      let message = `Request failed with status ${response.status}`;
+      try {
+        const errorBody = await response.json();
+        if (errorBody?.message) message = errorBody.message;
+      } catch {
+        // Non-JSON error body, keep the generic message
+      }
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new ApiError(message, response.status, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+    }
+
+    if (response.status === 204) return undefined as T;
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  // Resolves to null instead of throwing when the resource does not exist
+  private async requestOrNull<T>(method: string, path: string): Promise<T | null> {
+    try {
+      return await this.request<T>(method, path);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  // Members
+  async getMembers(): Promise<Member[]> {
+    return this.request<Member[]>('GET', '/members');
+  }
+
+  async getMember(id: string): Promise<Member | null> {
+    return this.requestOrNull<Member>('GET', `/members/${encodeURIComponent(id)}`);
+  }
+
+  async createMember(memberData: Omit<Member, 'id' | 'created_at'>): Promise<Member> {
+    return this.request<Member>('POST', '/members', memberData);
+  }
+
+  async updateMember(id: string, updates: Partial<Member>): Promise<Member> {
+    return this.request<Member>('PATCH', `/members/${encodeURIComponent(id)}`, updates);
+  }
+
+  async deleteMember(id: string): Promise<void> {
+    await this.request<void>('DELETE', `/members/${encodeURIComponent(id)}`);
+  }
+
+  // Payments
+  async getPayments(): Promise<Payment[]> {
+    return this.request<Payment[]>('GET', '/payments');
+  }
+
+  async getPayment(id: string): Promise<Payment | null> {
+    return this.requestOrNull<Payment>('GET', `/payments/${encodeURIComponent(id)}`);
+  }
+
+  async getPaymentsByMember(memberId: string): Promise<Payment[]> {
+    return this.request<Payment[]>('GET', `/payments?member_id=${encodeURIComponent(memberId)}`);
+  }
+
+  async getPaymentsByDateRange(from: string, to: string): Promise<Payment[]> {
+    return this.request<Payment[]>('GET', `/payments?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`);
+  }
+
+  async createPayment(paymentData: Omit<Payment, 'id'>): Promise<Payment> {
+    return this.request<Payment>('POST', '/payments', paymentData);
+  }
+
+  async updatePayment(id: string, updates: Partial<Payment>): Promise<Payment> {
+    return this.request<Payment>('PATCH', `/payments/${encodeURIComponent(id)}`, updates);
+  }
+
+  async deletePayment(id: string): Promise<void> {
+    await this.request<void>('DELETE', `/payments/${encodeURIComponent(id)}`);
+  }
+
+  async reversePayment(id: string, reversal: PaymentReversal): Promise<Payment> {
+    return this.request<Payment>('POST', `/payments/${encodeURIComponent(id)}/reverse`, reversal);
+  }
+
+  // Installments. The server regenerates schedules before answering.
+  async getInstallments(): Promise<Installment[]> {
+    return this.request<Installment[]>('GET', '/installments');
+  }
+
+  async getInstallmentsByMember(memberId: string): Promise<Installment[]> {
+    return this.request<Installment[]>('GET', `/installments?member_id=${encodeURIComponent(memberId)}`);
+  }
+
+  async resolveInstallment(id: string, resolution: InstallmentResolution | null, note?: string): Promise<Installment> {
+    return this.request<Installment>('PUT', `/installments/${encodeURIComponent(id)}/resolution`, { resolution, note });
+  }
+
+  // Receipts. The server assigns numbers, so they stay sequential across every client.
+  async getReceipts(): Promise<Receipt[]> {
+    return this.request<Receipt[]>('GET', '/receipts');
+  }
+
+  async getReceiptsByPayment(paymentId: string): Promise<Receipt[]> {
+    return this.request<Receipt[]>('GET', `/receipts?payment_id=${encodeURIComponent(paymentId)}`);
+  }
+
+  async issueReceipt(paymentId: string): Promise<Receipt> {
+    return this.request<Receipt>('POST', `/payments/${encodeURIComponent(paymentId)}/receipt`);
+  }
+
+  async voidReceipt(id: string, reason: string): Promise<Receipt> {
+    return this.request<Receipt>('POST', `/receipts/${encodeURIComponent(id)}/void`, { reason });
+  }
+
+  // Messages
+  async getMessages(): Promise<Message[]> {
+    return this.request<Message[]>('GET', '/messages');
+  }
+
+  async getMessagesByMember(memberId: string): Promise<Message[]> {
+    return this.request<Message[]>('GET', `/messages?member_id=${encodeURIComponent(memberId)}`);
+  }
+
+  async getMessage(id: string): Promise<Message | null> {
+    return this.requestOrNull<Message>('GET', `/messages/${encodeURIComponent(id)}`);
+  }
+
+  async createMessage(messageData: Omit<Message, 'id'>): Promise<Message> {
+    return this.request<Message>('POST', '/messages', messageData);
+  }
+
+  async createMessages(messagesData: Omit<Message, 'id'>[]): Promise<Message[]> {
+    return this.request<Message[]>('POST', '/messages/bulk', messagesData);
+  }
+
+  async deleteMessage(id: string): Promise<void> {
+    await this.request<void>('DELETE', `/messages/${encodeURIComponent(id)}`);
+  }
+
+  async claimMessageForDelivery(id: string, leaseUntil: string): Promise<Message | null> {
+    try {
+      return await this.request<Message>('POST', `/messages/${encodeURIComponent(id)}/claim`, { lease_until: leaseUntil });
+    } catch (error) {
+      // 409: not due, or already claimed elsewhere
+      if (error instanceof ApiError && error.status === 409) return null;
+      throw error;
+    }
+  }
+
+  async updateMessageDelivery(id: string, update: MessageDeliveryUpdate): Promise<Message> {
+    return this.request<Message>('PATCH', `/messages/${encodeURIComponent(id)}/delivery`, update);
+  }
+
+  async recordMessageEvents(events: MessageEventInput[]): Promise<MessageEventsResult> {
+    return this.request<MessageEventsResult>('POST', '/messages/events', { events });
+  }
+
+  // Inbound messages
+  async getInboundMessages(): Promise<InboundMessage[]> {
+    return this.request<InboundMessage[]>('GET', '/inbound-messages');
+  }
+
+  async recordInboundMessages(messages: InboundMessageInput[]): Promise<InboundMessagesResult> {
+    return this.request<InboundMessagesResult>('POST', '/inbound-messages', { messages });
+  }
+
+  async markInboundRead(ids: string[]): Promise<void> {
+    await this.request<void>('POST', '/inbound-messages/read', { ids });
+  }
+
+  async linkInboundMessage(id: string, memberId: string): Promise<InboundMessage> {
+    return this.request<InboundMessage>('PATCH', `/inbound-messages/${encodeURIComponent(id)}`, { member_id: memberId });
+  }
+
+  async getMessageThreads(): Promise<MessageThread[]> {
+    return this.request<MessageThread[]>('GET', '/message-threads');
+  }
+
+  async assignThread(memberId: string, userId: string | null): Promise<MessageThread> {
+    return this.request<MessageThread>('PUT', `/message-threads/${encodeURIComponent(memberId)}`, { assigned_to: userId });
+  }
+
+  // Message templates
+  async getMessageTemplates(): Promise<MessageTemplate[]> {
+    return this.request<MessageTemplate[]>('GET', '/message-templates');
+  }
+
+  async saveMessageTemplate(template: MessageTemplateInput & { id?: string }): Promise<MessageTemplate> {
+    if (template.id) {
+      return this.request<MessageTemplate>('PUT', `/message-templates/${encodeURIComponent(template.id)}`, template);
+    }
+    return this.request<MessageTemplate>('POST', '/message-templates', template);
+  }
+
+  async archiveMessageTemplate(id: string, archived: boolean): Promise<MessageTemplate> {
+    return this.request<MessageTemplate>('POST', `/message-templates/${encodeURIComponent(id)}/archive`, { archived });
+  }
+
+  // Member segments
+  async getSegments(): Promise<MemberSegment[]> {
+    return this.request<MemberSegment[]>('GET', '/segments');
+  }
+
+  async saveSegment(segment: MemberSegmentInput & { id?: string }): Promise<MemberSegment> {
+    if (segment.id) {
+      return this.request<MemberSegment>('PUT', `/segments/${encodeURIComponent(segment.id)}`, segment);
+    }
+    return this.request<MemberSegment>('POST', '/segments', segment);
+  }
+
+  async deleteSegment(id: string): Promise<void> {
+    await this.request<void>('DELETE', `/segments/${encodeURIComponent(id)}`);
+  }
+
+  // Funds
+  async getFunds(): Promise<Fund[]> {
+    return this.request<Fund[]>('GET', '/funds');
+  }
+
+  async saveFund(fund: FundInput & { id?: string }): Promise<Fund> {
+    if (fund.id) {
+      return this.request<Fund>('PUT', `/funds/${encodeURIComponent(fund.id)}`, fund);
+    }
+    return this.request<Fund>('POST', '/funds', fund);
+  }
+
+  async archiveFund(id: string, archived: boolean): Promise<Fund> {
+    return this.request<Fund>('POST', `/funds/${encodeURIComponent(id)}/archive`, { archived });
+  }
+
+  async deleteFund(id: string): Promise<void> {
+    await this.request<void>('DELETE', `/funds/${encodeURIComponent(id)}`);
+  }
+
+  // Newsletter campaigns
+  async getCampaigns(): Promise<NewsletterCampaign[]> {
+    return this.request<NewsletterCampaign[]>('GET', '/campaigns');
+  }
+
+  async saveCampaign(campaign: NewsletterCampaignInput & { id?: string }): Promise<NewsletterCampaign> {
+    if (campaign.id) {
+      return this.request<NewsletterCampaign>('PUT', `/campaigns/${encodeURIComponent(campaign.id)}`, campaign);
+    }
+    return this.request<NewsletterCampaign>('POST', '/campaigns', campaign);
+  }
+
+  async cancelCampaign(id: string): Promise<NewsletterCampaign> {
+    return this.request<NewsletterCampaign>('POST', `/campaigns/${encodeURIComponent(id)}/cancel`);
+  }
+
+  async recordCampaignSend(id: string, from: CampaignStatus, update: CampaignSendUpdate, messages: Omit<Message, 'id'>[]): Promise<Message[] | null> {
+    try {
+      return await this.request<Message[]>('POST', `/campaigns/${encodeURIComponent(id)}/sends`, { from, update, messages });
+    } catch (error) {
+      // 409: the campaign has moved on since it was read
+      if (error instanceof ApiError && error.status === 409) return null;
+      throw error;
+    }
+  }
+
+  // Automation
+  async getAutomationSends(): Promise<AutomationSend[]> {
+    return this.request<AutomationSend[]>('GET', '/automation/sends');
+  }
+
+  async createAutomatedMessages(sends: AutomationSendInput[], messages: Omit<Message, 'id'>[]): Promise<Message[] | null> {
+    try {
+      return await this.request<Message[]>('POST', '/automation/sends', { sends, messages });
+    } catch (error) {
+      // 409: one of the sends is already on record
+      if (error instanceof ApiError && error.status === 409) return null;
+      throw error;
+    }
+  }
+
+  async getAutomationRuns(): Promise<AutomationRun[]> {
+    return this.request<AutomationRun[]>('GET', '/automation/runs');
+  }
+
+  async saveAutomationRun(run: AutomationRun): Promise<void> {
+    await this.request<void>('POST', '/automation/runs', run);
+  }
+
+  // Recycle bin
+  async getRecycleBin(): Promise<RecycleBin> {
+    return this.request<RecycleBin>('GET', '/recycle-bin');
+  }
+
+  async restoreDeleted(entity: RecycleBinEntity, id: string): Promise<void> {
+    await this.request<void>('POST', `/recycle-bin/${entity}/${encodeURIComponent(id)}/restore`);
+  }
+
+  async purgeDeleted(entity: RecycleBinEntity, id: string): Promise<void> {
+    await this.request<void>('DELETE', `/recycle-bin/${entity}/${encodeURIComponent(id)}`);
+  }
+
+  // The server applies its own throttling and answers 429 with Retry-After
+  private toThrottledError(error: unknown): unknown {
+    if (error instanceof ApiError && error.status === 429) {
+      return new LoginThrottledError(new Date(Date.now() + (error.retryAfterSeconds ?? 60) * 1000));
+    }
+    return error;
+  }
+
+  // Auth
+  async login(email: string, password: string): Promise<User | null> {
+    try {
+      const result = await this.request<{ user: User; token: string }>('POST', '/auth/login', { email, password });
+      this.setToken(result.token);
+      return result.user;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return null;
+      throw this.toThrottledError(error);
+    }
+  }
+
+  async getCurrentUser(): Promise<User | null> {
+    if (!this.getToken()) return null;
+    try {
+      return await this.request<User>('GET', '/auth/me');
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        this.setToken(null);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getSession(): Promise<Session | null> {
+    if (!this.getToken()) return null;
+    try {
+      return await this.request<Session>('GET', '/auth/session');
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return null;
+      throw error;
+    }
+  }
+
+  async lockSession(reason: 'idle' | 'expired'): Promise<void> {
+    await this.request<void>('POST', '/auth/lock', { reason });
+  }
+
+  async unlockSession(password: string): Promise<User> {
+    try {
+      const result = await this.request<{ user: User; token: string }>('POST', '/auth/unlock', { password });
+      // Unlocking an expired session issues a fresh token
+      this.setToken(result.token);
+      return result.user;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) throw new Error('Incorrect password');
+      throw this.toThrottledError(error);
+    }
+  }
+
+  async getSessionEvents(): Promise<SessionEvent[]> {
+    return this.request<SessionEvent[]>('GET', '/auth/events');
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.request<void>('POST', '/auth/logout');
+    } finally {
+      this.setToken(null);
+    }
+  }
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<User> {
+    return this.request<User>('POST', '/auth/password', { current_password: currentPassword, new_password: newPassword });
+  }
+
+  async hasDemoAccounts(): Promise<boolean> {
+    // A shared server never ships demo logins
+    return false;
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return this.request<User[]>('GET', '/users');
+  }
+
+  async getStaff(): Promise<StaffMember[]> {
+    return this.request<StaffMember[]>('GET', '/staff');
+  }
+
+  async createUser(user: NewUser, temporaryPassword: string): Promise<User> {
+    return this.request<User>('POST', '/users', { ...user, password: temporaryPassword });
+  }
+
+  async updateUser(id: string, updates: Partial<Pick<User, 'full_name' | 'role' | 'active'>>): Promise<User> {
+    return this.request<User>('PATCH', `/users/${encodeURIComponent(id)}`, updates);
+  }
+
+  async resetUserPassword(id: string, temporaryPassword: string): Promise<void> {
+    await this.request<void>('POST', `/users/${encodeURIComponent(id)}/reset-password`, { password: temporaryPassword });
+  }
+
+  async getRoles(): Promise<RoleDefinition[]> {
+    return this.request<RoleDefinition[]>('GET', '/roles');
+  }
+
+  async saveRole(role: Omit<RoleDefinition, 'id' | 'built_in'> & { id?: string }): Promise<RoleDefinition> {
+    if (role.id) {
+      return this.request<RoleDefinition>('PUT', `/roles/${encodeURIComponent(role.id)}`, role);
+    }
+    return this.request<RoleDefinition>('POST', '/roles', role);
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await this.request<void>('DELETE', `/roles/${encodeURIComponent(id)}`);
+  }
+
+  // Audit trail
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.request<void>('POST', '/audit', entries);
+  }
+
+  async getAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    const params = new URLSearchParams();
+    if (filter.actorId) params.set('actor_id', filter.actorId);
+    if (filter.entity) params.set('entity', filter.entity);
+    if (filter.from) params.set('from', filter.from);
+    if (filter.to) params.set('to', filter.to);
+    const query = params.toString();
+    return this.request<AuditEntry[]>('GET', `/audit${query ? `?${query}` : ''}`);
+  }
+
+  // Settings
+  async getSettings(): Promise<Settings> {
+    return this.request<Settings>('GET', '/settings');
+  }
+
+  async updateSettings(updates: Partial<Settings>): Promise<Settings> {
+    return this.request<Settings>('PATCH', '/settings', updates);
+  }
+
+  // Data management
+  async exportData(): Promise<string> {
+    const data = await this.request<unknown>('GET', '/export');
+    return JSON.stringify(data, null, 2);
+  }
+
+  async importData(jsonData: string, options: ImportOptions = { mode: 'replace' }): Promise<ImportReport> {
+    // Validate locally for a fast report; the server re-validates before applying
+    const existing = {
+      members: await this.getMembers(),
+      payments: await this.getPayments(),
+      messages: await this.getMessages(),
+      funds: await this.getFunds(),
+    };
+    const plan = planImport(jsonData, existing, options);
+
+    if (hasImportErrors(plan.report)) {
+      if (options.dryRun) return plan.report;
+      throw new ImportValidationError(plan.report);
+    }
+    if (options.dryRun) return plan.report;
+
+    return this.request<ImportReport>('POST', '/import', {
+      mode: options.mode,
+      members: plan.members,
+      payments: plan.payments,
+      installments: plan.installments,
+      messages: plan.messages,
+      settings: plan.settings,
+    });
+  }
+
+  async clearData(): Promise<void> {
+    await this.request<void>('DELETE', '/data');
+  }
+}
+
+export function createRestDataProvider(options: RestDataProviderOptions): DataProvider & AuditSink {
+  return new RestDataProvider(options);
+}
@@ -0,0 +1,179 @@
+import * as z from 'zod';
+
+// Runtime schemas for stored records, kept in line with the interfaces in '@/types'.
+// Unknown keys pass through so fields added by later schema versions are never dropped.
+
+const isoDateTime = z.string().refine(value => !isNaN(Date.parse(value)), 'Must be a valid date/time');
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Must be a YYYY-MM-DD date');
+
+const softDeleteFields = {
+  deleted_at: isoDateTime.optional(),
+  deleted_by: z.string().optional(),
+  deleted_with: z.string().optional(),
+};
+
+export const memberRecordSchema = z.object({
+  id: z.string().min(1),
+  full_name: z.string().min(1, 'Name is required'),
+  phone_number: z.string().min(1, 'Phone number is required'),
+  alt_phone_number: z.string().optional(),
+  email: z.string().email('Invalid email address'),
+  address: z.string().optional(),
+  location: z.string().optional(),
+  payment_amount: z.number().nonnegative(),
+  payment_frequency: z.enum(['monthly', 'three_months', 'six_months', 'yearly']),
+  payment_start_date: isoDate,
+  payment_method: z.enum(['bank', 'cash', 'branch']),
+  preferred_contact: z.enum(['email', 'sms', 'both']),
+  active: z.boolean(),
+  created_at: isoDateTime,
+  email_opt_out_at: isoDateTime.optional(),
+  sms_opt_out_at: isoDateTime.optional(),
+  email_invalid_at: isoDateTime.optional(),
+  email_invalid_reason: z.string().optional(),
+  ...softDeleteFields,
+}).passthrough();
+
+export const paymentRecordSchema = z.object({
+  id: z.string().min(1),
+  member_id: z.string().min(1),
+  amount: z.number(),
+  payment_date: isoDateTime,
+  payment_method: z.enum(['bank', 'cash', 'branch']),
+  status: z.enum(['paid', 'unpaid']),
+  notes: z.string().optional(),
+  reverses: z.string().optional(),
+  reversed_by: z.string().optional(),
+  reversal_type: z.enum(['refund', 'void']).optional(),
+  reversal_reason: z.string().optional(),
+  approved_by: z.string().optional(),
+  bank_transaction_id: z.string().optional(),
+  bank_reference: z.string().optional(),
+  fund_id: z.string().optional(),
+  ...softDeleteFields,
+}).passthrough();
+
+export const installmentRecordSchema = z.object({
+  id: z.string().min(1),
+  member_id: z.string().min(1),
+  due_date: isoDate,
+  expected_amount: z.number().nonnegative(),
+  paid_amount: z.number().nonnegative(),
+  allocations: z.array(z.object({ payment_id: z.string().min(1), amount: z.number().positive() })),
+  state: z.enum(['open', 'partially_paid', 'paid', 'waived', 'written_off']),
+  resolved_at: isoDateTime.optional(),
+  resolved_by: z.string().optional(),
+  resolution_note: z.string().optional(),
+}).passthrough();
+
+export const messageRecordSchema = z.object({
+  id: z.string().min(1),
+  member_id: z.string().optional(),
+  message_type: z.enum(['reminder', 'thank_you', 'announcement', 'statement']),
+  message_subject: z.string().optional(),
+  message_content: z.string(),
+  sent_at: isoDateTime,
+  channel: z.enum(['email', 'sms']),
+  attachments: z.array(z.object({
+    file_name: z.string().min(1),
+    content_type: z.string().min(1),
+    content_base64: z.string(),
+  })).optional(),
+  delivery_status: z.enum(['queued', 'sending', 'sent', 'delivered', 'failed', 'bounced']).optional(),
+  delivery_attempts: z.number().int().nonnegative().optional(),
+  next_attempt_at: isoDateTime.optional(),
+  delivered_at: isoDateTime.optional(),
+  last_error: z.string().optional(),
+  transport_message_id: z.string().optional(),
+  events: z.array(z.object({
+    id: z.string().min(1),
+    type: z.enum(['delivered', 'opened', 'clicked', 'bounced', 'complained', 'unsubscribed']),
+    occurred_at: isoDateTime,
+    bounce_type: z.enum(['hard', 'soft']).optional(),
+    url: z.string().optional(),
+    reason: z.string().optional(),
+  })).optional(),
+  opened_at: isoDateTime.optional(),
+  clicked_at: isoDateTime.optional(),
+  campaign_id: z.string().optional(),
+  campaign_variant: z.enum(['a', 'b']).optional(),
+  ...softDeleteFields,
+}).passthrough();
+
+const segmentConditionSchema = z.discriminatedUnion('field', [
+  z.object({ field: z.literal('location'), values: z.array(z.string()) }),
+  z.object({ field: z.literal('payment_frequency'), values: z.array(z.enum(['monthly', 'three_months', 'six_months', 'yearly'])) }),
+  z.object({ field: z.literal('payment_method'), values: z.array(z.enum(['bank', 'cash', 'branch'])) }),
+  z.object({ field: z.literal('active'), value: z.boolean() }),
+  z.object({ field: z.literal('created_at'), from: isoDate.optional(), to: isoDate.optional() }),
+  z.object({ field: z.literal('overdue_days'), days: z.number().int().nonnegative() }),
+  z.object({ field: z.literal('lifetime_total'), min: z.number().optional(), max: z.number().optional() }),
+  z.object({ field: z.literal('last_payment_before'), date: isoDate }),
+  z.object({ field: z.literal('never_messaged') }),
+]);
+
+export const settingsRecordSchema = z.object({
+  org_name: z.string().min(1),
+  org_address: z.string(),
+  default_currency: z.string().min(1),
+  from_email: z.string().email(),
+  reminder_window_days: z.number().int().nonnegative(),
+  default_payment_amount: z.number().nonnegative(),
+  theme: z.enum(['light', 'dark']),
+  primary_color: z.string(),
+  // Added after the first release, so older backups may not have them
+  session_max_hours: z.number().positive().optional(),
+  recycle_bin_retention_days: z.number().int().nonnegative().optional(),
+  idle_lock_minutes: z.number().positive().optional(),
+  bank_csv_mappings: z.array(z.object({
+    id: z.string().min(1),
+    bank_name: z.string().min(1),
+    delimiter: z.string(),
+    date_column: z.string().min(1),
+    date_format: z.string().min(1),
+    amount_column: z.string().optional(),
+    credit_column: z.string().optional(),
+    decimal_separator: z.enum(['.', ',']),
+    description_column: z.string().min(1),
+    reference_column: z.string().optional(),
+    payer_column: z.string().optional(),
+    transaction_id_column: z.string().optional(),
+  })).optional(),
+  sms_country_code: z.string().regex(/^[1-9]\d{0,2}$/).optional(),
+  sms_sender_id: z.string().max(11).optional(),
+  tracking_base_url: z.string().url().optional(),
+  automation_rules: z.array(z.object({
+    kind: z.enum(['due_reminder', 'overdue_notice', 'payment_thank_you']),
+    enabled: z.boolean(),
+    days: z.number().int().nonnegative().optional(),
+    template_id: z.string().optional(),
+  })).optional(),
+  // Segments and funds are stored on their own, but carried in the settings of backups
+  member_segments: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    match: z.enum(['all', 'any']),
+    conditions: z.array(segmentConditionSchema),
+    created_at: isoDateTime,
+    updated_at: isoDateTime,
+  })).optional(),
+  funds: z.array(z.object({
+    id: z.string().min(1),
+    kind: z.enum(['fund', 'campaign']),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    goal_amount: z.number().nonnegative().optional(),
+    start_date: isoDate.optional(),
+    end_date: isoDate.optional(),
+    archived_at: isoDateTime.optional(),
+    created_at: isoDateTime,
+    updated_at: isoDateTime,
+  })).optional(),
+}).passthrough();
+
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
@@ -1,9 +1,18 @@
+import { getDataProviderConfig } from './providerRegistry';
 import { localDataProvider } from './localDataProvider';
 import { Member, Payment, Message } from '@/types';
+import { DEFAULT_DONATION_WINDOW_DAYS } from '@/campaigns/campaignUtils';
 
 export async function seedData() {
+  // Demo data only makes sense for the browser-local store, never a shared backend
+  if (getDataProviderConfig().type !== 'local') return;
+
+  // Seeding is a system task, so it writes to the local store directly rather
+  // than through the permission-checked provider the signed-in user gets
+  const provider = localDataProvider;
+
   // Check if data already exists
-  const existingMembers = await localDataProvider.getMembers();
+  const existingMembers = await provider.getMembers();
   if (existingMembers.length > 0) return;
 
   // Generate 40 realistic members
@@ -43,7 +52,7 @@ export async function seedData() {
   // Create members and collect their IDs
   const createdMembers = [];
   for (const memberData of members) {
-    const member = await localDataProvider.createMember(memberData);
+    const member = await provider.createMember(memberData);
     createdMembers.push(member);
   }
 
@@ -76,7 +85,7 @@ export async function seedData() {
       // Don't create future payments beyond next month
       if (paymentDate > new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)) continue;
 
-      const statuses: Array<'paid' | 'unpaid' | 'overdue'> = ['paid', 'paid', 'paid', 'unpaid', 'overdue'];
+      const statuses: Array<Payment['status']> = ['paid', 'paid', 'paid', 'paid', 'unpaid'];
       const status = paymentDate < new Date() ? statuses[Math.floor(Math.random() * statuses.length)] : 'unpaid';
 
       const payment: Omit<Payment, 'id'> = {
@@ -94,7 +103,7 @@ export async function seedData() {
 
   // Create payments
   for (const paymentData of payments) {
-    await localDataProvider.createPayment(paymentData);
+    await provider.createPayment(paymentData);
   }
 
   // Generate some messages
@@ -130,21 +139,8 @@ export async function seedData() {
       message_subject: subject,
       message_content: content,
       sent_at: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(), // Last 30 days
-      channel: 'email'
-    };
-    
-    messages.push(message);
-  }
-
-  // Some bulk announcement messages
-  for (let i = 0; i < 3; i++) {
-    const message: Omit<Message, 'id'> = {
-      member_id: undefined, // Bulk message
-      message_type: 'announcement',
-      message_subject: ['Monthly Newsletter', 'Year-end Update', 'New Project Launch'][i],
-      message_content: 'This is a bulk announcement sent to all active members about important foundation updates.',
-      sent_at: new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString(), // Last 60 days
-      channel: 'email'
+      channel: 'email',
+      delivery_status: 'sent'
     };
     
     messages.push(message);
@@ -152,7 +148,31 @@ export async function seedData() {
 
   // Create messages
   for (const messageData of messages) {
-    await localDataProvider.createMessage(messageData);
+    await provider.createMessage(messageData);
+  }
+
+  // Some newsletter campaigns already sent to all active members
+  const activeMembers = createdMembers.filter(m => m.active);
+  const campaignSubjects = ['Monthly Newsletter', 'Year-end Update', 'New Project Launch'];
+  for (const subject of campaignSubjects) {
+    const campaign = await provider.saveCampaign({
+      name: subject,
+      subject,
+      content: 'Dear {{member.first_name}}, here are the latest updates on our projects and achievements.',
+      donation_window_days: DEFAULT_DONATION_WINDOW_DAYS,
+    });
+    const sentAt = new Date(Date.now() - Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString(); // Last 60 days
+    await provider.recordCampaignSend(campaign.id, 'draft', { status: 'sent', sent_at: sentAt, recipient_count: activeMembers.length },
+      activeMembers.map(member => ({
+        member_id: member.id,
+        message_type: 'announcement',
+        message_subject: subject,
+        message_content: `Dear ${member.full_name}, here are the latest updates on our projects and achievements.`,
+        sent_at: sentAt,
+        channel: 'email',
+        delivery_status: 'sent',
+        campaign_id: campaign.id,
+      })));
   }
 
   console.log('Seed data created successfully!');
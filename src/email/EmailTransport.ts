@@ -0,0 +1,33 @@
+import { MessageAttachment } from '@/types';
+
+export interface OutgoingEmail {
+  message_id: string; // our Message id, sent as a header so bounces can be traced back
+  from: string; // 'Name <address>'
+  to: string[];
+  bcc?: string[];
+  subject: string;
+  text: string;
+  html?: string; // an alternative to text, carrying the tracking links
+  list_unsubscribe?: string; // one-click unsubscribe URL for the List-Unsubscribe header
+  attachments?: MessageAttachment[];
+}
+
+export interface TransportReceipt {
+  transport_message_id?: string; // the relay's or server's id for the accepted message
+}
+
+// Every transport hands off one email at a time and either resolves once the
+// server has accepted it or throws a DeliveryError saying whether to retry
+export interface EmailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<TransportReceipt>;
+}
+
+// Temporary failures (server busy, network down) are retried with backoff;
+// permanent ones (address refused) mark the message bounced straight away
+export class DeliveryError extends Error {
+  constructor(message: string, public permanent: boolean) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { applyMessageEvent, parseDeliveryWebhook } from './deliveryEvents';
+import { buildFixturePayload } from './webhookFixtures';
+import { Member, Message } from '@/types';
+
+const now = new Date('2026-03-01T09:00:00.000Z');
+const member = { id: 'm1', full_name: 'Ada Lovelace', email: 'ada@example.org' } as Member;
+const message = {
+  id: 'msg-1',
+  member_id: 'm1',
+  message_type: 'reminder',
+  message_content: 'A friendly reminder.',
+  sent_at: now.toISOString(),
+  channel: 'email',
+  delivery_status: 'sent',
+} as Message;
+
+// Runs a fixture's events through the parser and applies them in order, as a provider would
+function applyFixture(fixtureKey: string, start: Message = message) {
+  const { events, errors } = parseDeliveryWebhook(buildFixturePayload(fixtureKey, start, member, now));
+  expect(errors).toEqual([]);
+  let current = start;
+  let memberUpdates: Partial<Member> = {};
+  for (const event of events) {
+    const applied = applyMessageEvent(current, member, event);
+    if (!applied) continue;
+    current = applied.message;
+    memberUpdates = { ...memberUpdates, ...applied.memberUpdates };
+  }
+  return { message: current, memberUpdates, events };
+}
+
+describe('parseDeliveryWebhook', () => {
+  it('reads Unix timestamps and reports malformed events on their own', () => {
+    const parsed = parseDeliveryWebhook([
+      { id: 'e1', type: 'delivered', message_id: 'msg-1', timestamp: 1772355600 },
+      { id: 'e2', type: 'opened', timestamp: '2026-03-01T09:00:00Z' },
+    ]);
+
+    expect(parsed.events).toEqual([expect.objectContaining({ id: 'e1', occurred_at: '2026-03-01T09:00:00.000Z' })]);
+    expect(parsed.errors).toEqual([expect.stringMatching(/^Event 2: .*message_id or transport_message_id/)]);
+  });
+
+  it('refuses a payload that is not a list of events', () => {
+    expect(parseDeliveryWebhook('not json').errors).toEqual(['The payload is not valid JSON']);
+    expect(parseDeliveryWebhook({ data: [] }).errors).toEqual(['Expected an array of events or { "events": [...] }']);
+  });
+});
+
+describe('applyMessageEvent', () => {
+  it('marks a delivered message', () => {
+    const { message: applied, memberUpdates } = applyFixture('delivered');
+
+    expect(applied).toMatchObject({ delivery_status: 'delivered', delivered_at: now.toISOString() });
+    expect(applied.events).toHaveLength(1);
+    expect(memberUpdates).toEqual({});
+  });
+
+  it('sets opened_at on an open', () => {
+    const { message: applied } = applyFixture('opened');
+
+    expect(applied).toMatchObject({ delivery_status: 'delivered', opened_at: '2026-03-01T09:01:00.000Z' });
+    expect(applied.clicked_at).toBeUndefined();
+  });
+
+  it('sets clicked_at and keeps the first open on a click', () => {
+    const { message: applied } = applyFixture('clicked');
+
+    expect(applied).toMatchObject({
+      opened_at: '2026-03-01T09:01:00.000Z',
+      clicked_at: '2026-03-01T09:01:30.000Z',
+    });
+    expect(applied.events!.map(e => e.type)).toEqual(['delivered', 'opened', 'clicked']);
+  });
+
+  it('counts a click without an open as one', () => {
+    const applied = applyMessageEvent(message, member, {
+      id: 'e1', type: 'clicked', message_id: 'msg-1', occurred_at: now.toISOString(), url: 'https://example.org',
+    });
+
+    expect(applied!.message).toMatchObject({ delivery_status: 'delivered', opened_at: now.toISOString(), clicked_at: now.toISOString() });
+  });
+
+  it('ignores an event id already on the message', () => {
+    const { message: applied, events } = applyFixture('opened');
+
+    expect(applyMessageEvent(applied, member, events[1])).toBeNull();
+  });
+
+  it('marks the address invalid on a hard bounce', () => {
+    const { message: applied, memberUpdates } = applyFixture('hard_bounce');
+
+    expect(applied).toMatchObject({ delivery_status: 'bounced', last_error: 'Bounced: 550 5.1.1 User unknown' });
+    expect(memberUpdates).toEqual({ email_invalid_at: now.toISOString(), email_invalid_reason: '550 5.1.1 User unknown' });
+  });
+
+  it('only notes a soft bounce', () => {
+    const { message: applied, memberUpdates } = applyFixture('soft_bounce');
+
+    expect(applied).toMatchObject({ delivery_status: 'sent', last_error: 'Soft bounce: 452 4.2.2 Mailbox full' });
+    expect(memberUpdates).toEqual({});
+  });
+
+  it('leaves a member alone when a hard bounce is for an address they have since replaced', () => {
+    const applied = applyMessageEvent(message, member, {
+      id: 'e1', type: 'bounced', bounce_type: 'hard', message_id: 'msg-1', occurred_at: now.toISOString(), recipient: 'old@example.org',
+    });
+
+    expect(applied!.memberUpdates).toBeNull();
+  });
+
+  it.each(['unsubscribed', 'complained'])('opts the member out of email when %s', fixtureKey => {
+    const { memberUpdates } = applyFixture(fixtureKey);
+
+    expect(memberUpdates).toEqual({ email_opt_out_at: expect.any(String) });
+  });
+
+  it('opts the member out of SMS when unsubscribing from a text', () => {
+    const { memberUpdates } = applyFixture('unsubscribed', { ...message, channel: 'sms' });
+
+    expect(memberUpdates).toEqual({ sms_opt_out_at: '2026-03-01T09:02:00.000Z' });
+  });
+});
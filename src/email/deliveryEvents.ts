@@ -0,0 +1,155 @@
+import * as z from 'zod';
+import { Member, Message, MessageEvent, MessageEventInput, MessageEventType, MessageEventsResult } from '@/types';
+import { DataProvider } from '@/data/DataProvider';
+import { formatZodIssues } from '@/data/schemas';
+
+export const MESSAGE_EVENT_LABELS: Record<MessageEventType, string> = {
+  delivered: 'Delivered',
+  opened: 'Opened',
+  clicked: 'Clicked',
+  bounced: 'Bounced',
+  complained: 'Marked as spam',
+  unsubscribed: 'Unsubscribed',
+};
+
+// Events as the relay, SMS gateway or tracking server posts them, either as an
+// array or as { "events": [...] }. Timestamps may be ISO strings or Unix seconds.
+const webhookEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['delivered', 'opened', 'clicked', 'bounced', 'complained', 'unsubscribed']),
+  message_id: z.string().min(1).optional(),
+  transport_message_id: z.string().min(1).optional(),
+  timestamp: z.union([
+    z.string().refine(value => !isNaN(Date.parse(value)), 'Must be a valid date/time'),
+    z.number().positive(),
+  ]),
+  bounce_type: z.enum(['hard', 'soft']).optional(),
+  url: z.string().optional(),
+  reason: z.string().optional(),
+  recipient: z.string().optional(),
+}).refine(event => event.message_id || event.transport_message_id, 'Needs a message_id or transport_message_id');
+
+export interface ParsedWebhook {
+  events: MessageEventInput[];
+  errors: string[]; // one per event that was left out
+}
+
+// Each event is checked on its own, so one malformed entry does not lose the batch
+export function parseDeliveryWebhook(payload: unknown): ParsedWebhook {
+  let body = payload;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return { events: [], errors: ['The payload is not valid JSON'] };
+    }
+  }
+  const entries = Array.isArray(body) ? body : (body as { events?: unknown } | null)?.events;
+  if (!Array.isArray(entries)) {
+    return { events: [], errors: ['Expected an array of events or { "events": [...] }'] };
+  }
+
+  const parsed: ParsedWebhook = { events: [], errors: [] };
+  entries.forEach((entry, index) => {
+    const result = webhookEventSchema.safeParse(entry);
+    if (!result.success) {
+      parsed.errors.push(`Event ${index + 1}: ${formatZodIssues(result.error).join('; ')}`);
+      return;
+    }
+    const { timestamp, ...event } = result.data;
+    parsed.events.push({
+      ...event,
+      id: event.id,
+      type: event.type,
+      occurred_at: new Date(typeof timestamp === 'number' ? timestamp * 1000 : timestamp).toISOString(),
+    });
+  });
+  return parsed;
+}
+
+const earliest = (current: string | undefined, candidate: string) =>
+  current && current <= candidate ? current : candidate;
+
+// Opens and clicks prove delivery even when no delivered event arrives
+function confirmDelivery(message: Message, occurredAt: string): Partial<Message> {
+  const status = message.delivery_status ?? 'sent';
+  if (status !== 'sent' && status !== 'sending' && status !== 'queued') return {};
+  return { delivery_status: 'delivered', delivered_at: occurredAt };
+}
+
+export interface AppliedMessageEvent {
+  message: Message;
+  memberUpdates: Partial<Member> | null; // opt-outs and invalid addresses
+}
+
+// What one event changes on its message and member. Null for an event id
+// already on the message. Providers apply both parts in a single write.
+export function applyMessageEvent(message: Message, member: Member | null, input: MessageEventInput): AppliedMessageEvent | null {
+  if (message.events?.some(existing => existing.id === input.id)) return null;
+
+  const event: MessageEvent = {
+    id: input.id,
+    type: input.type,
+    occurred_at: input.occurred_at,
+    bounce_type: input.bounce_type,
+    url: input.url,
+    reason: input.reason,
+  };
+  const events = [...(message.events ?? []), event].sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+  let updates: Partial<Message> = {};
+  let memberUpdates: Partial<Member> | null = null;
+  // A bounce for an address the member has since replaced says nothing about the new one
+  const sameAddress = !input.recipient || !member || input.recipient.trim().toLowerCase() === member.email.trim().toLowerCase();
+
+  switch (event.type) {
+    case 'delivered':
+      updates = confirmDelivery(message, event.occurred_at);
+      break;
+    case 'opened':
+      updates = { ...confirmDelivery(message, event.occurred_at), opened_at: earliest(message.opened_at, event.occurred_at) };
+      break;
+    case 'clicked':
+      updates = {
+        ...confirmDelivery(message, event.occurred_at),
+        opened_at: earliest(message.opened_at, event.occurred_at),
+        clicked_at: earliest(message.clicked_at, event.occurred_at),
+      };
+      break;
+    case 'bounced': {
+      const reason = event.reason || (event.bounce_type === 'hard' ? 'Address does not exist' : 'Temporarily refused');
+      if (event.bounce_type === 'hard') {
+        updates = { delivery_status: 'bounced', last_error: `Bounced: ${reason}` };
+        if (member && message.channel === 'email' && sameAddress && !member.email_invalid_at) {
+          memberUpdates = { email_invalid_at: event.occurred_at, email_invalid_reason: reason };
+        }
+      } else {
+        // The relay keeps retrying a soft bounce, so only note it
+        updates = { last_error: `Soft bounce: ${reason}` };
+      }
+      break;
+    }
+    case 'complained':
+      if (member && !member.email_opt_out_at) memberUpdates = { email_opt_out_at: event.occurred_at };
+      break;
+    case 'unsubscribed':
+      if (member && message.channel === 'email' && !member.email_opt_out_at) memberUpdates = { email_opt_out_at: event.occurred_at };
+      if (member && message.channel === 'sms' && !member.sms_opt_out_at) memberUpdates = { sms_opt_out_at: event.occurred_at };
+      break;
+  }
+
+  return { message: { ...message, ...updates, events }, memberUpdates };
+}
+
+export interface WebhookResult extends MessageEventsResult {
+  errors: string[];
+}
+
+// The entry point for delivery webhooks: validates the payload, then records
+// every well-formed event. Safe to call twice with the same payload.
+export async function handleDeliveryWebhook(provider: DataProvider, payload: unknown): Promise<WebhookResult> {
+  const { events, errors } = parseDeliveryWebhook(payload);
+  const result = events.length > 0
+    ? await provider.recordMessageEvents(events)
+    : { recorded: 0, duplicates: 0, unmatched: 0, member_changes: [] };
+  return { ...result, errors };
+}
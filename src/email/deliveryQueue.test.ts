@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MAX_DELIVERY_ATTEMPTS, getRetryDelayMs, processOutbox } from './deliveryQueue';
+import { smtpSink } from './smtpSink';
+import { createSmtpTransport } from './smtpTransport';
+import { DataProvider } from '@/data/DataProvider';
+import { Member, Message, MessageDeliveryUpdate, Settings } from '@/types';
+
+const now = new Date('2026-03-01T09:00:00.000Z');
+const settings = { org_name: 'Donor Hub', from_email: 'office@example.org' } as Settings;
+const transport = createSmtpTransport({ connect: smtpSink.connect, name: 'Local sink' });
+
+function member(id: string, email: string): Member {
+  return { id, full_name: `Member ${id}`, email, phone_number: '', active: true } as Member;
+}
+
+function queued(id: string, memberId: string, overrides: Partial<Message> = {}): Message {
+  return {
+    id,
+    member_id: memberId,
+    message_type: 'reminder',
+    message_subject: 'Your pledge',
+    message_content: 'A friendly reminder.',
+    sent_at: now.toISOString(),
+    channel: 'email',
+    delivery_status: 'queued',
+    delivery_attempts: 0,
+    ...overrides,
+  };
+}
+
+// Just enough of a provider for the outbox: claims bump the attempt count, as the real ones do
+function fakeProvider(messages: Message[], members: Member[]) {
+  const updates = new Map<string, MessageDeliveryUpdate>();
+  const provider = {
+    getMessages: async () => messages,
+    getMembers: async () => members,
+    getSettings: async () => settings,
+    claimMessageForDelivery: async (id: string, leaseUntil: string) => {
+      const message = messages.find(m => m.id === id)!;
+      return { ...message, delivery_status: 'sending', delivery_attempts: (message.delivery_attempts ?? 0) + 1, next_attempt_at: leaseUntil };
+    },
+    updateMessageDelivery: async (id: string, update: MessageDeliveryUpdate) => {
+      updates.set(id, update);
+      return { ...messages.find(m => m.id === id)!, ...update };
+    },
+  } as unknown as DataProvider;
+  return { provider, updates };
+}
+
+describe('processOutbox', () => {
+  beforeEach(() => smtpSink.clear());
+
+  it('marks a message the server accepted as sent', async () => {
+    const { provider, updates } = fakeProvider([queued('msg-1', 'm1')], [member('m1', 'ada@example.org')]);
+
+    const result = await processOutbox(provider, { email: transport, sms: null }, now);
+
+    expect(result).toEqual({ sent: 1, retrying: 0, failed: 0 });
+    expect(updates.get('msg-1')).toMatchObject({ delivery_status: 'sent', last_error: undefined });
+    expect(updates.get('msg-1')!.transport_message_id).toBeTruthy();
+    expect(smtpSink.getCaptured()).toEqual([expect.objectContaining({ recipients: ['ada@example.org'] })]);
+  });
+
+  it('retries a deferred message (451) after a backoff counted from now', async () => {
+    const { provider, updates } = fakeProvider(
+      [queued('msg-1', 'm1', { delivery_attempts: 1 })],
+      [member('m1', 'tempfail@example.org')]
+    );
+
+    const result = await processOutbox(provider, { email: transport, sms: null }, now);
+
+    expect(result).toEqual({ sent: 0, retrying: 1, failed: 0 });
+    expect(updates.get('msg-1')).toEqual({
+      delivery_status: 'queued',
+      next_attempt_at: new Date(now.getTime() + getRetryDelayMs(2)).toISOString(),
+      last_error: expect.stringMatching(/^Local sink: .*451/),
+    });
+  });
+
+  it('marks a refused message (550) as bounced without retrying', async () => {
+    const { provider, updates } = fakeProvider([queued('msg-1', 'm1')], [member('m1', 'bounce@example.org')]);
+
+    const result = await processOutbox(provider, { email: transport, sms: null }, now);
+
+    expect(result).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    expect(updates.get('msg-1')).toEqual({
+      delivery_status: 'bounced',
+      next_attempt_at: undefined,
+      last_error: expect.stringMatching(/^Local sink: .*550/),
+    });
+  });
+
+  it('gives up on a deferred message after the last attempt', async () => {
+    const { provider, updates } = fakeProvider(
+      [queued('msg-1', 'm1', { delivery_attempts: MAX_DELIVERY_ATTEMPTS - 1 })],
+      [member('m1', 'tempfail@example.org')]
+    );
+
+    const result = await processOutbox(provider, { email: transport, sms: null }, now);
+
+    expect(result).toEqual({ sent: 0, retrying: 0, failed: 1 });
+    expect(updates.get('msg-1')).toMatchObject({ delivery_status: 'failed', next_attempt_at: undefined });
+  });
+
+  it('leaves messages for a channel without a transport queued', async () => {
+    const { provider, updates } = fakeProvider([queued('msg-1', 'm1')], [member('m1', 'ada@example.org')]);
+
+    const result = await processOutbox(provider, { email: null, sms: null }, now);
+
+    expect(result).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    expect(updates.size).toBe(0);
+  });
+});
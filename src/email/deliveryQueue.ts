@@ -0,0 +1,154 @@
+import { Member, Message, MessageDeliveryUpdate, Settings } from '@/types';
+import { DataProvider } from '@/data/DataProvider';
+import { DeliveryError, EmailTransport, OutgoingEmail } from './EmailTransport';
+import { OutgoingSms, SmsGateway } from '@/sms/SmsGateway';
+import { canEmail, getMemberPhone } from '@/utils/messageUtils';
+import { buildTrackedHtml, getTrackingUrls } from './tracking';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60 * 1000;
+const SEND_LEASE_MS = 5 * 60 * 1000; // long enough for a slow server, short enough to recover from a closed tab
+
+// 1, 2, 4 then 8 minutes between attempts
+export function getRetryDelayMs(attempt: number): number {
+  return RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+export function isAwaitingDelivery(message: Message): boolean {
+  return message.delivery_status === 'queued' || message.delivery_status === 'sending';
+}
+
+export function formatSender(settings: Settings): string {
+  return `"${settings.org_name.replace(/"/g, '')}" <${settings.from_email}>`;
+}
+
+// Messages for one member go to their address; bulk ones (no member) go to
+// every active member who can be emailed, as Bcc so nobody sees the list.
+// Opt-outs and hard bounces since the message was queued are refused here.
+export function buildOutgoingEmail(message: Message, members: Member[], settings: Settings): OutgoingEmail {
+  const from = formatSender(settings);
+  const base = {
+    message_id: message.id,
+    from,
+    subject: message.message_subject || settings.org_name,
+    text: message.message_content,
+    attachments: message.attachments,
+  };
+
+  if (message.member_id) {
+    const member = members.find(m => m.id === message.member_id);
+    if (!member?.email) {
+      throw new DeliveryError('The member has no email address', true);
+    }
+    if (member.email_opt_out_at) {
+      throw new DeliveryError('The member has unsubscribed from email', true);
+    }
+    if (member.email_invalid_at) {
+      throw new DeliveryError('The member\'s email address is marked invalid after a hard bounce', true);
+    }
+    // Only messages to one member are tracked; a Bcc copy could not tell recipients apart
+    const tracking = settings.tracking_base_url ? {
+      html: buildTrackedHtml(message.message_content, settings.tracking_base_url, message.id),
+      list_unsubscribe: getTrackingUrls(settings.tracking_base_url, message.id).unsubscribe,
+    } : {};
+    return { ...base, ...tracking, to: [`"${member.full_name.replace(/"/g, '')}" <${member.email}>`] };
+  }
+
+  const bcc = members.filter(m => m.active && canEmail(m)).map(m => m.email);
+  if (bcc.length === 0) {
+    throw new DeliveryError('No active members have an email address', true);
+  }
+  return { ...base, to: [from], bcc };
+}
+
+export function buildOutgoingSms(message: Message, members: Member[], settings: Settings): OutgoingSms {
+  const member = members.find(m => m.id === message.member_id);
+  if (member?.sms_opt_out_at) {
+    throw new DeliveryError('The member has opted out of SMS', true);
+  }
+  const to = member && getMemberPhone(member, settings.sms_country_code);
+  if (!to) {
+    throw new DeliveryError('The member has no valid phone number', true);
+  }
+  return { message_id: message.id, to, from: settings.sms_sender_id || undefined, text: message.message_content };
+}
+
+// Where each channel's messages are handed off. A null channel is waiting for
+// its credentials, and its messages stay queued untouched.
+export interface DeliveryChannels {
+  email: EmailTransport | null;
+  sms: SmsGateway | null;
+}
+
+async function deliver(message: Message, members: Member[], settings: Settings, channels: DeliveryChannels): Promise<string | undefined> {
+  if (message.channel === 'sms') {
+    const receipt = await channels.sms.send(buildOutgoingSms(message, members, settings));
+    return receipt.gateway_message_id;
+  }
+  const receipt = await channels.email.send(buildOutgoingEmail(message, members, settings));
+  return receipt.transport_message_id;
+}
+
+export interface OutboxResult {
+  sent: number;
+  retrying: number;
+  failed: number; // bounced or out of retries
+}
+
+// Sends every message that is due. Each one is claimed first so another open
+// tab running the same loop skips it; the outcome is written back straight
+// after its send, so a crash loses at most the message in flight.
+export async function processOutbox(
+  provider: DataProvider,
+  channels: DeliveryChannels,
+  now: Date = new Date()
+): Promise<OutboxResult> {
+  const result: OutboxResult = { sent: 0, retrying: 0, failed: 0 };
+  const [messages, members, settings] = await Promise.all([
+    provider.getMessages(),
+    provider.getMembers(),
+    provider.getSettings(),
+  ]);
+  const due = messages.filter(message =>
+    isAwaitingDelivery(message) && !!channels[message.channel] && (!message.next_attempt_at || new Date(message.next_attempt_at) <= now)
+  );
+
+  for (const message of due) {
+    const claimed = await provider.claimMessageForDelivery(
+      message.id,
+      new Date(now.getTime() + SEND_LEASE_MS).toISOString()
+    );
+    if (!claimed) continue;
+
+    const attempt = claimed.delivery_attempts ?? 1;
+    let update: MessageDeliveryUpdate;
+    try {
+      const transportMessageId = await deliver(claimed, members, settings, channels);
+      update = {
+        delivery_status: 'sent',
+        delivered_at: new Date().toISOString(),
+        next_attempt_at: undefined,
+        last_error: undefined,
+        transport_message_id: transportMessageId,
+      };
+      result.sent += 1;
+    } catch (error) {
+      const permanent = error instanceof DeliveryError && error.permanent;
+      const lastError = `${channels[claimed.channel].name}: ${(error as Error).message || 'Unknown error'}`;
+      if (permanent || attempt >= MAX_DELIVERY_ATTEMPTS) {
+        update = { delivery_status: permanent ? 'bounced' : 'failed', next_attempt_at: undefined, last_error: lastError };
+        result.failed += 1;
+      } else {
+        update = {
+          delivery_status: 'queued',
+          next_attempt_at: new Date(now.getTime() + getRetryDelayMs(attempt)).toISOString(),
+          last_error: lastError,
+        };
+        result.retrying += 1;
+      }
+    }
+    await provider.updateMessageDelivery(claimed.id, update);
+  }
+
+  return result;
+}
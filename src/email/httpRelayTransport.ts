@@ -0,0 +1,58 @@
+import { DeliveryError, EmailTransport, OutgoingEmail, TransportReceipt } from './EmailTransport';
+
+export interface HttpRelayTransportOptions {
+  url: string;
+  apiKey?: string;
+  fetch?: typeof fetch; // injectable for tests
+}
+
+// Timeouts and rate limits are worth another try; other 4xx mean the request itself was refused
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+// Posts each email as JSON to a relay (an HTTP mail API or a small proxy in
+// front of one) which answers 2xx once it has accepted the message
+class HttpRelayTransport implements EmailTransport {
+  readonly name = 'HTTP relay';
+
+  constructor(private options: HttpRelayTransportOptions) {}
+
+  async send(email: OutgoingEmail): Promise<TransportReceipt> {
+    const doFetch = this.options.fetch ?? fetch;
+    let response: Response;
+    try {
+      response = await doFetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify(email),
+      });
+    } catch (error) {
+      throw new DeliveryError(`Could not reach the mail relay: ${(error as Error).message}`, false);
+    }
+
+    if (!response.ok) {
+      let message = `Mail relay answered ${response.status}`;
+      try {
+        const body = await response.json();
+        if (body?.message) message = `${message}: ${body.message}`;
+      } catch {
+        // Non-JSON error body, keep the status alone
+      }
+      const permanent = response.status >= 400 && response.status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(response.status);
+      throw new DeliveryError(message, permanent);
+    }
+
+    try {
+      const body = await response.json();
+      return { transport_message_id: body?.id ?? body?.message_id };
+    } catch {
+      return {};
+    }
+  }
+}
+
+export function createHttpRelayTransport(options: HttpRelayTransportOptions): EmailTransport {
+  return new HttpRelayTransport(options);
+}
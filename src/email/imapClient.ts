@@ -0,0 +1,125 @@
+import { SmtpConnection, SmtpConnector } from './smtpTransport';
+
+// Reads unread mail from one IMAP folder. The line connection is the one the
+// SMTP transport uses: a WebSocket bridge in the app, or the local mailbox.
+export interface ImapOptions {
+  connect: SmtpConnector;
+  username?: string;
+  password?: string;
+  mailbox?: string; // defaults to INBOX
+}
+
+export interface FetchedMail {
+  uid: number;
+  raw: string;
+}
+
+export class ImapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImapError';
+  }
+}
+
+const CRLF = '\r\n';
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+class ImapSession {
+  private counter = 0;
+
+  constructor(private connection: SmtpConnection) {}
+
+  async greeting(): Promise<void> {
+    const line = await this.connection.readLine();
+    if (!/^\* (OK|PREAUTH)/i.test(line)) throw new ImapError(`Unexpected greeting: ${line}`);
+  }
+
+  // Sends a tagged command and collects the untagged lines until its status
+  // line. A literal ({n} at the end of a line) is read whole and appended to
+  // its line, so a fetched message arrives as one entry.
+  async command(line: string): Promise<string[]> {
+    this.counter += 1;
+    const tag = `A${this.counter}`;
+    await this.connection.write(`${tag} ${line}${CRLF}`);
+
+    const untagged: string[] = [];
+    for (;;) {
+      let response = await this.connection.readLine();
+      if (response.startsWith(`${tag} `)) {
+        const status = response.slice(tag.length + 1);
+        if (!/^OK/i.test(status)) throw new ImapError(status.replace(/^(NO|BAD)\s*/i, '') || status);
+        return untagged;
+      }
+
+      let literal = response.match(/\{(\d+)\}$/);
+      while (literal) {
+        const size = Number(literal[1]);
+        let data = '';
+        while (byteLength(data) < size) data += (await this.connection.readLine()) + CRLF;
+        // The literal may end partway through a line, with the rest of the response after it
+        const bytes = new TextEncoder().encode(data);
+        const decoder = new TextDecoder();
+        const rest = decoder.decode(bytes.slice(size)).replace(/\r\n$/, '');
+        response += CRLF + decoder.decode(bytes.slice(0, size)) + rest;
+        literal = rest.match(/\{(\d+)\}$/);
+      }
+      untagged.push(response);
+    }
+  }
+}
+
+// Each response to UID FETCH BODY.PEEK[] carries the UID and the message as a literal
+function parseFetch(response: string): FetchedMail | null {
+  const start = response.indexOf(CRLF);
+  const firstLine = start >= 0 ? response.slice(0, start) : response;
+  const uid = response.match(/UID (\d+)/i);
+  const size = firstLine.match(/\{(\d+)\}$/);
+  if (!uid || !size || !/^\* \d+ FETCH/i.test(firstLine)) return null;
+  const bytes = new TextEncoder().encode(response.slice(start + 2));
+  return { uid: Number(uid[1]), raw: new TextDecoder().decode(bytes.slice(0, Number(size[1]))) };
+}
+
+// Fetches unread mail without marking it, hands it to `store`, and only then
+// flags it as read, so mail that fails to save is picked up on the next check.
+export async function collectUnreadMail(options: ImapOptions, store: (mail: FetchedMail[]) => Promise<void>): Promise<number> {
+  const connection = await options.connect();
+  try {
+    const session = new ImapSession(connection);
+    await session.greeting();
+    if (options.username) {
+      await session.command(`LOGIN ${quote(options.username)} ${quote(options.password ?? '')}`);
+    }
+    await session.command(`SELECT ${quote(options.mailbox || 'INBOX')}`);
+
+    const search = await session.command('UID SEARCH UNSEEN');
+    const uids = search
+      .filter(line => /^\* SEARCH/i.test(line))
+      .flatMap(line => line.slice('* SEARCH'.length).trim().split(/\s+/))
+      .filter(Boolean)
+      .map(Number);
+    if (uids.length === 0) {
+      await session.command('LOGOUT').catch(() => undefined);
+      return 0;
+    }
+
+    const mail: FetchedMail[] = [];
+    for (const uid of uids) {
+      const responses = await session.command(`UID FETCH ${uid} (UID BODY.PEEK[])`);
+      responses.map(parseFetch).forEach(fetched => fetched && mail.push(fetched));
+    }
+    await store(mail);
+
+    if (mail.length > 0) await session.command(`UID STORE ${mail.map(m => m.uid).join(',')} +FLAGS.SILENT (\\Seen)`);
+    await session.command('LOGOUT').catch(() => undefined);
+    return mail.length;
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { checkMailbox, matchInboundMessage, parseInboundEmail, parseInboundWebhook } from './inbound';
+import { INBOUND_FIXTURES, buildReplyEmail, buildSmsReplyPayload } from './inboundFixtures';
+import { localMailbox } from './localMailbox';
+import { DataProvider } from '@/data/DataProvider';
+import { InboundMessageInput, Member, Message } from '@/types';
+
+const now = new Date('2026-03-02T10:00:00.000Z');
+const ada = { id: 'm1', full_name: 'Ada Lovelace', email: 'Ada@Example.org', phone_number: '0911 223344', active: true } as Member;
+const grace = { id: 'm2', full_name: 'Grace Hopper', email: 'grace@example.org', phone_number: '+251922000000', active: true } as Member;
+const members = [ada, grace];
+
+function sent(id: string, memberId: string | undefined, sentAt: string, channel: Message['channel'] = 'email'): Message {
+  return { id, member_id: memberId, message_type: 'reminder', message_subject: 'Your pledge', message_content: 'Hi', sent_at: sentAt, channel } as Message;
+}
+
+const messages = [
+  sent('msg-old', 'm1', '2026-02-01T08:00:00.000Z'),
+  sent('msg-new', 'm1', '2026-03-01T08:00:00.000Z'),
+  sent('msg-sms', 'm1', '2026-03-01T09:00:00.000Z', 'sms'),
+  sent('msg-later', 'm1', '2026-03-05T08:00:00.000Z'),
+  sent('msg-all', undefined, '2026-02-15T08:00:00.000Z'),
+];
+
+function reply(overrides: Partial<InboundMessageInput>): InboundMessageInput {
+  return { channel: 'email', from: 'someone@example.net', body: 'Hi', received_at: now.toISOString(), external_id: 'x1', references: [], ...overrides };
+}
+
+describe('parseInboundWebhook', () => {
+  it('reads an SMS fixture as the gateway posts it', () => {
+    const payload = buildSmsReplyPayload(INBOUND_FIXTURES.sms_reply, ada, now);
+
+    expect(parseInboundWebhook(payload)).toEqual({
+      messages: [{
+        channel: 'sms',
+        from: '0911 223344',
+        subject: undefined,
+        body: 'Paid today by mobile money, ref 8Q2K. Thank you',
+        received_at: now.toISOString(),
+        external_id: (payload.messages[0] as { id: string }).id,
+        references: [],
+      }],
+      errors: [],
+    });
+  });
+
+  it('parses raw mail posted by a mail service', () => {
+    const raw = buildReplyEmail(INBOUND_FIXTURES.change_amount, messages[1], ada, 'office@example.org', now);
+
+    const { messages: parsed, errors } = parseInboundWebhook({ messages: [{ raw }] });
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual([expect.objectContaining({
+      channel: 'email',
+      subject: 'Re: Your pledge',
+      received_at: now.toISOString(),
+      references: ['msg-new@example.org'],
+    })]);
+  });
+
+  it('reports entries it cannot read', () => {
+    expect(parseInboundWebhook([{ id: 'a', text: 'No sender', timestamp: now.toISOString() }]).errors)
+      .toEqual([expect.stringMatching(/^Message 1: /)]);
+  });
+
+  it('gives mail without a Message-ID the same id each time it is read', () => {
+    const raw = 'From: ada@example.org\r\n\r\nPaid';
+
+    expect(parseInboundEmail(raw).external_id).toBe(parseInboundEmail(raw).external_id);
+    expect(parseInboundEmail(raw).external_id).toMatch(/^no-id-/);
+  });
+});
+
+describe('checkMailbox', () => {
+  it('reads fixture replies from the local mailbox once', async () => {
+    const recorded: InboundMessageInput[] = [];
+    const provider = {
+      recordInboundMessages: async (inputs: InboundMessageInput[]) => {
+        recorded.push(...inputs);
+        return { recorded: inputs.length, duplicates: 0, unmatched: 0 };
+      },
+    } as unknown as DataProvider;
+    localMailbox.deliver(buildReplyEmail(INBOUND_FIXTURES.paid_at_branch, messages[1], ada, 'office@example.org', now));
+
+    expect(await checkMailbox(provider, { connect: localMailbox.connect })).toEqual({ recorded: 1, duplicates: 0, unmatched: 0, errors: [] });
+    expect(recorded).toEqual([expect.objectContaining({ from: 'Ada Lovelace <Ada@Example.org>', references: ['msg-new@example.org'] })]);
+    expect((await checkMailbox(provider, { connect: localMailbox.connect })).recorded).toBe(0);
+  });
+});
+
+describe('matchInboundMessage', () => {
+  it('links a reply to the message its references name, whoever sent it', () => {
+    expect(matchInboundMessage(reply({ references: ['msg-old@example.org'] }), members, messages))
+      .toEqual({ member_id: 'm1', in_reply_to: 'msg-old' });
+  });
+
+  it('finds the member by sender when the referenced message went to everyone', () => {
+    expect(matchInboundMessage(reply({ from: 'Grace <grace@example.org>', references: ['msg-all@example.org'] }), members, messages))
+      .toEqual({ member_id: 'm2', in_reply_to: 'msg-all' });
+  });
+
+  it('falls back to the sender and the last message sent to them on that channel', () => {
+    expect(matchInboundMessage(reply({ from: 'ada@example.org' }), members, messages))
+      .toEqual({ member_id: 'm1', in_reply_to: 'msg-new' });
+    expect(matchInboundMessage(reply({ channel: 'sms', from: '+251 911 223344' }), members, messages))
+      .toEqual({ member_id: 'm1', in_reply_to: 'msg-sms' });
+  });
+
+  it('prefers an active member when several share the address', () => {
+    const former = { ...grace, id: 'm3', active: false };
+
+    expect(matchInboundMessage(reply({ from: 'grace@example.org' }), [former, grace], messages).member_id).toBe('m2');
+  });
+
+  it('leaves a reply from an unknown sender unlinked', () => {
+    expect(matchInboundMessage(reply({ from: 'stranger@example.net' }), members, messages)).toEqual({ in_reply_to: undefined });
+    expect(matchInboundMessage(reply({ channel: 'sms', from: '+10000000000' }), members, messages)).toEqual({ in_reply_to: undefined });
+  });
+});
@@ -0,0 +1,171 @@
+import * as z from 'zod';
+import { InboundMessageInput, InboundMessagesResult, Member, Message } from '@/types';
+import { DataProvider } from '@/data/DataProvider';
+import { formatZodIssues } from '@/data/schemas';
+import { normalizePhoneNumber } from '@/utils/smsUtils';
+import { extractAddress } from './mime';
+import { parseEmail } from './mimeParser';
+import { collectUnreadMail, ImapOptions } from './imapClient';
+import { getMailboxOptions } from './mailboxRegistry';
+
+// Stands in for a Message-ID on mail that came without one, so the same
+// message read twice is still recognised
+function contentId(raw: string): string {
+  let hash = 5381;
+  for (let i = 0; i < raw.length; i++) hash = ((hash << 5) + hash + raw.charCodeAt(i)) | 0;
+  return `no-id-${(hash >>> 0).toString(16)}-${raw.length}`;
+}
+
+export function parseInboundEmail(raw: string, receivedAt: Date = new Date()): InboundMessageInput {
+  const email = parseEmail(raw);
+  return {
+    channel: 'email',
+    from: email.from,
+    subject: email.subject || undefined,
+    body: email.text,
+    received_at: email.date ?? receivedAt.toISOString(),
+    external_id: email.message_id ?? contentId(raw),
+    references: email.references,
+  };
+}
+
+// Replies as an SMS gateway or inbound mail service posts them, either as an
+// array or as { "messages": [...] }. Mail services may post the raw message instead.
+const rawEmailSchema = z.object({ raw: z.string().min(1) });
+
+const inboundWebhookSchema = z.object({
+  id: z.string().min(1),
+  channel: z.enum(['email', 'sms']).default('sms'),
+  from: z.string().min(1),
+  subject: z.string().optional(),
+  text: z.string(),
+  timestamp: z.union([
+    z.string().refine(value => !isNaN(Date.parse(value)), 'Must be a valid date/time'),
+    z.number().positive(),
+  ]),
+  in_reply_to: z.string().optional(),
+});
+
+export interface ParsedInboundWebhook {
+  messages: InboundMessageInput[];
+  errors: string[]; // one per entry that was left out
+}
+
+export function parseInboundWebhook(payload: unknown, now: Date = new Date()): ParsedInboundWebhook {
+  let body = payload;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return { messages: [], errors: ['The payload is not valid JSON'] };
+    }
+  }
+  const entries = Array.isArray(body) ? body : (body as { messages?: unknown } | null)?.messages;
+  if (!Array.isArray(entries)) {
+    return { messages: [], errors: ['Expected an array of messages or { "messages": [...] }'] };
+  }
+
+  const parsed: ParsedInboundWebhook = { messages: [], errors: [] };
+  entries.forEach((entry, index) => {
+    const raw = rawEmailSchema.safeParse(entry);
+    if (raw.success) {
+      parsed.messages.push(parseInboundEmail(raw.data.raw, now));
+      return;
+    }
+    const result = inboundWebhookSchema.safeParse(entry);
+    if (!result.success) {
+      parsed.errors.push(`Message ${index + 1}: ${formatZodIssues(result.error).join('; ')}`);
+      return;
+    }
+    const data = result.data;
+    parsed.messages.push({
+      channel: data.channel,
+      from: data.from,
+      subject: data.subject,
+      body: data.text,
+      received_at: new Date(typeof data.timestamp === 'number' ? data.timestamp * 1000 : data.timestamp).toISOString(),
+      external_id: data.id,
+      references: data.in_reply_to ? [data.in_reply_to.replace(/^<|>$/g, '')] : [],
+    });
+  });
+  return parsed;
+}
+
+export interface InboundMatch {
+  member_id?: string;
+  in_reply_to?: string;
+}
+
+// Threads a reply: first by the Message-ID of ours it answers, then by the
+// sender's address or number. Without a reference, it is taken to answer the
+// last message sent to that member on the same channel before it arrived.
+export function matchInboundMessage(
+  input: InboundMessageInput,
+  members: Member[],
+  messages: Message[],
+  countryCode?: string
+): InboundMatch {
+  let inReplyTo: string | undefined;
+  for (const reference of input.references ?? []) {
+    const at = reference.lastIndexOf('@');
+    const message = messages.find(m => m.id === (at > 0 ? reference.slice(0, at) : reference));
+    if (!message) continue;
+    inReplyTo = message.id;
+    // A reply to an announcement sent to everyone still needs the sender to find the member
+    if (message.member_id && members.some(member => member.id === message.member_id)) {
+      return { member_id: message.member_id, in_reply_to: message.id };
+    }
+  }
+
+  const senderMatches = (member: Member) => {
+    if (input.channel === 'email') {
+      return !!member.email && member.email.trim().toLowerCase() === extractAddress(input.from).toLowerCase();
+    }
+    const sender = normalizePhoneNumber(input.from, countryCode);
+    return !!sender && [member.phone_number, member.alt_phone_number].some(phone => normalizePhoneNumber(phone, countryCode) === sender);
+  };
+  const candidates = members.filter(senderMatches);
+  const member = candidates.find(m => m.active) ?? candidates[0];
+  if (!member) return { in_reply_to: inReplyTo };
+
+  if (!inReplyTo) {
+    inReplyTo = messages
+      .filter(m => m.member_id === member.id && m.channel === input.channel && m.sent_at <= input.received_at)
+      .reduce<Message | undefined>((latest, m) => (!latest || m.sent_at > latest.sent_at ? m : latest), undefined)?.id;
+  }
+  return { member_id: member.id, in_reply_to: inReplyTo };
+}
+
+// The new part of a reply, without the quoted message below it
+export function getReplyText(body: string): string {
+  const lines = body.split(/\r?\n/);
+  const quoteStart = lines.findIndex(line =>
+    /^On .+wrote:\s*$/.test(line) || /^-{2,}\s*Original Message\s*-{2,}/i.test(line) || /^From: .+/.test(line)
+  );
+  const kept = (quoteStart >= 0 ? lines.slice(0, quoteStart) : lines).filter(line => !line.startsWith('>'));
+  const text = kept.join('\n').trim();
+  return text || body.trim();
+}
+
+export interface InboundResult extends InboundMessagesResult {
+  errors: string[];
+}
+
+// The entry point for inbound webhooks. Safe to call twice with the same payload.
+export async function handleInboundWebhook(provider: DataProvider, payload: unknown): Promise<InboundResult> {
+  const { messages, errors } = parseInboundWebhook(payload);
+  const result = messages.length > 0
+    ? await provider.recordInboundMessages(messages)
+    : { recorded: 0, duplicates: 0, unmatched: 0 };
+  return { ...result, errors };
+}
+
+// Reads unread mail from the configured mailbox and records it
+export async function checkMailbox(provider: DataProvider, options: ImapOptions = getMailboxOptions()): Promise<InboundResult> {
+  let result: InboundMessagesResult = { recorded: 0, duplicates: 0, unmatched: 0 };
+  await collectUnreadMail(options, async (mail) => {
+    if (mail.length === 0) return;
+    result = await provider.recordInboundMessages(mail.map(fetched => parseInboundEmail(fetched.raw)));
+  });
+  return { ...result, errors: [] };
+}
@@ -0,0 +1,80 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Member, Message } from '@/types';
+
+const CRLF = '\r\n';
+
+// Sample replies for trying the inbox against a real sent message: email
+// replies go into the local mailbox as raw mail, SMS replies are posted to the
+// inbound webhook as a gateway would.
+export interface InboundFixture {
+  label: string;
+  channel: Message['channel'];
+  text: string;
+  unknownSender?: boolean; // from someone no member matches
+}
+
+export const INBOUND_FIXTURES: Record<string, InboundFixture> = {
+  paid_at_branch: {
+    label: 'Email: "I paid at the branch"',
+    channel: 'email',
+    text: 'Hello,\n\nI paid at the branch yesterday, the teller gave me a slip. Can you confirm you have it?\n\nThanks',
+  },
+  change_amount: {
+    label: 'Email: asks to change their pledge',
+    channel: 'email',
+    text: 'Hi, could we lower my monthly contribution from next month? Things are tight at the moment.',
+  },
+  unknown_sender: {
+    label: 'Email: from an unknown address',
+    channel: 'email',
+    text: 'I think I got this by mistake, please take me off your list.',
+    unknownSender: true,
+  },
+  sms_reply: {
+    label: 'SMS: "Paid today by mobile money"',
+    channel: 'sms',
+    text: 'Paid today by mobile money, ref 8Q2K. Thank you',
+  },
+};
+
+// A reply as a mail client sends it: threaded on the original's Message-ID,
+// with the original quoted below
+export function buildReplyEmail(
+  fixture: InboundFixture,
+  message: Message,
+  member: Member,
+  orgEmail: string,
+  now: Date = new Date()
+): string {
+  const domain = orgEmail.split('@')[1] || 'localhost';
+  const from = fixture.unknownSender ? `stranger-${uuidv4().slice(0, 8)}@example.net` : member.email;
+  const originalId = `<${message.id}@${domain}>`;
+  const quoted = message.message_content.split('\n').map(line => `> ${line}`).join(CRLF);
+  return [
+    `From: ${fixture.unknownSender ? 'Someone' : member.full_name} <${from}>`,
+    `To: ${orgEmail}`,
+    `Subject: Re: ${message.message_subject || message.message_type}`,
+    `Date: ${now.toUTCString()}`,
+    `Message-ID: <${uuidv4()}@${from.split('@')[1] || 'localhost'}>`,
+    ...(fixture.unknownSender ? [] : [`In-Reply-To: ${originalId}`, `References: ${originalId}`]),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    '',
+    fixture.text.replace(/\n/g, CRLF),
+    '',
+    `On ${new Date(message.sent_at).toUTCString()}, ${orgEmail} wrote:`,
+    quoted,
+  ].join(CRLF);
+}
+
+export function buildSmsReplyPayload(fixture: InboundFixture, member: Member, now: Date = new Date()): { messages: object[] } {
+  return {
+    messages: [{
+      id: `fixture-${uuidv4()}`,
+      channel: 'sms',
+      from: fixture.unknownSender ? '+10000000000' : member.phone_number,
+      text: fixture.text,
+      timestamp: now.toISOString(),
+    }],
+  };
+}
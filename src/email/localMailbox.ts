@@ -0,0 +1,97 @@
+import { SmtpConnection, SmtpConnector } from './smtpTransport';
+
+export interface StoredMail {
+  uid: number;
+  raw: string;
+  seen: boolean;
+  delivered_at: string; // ISO
+}
+
+const MAILBOX_LIMIT = 50;
+
+// The incoming side of the local sink: an IMAP server in memory that holds
+// whatever is dropped into it, so replies can be tried without a mail server.
+// It speaks just enough of the protocol for collectUnreadMail.
+class LocalMailbox {
+  private mail: StoredMail[] = [];
+  private nextUid = 1;
+
+  connect: SmtpConnector = async () => this.openSession();
+
+  deliver(raw: string): StoredMail {
+    const stored: StoredMail = { uid: this.nextUid++, raw, seen: false, delivered_at: new Date().toISOString() };
+    this.mail = [...this.mail, stored].slice(-MAILBOX_LIMIT);
+    return stored;
+  }
+
+  getMail(): StoredMail[] {
+    return [...this.mail].reverse();
+  }
+
+  clear(): void {
+    this.mail = [];
+  }
+
+  private openSession(): SmtpConnection {
+    const replies: string[] = ['* OK donor-hub local mailbox ready'];
+    let pending = '';
+
+    const uidSet = (argument: string) => argument.split(',').map(Number);
+    const handleLine = (line: string) => {
+      const [tag, ...words] = line.split(' ');
+      const verb = words.slice(0, words[0]?.toUpperCase() === 'UID' ? 2 : 1).join(' ').toUpperCase();
+      switch (verb) {
+        case 'LOGIN':
+          replies.push(`${tag} OK LOGIN completed`);
+          break;
+        case 'SELECT':
+          replies.push(`* ${this.mail.length} EXISTS`, `${tag} OK [READ-WRITE] SELECT completed`);
+          break;
+        case 'UID SEARCH':
+          replies.push(`* SEARCH ${this.mail.filter(m => !m.seen).map(m => m.uid).join(' ')}`.trim(), `${tag} OK SEARCH completed`);
+          break;
+        case 'UID FETCH': {
+          const uids = uidSet(words[2]);
+          this.mail.forEach((mail, index) => {
+            if (!uids.includes(mail.uid)) return;
+            const size = new TextEncoder().encode(mail.raw).length;
+            replies.push(`* ${index + 1} FETCH (UID ${mail.uid} BODY[] {${size}}`, ...`${mail.raw}`.split('\r\n'), ')');
+          });
+          replies.push(`${tag} OK FETCH completed`);
+          break;
+        }
+        case 'UID STORE': {
+          const uids = uidSet(words[2]);
+          this.mail = this.mail.map(mail => uids.includes(mail.uid) ? { ...mail, seen: true } : mail);
+          replies.push(`${tag} OK STORE completed`);
+          break;
+        }
+        case 'LOGOUT':
+          replies.push('* BYE', `${tag} OK LOGOUT completed`);
+          break;
+        default:
+          replies.push(`${tag} BAD Command not implemented`);
+      }
+    };
+
+    return {
+      readLine: async () => {
+        const reply = replies.shift();
+        if (reply === undefined) throw new Error('The mailbox has nothing to say');
+        return reply;
+      },
+      write: async (data) => {
+        pending += data;
+        let index = pending.indexOf('\r\n');
+        while (index >= 0) {
+          handleLine(pending.slice(0, index));
+          pending = pending.slice(index + 2);
+          index = pending.indexOf('\r\n');
+        }
+      },
+      close: () => undefined,
+    };
+  }
+}
+
+export const localMailbox = new LocalMailbox();
@@ -0,0 +1,49 @@
+import { connectWebSocket } from './smtpTransport';
+import { ImapOptions } from './imapClient';
+import { localMailbox } from './localMailbox';
+import { isMissingSecrets, readStoredConfig, writeStoredConfig } from '@/utils/configStorage';
+
+// Where member replies are read from. 'local' is the in-memory mailbox (see
+// localMailbox) and the default, like the sink on the sending side.
+export type MailboxConfig =
+  | { type: 'local' }
+  | { type: 'imap'; bridgeUrl: string; username?: string; password?: string; mailbox?: string };
+
+const CONFIG_STORAGE_KEY = 'inbound-mailbox-config';
+// Kept in memory for the session only, never in localStorage (see configStorage)
+const SECRET_FIELDS = ['password'] as const;
+
+export function getMailboxConfig(): MailboxConfig {
+  try {
+    const config = readStoredConfig<MailboxConfig>(CONFIG_STORAGE_KEY, SECRET_FIELDS);
+    if (config) {
+      if (config.type === 'local') return config;
+      if (config.type === 'imap' && config.bridgeUrl) return config;
+    }
+  } catch (error) {
+    console.error('Failed to read mailbox config:', error);
+  }
+  return { type: 'local' };
+}
+
+export function setMailboxConfig(config: MailboxConfig): void {
+  writeStoredConfig(CONFIG_STORAGE_KEY, config, SECRET_FIELDS);
+}
+
+// False after a reload until the mailbox password is entered again; the
+// mailbox is not polled until then rather than log in without it
+export function isMailboxReady(): boolean {
+  return !isMissingSecrets(CONFIG_STORAGE_KEY);
+}
+
+export function getMailboxOptions(config: MailboxConfig = getMailboxConfig()): ImapOptions {
+  if (config.type === 'imap') {
+    return {
+      connect: connectWebSocket(config.bridgeUrl),
+      username: config.username,
+      password: config.password,
+      mailbox: config.mailbox,
+    };
+  }
+  return { connect: localMailbox.connect };
+}
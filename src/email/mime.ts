@@ -0,0 +1,91 @@
+import { OutgoingEmail } from './EmailTransport';
+
+const CRLF = '\r\n';
+
+// Non-ASCII header text goes out as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// Base64 bodies are wrapped at 76 characters as MIME requires
+function wrapBase64(base64: string): string {
+  return base64.match(/.{1,76}/g)?.join(CRLF) ?? '';
+}
+
+export function extractAddress(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+// A complete RFC 5322 message: plain text, multipart/alternative when there is an
+// HTML version, and multipart/mixed around that when there are attachments.
+// Bcc recipients are left out of the headers and only given to the server as envelope recipients.
+export function buildMimeMessage(email: OutgoingEmail, date: Date = new Date()): string {
+  const headers = [
+    `From: ${email.from}`,
+    `To: ${email.to.join(', ')}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${email.message_id}@${extractAddress(email.from).split('@')[1] || 'localhost'}>`,
+    `X-Donor-Hub-Message: ${email.message_id}`,
+    'MIME-Version: 1.0',
+  ];
+  if (email.list_unsubscribe) {
+    headers.push(`List-Unsubscribe: <${email.list_unsubscribe}>`, 'List-Unsubscribe-Post: List-Unsubscribe=One-Click');
+  }
+  const boundaryId = email.message_id.replace(/[^a-zA-Z0-9]/g, '');
+  let bodyPart = [
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(toBase64(email.text)),
+  ];
+
+  if (email.html) {
+    const alternative = `=_donor_hub_alt_${boundaryId}`;
+    const htmlPart = [
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(toBase64(email.html)),
+    ];
+    bodyPart = [
+      `Content-Type: multipart/alternative; boundary="${alternative}"`,
+      '',
+      ...[bodyPart, htmlPart].map(part => `--${alternative}${CRLF}${part.join(CRLF)}`),
+      `--${alternative}--`,
+    ];
+  }
+
+  if (!email.attachments?.length) {
+    return [...headers, ...bodyPart].join(CRLF);
+  }
+
+  const boundary = `=_donor_hub_${boundaryId}`;
+  const parts = [
+    bodyPart.join(CRLF),
+    ...email.attachments.map(attachment => [
+      `Content-Type: ${attachment.content_type}; name="${attachment.file_name}"`,
+      `Content-Disposition: attachment; filename="${attachment.file_name}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(attachment.content_base64),
+    ].join(CRLF)),
+  ];
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
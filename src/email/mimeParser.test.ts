@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { parseEmail } from './mimeParser';
+import { INBOUND_FIXTURES, buildReplyEmail } from './inboundFixtures';
+import { Member, Message } from '@/types';
+
+const member = { id: 'm1', full_name: 'Ada Lovelace', email: 'ada@example.org' } as Member;
+const message = {
+  id: 'msg-1',
+  member_id: 'm1',
+  message_type: 'reminder',
+  message_subject: 'Your pledge',
+  message_content: 'A friendly reminder.\nThank you!',
+  sent_at: '2026-03-01T08:00:00.000Z',
+  channel: 'email',
+} as Message;
+
+describe('parseEmail', () => {
+  it('reads the threading headers and text of a fixture reply', () => {
+    const now = new Date('2026-03-02T10:00:00.000Z');
+    const raw = buildReplyEmail(INBOUND_FIXTURES.paid_at_branch, message, member, 'office@example.org', now);
+
+    const email = parseEmail(raw);
+    expect(email).toMatchObject({
+      from: 'Ada Lovelace <ada@example.org>',
+      subject: 'Re: Your pledge',
+      date: now.toISOString(),
+      references: ['msg-1@example.org'],
+    });
+    expect(email.message_id).toMatch(/@example\.org$/);
+    expect(email.text).toMatch(/^Hello,\n\nI paid at the branch yesterday/);
+    expect(email.text).toMatch(/> Thank you!$/);
+  });
+
+  it('leaves out references on mail that starts a conversation', () => {
+    const raw = buildReplyEmail(INBOUND_FIXTURES.unknown_sender, message, member, 'office@example.org');
+
+    expect(parseEmail(raw).references).toEqual([]);
+  });
+
+  it('merges In-Reply-To and References without repeats', () => {
+    const raw = [
+      'From: ada@example.org',
+      'In-Reply-To: <b@example.org>',
+      'References: <a@example.org>',
+      ' <b@example.org>',
+      '',
+      'Hi',
+    ].join('\r\n');
+
+    expect(parseEmail(raw).references).toEqual(['b@example.org', 'a@example.org']);
+  });
+
+  it('decodes the plain part of multipart mail', () => {
+    const raw = [
+      'From: =?UTF-8?B?4Yqg4Ymj4Ymg?= <abebe@example.org>',
+      'Subject: =?UTF-8?Q?Caf=C3=A9?= =?UTF-8?Q?_news?=',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Merci =E2=80=94 paid=',
+      ' today',
+      '--b1',
+      'Content-Type: text/html',
+      '',
+      '<p>Merci</p>',
+      '--b1--',
+    ].join('\r\n');
+
+    expect(parseEmail(raw)).toMatchObject({ from: 'አባበ <abebe@example.org>', subject: 'Café news', text: 'Merci — paid today' });
+  });
+
+  it('reduces HTML-only mail to text', () => {
+    const raw = 'Content-Type: text/html\r\n\r\n<p>Paid &amp; done</p><p>Thanks<br>Ada</p>';
+
+    expect(parseEmail(raw).text).toBe('Paid & done\nThanks\nAda');
+  });
+
+  it('skips attachments when looking for the text', () => {
+    const raw = [
+      'Content-Type: multipart/mixed; boundary=x',
+      '',
+      '--x',
+      'Content-Type: text/plain',
+      'Content-Disposition: attachment; filename=slip.txt',
+      '',
+      'Slip 123',
+      '--x',
+      'Content-Type: text/plain',
+      '',
+      'See the slip attached.',
+      '--x--',
+    ].join('\r\n');
+
+    expect(parseEmail(raw).text).toBe('See the slip attached.');
+  });
+});
@@ -0,0 +1,155 @@
+// Just enough of RFC 5322 and MIME to read a member's reply: the headers that
+// thread it and its plain text, decoded. HTML-only mail is reduced to text.
+export interface ParsedEmail {
+  from: string;
+  subject: string;
+  date?: string; // ISO, when the Date header could be read
+  message_id?: string; // without brackets
+  references: string[]; // In-Reply-To then References, without brackets, no repeats
+  text: string;
+}
+
+interface MimePart {
+  headers: Map<string, string>; // lower-cased names, first occurrence wins
+  body: string;
+}
+
+function splitPart(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const end = normalized.indexOf('\n\n');
+  const headerBlock = end >= 0 ? normalized.slice(0, end) : normalized;
+  const body = end >= 0 ? normalized.slice(end + 2) : '';
+
+  const headers = new Map<string, string>();
+  // Folded headers continue on lines that start with whitespace
+  headerBlock.replace(/\n[ \t]+/g, ' ').split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  });
+  return { headers, body };
+}
+
+// "text/plain; charset=utf-8" -> type and lower-cased parameter names
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value || 'text/plain').split(';');
+  const params: Record<string, string> = {};
+  rest.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq < 0) return;
+    params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+  });
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBytes(bytes: Uint8Array, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function base64Bytes(text: string): Uint8Array {
+  const binary = atob(text.replace(/[^A-Za-z0-9+/=]/g, ''));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// Quoted-printable escapes are bytes, so multi-byte characters are decoded together
+function quotedPrintableBytes(text: string, underscoreIsSpace: boolean = false): Uint8Array {
+  const source = (underscoreIsSpace ? text.replace(/_/g, ' ') : text).replace(/=\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(source[i]));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+// RFC 2047 encoded words; whitespace between two of them is dropped
+export function decodeHeader(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B' ? base64Bytes(text) : quotedPrintableBytes(text, true);
+      return decodeBytes(bytes, charset);
+    });
+}
+
+function decodeBody(part: MimePart): string {
+  const { params } = parseContentType(part.headers.get('content-type'));
+  switch ((part.headers.get('content-transfer-encoding') || '').toLowerCase()) {
+    case 'base64':
+      return decodeBytes(base64Bytes(part.body), params.charset);
+    case 'quoted-printable':
+      return decodeBytes(quotedPrintableBytes(part.body), params.charset);
+    default:
+      return part.body;
+  }
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// The first text/plain part, depth first, or the first text/html one as text
+function findText(part: MimePart): { plain?: string; html?: string } {
+  const { type, params } = parseContentType(part.headers.get('content-type'));
+  const disposition = (part.headers.get('content-disposition') || '').toLowerCase();
+  if (disposition.startsWith('attachment')) return {};
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const found: { plain?: string; html?: string } = {};
+    const delimiter = `--${params.boundary}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const sections = part.body.split(new RegExp(`^${delimiter}(?:--)?[ \\t]*$`, 'm'));
+    const closed = new RegExp(`^${delimiter}--`, 'm').test(part.body);
+    // The preamble before the first delimiter and the epilogue after the last are not parts
+    for (const section of sections.slice(1, closed ? -1 : undefined)) {
+      const inner = findText(splitPart(section.replace(/^\n/, '')));
+      found.plain = found.plain ?? inner.plain;
+      found.html = found.html ?? inner.html;
+      if (found.plain) break;
+    }
+    return found;
+  }
+  if (type === 'text/plain') return { plain: decodeBody(part) };
+  if (type === 'text/html') return { html: htmlToText(decodeBody(part)) };
+  return {};
+}
+
+function messageIds(value: string | undefined): string[] {
+  return (value?.match(/<[^<>\s]+>/g) ?? []).map(id => id.slice(1, -1));
+}
+
+export function parseEmail(raw: string): ParsedEmail {
+  const root = splitPart(raw);
+  const text = findText(root);
+  const date = root.headers.get('date');
+  const parsedDate = date ? new Date(date) : null;
+  const references = [...messageIds(root.headers.get('in-reply-to')), ...messageIds(root.headers.get('references'))];
+
+  return {
+    from: decodeHeader(root.headers.get('from') || ''),
+    subject: decodeHeader(root.headers.get('subject') || ''),
+    date: parsedDate && !isNaN(parsedDate.getTime()) ? parsedDate.toISOString() : undefined,
+    message_id: messageIds(root.headers.get('message-id'))[0],
+    references: [...new Set(references)],
+    text: (text.plain ?? text.html ?? '').replace(/\n+$/, ''),
+  };
+}
@@ -0,0 +1,117 @@
+import { SmtpConnection, SmtpConnector } from './smtpTransport';
+
+export interface CapturedEmail {
+  id: string;
+  from: string;
+  recipients: string[];
+  data: string; // the raw message, as the transport sent it
+  received_at: string; // ISO
+}
+
+const CAPTURE_LIMIT = 50;
+
+// A MailHog-style SMTP server that lives in memory: it speaks just enough of the
+// protocol for the SMTP transport and keeps what it accepts instead of relaying it.
+// Recipients containing 'bounce' are refused (550) and 'tempfail' deferred (451),
+// so the outbox's bounce and retry paths can be tried without a real server.
+class SmtpSink {
+  private captured: CapturedEmail[] = [];
+  private counter = 0;
+
+  connect: SmtpConnector = async () => this.openSession();
+
+  getCaptured(): CapturedEmail[] {
+    return [...this.captured];
+  }
+
+  clear(): void {
+    this.captured = [];
+  }
+
+  private openSession(): SmtpConnection {
+    const replies: string[] = ['220 donor-hub sink ready'];
+    let from = '';
+    let recipients: string[] = [];
+    let dataLines: string[] | null = null;
+    let pending = '';
+
+    const handleLine = (line: string) => {
+      if (dataLines) {
+        if (line === '.') {
+          this.counter += 1;
+          const id = `sink-${this.counter}`;
+          this.captured = [
+            { id, from, recipients, data: dataLines.join('\r\n'), received_at: new Date().toISOString() },
+            ...this.captured,
+          ].slice(0, CAPTURE_LIMIT);
+          dataLines = null;
+          recipients = [];
+          replies.push(`250 OK queued as ${id}`);
+        } else {
+          dataLines.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        return;
+      }
+
+      const verb = line.slice(0, 4).toUpperCase();
+      const argument = line.match(/<([^>]*)>/)?.[1] ?? '';
+      switch (verb) {
+        case 'EHLO':
+        case 'HELO':
+          replies.push('250-donor-hub sink', '250 AUTH PLAIN');
+          break;
+        case 'AUTH':
+          replies.push('235 Authentication succeeded');
+          break;
+        case 'MAIL':
+          from = argument;
+          recipients = [];
+          replies.push('250 OK');
+          break;
+        case 'RCPT':
+          if (argument.includes('bounce')) {
+            replies.push(`550 No such user: ${argument}`);
+          } else if (argument.includes('tempfail')) {
+            replies.push(`451 Mailbox busy, try again later: ${argument}`);
+          } else {
+            recipients.push(argument);
+            replies.push('250 OK');
+          }
+          break;
+        case 'DATA':
+          if (recipients.length === 0) {
+            replies.push('554 No valid recipients');
+          } else {
+            dataLines = [];
+            replies.push('354 End data with <CR><LF>.<CR><LF>');
+          }
+          break;
+        case 'QUIT':
+          replies.push('221 Bye');
+          break;
+        default:
+          replies.push('502 Command not implemented');
+      }
+    };
+
+    return {
+      readLine: async () => {
+        const reply = replies.shift();
+        if (reply === undefined) throw new Error('The sink has nothing to say');
+        return reply;
+      },
+      write: async (data) => {
+        pending += data;
+        let index = pending.indexOf('\r\n');
+        while (index >= 0) {
+          handleLine(pending.slice(0, index));
+          pending = pending.slice(index + 2);
+          index = pending.indexOf('\r\n');
+        }
+      },
+      close: () => undefined,
+    };
+  }
+}
+
+export const smtpSink = new SmtpSink();
@@ -0,0 +1,152 @@
+import { DeliveryError, EmailTransport, OutgoingEmail, TransportReceipt } from './EmailTransport';
+import { buildMimeMessage, extractAddress } from './mime';
+
+// A line-oriented connection to an SMTP server. Browsers cannot open raw TCP
+// sockets, so in the app this is a WebSocket to a TCP bridge next to the mail
+// server; the local sink implements it in memory.
+export interface SmtpConnection {
+  readLine(): Promise<string>;
+  write(data: string): Promise<void>;
+  close(): void;
+}
+
+export type SmtpConnector = () => Promise<SmtpConnection>;
+
+export interface SmtpTransportOptions {
+  connect: SmtpConnector;
+  username?: string;
+  password?: string;
+  clientName?: string; // sent with EHLO
+  name?: string; // shown in settings and delivery errors
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const CRLF = '\r\n';
+
+// Bridges such as websockify forward bytes as-is; lines are split here
+export function connectWebSocket(url: string, timeoutMs: number = 30000): SmtpConnector {
+  return () => new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    let buffer = '';
+    let failure: Error | null = null;
+    const lines: string[] = [];
+    const waiting: { resolve: (line: string) => void; reject: (error: Error) => void }[] = [];
+
+    const fail = (error: Error) => {
+      failure = error;
+      waiting.splice(0).forEach(waiter => waiter.reject(error));
+    };
+
+    socket.onmessage = async (event) => {
+      buffer += typeof event.data === 'string' ? event.data : await (event.data as Blob).text();
+      let index = buffer.indexOf('\n');
+      while (index >= 0) {
+        const line = buffer.slice(0, index).replace(/\r$/, '');
+        buffer = buffer.slice(index + 1);
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(line);
+        else lines.push(line);
+        index = buffer.indexOf('\n');
+      }
+    };
+    socket.onerror = () => {
+      const error = new DeliveryError(`Could not reach the mail server at ${url}`, false);
+      fail(error);
+      reject(error);
+    };
+    socket.onclose = () => fail(new DeliveryError('The mail server closed the connection', false));
+    socket.onopen = () => resolve({
+      readLine: () => {
+        const line = lines.shift();
+        if (line !== undefined) return Promise.resolve(line);
+        if (failure) return Promise.reject(failure);
+        return new Promise((resolveLine, rejectLine) => {
+          const timer = setTimeout(() => rejectLine(new DeliveryError('The mail server stopped responding', false)), timeoutMs);
+          waiting.push({
+            resolve: (value) => { clearTimeout(timer); resolveLine(value); },
+            reject: (error) => { clearTimeout(timer); rejectLine(error); },
+          });
+        });
+      },
+      write: async (data) => socket.send(data),
+      close: () => socket.close(),
+    });
+  });
+}
+
+// Multi-line replies repeat the code with a '-' until the last line, which has a space
+async function readReply(connection: SmtpConnection): Promise<SmtpReply> {
+  const lines: string[] = [];
+  for (;;) {
+    const line = await connection.readLine();
+    lines.push(line.slice(4));
+    if (line.charAt(3) !== '-') {
+      return { code: parseInt(line.slice(0, 3), 10), text: lines.join(' ') };
+    }
+  }
+}
+
+async function command(connection: SmtpConnection, line: string | null, expected: number[]): Promise<SmtpReply> {
+  if (line !== null) await connection.write(line + CRLF);
+  const reply = await readReply(connection);
+  if (!expected.includes(reply.code)) {
+    throw new DeliveryError(`${reply.code} ${reply.text}`.trim(), reply.code >= 500);
+  }
+  return reply;
+}
+
+// Lines starting with a dot are doubled so they are not read as the end of the data
+function dotStuff(message: string): string {
+  return message.replace(/\r?\n/g, CRLF).replace(/^\./gm, '..');
+}
+
+class SmtpTransport implements EmailTransport {
+  readonly name: string;
+
+  constructor(private options: SmtpTransportOptions) {
+    this.name = options.name ?? 'SMTP';
+  }
+
+  async send(email: OutgoingEmail): Promise<TransportReceipt> {
+    const connection = await this.options.connect();
+    try {
+      await command(connection, null, [220]);
+      await command(connection, `EHLO ${this.options.clientName || 'donor-hub'}`, [250]);
+      if (this.options.username) {
+        const credentials = btoa(`\0${this.options.username}\0${this.options.password ?? ''}`);
+        await command(connection, `AUTH PLAIN ${credentials}`, [235]);
+      }
+      await command(connection, `MAIL FROM:<${extractAddress(email.from)}>`, [250]);
+
+      // The message goes ahead as long as one recipient is accepted
+      const recipients = [...email.to, ...(email.bcc ?? [])];
+      const refused: string[] = [];
+      for (const recipient of recipients) {
+        try {
+          await command(connection, `RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+        } catch (error) {
+          if (!(error instanceof DeliveryError) || !error.permanent) throw error;
+          refused.push(`${recipient}: ${error.message}`);
+        }
+      }
+      if (refused.length === recipients.length) {
+        throw new DeliveryError(refused.join('; '), true);
+      }
+
+      await command(connection, 'DATA', [354]);
+      const reply = await command(connection, `${dotStuff(buildMimeMessage(email))}${CRLF}.`, [250]);
+      await command(connection, 'QUIT', [221]).catch(() => undefined);
+      return { transport_message_id: reply.text.match(/queued as (\S+)/i)?.[1] ?? reply.text };
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+export function createSmtpTransport(options: SmtpTransportOptions): EmailTransport {
+  return new SmtpTransport(options);
+}
@@ -0,0 +1,37 @@
+// Links served by the tracking server set in Settings.tracking_base_url: a 1x1
+// image for opens, a redirect for clicks and an unsubscribe page. The server
+// reports each hit back through the delivery webhook, naming the message by id.
+export function getTrackingUrls(baseUrl: string, messageId: string) {
+  const base = baseUrl.replace(/\/+$/, '');
+  const id = encodeURIComponent(messageId);
+  return {
+    open: `${base}/o/${id}.gif`,
+    click: (url: string) => `${base}/c/${id}?url=${encodeURIComponent(url)}`,
+    unsubscribe: `${base}/u/${id}`,
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// The plain text body as simple HTML, with links sent through the click
+// redirect, an unsubscribe link at the foot and the open pixel last
+export function buildTrackedHtml(text: string, baseUrl: string, messageId: string): string {
+  const urls = getTrackingUrls(baseUrl, messageId);
+  const body = escapeHtml(text)
+    .replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)'"]/g, url => {
+      const target = url.replace(/&amp;/g, '&');
+      return `<a href="${escapeHtml(urls.click(target))}">${url}</a>`;
+    })
+    .replace(/\r?\n/g, '<br>\n');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html><body>',
+    `<div>${body}</div>`,
+    `<p style="font-size:12px;color:#888">Don't want these emails? <a href="${escapeHtml(urls.unsubscribe)}">Unsubscribe</a></p>`,
+    `<img src="${escapeHtml(urls.open)}" width="1" height="1" alt="">`,
+    '</body></html>',
+  ].join('\n');
+}
@@ -0,0 +1,77 @@
+import { EmailTransport } from './EmailTransport';
+import { connectWebSocket, createSmtpTransport } from './smtpTransport';
+import { createHttpRelayTransport } from './httpRelayTransport';
+import { smtpSink } from './smtpSink';
+import { isMissingSecrets, readStoredConfig, writeStoredConfig } from '@/utils/configStorage';
+
+// 'none' is the default: without a transport, email stays queued in the outbox
+// until one is configured. 'sink' keeps mail in memory (see smtpSink) and is
+// only used when picked explicitly, for trying the app out
+export type EmailTransportConfig =
+  | { type: 'none' }
+  | { type: 'sink' }
+  | { type: 'smtp'; bridgeUrl: string; username?: string; password?: string }
+  | { type: 'http'; url: string; apiKey?: string };
+
+const CONFIG_STORAGE_KEY = 'email-transport-config';
+// Kept in memory for the session only, never in localStorage (see configStorage)
+const SECRET_FIELDS = ['password', 'apiKey'] as const;
+
+// undefined until first built from the stored config; null when none is configured
+let currentTransport: EmailTransport | null | undefined;
+
+export function getEmailTransportConfig(): EmailTransportConfig {
+  try {
+    const config = readStoredConfig<EmailTransportConfig>(CONFIG_STORAGE_KEY, SECRET_FIELDS);
+    if (config) {
+      if (config.type === 'sink') return config;
+      if (config.type === 'smtp' && config.bridgeUrl) return config;
+      if (config.type === 'http' && config.url) return config;
+    }
+  } catch (error) {
+    console.error('Failed to read email transport config:', error);
+  }
+  return { type: 'none' };
+}
+
+export function createEmailTransport(config: EmailTransportConfig): EmailTransport | null {
+  switch (config.type) {
+    case 'smtp':
+      return createSmtpTransport({
+        connect: connectWebSocket(config.bridgeUrl),
+        username: config.username,
+        password: config.password,
+      });
+    case 'http':
+      return createHttpRelayTransport({ url: config.url, apiKey: config.apiKey });
+    case 'sink':
+      return createSmtpTransport({ connect: smtpSink.connect, name: 'Local sink' });
+    case 'none':
+    default:
+      return null;
+  }
+}
+
+export function setEmailTransportConfig(config: EmailTransportConfig): void {
+  writeStoredConfig(CONFIG_STORAGE_KEY, config, SECRET_FIELDS);
+  currentTransport = createEmailTransport(config);
+}
+
+// False after a reload until the transport's password or API key is entered
+// again; the outbox holds email until then rather than send without it
+export function isEmailTransportReady(): boolean {
+  return !isMissingSecrets(CONFIG_STORAGE_KEY);
+}
+
+// Null when no transport is configured; the outbox then leaves email queued
+export function getEmailTransport(): EmailTransport | null {
+  if (currentTransport === undefined) {
+    currentTransport = createEmailTransport(getEmailTransportConfig());
+  }
+  return currentTransport;
+}
+
+// Injects a transport directly, bypassing the stored config (useful for tests and mocks)
+export function setEmailTransport(transport: EmailTransport): void {
+  currentTransport = transport;
+}
@@ -0,0 +1,75 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Member, Message } from '@/types';
+
+// Sample delivery webhook payloads for trying the handler against a real
+// message: each builds the events a relay would post for one outcome.
+export interface WebhookFixture {
+  label: string;
+  channels: Message['channel'][];
+  build: (message: Message, member: Member | null, now: Date) => object[];
+}
+
+function event(message: Message, type: string, now: Date, offsetSeconds: number, extra: object = {}) {
+  return {
+    id: `fixture-${uuidv4()}`,
+    type,
+    message_id: message.id,
+    timestamp: new Date(now.getTime() + offsetSeconds * 1000).toISOString(),
+    ...extra,
+  };
+}
+
+export const WEBHOOK_FIXTURES: Record<string, WebhookFixture> = {
+  delivered: {
+    label: 'Delivered',
+    channels: ['email', 'sms'],
+    build: (message, _member, now) => [event(message, 'delivered', now, 0)],
+  },
+  opened: {
+    label: 'Delivered and opened',
+    channels: ['email'],
+    build: (message, _member, now) => [event(message, 'delivered', now, 0), event(message, 'opened', now, 60)],
+  },
+  clicked: {
+    label: 'Opened and clicked a link',
+    channels: ['email'],
+    build: (message, _member, now) => [
+      event(message, 'delivered', now, 0),
+      event(message, 'opened', now, 60),
+      event(message, 'clicked', now, 90, { url: 'https://example.org/donate' }),
+    ],
+  },
+  soft_bounce: {
+    label: 'Soft bounce (mailbox full)',
+    channels: ['email'],
+    build: (message, member, now) => [
+      event(message, 'bounced', now, 0, { bounce_type: 'soft', reason: '452 4.2.2 Mailbox full', recipient: member?.email }),
+    ],
+  },
+  hard_bounce: {
+    label: 'Hard bounce (no such user)',
+    channels: ['email'],
+    build: (message, member, now) => [
+      event(message, 'bounced', now, 0, { bounce_type: 'hard', reason: '550 5.1.1 User unknown', recipient: member?.email }),
+    ],
+  },
+  complained: {
+    label: 'Marked as spam',
+    channels: ['email'],
+    build: (message, member, now) => [
+      event(message, 'delivered', now, 0),
+      event(message, 'complained', now, 300, { reason: 'abuse', recipient: member?.email }),
+    ],
+  },
+  unsubscribed: {
+    label: 'Unsubscribed',
+    channels: ['email', 'sms'],
+    build: (message, _member, now) => [event(message, 'delivered', now, 0), event(message, 'unsubscribed', now, 120)],
+  },
+};
+
+export function buildFixturePayload(fixtureKey: string, message: Message, member: Member | null, now: Date = new Date()): { events: object[] } {
+  const fixture = WEBHOOK_FIXTURES[fixtureKey];
+  if (!fixture) throw new Error(`Unknown webhook fixture "${fixtureKey}"`);
+  return { events: fixture.build(message, member, now) };
+}
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useAutomationStore } from '@/store/automationStore';
+
+const AUTOMATION_INTERVAL_MS = 15 * 60 * 1000;
+const FIRST_RUN_DELAY_MS = 30 * 1000; // leaves start-up seeding and loading to finish first
+
+// Runs the automation rules while the app is open and someone who may bulk send
+// is signed in. Sends already on record are skipped, so a restart never repeats one.
+export function useAutomation() {
+  const { user, isLocked, can } = useAuthStore();
+  const { kickAutomation } = useAutomationStore();
+  const canRun = !!user && !isLocked && can('messages.bulk_send');
+
+  useEffect(() => {
+    if (!canRun) return;
+
+    const firstRun = window.setTimeout(kickAutomation, FIRST_RUN_DELAY_MS);
+    const timer = window.setInterval(kickAutomation, AUTOMATION_INTERVAL_MS);
+    return () => {
+      window.clearTimeout(firstRun);
+      window.clearInterval(timer);
+    };
+  }, [canRun, kickAutomation]);
+}
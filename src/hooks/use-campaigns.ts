@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useCampaignsStore } from '@/store/campaignsStore';
+
+const CAMPAIGN_INTERVAL_MS = 60 * 1000;
+
+// Sends scheduled campaigns, and the rest of an A/B test once its wait is over,
+// while the app is open and someone who may bulk send is signed in. A stage is
+// only ever sent once, however many tabs are checking.
+export function useCampaigns() {
+  const { user, isLocked, can } = useAuthStore();
+  const { kickCampaigns } = useCampaignsStore();
+  const canRun = !!user && !isLocked && can('messages.bulk_send');
+
+  useEffect(() => {
+    if (!canRun) return;
+
+    kickCampaigns();
+    const timer = window.setInterval(kickCampaigns, CAMPAIGN_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [canRun, kickCampaigns]);
+}
@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useInboxStore } from '@/store/inboxStore';
+
+const MAILBOX_INTERVAL_MS = 5 * 60 * 1000;
+
+// Checks the mailbox for member replies while the app is open and someone who
+// may send is signed in. Mail is only marked read once it has been recorded.
+export function useInbox() {
+  const { user, isLocked, can } = useAuthStore();
+  const { kickMailbox } = useInboxStore();
+  const canCheck = !!user && !isLocked && can('messages.send');
+
+  useEffect(() => {
+    if (!canCheck) return;
+
+    kickMailbox();
+    const timer = window.setInterval(kickMailbox, MAILBOX_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [canCheck, kickMailbox]);
+}
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useMessagesStore } from '@/store/messagesStore';
+
+const OUTBOX_INTERVAL_MS = 30 * 1000;
+
+// Sends queued email while the app is open and someone who may send is signed in
+export function useOutbox() {
+  const { user, isLocked, can } = useAuthStore();
+  const { kickOutbox } = useMessagesStore();
+  const canSend = !!user && !isLocked && can('messages.send');
+
+  useEffect(() => {
+    if (!canSend) return;
+
+    kickOutbox();
+    const timer = window.setInterval(kickOutbox, OUTBOX_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [canSend, kickOutbox]);
+}
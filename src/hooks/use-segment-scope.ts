@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useMembersStore } from '@/store/membersStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useMessagesStore } from '@/store/messagesStore';
+import { useSegmentsStore } from '@/store/segmentsStore';
+import { scopeToSegment, SegmentScope } from '@/utils/segmentUtils';
+import { MemberSegment } from '@/types';
+
+// Members, payments and installments limited to a saved segment, or all of
+// them when segmentId is 'all' or names a segment that has since been deleted
+export function useSegmentScope(segmentId: string): SegmentScope & { segment?: MemberSegment } {
+  const { members } = useMembersStore();
+  const { payments } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
+  const { messages } = useMessagesStore();
+  const { segments } = useSegmentsStore();
+  const segment = segments.find(s => s.id === segmentId);
+
+  return useMemo(
+    () => ({ ...scopeToSegment(segment, members, { payments, installments, messages }), segment }),
+    [segment, members, payments, installments, messages]
+  );
+}
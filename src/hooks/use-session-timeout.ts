@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { DEFAULT_IDLE_LOCK_MINUTES, isSessionExpired } from '@/utils/sessionUtils';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15 * 1000;
+// Input in any tab keeps them all unlocked, since they share the session; the
+// time is shared through localStorage, written at most this often
+const ACTIVITY_STORAGE_KEY = 'last-activity';
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+
+function readSharedActivity(): number {
+  const value = Number(localStorage.getItem(ACTIVITY_STORAGE_KEY));
+  return Number.isFinite(value) ? value : 0;
+}
+
+// Locks the app after a period without input in any tab, or once the session
+// itself expires, and shows a lock made in another tab
+export function useSessionTimeout() {
+  const { user, session, isLocked, lock, syncSession } = useAuthStore();
+  const { settings } = useSettingsStore();
+  const lastActivity = useRef(Date.now());
+  const idleLockMinutes = settings?.idle_lock_minutes ?? DEFAULT_IDLE_LOCK_MINUTES;
+
+  useEffect(() => {
+    if (!user || isLocked) return;
+
+    let lastWritten = 0;
+    const markActive = () => {
+      const now = Date.now();
+      lastActivity.current = now;
+      if (now - lastWritten >= ACTIVITY_WRITE_INTERVAL_MS) {
+        lastWritten = now;
+        localStorage.setItem(ACTIVITY_STORAGE_KEY, String(now));
+      }
+    };
+    markActive();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      const idleSince = Math.max(lastActivity.current, readSharedActivity());
+      if (session && isSessionExpired(session.expires_at)) {
+        lock('expired');
+      } else if (Date.now() - idleSince >= idleLockMinutes * 60 * 1000) {
+        lock('idle');
+      } else {
+        syncSession();
+      }
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      window.clearInterval(timer);
+    };
+  }, [user, session, isLocked, lock, syncSession, idleLockMinutes]);
+
+  // Coming back to a tab, locked or not, catches up with what the others did
+  useEffect(() => {
+    if (!user) return;
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') syncSession();
+    };
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+    };
+  }, [user, syncSession]);
+}
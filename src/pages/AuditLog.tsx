@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuditStore } from '@/store/auditStore';
+import { AuditAction, AuditChange, AuditEntity, AuditLogFilter } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+import { downloadFile, exportAuditLogToCSV } from '@/utils/exportUtils';
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  member: 'Member',
+  payment: 'Payment',
+  installment: 'Installment',
+  receipt: 'Receipt',
+  message: 'Message',
+  conversation: 'Conversation',
+  template: 'Template',
+  segment: 'Segment',
+  fund: 'Fund',
+  campaign: 'Campaign',
+  settings: 'Settings',
+  user: 'User',
+  role: 'Role',
+  data: 'Data',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  import: 'Imported',
+  clear: 'Cleared',
+  password_reset: 'Password reset',
+  password_change: 'Password changed',
+  restore: 'Restored',
+  purge: 'Purged',
+  refund: 'Refunded',
+  void: 'Voided',
+  archive: 'Archived',
+};
+
+const MAX_ROWS = 200;
+const MAX_CHANGES_SHOWN = 4;
+
+function formatChangeValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+function ChangeList({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) return <span className="text-muted-foreground">—</span>;
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {changes.slice(0, MAX_CHANGES_SHOWN).map(change => (
+        <li key={change.field}>
+          <span className="font-medium">{change.field}</span>: {formatChangeValue(change.before)} → {formatChangeValue(change.after)}
+        </li>
+      ))}
+      {changes.length > MAX_CHANGES_SHOWN && (
+        <li className="text-muted-foreground">+{changes.length - MAX_CHANGES_SHOWN} more in CSV export</li>
+      )}
+    </ul>
+  );
+}
+
+export function AuditLog() {
+  const { entries, isLoading, fetchAuditLog } = useAuditStore();
+  const [actorId, setActorId] = useState('all');
+  const [entity, setEntity] = useState<AuditEntity | 'all'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  // Users seen in any result so far, so the user filter survives narrowing the list
+  const [knownActors, setKnownActors] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    const filter: AuditLogFilter = {
+      actorId: actorId === 'all' ? undefined : actorId,
+      entity: entity === 'all' ? undefined : entity,
+      from: from || undefined,
+      to: to || undefined,
+    };
+    fetchAuditLog(filter);
+  }, [fetchAuditLog, actorId, entity, from, to]);
+
+  useEffect(() => {
+    setKnownActors(current => {
+      const next = new Map(current);
+      entries.forEach(entry => next.set(entry.actor_id, entry.actor_email));
+      return next.size === current.size ? current : next;
+    });
+  }, [entries]);
+
+  // Child entries point at the change that caused them, e.g. a member delete or a refund
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]));
+  const describeParent = (parentId: string) => {
+    const parent = entriesById.get(parentId);
+    if (!parent || parent.entity === 'member') return ' · with its member';
+    return ` · from ${ACTION_LABELS[parent.action].toLowerCase()} ${ENTITY_LABELS[parent.entity].toLowerCase()}`;
+  };
+
+  const handleExport = () => {
+    downloadFile(
+      exportAuditLogToCSV(entries),
+      `audit-log-${formatDate(new Date(), 'yyyy-MM-dd')}.csv`,
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">Every change to members, payments, messages and settings</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={entries.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit_user">User</Label>
+              <Select value={actorId} onValueChange={setActorId}>
+                <SelectTrigger id="audit_user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All users</SelectItem>
+                  {[...knownActors].map(([id, email]) => (
+                    <SelectItem key={id} value={id}>{email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit_entity">Entity</Label>
+              <Select value={entity} onValueChange={(value) => setEntity(value as AuditEntity | 'all')}>
+                <SelectTrigger id="audit_entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(key => (
+                    <SelectItem key={key} value={key}>{ENTITY_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit_from">From</Label>
+              <Input id="audit_from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit_to">To</Label>
+              <Input id="audit_to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Entries ({entries.length})
+            {entries.length > MAX_ROWS && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                showing the latest {MAX_ROWS}; export for the full list
+              </span>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.slice(0, MAX_ROWS).map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatDate(entry.occurred_at, 'MMM dd, yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.actor_email}</TableCell>
+                    <TableCell>
+                      <div className="text-sm font-medium">{entry.summary}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {ENTITY_LABELS[entry.entity]}
+                        {entry.parent_id && describeParent(entry.parent_id)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={['delete', 'clear', 'purge', 'void'].includes(entry.action) ? 'destructive' : 'outline'}>
+                        {ACTION_LABELS[entry.action]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <ChangeList changes={entry.changes} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,20 +1,31 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { Users, DollarSign, AlertCircle, TrendingUp } from 'lucide-react';
 import { useMembersStore } from '@/store/membersStore';
 import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
 import { useSettingsStore } from '@/store/settingsStore';
+import { useFundsStore } from '@/store/fundsStore';
 import { getMonthlyExpectedIncome, getMonthlyCollected, formatCurrency } from '@/utils/dateUtils';
+import { getOverdueInstallments, getOutstandingAmount } from '@/utils/scheduleUtils';
+import { describeFundWindow, FUND_KIND_LABELS, getFundProgress } from '@/utils/fundUtils';
 
 export function Dashboard() {
   const { members } = useMembersStore();
   const { payments } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
   const { settings } = useSettingsStore();
+  const { funds } = useFundsStore();
 
   const activeMembers = members.filter(m => m.active).length;
   const expectedIncome = getMonthlyExpectedIncome(members);
   const collectedIncome = getMonthlyCollected(payments);
-  const unpaidCount = payments.filter(p => p.status === 'unpaid').length;
-  const overdueCount = payments.filter(p => p.status === 'overdue').length;
+  const overdueInstallments = getOverdueInstallments(installments);
+  const overdueMembers = new Set(overdueInstallments.map(i => i.member_id)).size;
+  const overdueAmount = overdueInstallments.reduce((total, i) => total + getOutstandingAmount(i), 0);
+  const goals = funds
+    .filter(fund => !fund.archived_at && fund.goal_amount)
+    .map(fund => ({ fund, progress: getFundProgress(fund, payments) }));
 
   const stats = [
     {
@@ -37,9 +48,9 @@ export function Dashboard() {
     },
     {
       title: 'Overdue Payments',
-      value: (unpaidCount + overdueCount).toString(),
+      value: overdueInstallments.length.toString(),
       icon: AlertCircle,
-      description: `${overdueCount} overdue, ${unpaidCount} unpaid`,
+      description: `${overdueMembers} members, ${formatCurrency(overdueAmount, settings?.default_currency)} outstanding`,
     },
   ];
 
@@ -67,6 +78,34 @@ export function Dashboard() {
         ))}
       </div>
 
+      {goals.length > 0 && (
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Fundraising Goals</CardTitle>
+            <CardDescription>Payments designated to each fund and campaign, net of refunds</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {goals.map(({ fund, progress }) => (
+              <div key={fund.id} className="space-y-1">
+                <div className="flex items-baseline justify-between gap-4 text-sm">
+                  <div>
+                    <span className="font-medium">{fund.name}</span>
+                    <span className="text-muted-foreground"> · {FUND_KIND_LABELS[fund.kind]} · {describeFundWindow(fund)}</span>
+                  </div>
+                  <div className="whitespace-nowrap">
+                    {formatCurrency(progress.raised, settings?.default_currency)} of {formatCurrency(progress.goal ?? 0, settings?.default_currency)}
+                  </div>
+                </div>
+                <Progress value={Math.min(100, Math.max(0, progress.percent ?? 0))} />
+                <p className="text-xs text-muted-foreground">
+                  {(progress.percent ?? 0).toFixed(0)}% of the goal from {progress.donors} {progress.donors === 1 ? 'donor' : 'donors'}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card className="shadow-soft">
           <CardHeader>
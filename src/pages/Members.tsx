@@ -7,6 +7,7 @@ import { MessageForm } from '@/components/messages/MessageForm';
 import { Member } from '@/types';
 import { useMembersStore } from '@/store/membersStore';
 import { useToast } from '@/hooks/use-toast';
+import { PermissionDeniedError } from '@/utils/permissions';
 
 export function Members() {
   const { deleteMember } = useMembersStore();
@@ -22,17 +23,17 @@ export function Members() {
   };
 
   const handleDeleteMember = async (member: Member) => {
-    if (confirm(`Are you sure you want to delete ${member.full_name}?`)) {
+    if (confirm(`Delete ${member.full_name}? They will be moved to the recycle bin with their payments and messages.`)) {
       try {
         await deleteMember(member.id);
         toast({
           title: 'Member Deleted',
-          description: `${member.full_name} has been deleted successfully.`,
+          description: `${member.full_name} has been moved to the recycle bin.`,
         });
       } catch (error) {
         toast({
           title: 'Error',
-          description: 'Failed to delete member.',
+          description: error instanceof PermissionDeniedError ? error.message : 'Failed to delete member.',
           variant: 'destructive',
         });
       }
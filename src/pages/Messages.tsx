@@ -1,64 +1,199 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, RefreshCw, Send } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { MessageForm } from '@/components/messages/MessageForm';
+import { DeliveryStatusBadge } from '@/components/messages/DeliveryStatusBadge';
+import { TemplateLibrary } from '@/components/messages/TemplateLibrary';
+import { AutomationHistory } from '@/components/messages/AutomationHistory';
+import { CampaignList } from '@/components/messages/CampaignList';
+import { Inbox } from '@/components/messages/Inbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useMessagesStore } from '@/store/messagesStore';
 import { useMembersStore } from '@/store/membersStore';
+import { useAuthStore } from '@/store/authStore';
+import { useInboxStore } from '@/store/inboxStore';
 import { formatDate } from '@/utils/dateUtils';
+import { isAwaitingDelivery } from '@/email/deliveryQueue';
+import { getEmailTransportConfig } from '@/email/transportRegistry';
+import { getSmsGatewayConfig } from '@/sms/gatewayRegistry';
+import { CHANNEL_LABELS } from '@/utils/messageUtils';
+import { Message } from '@/types';
+import { useToast } from '@/hooks/use-toast';
 
 export function Messages() {
-  const { messages } = useMessagesStore();
+  const { messages, isDelivering, processOutbox, retryMessage } = useMessagesStore();
   const { members } = useMembersStore();
+  const { can } = useAuthStore();
+  const unreadReplies = useInboxStore(state => state.inbound.filter(message => !message.read_at).length);
+  const { toast } = useToast();
   const [showMessageForm, setShowMessageForm] = useState(false);
+  const awaitingCount = messages.filter(isAwaitingDelivery).length;
+  const emailConfigured = getEmailTransportConfig().type !== 'none';
+  const smsConfigured = getSmsGatewayConfig().type !== 'none';
+
+  const reportError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message || 'Failed to send messages.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleSendNow = async () => {
+    try {
+      const result = await processOutbox();
+      if (!result) return;
+      toast({
+        title: 'Outbox processed',
+        description: `${result.sent} sent, ${result.retrying} will be retried, ${result.failed} failed.`,
+      });
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleRetry = async (message: Message) => {
+    try {
+      await retryMessage(message.id);
+    } catch (error) {
+      reportError(error);
+    }
+  };
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold">Messages</h1>
-          <p className="text-muted-foreground">Member communication history</p>
+          <p className="text-muted-foreground">Member communication history and replies</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={handleSendNow}
+            disabled={isDelivering || awaitingCount === 0 || !can('messages.send')}
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Send Now ({awaitingCount})
+          </Button>
+          <Button onClick={() => setShowMessageForm(true)}>
+            Send Message
+          </Button>
         </div>
-        <Button onClick={() => setShowMessageForm(true)}>
-          Send Message
-        </Button>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Message History</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Recipient</TableHead>
-                <TableHead>Subject</TableHead>
-                <TableHead>Type</TableHead>
-                <TableHead>Sent Date</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {messages.slice(0, 20).map((message) => {
-                const member = message.member_id ? members.find(m => m.id === message.member_id) : null;
-                return (
-                  <TableRow key={message.id}>
-                    <TableCell>{member?.full_name || 'All Members'}</TableCell>
-                    <TableCell>{message.message_subject}</TableCell>
-                    <TableCell>
-                      <Badge variant="outline" className="capitalize">
-                        {message.message_type.replace('_', ' ')}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>{formatDate(message.sent_at)}</TableCell>
+      {!emailConfigured && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Email delivery is not configured</AlertTitle>
+          <AlertDescription>
+            Email stays queued in the outbox until a transport is chosen under{' '}
+            <Link to="/settings" className="underline">Settings</Link>.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!smsConfigured && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>SMS delivery is not configured</AlertTitle>
+          <AlertDescription>
+            Texts stay queued in the outbox until a gateway is chosen under{' '}
+            <Link to="/settings" className="underline">Settings</Link>.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="history" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="inbox">Inbox{unreadReplies > 0 && ` (${unreadReplies})`}</TabsTrigger>
+          <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+          <TabsTrigger value="templates">Templates</TabsTrigger>
+          <TabsTrigger value="automation">Automation</TabsTrigger>
+        </TabsList>
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Message History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Sent Date</TableHead>
+                    <TableHead>Delivery</TableHead>
+                    <TableHead></TableHead>
                   </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </CardContent>
-      </Card>
+                </TableHeader>
+                <TableBody>
+                  {messages.slice(0, 20).map((message) => {
+                    const member = message.member_id ? members.find(m => m.id === message.member_id) : null;
+                    return (
+                      <TableRow key={message.id}>
+                        <TableCell>{member?.full_name || 'All Members'}</TableCell>
+                        <TableCell>{message.message_subject}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">
+                            {message.message_type.replace('_', ' ')}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{CHANNEL_LABELS[message.channel]}</TableCell>
+                        <TableCell>{formatDate(message.sent_at)}</TableCell>
+                        <TableCell>
+                          <div className="space-y-1">
+                            <DeliveryStatusBadge message={message} />
+                            {message.last_error && message.delivery_status !== 'sent' && message.delivery_status !== 'delivered' && (
+                              <p className="text-xs text-muted-foreground max-w-xs truncate" title={message.last_error}>
+                                {message.last_error}
+                              </p>
+                            )}
+                            {message.opened_at && (
+                              <p className="text-xs text-muted-foreground">
+                                Opened {formatDate(message.opened_at, 'MMM dd HH:mm')}
+                                {message.clicked_at && ' · clicked a link'}
+                              </p>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(message.delivery_status === 'failed' || message.delivery_status === 'bounced' ||
+                            (message.delivery_status === 'queued' && message.last_error)) && can('messages.send') && (
+                            <Button variant="outline" size="sm" onClick={() => handleRetry(message)} disabled={isDelivering} title="Retry now">
+                              <RefreshCw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="inbox">
+          <Inbox />
+        </TabsContent>
+        <TabsContent value="campaigns">
+          <CampaignList />
+        </TabsContent>
+        <TabsContent value="templates">
+          <TemplateLibrary />
+        </TabsContent>
+        <TabsContent value="automation">
+          <AutomationHistory />
+        </TabsContent>
+      </Tabs>
 
       <MessageForm
         open={showMessageForm}
@@ -1,23 +1,52 @@
 import { useState } from 'react';
+import { Undo2, Ban } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PaymentForm } from '@/components/payments/PaymentForm';
+import { PaymentStatusBadge } from '@/components/payments/PaymentStatusBadge';
+import { ReversePaymentForm } from '@/components/payments/ReversePaymentForm';
+import { ReceiptActions } from '@/components/payments/ReceiptActions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { usePaymentsStore } from '@/store/paymentsStore';
 import { useMembersStore } from '@/store/membersStore';
-import { useMessagesStore } from '@/store/messagesStore';
+import { useAutomationStore } from '@/store/automationStore';
+import { useAuthStore } from '@/store/authStore';
+import { Payment, PaymentReversalType } from '@/types';
 import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { canReverse } from '@/utils/paymentUtils';
+import { countFailed, countSent } from '@/automation/automationRunner';
+import { useToast } from '@/hooks/use-toast';
 
 export function Payments() {
   const { payments } = usePaymentsStore();
   const { members } = useMembersStore();
-  const { createBulkReminders } = useMessagesStore();
+  const { runAutomation, isRunning } = useAutomationStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
   const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [reversing, setReversing] = useState<{ payment: Payment; type: PaymentReversalType } | null>(null);
+  const canReversePayments = can('payments.reverse');
 
+  // Runs the automation rules now instead of waiting for the next scheduled run
   const handleRunReminders = async () => {
-    const dueMembers = members.filter(m => m.active);
-    await createBulkReminders(dueMembers.map(m => m.id));
+    try {
+      const run = await runAutomation('manual');
+      if (!run) return;
+      const failed = countFailed(run);
+      toast({
+        title: 'Reminders Run',
+        description: run.results.length === 0
+          ? 'No automation rules are turned on. Choose them in Settings.'
+          : `Queued messages for ${countSent(run)} ${countSent(run) === 1 ? 'member' : 'members'}${failed > 0 ? `; ${failed} failed` : ''}.`,
+        variant: failed > 0 ? 'destructive' : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to run reminders.',
+        variant: 'destructive',
+      });
+    }
   };
 
   return (
@@ -28,7 +57,7 @@ export function Payments() {
           <p className="text-muted-foreground">Track and manage member payments</p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={handleRunReminders}>
+          <Button variant="outline" onClick={handleRunReminders} disabled={isRunning || !can('messages.bulk_send')}>
             Run Reminders
           </Button>
           <Button onClick={() => setShowPaymentForm(true)}>
@@ -50,6 +79,8 @@ export function Payments() {
                 <TableHead>Date</TableHead>
                 <TableHead>Method</TableHead>
                 <TableHead>Status</TableHead>
+                <TableHead className="text-right">Receipt</TableHead>
+                {canReversePayments && <TableHead className="text-right">Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -62,10 +93,30 @@ export function Payments() {
                     <TableCell>{formatDate(payment.payment_date)}</TableCell>
                     <TableCell className="capitalize">{payment.payment_method}</TableCell>
                     <TableCell>
-                      <Badge variant={payment.status === 'paid' ? 'default' : 'destructive'}>
-                        {payment.status}
-                      </Badge>
+                      <PaymentStatusBadge payment={payment} />
+                      {payment.reversal_reason && (
+                        <div className="mt-1 text-xs text-muted-foreground">{payment.reversal_reason}</div>
+                      )}
                     </TableCell>
+                    <TableCell>
+                      <ReceiptActions payment={payment} />
+                    </TableCell>
+                    {canReversePayments && (
+                      <TableCell>
+                        {canReverse(payment) && (
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setReversing({ payment, type: 'refund' })}>
+                              <Undo2 className="w-4 h-4 mr-2" />
+                              Refund
+                            </Button>
+                            <Button variant="outline" size="sm" className="text-destructive" onClick={() => setReversing({ payment, type: 'void' })}>
+                              <Ban className="w-4 h-4 mr-2" />
+                              Void
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
                   </TableRow>
                 );
               })}
@@ -78,6 +129,12 @@ export function Payments() {
         open={showPaymentForm}
         onOpenChange={setShowPaymentForm}
       />
+
+      <ReversePaymentForm
+        payment={reversing?.payment ?? null}
+        type={reversing?.type ?? 'refund'}
+        onOpenChange={(open) => !open && setReversing(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
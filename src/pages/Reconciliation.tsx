@@ -0,0 +1,343 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Landmark, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useMembersStore } from '@/store/membersStore';
+import { usePaymentsStore } from '@/store/paymentsStore';
+import { useInstallmentsStore } from '@/store/installmentsStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { MatchConfidence, MatchReason, Payment, StatementFormat, StatementTransaction, TransactionMatch } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { matchStatementTransactions } from '@/utils/searchUtils';
+import { STATEMENT_FORMAT_LABELS, detectStatementFormat, parseStatement } from '@/utils/statementUtils';
+import { useToast } from '@/hooks/use-toast';
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  reference: 'Reference',
+  phone: 'Phone',
+  name: 'Name',
+  amount: 'Amount',
+};
+
+type ReconciliationTab = MatchConfidence | 'recorded';
+
+interface Selection {
+  memberId: string;
+  include: boolean;
+}
+
+// Confident matches are ticked ready to confirm; ambiguous ones suggest the best guess but wait for a person
+function defaultSelection(match: TransactionMatch): Selection {
+  const best = match.candidates[0];
+  return { memberId: best?.member.id ?? '', include: match.confidence === 'confident' };
+}
+
+export function Reconciliation() {
+  const { members } = useMembersStore();
+  const { payments, createPayments } = usePaymentsStore();
+  const { installments } = useInstallmentsStore();
+  const { settings } = useSettingsStore();
+  const { toast } = useToast();
+  const mappings = settings?.bank_csv_mappings ?? [];
+
+  const [fileName, setFileName] = useState('');
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [statementFormat, setStatementFormat] = useState<StatementFormat>('csv');
+  const [mappingId, setMappingId] = useState('');
+  const [transactions, setTransactions] = useState<StatementTransaction[] | null>(null);
+  const [overrides, setOverrides] = useState<Record<string, Selection>>({});
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  // Re-matched whenever payments change, so confirmed credits move to "Already recorded"
+  const matches = useMemo(
+    () => transactions ? matchStatementTransactions(transactions, members, payments, installments) : [],
+    [transactions, members, payments, installments]
+  );
+
+  const grouped: Record<ReconciliationTab, TransactionMatch[]> = {
+    confident: matches.filter(match => !match.recorded_payment_id && match.confidence === 'confident'),
+    ambiguous: matches.filter(match => !match.recorded_payment_id && match.confidence === 'ambiguous'),
+    unmatched: matches.filter(match => !match.recorded_payment_id && match.confidence === 'unmatched'),
+    recorded: matches.filter(match => !!match.recorded_payment_id),
+  };
+
+  const selectionFor = (match: TransactionMatch) => overrides[match.transaction.id] ?? defaultSelection(match);
+  const toConfirm = matches.filter(match => {
+    const selection = selectionFor(match);
+    return !match.recorded_payment_id && selection.include && !!selection.memberId;
+  });
+
+  const liveMembers = members.filter(member => !member.deleted_at).sort((a, b) => a.full_name.localeCompare(b.full_name));
+
+  const updateSelection = (match: TransactionMatch, updates: Partial<Selection>) => {
+    setOverrides(current => ({ ...current, [match.transaction.id]: { ...selectionFor(match), ...updates } }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setTransactions(null);
+    setOverrides({});
+    if (!file) {
+      setFileContent(null);
+      setFileName('');
+      return;
+    }
+    const content = await file.text();
+    setFileName(file.name);
+    setFileContent(content);
+    setStatementFormat(detectStatementFormat(file.name, content));
+  };
+
+  const handleRead = () => {
+    if (!fileContent) return;
+    try {
+      const mapping = mappings.find(m => m.id === mappingId);
+      const parsed = parseStatement(fileContent, statementFormat, mapping);
+      setTransactions(parsed);
+      setOverrides({});
+      if (parsed.length === 0) {
+        toast({
+          title: 'No credits found',
+          description: `${fileName} has no incoming transfers to reconcile.`,
+        });
+      }
+    } catch (error) {
+      setTransactions(null);
+      toast({
+        title: 'Could not read statement',
+        description: (error as Error).message || 'The file could not be read.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleConfirm = async () => {
+    const drafts: Omit<Payment, 'id'>[] = toConfirm.map(match => ({
+      member_id: selectionFor(match).memberId,
+      amount: match.transaction.amount,
+      payment_date: match.transaction.date,
+      payment_method: 'bank',
+      status: 'paid',
+      notes: [match.transaction.payer, match.transaction.description].filter(Boolean).join(' · ') || undefined,
+      bank_transaction_id: match.transaction.id,
+      bank_reference: match.transaction.reference,
+    }));
+
+    setIsConfirming(true);
+    try {
+      const created = await createPayments(drafts);
+      toast({
+        title: 'Payments recorded',
+        description: `${created.length} bank payments have been added.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to record payments.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  const renderMatches = (tab: ReconciliationTab) => {
+    const rows = grouped[tab];
+    if (rows.length === 0) {
+      return <p className="py-6 text-center text-sm text-muted-foreground">Nothing here.</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {tab !== 'recorded' && <TableHead className="w-10" />}
+            <TableHead>Date</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Transfer</TableHead>
+            <TableHead>Member</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(match => {
+            const { transaction } = match;
+            const selection = selectionFor(match);
+            const candidate = match.candidates.find(c => c.member.id === selection.memberId);
+            const candidateIds = new Set(match.candidates.map(c => c.member.id));
+            return (
+              <TableRow key={transaction.id}>
+                {tab !== 'recorded' && (
+                  <TableCell>
+                    <Checkbox
+                      checked={selection.include && !!selection.memberId}
+                      disabled={!selection.memberId}
+                      onCheckedChange={(checked) => updateSelection(match, { include: checked === true })}
+                      aria-label="Confirm this payment"
+                    />
+                  </TableCell>
+                )}
+                <TableCell className="text-sm whitespace-nowrap">{formatDate(transaction.date)}</TableCell>
+                <TableCell className="text-sm whitespace-nowrap">
+                  {formatCurrency(transaction.amount, settings?.default_currency)}
+                </TableCell>
+                <TableCell>
+                  <div className="text-sm font-medium">{transaction.payer || transaction.description || '—'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[transaction.payer && transaction.description, transaction.reference].filter(Boolean).join(' · ')}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {tab === 'recorded' ? (
+                    <span className="text-sm text-muted-foreground">
+                      {members.find(m => m.id === payments.find(p => p.id === match.recorded_payment_id)?.member_id)?.full_name || 'Recorded'}
+                    </span>
+                  ) : (
+                    <div className="space-y-1">
+                      <Select
+                        value={selection.memberId}
+                        onValueChange={(memberId) => updateSelection(match, { memberId, include: true })}
+                      >
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder="Choose a member" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {match.candidates.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Suggested</SelectLabel>
+                              {match.candidates.map(c => (
+                                <SelectItem key={c.member.id} value={c.member.id}>
+                                  {c.member.full_name} ({Math.round(c.score * 100)}%)
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                          <SelectGroup>
+                            <SelectLabel>All members</SelectLabel>
+                            {liveMembers.filter(m => !candidateIds.has(m.id)).map(m => (
+                              <SelectItem key={m.id} value={m.id}>{m.full_name}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                      {candidate && (
+                        <div className="flex gap-1">
+                          {candidate.reasons.map(reason => (
+                            <Badge key={reason} variant="outline" className="text-xs">{REASON_LABELS[reason]}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Bank Reconciliation</h1>
+        <p className="text-muted-foreground">Match bank statement credits to members and record them as payments</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            Statement
+          </CardTitle>
+          <CardDescription>
+            Upload a CSV export, an OFX file or a CAMT.053 statement. Only incoming transfers are read.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="statement_file">Statement file</Label>
+              <Input id="statement_file" type="file" accept=".csv,.txt,.ofx,.qfx,.xml" onChange={handleFileChange} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement_format">Format</Label>
+              <Select value={statementFormat} onValueChange={(value) => setStatementFormat(value as StatementFormat)}>
+                <SelectTrigger id="statement_format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATEMENT_FORMAT_LABELS) as StatementFormat[]).map(key => (
+                    <SelectItem key={key} value={key}>{STATEMENT_FORMAT_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {statementFormat === 'csv' && (
+              <div className="space-y-2">
+                <Label htmlFor="statement_bank">Bank</Label>
+                <Select value={mappingId} onValueChange={setMappingId}>
+                  <SelectTrigger id="statement_bank">
+                    <SelectValue placeholder={mappings.length === 0 ? 'No bank formats set up' : 'Choose a bank'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mappings.map(mapping => (
+                      <SelectItem key={mapping.id} value={mapping.id}>{mapping.bank_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {mappings.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Add your bank's CSV columns under <Link to="/settings" className="underline">Settings</Link>.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+          <Button onClick={handleRead} disabled={!fileContent || (statementFormat === 'csv' && !mappingId)}>
+            Read statement
+          </Button>
+        </CardContent>
+      </Card>
+
+      {transactions && transactions.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Credits ({transactions.length})</CardTitle>
+              <CardDescription>
+                Confident matches are ticked. Check the ambiguous ones and choose members for the rest.
+              </CardDescription>
+            </div>
+            <Button onClick={handleConfirm} disabled={isConfirming || toConfirm.length === 0}>
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Confirm {toConfirm.length} payments
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="confident">
+              <TabsList>
+                <TabsTrigger value="confident">Confident ({grouped.confident.length})</TabsTrigger>
+                <TabsTrigger value="ambiguous">Ambiguous ({grouped.ambiguous.length})</TabsTrigger>
+                <TabsTrigger value="unmatched">Unmatched ({grouped.unmatched.length})</TabsTrigger>
+                <TabsTrigger value="recorded">Already recorded ({grouped.recorded.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="confident">{renderMatches('confident')}</TabsContent>
+              <TabsContent value="ambiguous">{renderMatches('ambiguous')}</TabsContent>
+              <TabsContent value="unmatched">{renderMatches('unmatched')}</TabsContent>
+              <TabsContent value="recorded">{renderMatches('recorded')}</TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useRecycleBinStore } from '@/store/recycleBinStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useUsersStore } from '@/store/usersStore';
+import { useMembersStore } from '@/store/membersStore';
+import { useAuthStore } from '@/store/authStore';
+import { RecycleBinEntity, SoftDeletable } from '@/types';
+import { formatCurrency, formatDate } from '@/utils/dateUtils';
+import { useToast } from '@/hooks/use-toast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BinRow {
+  id: string;
+  entity: RecycleBinEntity;
+  title: string;
+  detail: string;
+  record: SoftDeletable;
+}
+
+export function RecycleBin() {
+  const { bin, isLoading, fetchRecycleBin, restore, purge } = useRecycleBinStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const { users, fetchUsers } = useUsersStore();
+  const { members } = useMembersStore();
+  const { can } = useAuthStore();
+  const { toast } = useToast();
+  const retentionDays = settings?.recycle_bin_retention_days ?? 30;
+  const [retentionInput, setRetentionInput] = useState(String(retentionDays));
+
+  useEffect(() => {
+    fetchRecycleBin();
+    if (can('users.manage')) fetchUsers();
+  }, [fetchRecycleBin, fetchUsers, can]);
+
+  useEffect(() => {
+    setRetentionInput(String(retentionDays));
+  }, [retentionDays]);
+
+  const memberNames = new Map([...members, ...bin.members].map(m => [m.id, m.full_name]));
+  const userEmails = new Map(users.map(u => [u.id, u.email]));
+
+  const purgeableFrom = (record: SoftDeletable) =>
+    new Date(new Date(record.deleted_at!).getTime() + retentionDays * DAY_MS);
+
+  const rows: Record<RecycleBinEntity, BinRow[]> = {
+    member: bin.members.map(member => {
+      const related = bin.payments.filter(p => p.deleted_with === member.id).length +
+        bin.messages.filter(m => m.deleted_with === member.id).length;
+      return {
+        id: member.id,
+        entity: 'member',
+        title: member.full_name,
+        detail: related > 0 ? `${member.email} · ${related} related records` : member.email,
+        record: member,
+      };
+    }),
+    payment: bin.payments.filter(p => !p.deleted_with).map(payment => ({
+      id: payment.id,
+      entity: 'payment',
+      title: formatCurrency(payment.amount, settings?.default_currency),
+      detail: `${memberNames.get(payment.member_id) || 'Unknown member'} · ${formatDate(payment.payment_date)}`,
+      record: payment,
+    })),
+    message: bin.messages.filter(m => !m.deleted_with).map(message => ({
+      id: message.id,
+      entity: 'message',
+      title: message.message_subject || message.message_type,
+      detail: formatDate(message.sent_at),
+      record: message,
+    })),
+  };
+
+  const handleRestore = async (row: BinRow) => {
+    try {
+      await restore(row.entity, row.id);
+      toast({
+        title: 'Restored',
+        description: `${row.title} has been restored.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to restore item.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handlePurge = async (row: BinRow) => {
+    if (!confirm(`Permanently delete ${row.title}? This cannot be undone.`)) return;
+
+    try {
+      await purge(row.entity, row.id);
+      toast({
+        title: 'Purged',
+        description: `${row.title} has been permanently deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to purge item.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    const days = Number(retentionInput);
+    if (!Number.isInteger(days) || days < 0) {
+      toast({
+        title: 'Invalid retention',
+        description: 'Enter a whole number of days.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    try {
+      await updateSettings({ recycle_bin_retention_days: days });
+      toast({
+        title: 'Retention updated',
+        description: `Deleted items can be purged after ${days} days.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save retention.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderRows = (entity: RecycleBinEntity) => {
+    const entityRows = rows[entity];
+    if (entityRows.length === 0) {
+      return <p className="py-6 text-center text-sm text-muted-foreground">Nothing here.</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead>Deleted</TableHead>
+            <TableHead>Deleted By</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entityRows.map(row => {
+            const availableFrom = purgeableFrom(row.record);
+            const canPurge = availableFrom.getTime() <= Date.now();
+            return (
+              <TableRow key={row.id}>
+                <TableCell>
+                  <div className="font-medium">{row.title}</div>
+                  <div className="text-sm text-muted-foreground">{row.detail}</div>
+                </TableCell>
+                <TableCell className="text-sm">{formatDate(row.record.deleted_at!)}</TableCell>
+                <TableCell className="text-sm">
+                  {userEmails.get(row.record.deleted_by || '') || row.record.deleted_by || 'Unknown'}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(row)}>
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => handlePurge(row)}
+                      disabled={!canPurge}
+                      title={canPurge ? undefined : `Can be purged from ${formatDate(availableFrom)}`}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Purge
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Recycle Bin</h1>
+        <p className="text-muted-foreground">Deleted members, payments and messages</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Retention</CardTitle>
+          <CardDescription>
+            Deleted items are kept for at least this many days before they can be purged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="retention_days">Days</Label>
+              <Input
+                id="retention_days"
+                type="number"
+                min={0}
+                className="w-32"
+                value={retentionInput}
+                onChange={(e) => setRetentionInput(e.target.value)}
+                disabled={!can('settings.write')}
+              />
+            </div>
+            <Button onClick={handleSaveRetention} disabled={!can('settings.write')}>Save</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            <Tabs defaultValue="member">
+              <TabsList>
+                <TabsTrigger value="member">Members ({rows.member.length})</TabsTrigger>
+                <TabsTrigger value="payment">Payments ({rows.payment.length})</TabsTrigger>
+                <TabsTrigger value="message">Messages ({rows.message.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="member">{renderRows('member')}</TabsContent>
+              <TabsContent value="payment">{renderRows('payment')}</TabsContent>
+              <TabsContent value="message">{renderRows('message')}</TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
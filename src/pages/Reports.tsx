@@ -1,3 +1,25 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MonthlyReport } from '@/components/reports/MonthlyReport';
+import { AnnualSummary } from '@/components/reports/AnnualSummary';
+import { DonorStatements } from '@/components/reports/DonorStatements';
+
 export function Reports() {
-  return <div>Reports page - Financial reports and analytics will be implemented here</div>;
-}
\ No newline at end of file
+  return (
+    <Tabs defaultValue="monthly" className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="monthly">Monthly</TabsTrigger>
+        <TabsTrigger value="annual">Annual</TabsTrigger>
+        <TabsTrigger value="statements">Donor Statements</TabsTrigger>
+      </TabsList>
+      <TabsContent value="monthly">
+        <MonthlyReport />
+      </TabsContent>
+      <TabsContent value="annual">
+        <AnnualSummary />
+      </TabsContent>
+      <TabsContent value="statements">
+        <DonorStatements />
+      </TabsContent>
+    </Tabs>
+  );
+}
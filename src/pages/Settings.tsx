@@ -1,3 +1,34 @@
+import { DataSourceSettings } from '@/components/settings/DataSourceSettings';
+import { BackupSettings } from '@/components/settings/BackupSettings';
+import { SecuritySettings } from '@/components/settings/SecuritySettings';
+import { BankFormatSettings } from '@/components/settings/BankFormatSettings';
+import { FundSettings } from '@/components/settings/FundSettings';
+import { EmailDeliverySettings } from '@/components/settings/EmailDeliverySettings';
+import { SmsGatewaySettings } from '@/components/settings/SmsGatewaySettings';
+import { AutomationSettings } from '@/components/settings/AutomationSettings';
+import { DeliveryTrackingSettings } from '@/components/settings/DeliveryTrackingSettings';
+import { InboundMailSettings } from '@/components/settings/InboundMailSettings';
+
 export function Settings() {
-  return <div>Settings page - Organization and app configuration will be implemented here</div>;
-}
\ No newline at end of file
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground">Organization and app configuration</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <DataSourceSettings />
+        <BackupSettings />
+        <SecuritySettings />
+        <BankFormatSettings />
+        <FundSettings />
+        <EmailDeliverySettings />
+        <SmsGatewaySettings />
+        <AutomationSettings />
+        <DeliveryTrackingSettings />
+        <InboundMailSettings />
+      </div>
+    </div>
+  );
+}
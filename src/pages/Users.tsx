@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { MoreHorizontal, Edit, KeyRound, UserX, UserCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { UserForm } from '@/components/users/UserForm';
+import { RoleForm } from '@/components/users/RoleForm';
+import { useUsersStore } from '@/store/usersStore';
+import { useAuthStore } from '@/store/authStore';
+import { RoleDefinition, SessionEventType, User } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+import { getRole } from '@/utils/permissions';
+import { generateTemporaryPassword } from '@/utils/passwordUtils';
+import { useToast } from '@/hooks/use-toast';
+
+const SESSION_EVENT_LABELS: Record<SessionEventType, string> = {
+  login: 'Signed in',
+  login_failed: 'Failed sign-in',
+  login_throttled: 'Sign-in delayed',
+  logout: 'Signed out',
+  locked: 'Locked (idle)',
+  unlocked: 'Unlocked',
+  unlock_failed: 'Failed unlock',
+  expired: 'Session expired',
+};
+
+const RECENT_SESSION_EVENTS = 50;
+
+export function Users() {
+  const { users, sessionEvents, fetchUsers, fetchSessionEvents, updateUser, resetPassword, deleteRole } = useUsersStore();
+  const { user: currentUser, roles, checkAuth, fetchRoles } = useAuthStore();
+  const { toast } = useToast();
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [showUserForm, setShowUserForm] = useState(false);
+  const [issuedPassword, setIssuedPassword] = useState<{ user: User; password: string } | null>(null);
+  const [selectedRole, setSelectedRole] = useState<RoleDefinition | null>(null);
+  const [showRoleForm, setShowRoleForm] = useState(false);
+
+  useEffect(() => {
+    fetchUsers();
+    fetchRoles();
+    fetchSessionEvents();
+  }, [fetchUsers, fetchRoles, fetchSessionEvents]);
+
+  const handleDeleteRole = async (role: RoleDefinition) => {
+    if (!confirm(`Delete the ${role.name} role?`)) return;
+
+    try {
+      await deleteRole(role.id);
+      toast({
+        title: 'Role deleted',
+        description: `${role.name} has been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to delete role.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleActive = async (user: User) => {
+    try {
+      await updateUser(user.id, { active: !user.active });
+      toast({
+        title: user.active ? 'User disabled' : 'User enabled',
+        description: `${user.email} has been ${user.active ? 'disabled' : 'enabled'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to update user.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    if (!confirm(`Reset the password for ${user.email}? Their current password will stop working.`)) return;
+
+    try {
+      const password = generateTemporaryPassword();
+      await resetPassword(user.id, password);
+      setIssuedPassword({ user, password });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to reset password.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreated = (user: User, password: string) => {
+    setIssuedPassword({ user, password });
+    // Creating the first real admin retires the demo logins, possibly including this session
+    if (currentUser?.is_demo && user.role === 'admin') {
+      toast({
+        title: 'Demo accounts disabled',
+        description: 'Sign in with the new administrator account to continue.',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Users</h1>
+          <p className="text-muted-foreground">Manage staff accounts and access</p>
+        </div>
+        <Button onClick={() => {
+          setSelectedUser(null);
+          setShowUserForm(true);
+        }}>
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts ({users.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Sign-in</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    <div className="font-medium">{user.full_name}</div>
+                    <div className="text-sm text-muted-foreground">{user.email}</div>
+                  </TableCell>
+                  <TableCell>{getRole(user.role, roles)?.name ?? user.role}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={user.active ? 'default' : 'secondary'}>
+                        {user.active ? 'Active' : 'Disabled'}
+                      </Badge>
+                      {user.is_demo && <Badge variant="outline">Demo</Badge>}
+                      {user.must_change_password && <Badge variant="outline">Password change pending</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {user.last_login_at ? formatDate(user.last_login_at) : 'Never'}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => {
+                          setSelectedUser(user);
+                          setShowUserForm(true);
+                        }}>
+                          <Edit className="w-4 h-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleResetPassword(user)}>
+                          <KeyRound className="w-4 h-4 mr-2" />
+                          Reset Password
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleToggleActive(user)}
+                          disabled={user.id === currentUser?.id}
+                          className={user.active ? 'text-destructive' : undefined}
+                        >
+                          {user.active ? (
+                            <>
+                              <UserX className="w-4 h-4 mr-2" />
+                              Disable
+                            </>
+                          ) : (
+                            <>
+                              <UserCheck className="w-4 h-4 mr-2" />
+                              Enable
+                            </>
+                          )}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Roles ({roles.length})</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => {
+            setSelectedRole(null);
+            setShowRoleForm(true);
+          }}>
+            Add Role
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Users</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.map((role) => (
+                <TableRow key={role.id}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {role.name}
+                      {role.built_in && <Badge variant="outline">Built-in</Badge>}
+                    </div>
+                    {role.description && (
+                      <div className="text-sm text-muted-foreground">{role.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{role.capabilities.length}</TableCell>
+                  <TableCell className="text-sm">{users.filter(u => u.role === role.id).length}</TableCell>
+                  <TableCell>
+                    {!role.built_in && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => {
+                            setSelectedRole(role);
+                            setShowRoleForm(true);
+                          }}>
+                            <Edit className="w-4 h-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleDeleteRole(role)} className="text-destructive">
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sign-in Activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sessionEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sign-in activity recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Email</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessionEvents.slice(0, RECENT_SESSION_EVENTS).map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm">{formatDate(event.occurred_at, 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>
+                      <Badge variant={['login_failed', 'login_throttled', 'unlock_failed'].includes(event.type) ? 'destructive' : 'outline'}>
+                        {SESSION_EVENT_LABELS[event.type]}
+                      </Badge>
+                      {event.detail && <span className="ml-2 text-sm text-muted-foreground">{event.detail}</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">{event.email}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RoleForm
+        role={selectedRole || undefined}
+        open={showRoleForm}
+        onOpenChange={(open) => {
+          setShowRoleForm(open);
+          if (!open) setSelectedRole(null);
+        }}
+      />
+
+      <UserForm
+        user={selectedUser || undefined}
+        open={showUserForm}
+        onOpenChange={(open) => {
+          setShowUserForm(open);
+          if (!open) setSelectedUser(null);
+        }}
+        onCreated={handleCreated}
+      />
+
+      <Dialog
+        open={!!issuedPassword}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIssuedPassword(null);
+            checkAuth();
+          }
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Temporary password</DialogTitle>
+            <DialogDescription>
+              Give this password to {issuedPassword?.user.email}. It is shown only once and must be
+              changed at first sign-in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-lg bg-muted p-4 text-center font-mono text-lg tracking-wider select-all">
+            {issuedPassword?.password}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={() => {
+              setIssuedPassword(null);
+              checkAuth();
+            }}>
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+export interface OutgoingSms {
+  message_id: string; // our Message id, so delivery reports can be traced back
+  to: string; // E.164
+  from?: string; // sender id, where the gateway allows one
+  text: string;
+}
+
+export interface GatewayReceipt {
+  gateway_message_id?: string;
+}
+
+// Like EmailTransport: resolves once the gateway has accepted the message, or
+// throws a DeliveryError saying whether it is worth retrying
+export interface SmsGateway {
+  readonly name: string;
+  send(sms: OutgoingSms): Promise<GatewayReceipt>;
+}
@@ -0,0 +1,54 @@
+import { countSmsSegments } from '@/utils/smsUtils';
+
+export interface CapturedSms {
+  id: string;
+  to: string;
+  from?: string;
+  text: string;
+  segments: number;
+  received_at: string; // ISO
+}
+
+const CAPTURE_LIMIT = 50;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+// A stand-in for an SMS provider's HTTP API, answering the requests the HTTP
+// gateway makes without leaving the browser. Numbers ending in 0000 are
+// rejected as unreachable (422) and ones ending in 9999 get a 503, so the
+// bounce and retry paths can be tried.
+class FakeSmsGateway {
+  private captured: CapturedSms[] = [];
+  private counter = 0;
+
+  fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const body = JSON.parse(String(init?.body ?? '{}')) as { to?: string; from?: string; text?: string };
+    const to = body.to ?? '';
+    if (!E164_PATTERN.test(to) || !body.text) {
+      return Response.json({ message: 'to must be an E.164 number and text is required' }, { status: 400 });
+    }
+    if (to.endsWith('0000')) {
+      return Response.json({ message: `${to} is not reachable` }, { status: 422 });
+    }
+    if (to.endsWith('9999')) {
+      return Response.json({ message: 'Gateway busy, try again later' }, { status: 503 });
+    }
+
+    this.counter += 1;
+    const id = `fake-sms-${this.counter}`;
+    this.captured = [
+      { id, to, from: body.from, text: body.text, segments: countSmsSegments(body.text).segments, received_at: new Date().toISOString() },
+      ...this.captured,
+    ].slice(0, CAPTURE_LIMIT);
+    return Response.json({ id }, { status: 202 });
+  };
+
+  getCaptured(): CapturedSms[] {
+    return [...this.captured];
+  }
+
+  clear(): void {
+    this.captured = [];
+  }
+}
+
+export const fakeSmsGateway = new FakeSmsGateway();
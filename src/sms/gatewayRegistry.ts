@@ -0,0 +1,68 @@
+import { SmsGateway } from './SmsGateway';
+import { createHttpSmsGateway } from './httpSmsGateway';
+import { fakeSmsGateway } from './fakeSmsGateway';
+import { isMissingSecrets, readStoredConfig, writeStoredConfig } from '@/utils/configStorage';
+
+// 'none' is the default: without a gateway, texts stay queued in the outbox
+// until one is configured. 'fake' keeps texts in memory (see fakeSmsGateway)
+// and is only used when picked explicitly
+export type SmsGatewayConfig =
+  | { type: 'none' }
+  | { type: 'fake' }
+  | { type: 'http'; url: string; apiKey?: string };
+
+const CONFIG_STORAGE_KEY = 'sms-gateway-config';
+// Kept in memory for the session only, never in localStorage (see configStorage)
+const SECRET_FIELDS = ['apiKey'] as const;
+
+// undefined until first built from the stored config; null when none is configured
+let currentGateway: SmsGateway | null | undefined;
+
+export function getSmsGatewayConfig(): SmsGatewayConfig {
+  try {
+    const config = readStoredConfig<SmsGatewayConfig>(CONFIG_STORAGE_KEY, SECRET_FIELDS);
+    if (config) {
+      if (config.type === 'fake') return config;
+      if (config.type === 'http' && config.url) return config;
+    }
+  } catch (error) {
+    console.error('Failed to read SMS gateway config:', error);
+  }
+  return { type: 'none' };
+}
+
+export function createSmsGateway(config: SmsGatewayConfig): SmsGateway | null {
+  switch (config.type) {
+    case 'http':
+      return createHttpSmsGateway({ url: config.url, apiKey: config.apiKey });
+    case 'fake':
+      return createHttpSmsGateway({ url: 'fake://sms', fetch: fakeSmsGateway.fetch, name: 'Local fake gateway' });
+    case 'none':
+    default:
+      return null;
+  }
+}
+
+export function setSmsGatewayConfig(config: SmsGatewayConfig): void {
+  writeStoredConfig(CONFIG_STORAGE_KEY, config, SECRET_FIELDS);
+  currentGateway = createSmsGateway(config);
+}
+
+// False after a reload until the gateway's API key is entered again; the
+// outbox holds texts until then rather than send without it
+export function isSmsGatewayReady(): boolean {
+  return !isMissingSecrets(CONFIG_STORAGE_KEY);
+}
+
+// Null when no gateway is configured; the outbox then leaves texts queued
+export function getSmsGateway(): SmsGateway | null {
+  if (currentGateway === undefined) {
+    currentGateway = createSmsGateway(getSmsGatewayConfig());
+  }
+  return currentGateway;
+}
+
+// Injects a gateway directly, bypassing the stored config (useful for tests and mocks)
+export function setSmsGateway(gateway: SmsGateway): void {
+  currentGateway = gateway;
+}
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server, createServer } from 'node:http';
+import { createHttpSmsGateway } from './httpSmsGateway';
+import { DeliveryError } from '@/email/EmailTransport';
+
+const sms = { message_id: 'msg-1', to: '+251911223344', text: 'Thank you for your gift.' };
+
+// A gateway on a local port: the path picks the answer, and accepted texts are kept
+let server: Server;
+let baseUrl: string;
+const received: unknown[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      switch (request.url) {
+        case '/invalid':
+          response.writeHead(422, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify({ message: 'Invalid destination number' }));
+          break;
+        case '/busy':
+          response.writeHead(503, { 'Content-Type': 'text/html' });
+          response.end('<h1>Service Unavailable</h1>');
+          break;
+        default:
+          received.push({ authorization: request.headers.authorization, ...JSON.parse(body) });
+          response.writeHead(202, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify({ id: 'gw-1' }));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('httpSmsGateway', () => {
+  it('posts the text and returns the gateway id', async () => {
+    const gateway = createHttpSmsGateway({ url: `${baseUrl}/send`, apiKey: 'secret' });
+
+    await expect(gateway.send({ ...sms, from: 'DonorHub' })).resolves.toEqual({ gateway_message_id: 'gw-1' });
+    expect(received).toEqual([{
+      authorization: 'Bearer secret',
+      to: '+251911223344',
+      from: 'DonorHub',
+      text: 'Thank you for your gift.',
+      reference: 'msg-1',
+    }]);
+  });
+
+  it('treats a 422 as permanent and passes on the gateway message', async () => {
+    const gateway = createHttpSmsGateway({ url: `${baseUrl}/invalid` });
+
+    const error = await gateway.send(sms).catch(e => e);
+    expect(error).toBeInstanceOf(DeliveryError);
+    expect(error.permanent).toBe(true);
+    expect(error.message).toBe('SMS gateway answered 422: Invalid destination number');
+  });
+
+  it('treats a 503 as worth retrying, even without a JSON body', async () => {
+    const gateway = createHttpSmsGateway({ url: `${baseUrl}/busy` });
+
+    const error = await gateway.send(sms).catch(e => e);
+    expect(error).toBeInstanceOf(DeliveryError);
+    expect(error.permanent).toBe(false);
+    expect(error.message).toBe('SMS gateway answered 503');
+  });
+});
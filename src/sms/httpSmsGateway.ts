@@ -0,0 +1,61 @@
+import { DeliveryError } from '@/email/EmailTransport';
+import { GatewayReceipt, OutgoingSms, SmsGateway } from './SmsGateway';
+
+export interface HttpSmsGatewayOptions {
+  url: string;
+  apiKey?: string;
+  name?: string;
+  fetch?: typeof fetch; // injectable for tests and the fake gateway
+}
+
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+// Posts { to, from, text, reference } as JSON. Most SMS APIs take this shape
+// directly or through a thin proxy; 2xx means the gateway accepted the message.
+class HttpSmsGateway implements SmsGateway {
+  readonly name: string;
+
+  constructor(private options: HttpSmsGatewayOptions) {
+    this.name = options.name ?? 'HTTP SMS gateway';
+  }
+
+  async send(sms: OutgoingSms): Promise<GatewayReceipt> {
+    const doFetch = this.options.fetch ?? fetch;
+    let response: Response;
+    try {
+      response = await doFetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ to: sms.to, from: sms.from, text: sms.text, reference: sms.message_id }),
+      });
+    } catch (error) {
+      throw new DeliveryError(`Could not reach the SMS gateway: ${(error as Error).message}`, false);
+    }
+
+    if (!response.ok) {
+      let message = `SMS gateway answered ${response.status}`;
+      try {
+        const body = await response.json();
+        if (body?.message) message = `${message}: ${body.message}`;
+      } catch {
+        // Non-JSON error body, keep the status alone
+      }
+      const permanent = response.status >= 400 && response.status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(response.status);
+      throw new DeliveryError(message, permanent);
+    }
+
+    try {
+      const body = await response.json();
+      return { gateway_message_id: body?.id ?? body?.message_id };
+    } catch {
+      return {};
+    }
+  }
+}
+
+export function createHttpSmsGateway(options: HttpSmsGatewayOptions): SmsGateway {
+  return new HttpSmsGateway(options);
+}
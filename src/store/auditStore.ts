@@ -0,0 +1,29 @@
+import { create } from 'zustand';
+import { AuditEntry, AuditLogFilter } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+
+interface AuditState {
+  entries: AuditEntry[];
+  isLoading: boolean;
+
+  // Actions
+  fetchAuditLog: (filter?: AuditLogFilter) => Promise<void>;
+}
+
+export const useAuditStore = create<AuditState>((set) => ({
+  entries: [],
+  isLoading: false,
+
+  fetchAuditLog: async (filter) => {
+    requireCapability('audit.view');
+    set({ isLoading: true });
+    try {
+      const entries = await getDataProvider().getAuditLog(filter);
+      set({ entries, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch audit log:', error);
+    }
+  }
+}));
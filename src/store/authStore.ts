@@ -1,57 +1,151 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { User } from '@/types';
-import { localDataProvider } from '@/data/localDataProvider';
+import { Capability, RoleDefinition, Session, User } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { assertCapability, BUILT_IN_ROLES, hasCapability } from '@/utils/permissions';
+import { LoginThrottledError } from '@/utils/sessionUtils';
 
 interface AuthState {
   user: User | null;
+  session: Session | null;
+  roles: RoleDefinition[];
   isLoading: boolean;
+  hasCheckedAuth: boolean;
+  isLocked: boolean;
+  loginError: string | null;
+  showDemoHint: boolean;
+  can: (capability: Capability) => boolean;
+  fetchRoles: () => Promise<void>;
   login: (email: string, password: string) => Promise<boolean>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
+  lock: (reason: 'idle' | 'expired') => Promise<void>;
+  syncSession: () => Promise<void>;
+  unlock: (password: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  checkDemoAccounts: () => Promise<void>;
 }
 
-export const useAuthStore = create<AuthState>()(
-  persist(
-    (set, get) => ({
-      user: null,
-      isLoading: false,
-
-      login: async (email: string, password: string) => {
-        set({ isLoading: true });
-        try {
-          const user = await localDataProvider.login(email, password);
-          if (user) {
-            set({ user, isLoading: false });
-            return true;
-          } else {
-            set({ isLoading: false });
-            return false;
-          }
-        } catch (error) {
-          set({ isLoading: false });
-          return false;
-        }
-      },
-
-      logout: async () => {
-        await localDataProvider.logout();
-        set({ user: null });
-      },
-
-      checkAuth: async () => {
-        set({ isLoading: true });
-        try {
-          const user = await localDataProvider.getCurrentUser();
-          set({ user, isLoading: false });
-        } catch (error) {
-          set({ user: null, isLoading: false });
-        }
+export const useAuthStore = create<AuthState>((set, get) => ({
+  user: null,
+  session: null,
+  roles: BUILT_IN_ROLES,
+  isLoading: false,
+  hasCheckedAuth: false,
+  isLocked: false,
+  loginError: null,
+  showDemoHint: false,
+
+  can: (capability: Capability) => {
+    const { user, roles } = get();
+    return hasCapability(user, roles, capability);
+  },
+
+  fetchRoles: async () => {
+    try {
+      const roles = await getDataProvider().getRoles();
+      set({ roles });
+    } catch (error) {
+      console.error('Failed to fetch roles:', error);
+    }
+  },
+
+  login: async (email: string, password: string) => {
+    set({ isLoading: true, loginError: null });
+    try {
+      const user = await getDataProvider().login(email, password);
+      if (user) {
+        const session = await getDataProvider().getSession();
+        await get().fetchRoles();
+        set({ user, session, isLocked: false, isLoading: false });
+        return true;
+      } else {
+        set({ isLoading: false, loginError: 'Invalid email or password.' });
+        return false;
+      }
+    } catch (error) {
+      set({
+        isLoading: false,
+        loginError: error instanceof LoginThrottledError ? error.message : 'Sign-in failed. Please try again.',
+      });
+      return false;
+    }
+  },
+
+  logout: async () => {
+    await getDataProvider().logout();
+    set({ user: null, session: null, isLocked: false });
+  },
+
+  // Roles are loaded before the user is set, so a custom role's capabilities
+  // are known by the time routes check them
+  checkAuth: async () => {
+    // Earlier versions persisted the signed-in user under 'auth-storage' with
+    // no expiry; the provider's session is now the only source of truth
+    localStorage.removeItem('auth-storage');
+    set({ isLoading: true });
+    try {
+      const user = await getDataProvider().getCurrentUser();
+      const session = user ? await getDataProvider().getSession() : null;
+      if (user) await get().fetchRoles();
+      set({ user, session, isLocked: false, isLoading: false, hasCheckedAuth: true });
+    } catch (error) {
+      set({ user: null, session: null, isLoading: false, hasCheckedAuth: true });
+    }
+  },
+
+  // The user stays in state so the screen underneath, including any
+  // half-filled form, is still there after unlocking
+  lock: async (reason) => {
+    if (get().isLocked) return;
+    set({ isLocked: true });
+    try {
+      await getDataProvider().lockSession(reason);
+    } catch (error) {
+      console.error('Failed to lock session:', error);
+    }
+  },
+
+  // Tabs share one session, so a lock, unlock or sign-out in another tab is
+  // picked up here when this one checks back
+  syncSession: async () => {
+    const { user, isLocked } = get();
+    if (!user) return;
+    try {
+      const session = await getDataProvider().getSession();
+      if (!session || session.user_id !== user.id) {
+        await get().checkAuth();
+      } else if (!!session.locked_at !== isLocked) {
+        set({ session, isLocked: !!session.locked_at });
       }
-    }),
-    {
-      name: 'auth-storage',
-      partialize: (state) => ({ user: state.user }),
+    } catch (error) {
+      console.error('Failed to check session:', error);
     }
-  )
-);
\ No newline at end of file
+  },
+
+  unlock: async (password: string) => {
+    const user = await getDataProvider().unlockSession(password);
+    const session = await getDataProvider().getSession();
+    set({ user, session, isLocked: false });
+  },
+
+  changePassword: async (currentPassword: string, newPassword: string) => {
+    const user = await getDataProvider().changePassword(currentPassword, newPassword);
+    set({ user });
+  },
+
+  checkDemoAccounts: async () => {
+    try {
+      const showDemoHint = await getDataProvider().hasDemoAccounts();
+      set({ showDemoHint });
+    } catch (error) {
+      set({ showDemoHint: false });
+    }
+  }
+}));
+
+// Store actions call this before touching the provider so a denied action fails
+// fast with a clear message; the provider enforces the same rule again.
+export function requireCapability(capability: Capability): void {
+  const { user, roles } = useAuthStore.getState();
+  assertCapability(user, roles, capability);
+}
@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { AutomationRun, Message, Payment } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { useMessagesStore } from './messagesStore';
+import { countSent, runAutomation, thankForPayment } from '@/automation/automationRunner';
+
+interface AutomationState {
+  runs: AutomationRun[];
+  isLoading: boolean;
+  isRunning: boolean;
+
+  // Actions
+  fetchRuns: () => Promise<void>;
+  runAutomation: (trigger: AutomationRun['trigger']) => Promise<AutomationRun | null>; // null when a run is already in progress
+  kickAutomation: () => void; // a scheduled run in the background
+  thankForPayment: (payment: Payment) => Promise<Message[]>; // empty when the thank-you rule is off
+}
+
+// New messages are queued by the provider, so the messages store reloads and the outbox picks them up
+async function refreshMessages(): Promise<void> {
+  const messages = useMessagesStore.getState();
+  await messages.fetchMessages();
+  messages.kickOutbox();
+}
+
+export const useAutomationStore = create<AutomationState>((set, get) => ({
+  runs: [],
+  isLoading: false,
+  isRunning: false,
+
+  fetchRuns: async () => {
+    set({ isLoading: true });
+    try {
+      const runs = await getDataProvider().getAutomationRuns();
+      set({ runs, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch automation runs:', error);
+    }
+  },
+
+  runAutomation: async (trigger) => {
+    requireCapability('messages.bulk_send');
+    if (get().isRunning) return null;
+    set({ isRunning: true });
+    try {
+      const provider = getDataProvider();
+      const run = await runAutomation(provider, trigger);
+      if (countSent(run) > 0) await refreshMessages();
+      set({ runs: await provider.getAutomationRuns() });
+      return run;
+    } finally {
+      set({ isRunning: false });
+    }
+  },
+
+  kickAutomation: () => {
+    get().runAutomation('schedule').catch(error => console.error('Failed to run automation:', error));
+  },
+
+  thankForPayment: async (payment) => {
+    requireCapability('messages.send');
+    const messages = await thankForPayment(getDataProvider(), payment);
+    if (messages.length > 0) await refreshMessages();
+    return messages;
+  },
+}));
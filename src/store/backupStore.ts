@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { ImportMode, ImportReport } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { ImportValidationError } from '@/data/importValidation';
+import { useMembersStore } from './membersStore';
+import { usePaymentsStore } from './paymentsStore';
+import { useInstallmentsStore } from './installmentsStore';
+import { useMessagesStore } from './messagesStore';
+import { useSettingsStore } from './settingsStore';
+import { useSegmentsStore } from './segmentsStore';
+import { useFundsStore } from './fundsStore';
+
+interface BackupState {
+  isWorking: boolean;
+  report: ImportReport | null;
+
+  // Actions
+  exportBackup: () => Promise<string>;
+  checkImport: (jsonData: string, mode: ImportMode) => Promise<ImportReport>;
+  applyImport: (jsonData: string, mode: ImportMode) => Promise<ImportReport>;
+  clearReport: () => void;
+}
+
+export const useBackupStore = create<BackupState>((set) => ({
+  isWorking: false,
+  report: null,
+
+  exportBackup: async () => {
+    requireCapability('data.export');
+    return getDataProvider().exportData();
+  },
+
+  checkImport: async (jsonData, mode) => {
+    requireCapability('data.import');
+    set({ isWorking: true });
+    try {
+      const report = await getDataProvider().importData(jsonData, { mode, dryRun: true });
+      set({ report, isWorking: false });
+      return report;
+    } catch (error) {
+      set({ isWorking: false });
+      throw error;
+    }
+  },
+
+  applyImport: async (jsonData, mode) => {
+    requireCapability('data.import');
+    set({ isWorking: true });
+    try {
+      const report = await getDataProvider().importData(jsonData, { mode });
+      set({ report, isWorking: false });
+
+      // Everything cached in the other stores may now be stale
+      await Promise.all([
+        useMembersStore.getState().fetchMembers(),
+        usePaymentsStore.getState().fetchPayments(),
+        useInstallmentsStore.getState().fetchInstallments(),
+        useMessagesStore.getState().fetchMessages(),
+        useSettingsStore.getState().fetchSettings(),
+        useSegmentsStore.getState().fetchSegments(),
+        useFundsStore.getState().fetchFunds(),
+      ]);
+      return report;
+    } catch (error) {
+      if (error instanceof ImportValidationError) {
+        set({ report: error.report });
+      }
+      set({ isWorking: false });
+      throw error;
+    }
+  },
+
+  clearReport: () => {
+    set({ report: null });
+  }
+}));
@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import { Message, NewsletterCampaign, NewsletterCampaignInput } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { useMessagesStore } from './messagesStore';
+import { advanceCampaign, CampaignRunResult, runCampaigns } from '@/campaigns/campaignRunner';
+
+interface CampaignsState {
+  campaigns: NewsletterCampaign[];
+  isLoading: boolean;
+  isRunning: boolean;
+
+  // Actions
+  fetchCampaigns: () => Promise<void>;
+  saveCampaign: (campaign: NewsletterCampaignInput & { id?: string }) => Promise<NewsletterCampaign>;
+  cancelCampaign: (id: string) => Promise<NewsletterCampaign>;
+  sendNow: (id: string) => Promise<Message[] | null>; // the next stage without waiting; null when it was already sent
+  runCampaigns: () => Promise<CampaignRunResult | null>; // null when a run is already in progress
+  kickCampaigns: () => void; // runCampaigns in the background
+}
+
+// New messages are queued by the provider, so the messages store reloads and the outbox picks them up
+async function refreshMessages(): Promise<void> {
+  const messages = useMessagesStore.getState();
+  await messages.fetchMessages();
+  messages.kickOutbox();
+}
+
+export const useCampaignsStore = create<CampaignsState>((set, get) => ({
+  campaigns: [],
+  isLoading: false,
+  isRunning: false,
+
+  fetchCampaigns: async () => {
+    set({ isLoading: true });
+    try {
+      const campaigns = await getDataProvider().getCampaigns();
+      set({ campaigns, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch campaigns:', error);
+    }
+  },
+
+  saveCampaign: async (campaignData) => {
+    requireCapability('messages.bulk_send');
+    const campaign = await getDataProvider().saveCampaign(campaignData);
+    const { campaigns } = get();
+    const exists = campaigns.some(c => c.id === campaign.id);
+    set({ campaigns: exists ? campaigns.map(c => c.id === campaign.id ? campaign : c) : [campaign, ...campaigns] });
+    return campaign;
+  },
+
+  cancelCampaign: async (id) => {
+    requireCapability('messages.bulk_send');
+    const campaign = await getDataProvider().cancelCampaign(id);
+    set({ campaigns: get().campaigns.map(c => c.id === id ? campaign : c) });
+    return campaign;
+  },
+
+  sendNow: async (id) => {
+    requireCapability('messages.bulk_send');
+    const provider = getDataProvider();
+    const campaign = (await provider.getCampaigns()).find(c => c.id === id);
+    if (!campaign) throw new Error('Campaign not found');
+
+    const messages = await advanceCampaign(provider, campaign, new Date(), true);
+    set({ campaigns: await provider.getCampaigns() });
+    if (messages && messages.length > 0) await refreshMessages();
+    return messages;
+  },
+
+  runCampaigns: async () => {
+    requireCapability('messages.bulk_send');
+    if (get().isRunning) return null;
+    set({ isRunning: true });
+    try {
+      const provider = getDataProvider();
+      const result = await runCampaigns(provider);
+      result.failed.forEach(({ campaign, error }) => console.error(`Failed to send ${campaign.name}:`, error));
+      if (result.advanced.length > 0) {
+        set({ campaigns: await provider.getCampaigns() });
+        await refreshMessages();
+      }
+      return result;
+    } finally {
+      set({ isRunning: false });
+    }
+  },
+
+  kickCampaigns: () => {
+    get().runCampaigns().catch(error => console.error('Failed to run campaigns:', error));
+  },
+}));
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { Fund, FundInput } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+
+interface FundsState {
+  funds: Fund[];
+  isLoading: boolean;
+
+  // Actions
+  fetchFunds: () => Promise<void>;
+  saveFund: (fund: FundInput & { id?: string }) => Promise<Fund>;
+  archiveFund: (id: string, archived: boolean) => Promise<Fund>;
+  deleteFund: (id: string) => Promise<void>;
+}
+
+export const useFundsStore = create<FundsState>((set, get) => ({
+  funds: [],
+  isLoading: false,
+
+  fetchFunds: async () => {
+    set({ isLoading: true });
+    try {
+      const funds = await getDataProvider().getFunds();
+      set({ funds, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch funds:', error);
+    }
+  },
+
+  saveFund: async (fundData) => {
+    requireCapability('funds.manage');
+    const fund = await getDataProvider().saveFund(fundData);
+    const others = get().funds.filter(f => f.id !== fund.id);
+    set({ funds: [...others, fund].sort((a, b) => a.name.localeCompare(b.name)) });
+    return fund;
+  },
+
+  archiveFund: async (id, archived) => {
+    requireCapability('funds.manage');
+    const fund = await getDataProvider().archiveFund(id, archived);
+    set({ funds: get().funds.map(f => f.id === id ? fund : f) });
+    return fund;
+  },
+
+  deleteFund: async (id) => {
+    requireCapability('funds.manage');
+    await getDataProvider().deleteFund(id);
+    set({ funds: get().funds.filter(f => f.id !== id) });
+  },
+}));
@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { InboundMessage, MessageThread, StaffMember } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { checkMailbox, handleInboundWebhook, InboundResult } from '@/email/inbound';
+import { isMailboxReady } from '@/email/mailboxRegistry';
+
+interface InboxState {
+  inbound: InboundMessage[];
+  threads: MessageThread[];
+  staff: StaffMember[];
+  isLoading: boolean;
+  isChecking: boolean;
+
+  // Actions
+  fetchInbox: () => Promise<void>;
+  checkMailbox: () => Promise<InboundResult | null>; // null when a check is already in progress
+  kickMailbox: () => void; // checkMailbox in the background
+  recordInbound: (payload: unknown) => Promise<InboundResult>; // an inbound webhook body
+  markThreadRead: (memberId: string) => Promise<void>;
+  linkToMember: (id: string, memberId: string) => Promise<void>;
+  assignThread: (memberId: string, userId: string | null) => Promise<void>;
+  getThreadMessages: (memberId: string) => InboundMessage[];
+  getUnreadCount: (memberId?: string) => number; // across the inbox when no member is given
+}
+
+export const useInboxStore = create<InboxState>((set, get) => ({
+  inbound: [],
+  threads: [],
+  staff: [],
+  isLoading: false,
+  isChecking: false,
+
+  fetchInbox: async () => {
+    set({ isLoading: true });
+    try {
+      const provider = getDataProvider();
+      const [inbound, threads, staff] = await Promise.all([
+        provider.getInboundMessages(),
+        provider.getMessageThreads(),
+        provider.getStaff(),
+      ]);
+      set({ inbound, threads, staff, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch inbox:', error);
+    }
+  },
+
+  checkMailbox: async () => {
+    requireCapability('messages.send');
+    if (get().isChecking) return null;
+    if (!isMailboxReady()) throw new Error('Enter the mailbox password again in Settings to check for replies.');
+    set({ isChecking: true });
+    try {
+      const provider = getDataProvider();
+      const result = await checkMailbox(provider);
+      if (result.recorded > 0) set({ inbound: await provider.getInboundMessages() });
+      return result;
+    } finally {
+      set({ isChecking: false });
+    }
+  },
+
+  kickMailbox: () => {
+    if (!isMailboxReady()) return;
+    get().checkMailbox().catch(error => console.error('Failed to check the mailbox:', error));
+  },
+
+  recordInbound: async (payload) => {
+    requireCapability('messages.send');
+    const provider = getDataProvider();
+    const result = await handleInboundWebhook(provider, payload);
+    if (result.recorded > 0) set({ inbound: await provider.getInboundMessages() });
+    return result;
+  },
+
+  markThreadRead: async (memberId) => {
+    requireCapability('messages.send');
+    const unread = get().getThreadMessages(memberId).filter(message => !message.read_at);
+    if (unread.length === 0) return;
+    const provider = getDataProvider();
+    await provider.markInboundRead(unread.map(message => message.id));
+    set({ inbound: await provider.getInboundMessages() });
+  },
+
+  linkToMember: async (id, memberId) => {
+    requireCapability('messages.send');
+    const message = await getDataProvider().linkInboundMessage(id, memberId);
+    set({ inbound: get().inbound.map(m => m.id === id ? message : m) });
+  },
+
+  assignThread: async (memberId, userId) => {
+    requireCapability('messages.send');
+    const thread = await getDataProvider().assignThread(memberId, userId);
+    set({ threads: [...get().threads.filter(t => t.member_id !== memberId), thread] });
+  },
+
+  getThreadMessages: (memberId) => {
+    return get().inbound.filter(message => message.member_id === memberId);
+  },
+
+  getUnreadCount: (memberId) => {
+    return get().inbound.filter(message => !message.read_at && (!memberId || message.member_id === memberId)).length;
+  },
+}));
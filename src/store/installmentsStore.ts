@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { Installment, InstallmentResolution } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+
+interface InstallmentsState {
+  installments: Installment[];
+  isLoading: boolean;
+
+  // Actions
+  fetchInstallments: () => Promise<void>;
+  fetchMemberInstallments: (memberId: string) => Promise<void>;
+  resolveInstallment: (id: string, resolution: InstallmentResolution | null, note?: string) => Promise<void>;
+  getInstallmentsByMember: (memberId: string) => Installment[];
+}
+
+export const useInstallmentsStore = create<InstallmentsState>((set, get) => ({
+  installments: [],
+  isLoading: false,
+
+  // Also regenerates schedules, so call it again after members or payments change
+  fetchInstallments: async () => {
+    set({ isLoading: true });
+    try {
+      const installments = await getDataProvider().getInstallments();
+      set({ installments, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch installments:', error);
+    }
+  },
+
+  fetchMemberInstallments: async (memberId) => {
+    const memberInstallments = await getDataProvider().getInstallmentsByMember(memberId);
+    const { installments } = get();
+    set({
+      installments: [
+        ...installments.filter(installment => installment.member_id !== memberId),
+        ...memberInstallments,
+      ],
+    });
+  },
+
+  resolveInstallment: async (id, resolution, note) => {
+    requireCapability('payments.edit');
+    const updated = await getDataProvider().resolveInstallment(id, resolution, note);
+    // Allocation moves on to the member's other installments, so reload them all
+    await get().fetchMemberInstallments(updated.member_id);
+  },
+
+  getInstallmentsByMember: (memberId) => {
+    const { installments } = get();
+    return installments.filter(installment => installment.member_id === memberId);
+  }
+}));
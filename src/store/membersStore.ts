@@ -1,6 +1,10 @@
 import { create } from 'zustand';
 import { Member } from '@/types';
-import { localDataProvider } from '@/data/localDataProvider';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { usePaymentsStore } from './paymentsStore';
+import { useMessagesStore } from './messagesStore';
+import { useInstallmentsStore } from './installmentsStore';
 
 interface MembersState {
   members: Member[];
@@ -27,7 +31,7 @@ export const useMembersStore = create<MembersState>((set, get) => ({
   fetchMembers: async () => {
     set({ isLoading: true });
     try {
-      const members = await localDataProvider.getMembers();
+      const members = await getDataProvider().getMembers();
       set({ members, isLoading: false });
     } catch (error) {
       set({ isLoading: false });
@@ -36,28 +40,41 @@ export const useMembersStore = create<MembersState>((set, get) => ({
   },
 
   createMember: async (memberData) => {
-    const member = await localDataProvider.createMember(memberData);
+    requireCapability('members.create');
+    const member = await getDataProvider().createMember(memberData);
     const { members } = get();
     set({ members: [...members, member] });
+    await useInstallmentsStore.getState().fetchMemberInstallments(member.id);
     return member;
   },
 
   updateMember: async (id, updates) => {
-    const updatedMember = await localDataProvider.updateMember(id, updates);
+    requireCapability('members.edit');
+    const updatedMember = await getDataProvider().updateMember(id, updates);
     const { members } = get();
     set({ 
       members: members.map(m => m.id === id ? updatedMember : m),
       selectedMember: get().selectedMember?.id === id ? updatedMember : get().selectedMember
     });
+    // Amount, frequency, start date or active status may have changed the schedule
+    await useInstallmentsStore.getState().fetchMemberInstallments(id);
   },
 
   deleteMember: async (id) => {
-    await localDataProvider.deleteMember(id);
+    requireCapability('members.delete');
+    await getDataProvider().deleteMember(id);
     const { members } = get();
     set({ 
       members: members.filter(m => m.id !== id),
       selectedMember: get().selectedMember?.id === id ? null : get().selectedMember
     });
+
+    // Their payments and messages went to the recycle bin too
+    await Promise.all([
+      usePaymentsStore.getState().fetchPayments(),
+      useMessagesStore.getState().fetchMessages(),
+      useInstallmentsStore.getState().fetchInstallments(),
+    ]);
   },
 
   setSelectedMember: (member) => {
@@ -69,11 +86,13 @@ export const useMembersStore = create<MembersState>((set, get) => ({
   },
 
   importMembers: async (newMembers) => {
+    requireCapability('members.create');
     const promises = newMembers.map(member => 
-      localDataProvider.createMember(member)
+      getDataProvider().createMember(member)
     );
     const createdMembers = await Promise.all(promises);
     const { members } = get();
     set({ members: [...members, ...createdMembers] });
+    await useInstallmentsStore.getState().fetchInstallments();
   }
 }));
\ No newline at end of file
@@ -1,27 +1,38 @@
 import { create } from 'zustand';
 import { Message } from '@/types';
-import { localDataProvider } from '@/data/localDataProvider';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { getEmailTransport, isEmailTransportReady } from '@/email/transportRegistry';
+import { getSmsGateway, isSmsGatewayReady } from '@/sms/gatewayRegistry';
+import { processOutbox, OutboxResult } from '@/email/deliveryQueue';
+import { handleDeliveryWebhook, WebhookResult } from '@/email/deliveryEvents';
 
 interface MessagesState {
   messages: Message[];
   isLoading: boolean;
+  isDelivering: boolean;
   
   // Actions
   fetchMessages: () => Promise<void>;
   createMessage: (message: Omit<Message, 'id'>) => Promise<Message>;
+  createMessages: (messages: Omit<Message, 'id'>[]) => Promise<Message[]>;
   deleteMessage: (id: string) => Promise<void>;
   getMessagesByMember: (memberId: string) => Message[];
-  createBulkReminders: (memberIds: string[]) => Promise<Message[]>;
+  processOutbox: () => Promise<OutboxResult | null>; // null when a run is already in progress
+  kickOutbox: () => void; // processOutbox in the background, for right after queueing
+  retryMessage: (id: string) => Promise<void>;
+  recordDeliveryEvents: (payload: unknown) => Promise<WebhookResult>; // a webhook body; members may change too, so refetch them
 }
 
 export const useMessagesStore = create<MessagesState>((set, get) => ({
   messages: [],
   isLoading: false,
+  isDelivering: false,
 
   fetchMessages: async () => {
     set({ isLoading: true });
     try {
-      const messages = await localDataProvider.getMessages();
+      const messages = await getDataProvider().getMessages();
       set({ messages, isLoading: false });
     } catch (error) {
       set({ isLoading: false });
@@ -30,14 +41,26 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
   },
 
   createMessage: async (messageData) => {
-    const message = await localDataProvider.createMessage(messageData);
+    requireCapability('messages.send');
+    const message = await getDataProvider().createMessage(messageData);
     const { messages } = get();
     set({ messages: [...messages, message] });
+    get().kickOutbox();
     return message;
   },
 
+  createMessages: async (messagesData) => {
+    requireCapability('messages.bulk_send');
+    const createdMessages = await getDataProvider().createMessages(messagesData);
+    const { messages } = get();
+    set({ messages: [...messages, ...createdMessages] });
+    get().kickOutbox();
+    return createdMessages;
+  },
+
   deleteMessage: async (id) => {
-    await localDataProvider.deleteMessage(id);
+    requireCapability('messages.delete');
+    await getDataProvider().deleteMessage(id);
     const { messages } = get();
     set({ messages: messages.filter(m => m.id !== id) });
   },
@@ -47,25 +70,50 @@ export const useMessagesStore = create<MessagesState>((set, get) => ({
     return messages.filter(m => m.member_id === memberId);
   },
 
-  createBulkReminders: async (memberIds) => {
-    const createdMessages: Message[] = [];
-    
-    for (const memberId of memberIds) {
-      const messageData = {
-        member_id: memberId,
-        message_type: 'reminder' as const,
-        message_subject: 'Payment Reminder',
-        message_content: 'Your membership contribution is due soon. Please make your payment to continue supporting our cause.',
-        sent_at: new Date().toISOString(),
-        channel: 'email' as const
-      };
-      
-      const message = await localDataProvider.createMessage(messageData);
-      createdMessages.push(message);
+  processOutbox: async () => {
+    requireCapability('messages.send');
+    if (get().isDelivering) return null;
+    set({ isDelivering: true });
+    try {
+      const provider = getDataProvider();
+      const result = await processOutbox(provider, {
+        email: isEmailTransportReady() ? getEmailTransport() : null,
+        sms: isSmsGatewayReady() ? getSmsGateway() : null,
+      });
+      if (result.sent + result.retrying + result.failed > 0) {
+        set({ messages: await provider.getMessages() });
+      }
+      return result;
+    } finally {
+      set({ isDelivering: false });
     }
-    
+  },
+
+  kickOutbox: () => {
+    get().processOutbox().catch(error => console.error('Failed to process outbox:', error));
+  },
+
+  // Puts a failed, bounced or waiting message back at the front of the outbox
+  retryMessage: async (id) => {
+    requireCapability('messages.send');
+    const message = await getDataProvider().updateMessageDelivery(id, {
+      delivery_status: 'queued',
+      delivery_attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: undefined,
+    });
     const { messages } = get();
-    set({ messages: [...messages, ...createdMessages] });
-    return createdMessages;
-  }
+    set({ messages: messages.map(m => m.id === id ? message : m) });
+    await get().processOutbox();
+  },
+
+  recordDeliveryEvents: async (payload) => {
+    requireCapability('messages.send');
+    const provider = getDataProvider();
+    const result = await handleDeliveryWebhook(provider, payload);
+    if (result.recorded > 0) {
+      set({ messages: await provider.getMessages() });
+    }
+    return result;
+  },
 }));
\ No newline at end of file
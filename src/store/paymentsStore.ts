@@ -1,6 +1,9 @@
 import { create } from 'zustand';
-import { Payment } from '@/types';
-import { localDataProvider } from '@/data/localDataProvider';
+import { Payment, PaymentReversal } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { useInstallmentsStore } from './installmentsStore';
+import { useReceiptsStore } from './receiptsStore';
 
 interface PaymentsState {
   payments: Payment[];
@@ -9,8 +12,10 @@ interface PaymentsState {
   // Actions
   fetchPayments: () => Promise<void>;
   createPayment: (payment: Omit<Payment, 'id'>) => Promise<Payment>;
+  createPayments: (payments: Omit<Payment, 'id'>[]) => Promise<Payment[]>;
   updatePayment: (id: string, updates: Partial<Payment>) => Promise<void>;
   deletePayment: (id: string) => Promise<void>;
+  reversePayment: (id: string, reversal: PaymentReversal) => Promise<Payment>;
   getPaymentsByMember: (memberId: string) => Payment[];
 }
 
@@ -21,7 +26,7 @@ export const usePaymentsStore = create<PaymentsState>((set, get) => ({
   fetchPayments: async () => {
     set({ isLoading: true });
     try {
-      const payments = await localDataProvider.getPayments();
+      const payments = await getDataProvider().getPayments();
       set({ payments, isLoading: false });
     } catch (error) {
       set({ isLoading: false });
@@ -30,22 +35,70 @@ export const usePaymentsStore = create<PaymentsState>((set, get) => ({
   },
 
   createPayment: async (paymentData) => {
-    const payment = await localDataProvider.createPayment(paymentData);
+    requireCapability('payments.create');
+    const payment = await getDataProvider().createPayment(paymentData);
     const { payments } = get();
     set({ payments: [...payments, payment] });
+    await useInstallmentsStore.getState().fetchMemberInstallments(payment.member_id);
     return payment;
   },
 
+  // Each payment is saved and audited on its own; if one fails, the ones before it stay
+  createPayments: async (paymentsData) => {
+    requireCapability('payments.create');
+    const provider = getDataProvider();
+    const created: Payment[] = [];
+    try {
+      for (const paymentData of paymentsData) {
+        created.push(await provider.createPayment(paymentData));
+      }
+    } finally {
+      const { payments } = get();
+      set({ payments: [...payments, ...created] });
+      await useInstallmentsStore.getState().fetchInstallments();
+    }
+    return created;
+  },
+
   updatePayment: async (id, updates) => {
-    const updatedPayment = await localDataProvider.updatePayment(id, updates);
+    requireCapability('payments.edit');
+    const previous = get().payments.find(p => p.id === id);
+    const updatedPayment = await getDataProvider().updatePayment(id, updates);
     const { payments } = get();
     set({ payments: payments.map(p => p.id === id ? updatedPayment : p) });
+
+    // The payment may have moved to another member, whose schedule changes too.
+    // The provider voids or reissues its receipt when the printed fields change.
+    const memberIds = new Set([previous?.member_id, updatedPayment.member_id].filter((memberId): memberId is string => !!memberId));
+    await Promise.all([
+      ...[...memberIds].map(memberId => useInstallmentsStore.getState().fetchMemberInstallments(memberId)),
+      useReceiptsStore.getState().fetchReceipts(),
+    ]);
   },
 
   deletePayment: async (id) => {
-    await localDataProvider.deletePayment(id);
+    requireCapability('payments.delete');
+    const payment = get().payments.find(p => p.id === id);
+    await getDataProvider().deletePayment(id);
     const { payments } = get();
     set({ payments: payments.filter(p => p.id !== id) });
+    await Promise.all([
+      payment && useInstallmentsStore.getState().fetchMemberInstallments(payment.member_id),
+      useReceiptsStore.getState().fetchReceipts(),
+    ]);
+  },
+
+  // Both the original (now marked) and the new entry change, so reload the list.
+  // The provider voids or reissues the original's receipt too.
+  reversePayment: async (id, reversal) => {
+    requireCapability('payments.reverse');
+    const entry = await getDataProvider().reversePayment(id, reversal);
+    await get().fetchPayments();
+    await Promise.all([
+      useInstallmentsStore.getState().fetchMemberInstallments(entry.member_id),
+      useReceiptsStore.getState().fetchReceipts(),
+    ]);
+    return entry;
   },
 
   getPaymentsByMember: (memberId) => {
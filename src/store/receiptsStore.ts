@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { Receipt } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { getActiveReceipt } from '@/utils/receiptUtils';
+
+interface ReceiptsState {
+  receipts: Receipt[];
+  isLoading: boolean;
+
+  // Actions
+  fetchReceipts: () => Promise<void>;
+  issueReceipt: (paymentId: string) => Promise<Receipt>;
+  voidReceipt: (id: string, reason: string) => Promise<Receipt>;
+  getActiveReceipt: (paymentId: string) => Receipt | undefined;
+}
+
+export const useReceiptsStore = create<ReceiptsState>((set, get) => ({
+  receipts: [],
+  isLoading: false,
+
+  fetchReceipts: async () => {
+    set({ isLoading: true });
+    try {
+      const receipts = await getDataProvider().getReceipts();
+      set({ receipts, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch receipts:', error);
+    }
+  },
+
+  issueReceipt: async (paymentId) => {
+    requireCapability('payments.create');
+    const receipt = await getDataProvider().issueReceipt(paymentId);
+    const { receipts } = get();
+    set({ receipts: [...receipts, receipt] });
+    return receipt;
+  },
+
+  voidReceipt: async (id, reason) => {
+    requireCapability('receipts.void');
+    const updated = await getDataProvider().voidReceipt(id, reason);
+    const { receipts } = get();
+    set({ receipts: receipts.map(receipt => receipt.id === id ? updated : receipt) });
+    return updated;
+  },
+
+  getActiveReceipt: (paymentId) => getActiveReceipt(get().receipts, paymentId),
+}));
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { RecycleBin, RecycleBinEntity } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { useMembersStore } from './membersStore';
+import { usePaymentsStore } from './paymentsStore';
+import { useInstallmentsStore } from './installmentsStore';
+import { useMessagesStore } from './messagesStore';
+
+interface RecycleBinState {
+  bin: RecycleBin;
+  isLoading: boolean;
+
+  // Actions
+  fetchRecycleBin: () => Promise<void>;
+  restore: (entity: RecycleBinEntity, id: string) => Promise<void>;
+  purge: (entity: RecycleBinEntity, id: string) => Promise<void>;
+}
+
+export const useRecycleBinStore = create<RecycleBinState>((set, get) => ({
+  bin: { members: [], payments: [], messages: [] },
+  isLoading: false,
+
+  fetchRecycleBin: async () => {
+    set({ isLoading: true });
+    try {
+      const bin = await getDataProvider().getRecycleBin();
+      set({ bin, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch recycle bin:', error);
+    }
+  },
+
+  restore: async (entity, id) => {
+    requireCapability('recycle_bin.manage');
+    await getDataProvider().restoreDeleted(entity, id);
+
+    // A restored member brings related records back too, so reload everything it touches
+    await Promise.all([
+      get().fetchRecycleBin(),
+      useMembersStore.getState().fetchMembers(),
+      usePaymentsStore.getState().fetchPayments(),
+      useInstallmentsStore.getState().fetchInstallments(),
+      useMessagesStore.getState().fetchMessages(),
+    ]);
+  },
+
+  purge: async (entity, id) => {
+    requireCapability('recycle_bin.manage');
+    await getDataProvider().purgeDeleted(entity, id);
+    await get().fetchRecycleBin();
+  }
+}));
@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { MemberSegment, MemberSegmentInput } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+
+interface SegmentsState {
+  segments: MemberSegment[];
+  isLoading: boolean;
+
+  // Actions
+  fetchSegments: () => Promise<void>;
+  saveSegment: (segment: MemberSegmentInput & { id?: string }) => Promise<MemberSegment>;
+  deleteSegment: (id: string) => Promise<void>;
+}
+
+export const useSegmentsStore = create<SegmentsState>((set, get) => ({
+  segments: [],
+  isLoading: false,
+
+  fetchSegments: async () => {
+    set({ isLoading: true });
+    try {
+      const segments = await getDataProvider().getSegments();
+      set({ segments, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch segments:', error);
+    }
+  },
+
+  saveSegment: async (segmentData) => {
+    requireCapability('segments.manage');
+    const segment = await getDataProvider().saveSegment(segmentData);
+    const others = get().segments.filter(s => s.id !== segment.id);
+    set({ segments: [...others, segment].sort((a, b) => a.name.localeCompare(b.name)) });
+    return segment;
+  },
+
+  deleteSegment: async (id) => {
+    requireCapability('segments.manage');
+    await getDataProvider().deleteSegment(id);
+    set({ segments: get().segments.filter(s => s.id !== id) });
+  },
+}));
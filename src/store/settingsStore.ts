@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { Settings } from '@/types';
-import { localDataProvider } from '@/data/localDataProvider';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability, useAuthStore } from './authStore';
 
 interface SettingsState {
   settings: Settings | null;
@@ -22,7 +23,7 @@ export const useSettingsStore = create<SettingsState>()(
       fetchSettings: async () => {
         set({ isLoading: true });
         try {
-          const settings = await localDataProvider.getSettings();
+          const settings = await getDataProvider().getSettings();
           set({ settings, isLoading: false });
           
           // Apply theme to document
@@ -38,7 +39,8 @@ export const useSettingsStore = create<SettingsState>()(
       },
 
       updateSettings: async (updates) => {
-        const updatedSettings = await localDataProvider.updateSettings(updates);
+        requireCapability('settings.write');
+        const updatedSettings = await getDataProvider().updateSettings(updates);
         set({ settings: updatedSettings });
         
         // Apply theme to document if theme was updated
@@ -55,6 +57,12 @@ export const useSettingsStore = create<SettingsState>()(
         const { settings } = get();
         if (settings) {
           const newTheme = settings.theme === 'light' ? 'dark' : 'light';
+          // Theme is a personal preference; users without settings access keep it locally
+          if (!useAuthStore.getState().can('settings.write')) {
+            set({ settings: { ...settings, theme: newTheme } });
+            document.documentElement.classList.toggle('dark', newTheme === 'dark');
+            return;
+          }
           await get().updateSettings({ theme: newTheme });
         }
       }
@@ -0,0 +1,67 @@
+import { create } from 'zustand';
+import { MessageTemplate, MessageTemplateInput } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability } from './authStore';
+import { isArchived } from '@/utils/templateUtils';
+
+interface TemplatesState {
+  templates: MessageTemplate[];
+  isLoading: boolean;
+
+  // Actions
+  fetchTemplates: () => Promise<void>;
+  saveTemplate: (template: MessageTemplateInput & { id?: string }) => Promise<MessageTemplate>;
+  duplicateTemplate: (id: string) => Promise<MessageTemplate>;
+  archiveTemplate: (id: string, archived: boolean) => Promise<MessageTemplate>;
+  getActiveTemplates: (messageType?: MessageTemplate['message_type']) => MessageTemplate[];
+}
+
+export const useTemplatesStore = create<TemplatesState>((set, get) => ({
+  templates: [],
+  isLoading: false,
+
+  fetchTemplates: async () => {
+    set({ isLoading: true });
+    try {
+      const templates = await getDataProvider().getMessageTemplates();
+      set({ templates, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch message templates:', error);
+    }
+  },
+
+  saveTemplate: async (templateData) => {
+    requireCapability('templates.manage');
+    const template = await getDataProvider().saveMessageTemplate(templateData);
+    const { templates } = get();
+    const exists = templates.some(t => t.id === template.id);
+    set({ templates: exists ? templates.map(t => t.id === template.id ? template : t) : [...templates, template] });
+    return template;
+  },
+
+  // The copy starts unarchived, whatever the original's state
+  duplicateTemplate: async (id) => {
+    const original = get().templates.find(t => t.id === id);
+    if (!original) throw new Error('Template not found');
+    return get().saveTemplate({
+      name: `${original.name} (copy)`,
+      message_type: original.message_type,
+      subject: original.subject,
+      content: original.content,
+      sms_content: original.sms_content,
+    });
+  },
+
+  archiveTemplate: async (id, archived) => {
+    requireCapability('templates.manage');
+    const template = await getDataProvider().archiveMessageTemplate(id, archived);
+    const { templates } = get();
+    set({ templates: templates.map(t => t.id === id ? template : t) });
+    return template;
+  },
+
+  getActiveTemplates: (messageType) => {
+    return get().templates.filter(t => !isArchived(t) && (!messageType || t.message_type === messageType));
+  },
+}));
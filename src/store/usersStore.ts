@@ -0,0 +1,81 @@
+import { create } from 'zustand';
+import { User, NewUser, RoleDefinition, SessionEvent } from '@/types';
+import { getDataProvider } from '@/data/providerRegistry';
+import { requireCapability, useAuthStore } from './authStore';
+
+interface UsersState {
+  users: User[];
+  sessionEvents: SessionEvent[];
+  isLoading: boolean;
+
+  // Actions
+  fetchUsers: () => Promise<void>;
+  fetchSessionEvents: () => Promise<void>;
+  createUser: (user: NewUser, temporaryPassword: string) => Promise<User>;
+  updateUser: (id: string, updates: Partial<Pick<User, 'full_name' | 'role' | 'active'>>) => Promise<void>;
+  resetPassword: (id: string, temporaryPassword: string) => Promise<void>;
+  saveRole: (role: Omit<RoleDefinition, 'id' | 'built_in'> & { id?: string }) => Promise<RoleDefinition>;
+  deleteRole: (id: string) => Promise<void>;
+}
+
+export const useUsersStore = create<UsersState>((set, get) => ({
+  users: [],
+  sessionEvents: [],
+  isLoading: false,
+
+  fetchUsers: async () => {
+    set({ isLoading: true });
+    try {
+      const users = await getDataProvider().getUsers();
+      set({ users, isLoading: false });
+    } catch (error) {
+      set({ isLoading: false });
+      console.error('Failed to fetch users:', error);
+    }
+  },
+
+  fetchSessionEvents: async () => {
+    try {
+      const sessionEvents = await getDataProvider().getSessionEvents();
+      set({ sessionEvents });
+    } catch (error) {
+      console.error('Failed to fetch session events:', error);
+    }
+  },
+
+  createUser: async (userData, temporaryPassword) => {
+    requireCapability('users.manage');
+    const user = await getDataProvider().createUser(userData, temporaryPassword);
+    // Creating an admin can retire the demo accounts, so reload rather than append
+    await get().fetchUsers();
+    return user;
+  },
+
+  updateUser: async (id, updates) => {
+    requireCapability('users.manage');
+    const updatedUser = await getDataProvider().updateUser(id, updates);
+    const { users } = get();
+    set({ users: users.map(u => u.id === id ? updatedUser : u) });
+  },
+
+  resetPassword: async (id, temporaryPassword) => {
+    requireCapability('users.manage');
+    await getDataProvider().resetUserPassword(id, temporaryPassword);
+    const { users } = get();
+    set({ users: users.map(u => u.id === id ? { ...u, must_change_password: true } : u) });
+  },
+
+  // Roles live on the auth store because every screen needs them for permission checks
+  saveRole: async (role) => {
+    requireCapability('users.manage');
+    const saved = await getDataProvider().saveRole(role);
+    await useAuthStore.getState().fetchRoles();
+    return saved;
+  },
+
+  deleteRole: async (id) => {
+    requireCapability('users.manage');
+    await getDataProvider().deleteRole(id);
+    await useAuthStore.getState().fetchRoles();
+  }
+}));
@@ -1,4 +1,11 @@
-export interface Member {
+// Deleted records stay in storage, hidden from normal views, until purged from the recycle bin
+export interface SoftDeletable {
+  deleted_at?: string; // ISO
+  deleted_by?: string; // user id
+  deleted_with?: string; // member id, when removed as part of deleting that member
+}
+
+export interface Member extends SoftDeletable {
   id: string;
   full_name: string;
   phone_number: string;
@@ -13,34 +20,473 @@ export interface Member {
   preferred_contact: 'email' | 'sms' | 'both';
   active: boolean;
   created_at: string; // ISO
+  // Opted out members get nothing more on that channel, bulk sends included
+  email_opt_out_at?: string; // ISO; by unsubscribe link, spam complaint or staff
+  sms_opt_out_at?: string; // ISO
+  email_invalid_at?: string; // ISO, set by a hard bounce; cleared when the email changes
+  email_invalid_reason?: string;
 }
 
-export interface Payment {
+export interface Payment extends SoftDeletable {
   id: string;
   member_id: string;
   amount: number;
   payment_date: string; // ISO
   payment_method: 'bank' | 'cash' | 'branch';
-  status: 'paid' | 'unpaid' | 'overdue';
+  status: 'paid' | 'unpaid'; // whether the money has been received; overdue is worked out from installments
   notes?: string;
+  // Refunds and voids never change the original amount. They add a negative
+  // entry that points at the original, and the original points back.
+  reverses?: string; // on a refund or void entry: the payment it reverses
+  reversed_by?: string; // on the original: its refund or void entry
+  reversal_type?: PaymentReversalType; // on both sides of the link
+  reversal_reason?: string; // on the reversing entry
+  approved_by?: string; // on the reversing entry: user id
+  // Set when the payment was confirmed from a bank statement
+  bank_transaction_id?: string; // the bank's id for the transfer, so a statement is never imported twice
+  bank_reference?: string; // the payer's reference, which standing orders repeat every time
+  fund_id?: string; // the fund or fundraising campaign it is designated to; unset for the general fund. Refunds and voids share the original's.
+}
+
+export type PaymentReversalType = 'refund' | 'void';
+
+export interface PaymentReversal {
+  type: PaymentReversalType;
+  reason: string;
+  amount?: number; // refunds only, defaults to the full amount; voids always reverse everything
+}
+
+export type InstallmentState = 'open' | 'partially_paid' | 'paid' | 'waived' | 'written_off';
+
+export type InstallmentResolution = 'waived' | 'written_off';
+
+export interface InstallmentAllocation {
+  payment_id: string;
+  amount: number;
+}
+
+// One expected contribution in a member's pledge schedule. Generated from the
+// member's frequency, amount and start date; received payments are allocated
+// to open installments oldest first.
+export interface Installment {
+  id: string; // `${member_id}:${due_date}`, stable across regenerations
+  member_id: string;
+  due_date: string; // YYYY-MM-DD
+  expected_amount: number;
+  paid_amount: number;
+  allocations: InstallmentAllocation[];
+  state: InstallmentState;
+  resolved_at?: string; // ISO, when waived or written off
+  resolved_by?: string; // user id
+  resolution_note?: string;
+}
+
+export interface MessageAttachment {
+  file_name: string;
+  content_type: string;
+  content_base64: string;
+}
+
+// queued -> sending -> sent, or back to queued to retry after a temporary
+// failure. failed means the retries ran out; bounced means the address was refused,
+// either straight away or by a later bounce event. delivered is confirmed by an event.
+export type DeliveryStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'bounced';
+
+export type MessageEventType = 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained' | 'unsubscribed';
+
+// Something the relay, gateway or tracking server reported after a message left
+export interface MessageEvent {
+  id: string; // the reporter's event id, so a replayed webhook is not counted twice
+  type: MessageEventType;
+  occurred_at: string; // ISO
+  bounce_type?: 'hard' | 'soft';
+  url?: string; // the link followed, for clicks
+  reason?: string; // the server's words, for bounces and complaints
+}
+
+// An event as reported, naming the message by our id or by the relay's
+export interface MessageEventInput extends MessageEvent {
+  message_id?: string;
+  transport_message_id?: string;
+  recipient?: string; // the address it concerns, when the reporter says
+}
+
+export interface MessageEventsResult {
+  recorded: number;
+  duplicates: number; // already recorded under the same event id
+  unmatched: number; // no message with that id
+  member_changes: { before: Member; after: Member }[]; // members opted out or marked as bouncing
 }
 
-export interface Message {
+export type MessageChannel = 'email' | 'sms';
+
+export interface Message extends SoftDeletable {
   id: string;
-  member_id?: string; // nullable for bulk messages
-  message_type: 'reminder' | 'thank_you' | 'announcement';
+  member_id?: string; // unset only on bulk announcements logged before campaigns existed
+  message_type: 'reminder' | 'thank_you' | 'announcement' | 'statement';
   message_subject?: string;
   message_content: string;
+  sent_at: string; // ISO, when the message was logged
+  channel: MessageChannel; // one record per channel when a member takes both
+  attachments?: MessageAttachment[];
+  delivery_status?: DeliveryStatus; // the provider sets 'queued' when left out
+  delivery_attempts?: number;
+  next_attempt_at?: string; // ISO, when a queued message may next be tried
+  delivered_at?: string; // ISO
+  last_error?: string;
+  transport_message_id?: string;
+  events?: MessageEvent[]; // oldest first
+  opened_at?: string; // ISO, first open
+  clicked_at?: string; // ISO, first click
+  campaign_id?: string; // sent as part of a NewsletterCampaign
+  campaign_variant?: CampaignVariant; // which subject it carried in an A/B test
+}
+
+// The delivery fields the outbox is allowed to change on a logged message
+export type MessageDeliveryUpdate = Pick<
+  Message,
+  'delivery_status' | 'delivery_attempts' | 'next_attempt_at' | 'delivered_at' | 'last_error' | 'transport_message_id'
+>;
+
+// Saved wording for messages, written in the template language (see templateEngine)
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  message_type: Message['message_type'];
+  subject: string;
+  content: string; // the email body
+  sms_content?: string; // the text message; falls back to content
+  created_at: string; // ISO
+  updated_at: string; // ISO
+  archived_at?: string; // ISO; archived templates are kept but not offered when composing
+}
+
+export type MessageTemplateInput = Pick<MessageTemplate, 'name' | 'message_type' | 'subject' | 'content' | 'sms_content'>;
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'testing' | 'sent' | 'cancelled';
+
+export type CampaignVariant = 'a' | 'b';
+
+// Subject A goes to half of a test slice and subject B to the other half. Once
+// the wait is over, the one opened more often goes to everyone else.
+export interface CampaignAbTest {
+  subject_b: string;
+  test_percent: number; // of the audience, split evenly between the subjects
+  wait_hours: number;
+  winner?: CampaignVariant;
+}
+
+// A newsletter or announcement sent to many members at once. Each member gets
+// their own messages, tagged with campaign_id; the stats are worked out from those.
+export interface NewsletterCampaign {
+  id: string;
+  name: string;
+  segment_id?: string; // every active member when unset
+  subject: string; // subject A in an A/B test
+  content: string; // in the template language
+  sms_content?: string;
+  ab_test?: CampaignAbTest;
+  scheduled_at?: string; // ISO; drafts have none
+  status: CampaignStatus;
+  donation_window_days: number; // payments this long after the send count as resulting donations
+  recipient_count: number; // members messaged so far
+  test_sent_at?: string; // ISO
+  sent_at?: string; // ISO, when it went to the whole audience
+  legacy?: boolean; // a bulk announcement logged before campaigns; who received it was not recorded
+  created_at: string; // ISO
+  updated_at: string; // ISO
+  created_by?: string; // user id
+}
+
+export type NewsletterCampaignInput = Pick<
+  NewsletterCampaign,
+  'name' | 'segment_id' | 'subject' | 'content' | 'sms_content' | 'ab_test' | 'scheduled_at' | 'donation_window_days'
+>;
+
+// What sending one stage of a campaign changes on it
+export type CampaignSendUpdate = Partial<Pick<NewsletterCampaign, 'status' | 'ab_test' | 'recipient_count' | 'test_sent_at' | 'sent_at'>>;
+
+// A message a member sent us, by email reply or SMS. A member's conversation is
+// their sent messages and these, in time order.
+export interface InboundMessage {
+  id: string;
+  channel: MessageChannel;
+  member_id?: string; // unset when the sender matched no member
+  from: string; // the address or number as received
+  subject?: string;
+  body: string; // plain text, quoted history included
+  received_at: string; // ISO
+  external_id: string; // Message-ID header or gateway id; a second copy is ignored
+  in_reply_to?: string; // the sent Message it answers, when known
+  read_at?: string; // ISO
+  read_by?: string; // user id
+}
+
+// As parsed from a mailbox or webhook, before it is matched to a member
+export interface InboundMessageInput {
+  channel: MessageChannel;
+  from: string;
+  subject?: string;
+  body: string;
+  received_at: string; // ISO
+  external_id: string;
+  references?: string[]; // Message-IDs from In-Reply-To and References, without brackets
+}
+
+export interface InboundMessagesResult {
+  recorded: number;
+  duplicates: number; // already stored under the same external id
+  unmatched: number; // recorded, but no member matched the sender
+}
+
+// Who on staff is looking after a member's conversation
+export interface MessageThread {
+  member_id: string;
+  assigned_to?: string; // user id
+  assigned_by?: string; // user id
+  assigned_at?: string; // ISO
+}
+
+export type AutomationRuleKind = 'due_reminder' | 'overdue_notice' | 'payment_thank_you';
+
+// A message the scheduler sends on its own. due_reminder follows
+// Settings.reminder_window_days; for the others, days is how far past the due
+// date a notice goes out, or how far back payments are thanked.
+export interface AutomationRule {
+  kind: AutomationRuleKind;
+  enabled: boolean;
+  days?: number;
+  template_id?: string; // built-in wording when unset or archived
+}
+
+// Proof that a rule has already messaged a member about one installment or
+// payment. Keys are never reused, which is what stops repeat sends.
+export interface AutomationSend {
+  key: string; // `${rule}:${installment or payment id}`
+  rule: AutomationRuleKind;
+  member_id: string;
+  installment_id?: string;
+  payment_id?: string;
+  run_id?: string; // absent for thank-yous sent straight from the payment form
+  message_ids: string[];
   sent_at: string; // ISO
-  channel: 'email';
+}
+
+export type AutomationSendInput = Omit<AutomationSend, 'message_ids' | 'sent_at'>;
+
+export interface AutomationRecipient {
+  member_id: string;
+  member_name: string; // copied so the history still reads after a member is deleted
+  detail: string; // what the message was about, e.g. the due dates covered
+}
+
+export interface AutomationRuleResult {
+  rule: AutomationRuleKind;
+  sent: (AutomationRecipient & { message_count: number })[];
+  failed: (AutomationRecipient & { error: string })[];
+  already_sent: number; // installments or payments skipped because a send is on record
+  unreachable: number; // members with no usable email or phone
+}
+
+// What one pass of the scheduler did, rule by rule
+export interface AutomationRun {
+  id: string;
+  trigger: 'schedule' | 'manual';
+  started_at: string; // ISO
+  finished_at: string; // ISO
+  results: AutomationRuleResult[];
+}
+
+export type ReceiptStatus = 'issued' | 'void';
+
+// An official receipt for one payment. Numbers come from a sequence that never
+// goes back, and the donor and organisation details are copied at issue time so
+// a reprint matches the original. Cancelled receipts are voided, never deleted.
+export interface Receipt {
+  id: string;
+  sequence: number;
+  number: string; // printed receipt number, e.g. 'RCT-000042'
+  payment_id: string;
+  member_id: string;
+  donor_name: string;
+  donor_address?: string;
+  donor_email?: string;
+  donor_phone?: string;
+  org_name: string;
+  org_address: string;
+  amount: number;
+  currency: string;
+  payment_method: Payment['payment_method'];
+  payment_date: string; // ISO
+  issued_at: string; // ISO
+  issued_by: string; // user id
+  status: ReceiptStatus;
+  voided_at?: string; // ISO
+  voided_by?: string; // user id
+  void_reason?: string;
+  replaces?: string; // number of the receipt voided when a partial refund or a payment edit reissued this one
 }
 
 export interface User {
   id: string;
   email: string;
-  role: 'admin' | 'staff';
+  full_name: string;
+  role: string; // RoleDefinition id: 'admin', 'staff' or a custom role
+  active: boolean;
+  must_change_password: boolean; // set for new accounts and after an admin reset
+  is_demo?: boolean; // built-in demo account, disabled once a real admin exists
+  created_at: string; // ISO
+  last_login_at?: string; // ISO
+}
+
+// What anyone signed in may see of a colleague, e.g. to assign them a conversation
+export type StaffMember = Pick<User, 'id' | 'email' | 'full_name'>;
+
+export interface UserAccount extends User {
+  password_hash: string; // base64 PBKDF2-SHA256
+  password_salt: string; // base64
+  password_iterations: number;
+}
+
+export type NewUser = Pick<User, 'email' | 'full_name' | 'role'>;
+
+export type Capability =
+  | 'members.create'
+  | 'members.edit'
+  | 'members.delete'
+  | 'payments.create'
+  | 'payments.edit'
+  | 'payments.delete'
+  | 'payments.reverse'
+  | 'receipts.void'
+  | 'messages.send'
+  | 'messages.bulk_send'
+  | 'messages.delete'
+  | 'templates.manage'
+  | 'segments.manage'
+  | 'funds.manage'
+  | 'settings.write'
+  | 'data.export'
+  | 'data.import'
+  | 'data.clear'
+  | 'users.manage'
+  | 'audit.view'
+  | 'recycle_bin.manage';
+
+export interface RoleDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  capabilities: Capability[];
+  built_in?: boolean; // admin and staff cannot be edited or deleted
+}
+
+export interface Session {
+  id: string;
+  user_id: string;
+  created_at: string; // ISO
+  expires_at: string; // ISO, hard limit regardless of activity
+  locked_at?: string; // ISO, set while the idle lock screen is showing
+}
+
+export type SessionEventType =
+  | 'login'
+  | 'login_failed'
+  | 'login_throttled'
+  | 'logout'
+  | 'locked'
+  | 'unlocked'
+  | 'unlock_failed'
+  | 'expired';
+
+export interface SessionEvent {
+  id: string;
+  type: SessionEventType;
+  email: string;
+  user_id?: string;
+  session_id?: string;
+  occurred_at: string; // ISO
+  detail?: string;
+}
+
+export type AuditEntity = 'member' | 'payment' | 'installment' | 'receipt' | 'message' | 'conversation' | 'template' | 'segment' | 'fund' | 'campaign' | 'settings' | 'user' | 'role' | 'data';
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'import'
+  | 'clear'
+  | 'password_reset'
+  | 'password_change'
+  | 'restore'
+  | 'purge'
+  | 'refund'
+  | 'void'
+  | 'archive';
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Audit entries are append-only: nothing in the app can edit or remove one
+export interface AuditEntry {
+  id: string;
+  occurred_at: string; // ISO
+  actor_id: string;
+  actor_email: string;
+  entity: AuditEntity;
+  entity_id?: string;
+  action: AuditAction;
+  summary: string; // human-readable label, e.g. the member's name
+  changes: AuditChange[];
+  parent_id?: string; // the entry that caused this one, e.g. a member delete cascading to payments
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  entity?: AuditEntity;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+}
+
+export type RecycleBinEntity = 'member' | 'payment' | 'message';
+
+export interface RecycleBin {
+  members: Member[];
+  payments: Payment[];
+  messages: Message[];
+}
+
+// One test in a segment. The first five read the member record; the rest are
+// worked out from payments, installments and messages when the segment is used.
+export type SegmentCondition =
+  | { field: 'location'; values: string[] }
+  | { field: 'payment_frequency'; values: Member['payment_frequency'][] }
+  | { field: 'payment_method'; values: Member['payment_method'][] }
+  | { field: 'active'; value: boolean }
+  | { field: 'created_at'; from?: string; to?: string } // YYYY-MM-DD, inclusive
+  | { field: 'overdue_days'; days: number } // an unpaid installment more than this many days past due
+  | { field: 'lifetime_total'; min?: number; max?: number } // net of refunds and voids
+  | { field: 'last_payment_before'; date: string } // YYYY-MM-DD; members who never paid match too
+  | { field: 'never_messaged' };
+
+export type SegmentField = SegmentCondition['field'];
+
+// A saved audience, picked as message recipients, a member filter or a report scope
+export interface MemberSegment {
+  id: string;
+  name: string;
+  match: 'all' | 'any';
+  conditions: SegmentCondition[];
+  created_at: string; // ISO
+  updated_at: string; // ISO
 }
 
+export type MemberSegmentInput = Pick<MemberSegment, 'name' | 'match' | 'conditions'>;
+
 export interface Settings {
   org_name: string;
   org_address: string;
@@ -50,6 +496,78 @@ export interface Settings {
   default_payment_amount: number;
   theme: 'light' | 'dark';
   primary_color: string;
+  recycle_bin_retention_days: number; // deleted items can be purged once they are this old
+  session_max_hours: number; // sessions end this long after sign-in
+  idle_lock_minutes: number; // lock screen after this much inactivity
+  bank_csv_mappings: BankCsvMapping[];
+  sms_country_code: string; // digits, used to complete local numbers such as 0911...
+  sms_sender_id?: string; // alphanumeric sender name, where the gateway allows one
+  tracking_base_url?: string; // tracking server for opens, clicks and unsubscribes; none when unset
+  automation_rules: AutomationRule[];
+}
+
+export type FundKind = 'fund' | 'campaign';
+
+// A restricted fund or a fundraising campaign that payments can be designated
+// to. Payments designated to neither go to the general fund.
+export interface Fund {
+  id: string;
+  kind: FundKind;
+  name: string;
+  description?: string;
+  goal_amount?: number;
+  start_date?: string; // YYYY-MM-DD; open from the start when unset
+  end_date?: string; // YYYY-MM-DD; open-ended when unset
+  archived_at?: string; // no longer offered for new payments, but kept for the ones designated to it
+  created_at: string;
+  updated_at: string;
+}
+
+export type FundInput = Pick<Fund, 'kind' | 'name' | 'description' | 'goal_amount' | 'start_date' | 'end_date'>;
+
+// How to read one bank's CSV export. Columns are named by their header text.
+export interface BankCsvMapping {
+  id: string;
+  bank_name: string;
+  delimiter: string; // '' lets the parser detect it
+  date_column: string;
+  date_format: string; // date-fns pattern, e.g. 'dd/MM/yyyy'
+  amount_column?: string; // signed amounts; credits are positive
+  credit_column?: string; // used instead of amount_column when credits have their own column
+  decimal_separator: '.' | ',';
+  description_column: string;
+  reference_column?: string;
+  payer_column?: string;
+  transaction_id_column?: string;
+}
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt053';
+
+// A credit read from a bank statement, before it becomes a payment
+export interface StatementTransaction {
+  id: string; // the bank's id, or one derived from the row when the bank gives none
+  date: string; // YYYY-MM-DD
+  amount: number;
+  description: string;
+  reference?: string;
+  payer?: string;
+}
+
+export type MatchConfidence = 'confident' | 'ambiguous' | 'unmatched';
+
+export type MatchReason = 'reference' | 'phone' | 'name' | 'amount';
+
+export interface MatchCandidate {
+  member: Member;
+  score: number; // 0 to 1
+  reasons: MatchReason[];
+}
+
+export interface TransactionMatch {
+  transaction: StatementTransaction;
+  confidence: MatchConfidence;
+  candidates: MatchCandidate[]; // best first
+  recorded_payment_id?: string; // already imported from an earlier statement
 }
 
 export interface SearchResult {
@@ -65,8 +583,43 @@ export interface DashboardStats {
   overdueCount: number;
 }
 
+// One member's contributions for a year-end statement. Refund and void entries
+// are listed as negative lines so the total matches what was kept.
+export interface DonorStatement {
+  member: Member;
+  year: number;
+  contributions: Payment[];
+  total: number;
+}
+
 export interface MonthlyData {
   month: string;
   income: number;
   expected: number;
-}
\ No newline at end of file
+}
+
+export type ImportMode = 'replace' | 'merge' | 'append';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  dryRun?: boolean;
+}
+
+export type ImportCollection = 'members' | 'payments' | 'installments' | 'messages' | 'settings';
+
+export interface ImportIssue {
+  collection: ImportCollection | 'file';
+  index: number; // position of the record in the imported file, -1 for file-level issues
+  recordId?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  applied: boolean;
+  schemaVersion: number; // version of the file before migration
+  counts: Record<Exclude<ImportCollection, 'settings'>, { total: number; valid: number; invalid: number }>;
+  issues: ImportIssue[];
+}
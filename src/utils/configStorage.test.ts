@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const KEY = 'test-config';
+const SECRETS = ['password', 'apiKey'];
+
+let storage: Map<string, string>;
+
+// A fresh module per test, so secrets held in memory do not carry over like a page reload
+async function load() {
+  vi.resetModules();
+  return import('./configStorage');
+}
+
+beforeEach(() => {
+  storage = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('configStorage', () => {
+  it('keeps secrets out of localStorage but returns them for the session', async () => {
+    const { readStoredConfig, writeStoredConfig, isMissingSecrets } = await load();
+
+    writeStoredConfig(KEY, { type: 'smtp', username: 'mailer', password: 'hunter2' }, SECRETS);
+    expect(JSON.parse(storage.get(KEY)!)).toEqual({ type: 'smtp', username: 'mailer', saved_secrets: ['password'] });
+    expect(readStoredConfig(KEY, SECRETS)).toEqual({ type: 'smtp', username: 'mailer', password: 'hunter2' });
+    expect(isMissingSecrets(KEY)).toBe(false);
+  });
+
+  it('reports a saved secret as missing after a reload', async () => {
+    (await load()).writeStoredConfig(KEY, { type: 'http', apiKey: 'key-1' }, SECRETS);
+
+    const { readStoredConfig, isMissingSecrets } = await load();
+    expect(readStoredConfig(KEY, SECRETS)).toEqual({ type: 'http' });
+    expect(isMissingSecrets(KEY)).toBe(true);
+  });
+
+  it('needs nothing when no secret was set', async () => {
+    (await load()).writeStoredConfig(KEY, { type: 'http', apiKey: '' }, SECRETS);
+
+    const { isMissingSecrets } = await load();
+    expect(JSON.parse(storage.get(KEY)!)).toEqual({ type: 'http' });
+    expect(isMissingSecrets(KEY)).toBe(false);
+  });
+
+  it('moves secrets saved by older versions out of localStorage', async () => {
+    storage.set(KEY, JSON.stringify({ type: 'smtp', username: 'mailer', password: 'hunter2' }));
+    const { readStoredConfig, isMissingSecrets } = await load();
+
+    expect(readStoredConfig(KEY, SECRETS)).toEqual({ type: 'smtp', username: 'mailer', password: 'hunter2' });
+    expect(storage.get(KEY)).not.toContain('hunter2');
+    expect(isMissingSecrets(KEY)).toBe(false);
+  });
+
+  it('returns null when nothing is stored', async () => {
+    const { readStoredConfig, isMissingSecrets } = await load();
+
+    expect(readStoredConfig(KEY, SECRETS)).toBeNull();
+    expect(isMissingSecrets(KEY)).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+// Connection settings for email, SMS and the mailbox are kept in localStorage,
+// but their passwords and API keys never are: anything there can be read by
+// every script on the page and outlives the session. Secrets stay in memory
+// until the page is closed or reloaded. The stored copy only lists which ones
+// were set, so a missing secret can be told apart from one never needed.
+const sessionSecrets = new Map<string, Record<string, string>>();
+
+type StoredConfig = Record<string, unknown> & { saved_secrets?: string[] };
+
+function readRaw(storageKey: string): StoredConfig | null {
+  const stored = localStorage.getItem(storageKey);
+  return stored ? JSON.parse(stored) as StoredConfig : null;
+}
+
+function writeRaw(storageKey: string, config: Record<string, unknown>, secretFields: readonly string[]): void {
+  const stored: StoredConfig = { ...config };
+  const secrets: Record<string, string> = {};
+  secretFields.forEach(field => {
+    if (typeof stored[field] === 'string' && stored[field]) secrets[field] = stored[field] as string;
+    delete stored[field];
+  });
+  const saved = Object.keys(secrets);
+  if (saved.length > 0) stored.saved_secrets = saved;
+  else delete stored.saved_secrets;
+
+  sessionSecrets.set(storageKey, secrets);
+  localStorage.setItem(storageKey, JSON.stringify(stored));
+}
+
+// The stored config with this session's secrets filled back in. Secrets left
+// in storage by older versions are moved into memory on the way.
+export function readStoredConfig<T>(storageKey: string, secretFields: readonly string[]): T | null {
+  const stored = readRaw(storageKey);
+  if (!stored) return null;
+  if (secretFields.some(field => field in stored)) writeRaw(storageKey, stored, secretFields);
+
+  const { saved_secrets: _saved, ...config } = readRaw(storageKey)!;
+  return { ...config, ...sessionSecrets.get(storageKey) } as T;
+}
+
+export function writeStoredConfig<T extends object>(storageKey: string, config: T, secretFields: readonly string[]): void {
+  writeRaw(storageKey, config as Record<string, unknown>, secretFields);
+}
+
+// True when a secret was saved with the config but has not been entered since the page loaded
+export function isMissingSecrets(storageKey: string): boolean {
+  try {
+    const saved = readRaw(storageKey)?.saved_secrets ?? [];
+    const secrets = sessionSecrets.get(storageKey) ?? {};
+    return saved.some(field => !secrets[field]);
+  } catch {
+    return false;
+  }
+}
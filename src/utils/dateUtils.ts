@@ -1,49 +1,17 @@
-import { addMonths, addYears, format, parseISO, differenceInDays, isAfter, isBefore } from 'date-fns';
+import { format, parseISO, isAfter, isBefore } from 'date-fns';
 import { Member, Payment } from '@/types';
-
-export function getNextDueDate(member: Member, lastPaymentDate?: string): Date {
-  const startDate = lastPaymentDate ? parseISO(lastPaymentDate) : parseISO(member.payment_start_date);
-  
-  switch (member.payment_frequency) {
-    case 'monthly':
-      return addMonths(startDate, 1);
-    case 'three_months':
-      return addMonths(startDate, 3);
-    case 'six_months':
-      return addMonths(startDate, 6);
-    case 'yearly':
-      return addYears(startDate, 1);
-    default:
-      return addMonths(startDate, 1);
-  }
-}
+import { getNetAmount, isReversal } from './paymentUtils';
 
 export function getLastPaymentDate(payments: Payment[]): string | undefined {
   if (payments.length === 0) return undefined;
   
   const sortedPayments = payments
-    .filter(p => p.status === 'paid')
+    .filter(p => p.status === 'paid' && !isReversal(p) && getNetAmount(p, payments) > 0)
     .sort((a, b) => new Date(b.payment_date).getTime() - new Date(a.payment_date).getTime());
   
   return sortedPayments[0]?.payment_date;
 }
 
-export function getPaymentStatus(member: Member, payments: Payment[], reminderDays: number = 3): 'current' | 'due_soon' | 'overdue' {
-  const lastPayment = getLastPaymentDate(payments);
-  const nextDue = getNextDueDate(member, lastPayment);
-  const today = new Date();
-  const daysDiff = differenceInDays(nextDue, today);
-  
-  if (daysDiff < 0) return 'overdue';
-  if (daysDiff <= reminderDays) return 'due_soon';
-  return 'current';
-}
-
-export function isDue(member: Member, payments: Payment[], reminderDays: number = 3): boolean {
-  const status = getPaymentStatus(member, payments, reminderDays);
-  return status === 'due_soon' || status === 'overdue';
-}
-
 export function formatCurrency(amount: number, currency: string = 'ETB'): string {
   return `${amount.toLocaleString()} ${currency}`;
 }
@@ -72,6 +40,7 @@ export function getMonthlyExpectedIncome(members: Member[]): number {
     }, 0);
 }
 
+// Refund and void entries are negative, so they come off the month they are dated in
 export function getMonthlyCollected(payments: Payment[], month?: Date): number {
   const targetMonth = month || new Date();
   const startOfMonth = new Date(targetMonth.getFullYear(), targetMonth.getMonth(), 1);
@@ -1,7 +1,11 @@
 import Papa from 'papaparse';
 import jsPDF from 'jspdf';
-import { Member, Payment, Message, Settings } from '@/types';
+import { Member, Payment, Installment, Message, Settings, Fund, AuditEntry, Receipt, DonorStatement } from '@/types';
 import { formatCurrency, formatDate, getMonthlyExpectedIncome, getMonthlyCollected } from './dateUtils';
+import { getOverdueInstallments } from './scheduleUtils';
+import { REVERSAL_LABELS, isReversal } from './paymentUtils';
+import { amountInWords, getActiveReceipt } from './receiptUtils';
+import { FundCollection, getCollectedByFund } from './fundUtils';
 
 export function exportMembersToCSV(members: Member[]): string {
   const csvData = members.map(member => ({
@@ -31,13 +35,46 @@ export function exportPaymentsToCSV(payments: Payment[], members: Member[]): str
     'Amount': payment.amount,
     'Payment Date': formatDate(payment.payment_date),
     'Payment Method': payment.payment_method,
-    'Status': payment.status,
+    'Type': payment.reverses ? (payment.reversal_type === 'void' ? 'Void' : 'Refund') : 'Payment',
+    'Status': payment.reversed_by && payment.reversal_type ? REVERSAL_LABELS[payment.reversal_type].toLowerCase() : payment.status,
+    'Reason': payment.reversal_reason || '',
     'Notes': payment.notes || ''
   }));
 
   return Papa.unparse(csvData);
 }
 
+// One row per changed field so auditors can filter in a spreadsheet; entries
+// without field changes (e.g. password resets) still get a single row
+export function exportAuditLogToCSV(entries: AuditEntry[]): string {
+  const formatValue = (value: unknown) =>
+    value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+  const csvData = entries.flatMap(entry => {
+    const base = {
+      'Entry ID': entry.id,
+      'Timestamp': entry.occurred_at,
+      'User': entry.actor_email,
+      'Entity': entry.entity,
+      'Entity ID': entry.entity_id || '',
+      'Action': entry.action,
+      'Summary': entry.summary,
+      'Caused By': entry.parent_id || '',
+    };
+    if (entry.changes.length === 0) {
+      return [{ ...base, 'Field': '', 'Before': '', 'After': '' }];
+    }
+    return entry.changes.map(change => ({
+      ...base,
+      'Field': change.field,
+      'Before': formatValue(change.before),
+      'After': formatValue(change.after),
+    }));
+  });
+
+  return Papa.unparse(csvData);
+}
+
 export function parseMembersFromCSV(csvString: string): Partial<Member>[] {
   const result = Papa.parse(csvString, { header: true, skipEmptyLines: true });
   
@@ -57,11 +94,45 @@ export function parseMembersFromCSV(csvString: string): Partial<Member>[] {
   }));
 }
 
+// Reports limited to a saved segment say so under the title, so a partial
+// report is never mistaken for the whole organisation's. Returns the space used.
+function addSegmentLine(doc: jsPDF, segmentName: string | undefined, pageWidth: number, yPosition: number): number {
+  if (!segmentName) return 20;
+  doc.setFontSize(11);
+  doc.text(`Members: ${segmentName}`, pageWidth / 2, yPosition + 8, { align: 'center' });
+  return 24;
+}
+
+// Collections by fund as a titled list, continuing on a new page when needed
+function addFundBreakdown(doc: jsPDF, rows: FundCollection[], settings: Settings, yPosition: number): number {
+  if (yPosition > 240) {
+    doc.addPage();
+    yPosition = 20;
+  }
+  doc.setFontSize(14);
+  doc.text('Collected by Fund', 20, yPosition);
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  rows.forEach(row => {
+    if (yPosition > 270) {
+      doc.addPage();
+      yPosition = 20;
+    }
+    doc.text(`${row.name}: ${formatCurrency(row.collected, settings.default_currency)}`, 30, yPosition);
+    yPosition += 6;
+  });
+  return yPosition;
+}
+
 export function generateMonthlyReportPDF(
   members: Member[], 
   payments: Payment[], 
+  installments: Installment[],
   settings: Settings,
-  month: Date = new Date()
+  month: Date = new Date(),
+  segmentName?: string,
+  funds: Fund[] = []
 ): void {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
@@ -78,14 +149,14 @@ export function generateMonthlyReportPDF(
 
   doc.setFontSize(16);
   doc.text(`Monthly Report - ${formatDate(month, 'MMMM yyyy')}`, pageWidth / 2, yPosition, { align: 'center' });
-  yPosition += 20;
+  yPosition += addSegmentLine(doc, segmentName, pageWidth, yPosition);
 
   // Statistics
   const activeMembers = members.filter(m => m.active).length;
   const expectedIncome = getMonthlyExpectedIncome(members);
   const collectedIncome = getMonthlyCollected(payments, month);
   const unpaidCount = payments.filter(p => p.status === 'unpaid').length;
-  const overdueCount = payments.filter(p => p.status === 'overdue').length;
+  const overdueCount = getOverdueInstallments(installments).length;
 
   doc.setFontSize(12);
   const stats = [
@@ -93,7 +164,7 @@ export function generateMonthlyReportPDF(
     `Expected Monthly Income: ${formatCurrency(expectedIncome, settings.default_currency)}`,
     `Collected This Month: ${formatCurrency(collectedIncome, settings.default_currency)}`,
     `Unpaid Payments: ${unpaidCount}`,
-    `Overdue Payments: ${overdueCount}`,
+    `Overdue Installments: ${overdueCount}`,
     `Collection Rate: ${expectedIncome > 0 ? ((collectedIncome / expectedIncome) * 100).toFixed(1) : 0}%`
   ];
 
@@ -144,6 +215,9 @@ export function generateMonthlyReportPDF(
     yPosition += 6;
   });
 
+  yPosition += 10;
+  addFundBreakdown(doc, getCollectedByFund(payments, funds, p => getMonthlyCollected(p, month)), settings, yPosition);
+
   // Footer
   doc.setFontSize(10);
   doc.text(`Generated on ${formatDate(new Date())}`, 20, doc.internal.pageSize.height - 10);
@@ -152,6 +226,197 @@ export function generateMonthlyReportPDF(
   doc.save(`monthly-report-${formatDate(month, 'yyyy-MM')}.pdf`);
 }
 
+// Printed from the details copied onto the receipt when it was issued, so a
+// reprint matches the original. Reprints and void receipts say so on the page.
+export function generateReceiptPDF(receipt: Receipt, options: { reprint?: boolean } = {}): void {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  let yPosition = 20;
+
+  // Header
+  doc.setFontSize(20);
+  doc.text(receipt.org_name, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.text(receipt.org_address, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 20;
+
+  doc.setFontSize(16);
+  doc.text('Donation Receipt', pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  doc.setFontSize(12);
+  doc.text(`Receipt No: ${receipt.number}`, 20, yPosition);
+  doc.text(`Issued: ${formatDate(receipt.issued_at)}`, pageWidth - 20, yPosition, { align: 'right' });
+  yPosition += 15;
+
+  // Donor
+  doc.setFontSize(14);
+  doc.text('Received From', 20, yPosition);
+  yPosition += 8;
+  doc.setFontSize(12);
+  [receipt.donor_name, receipt.donor_address, receipt.donor_phone, receipt.donor_email]
+    .filter((line): line is string => !!line)
+    .forEach(line => {
+      doc.text(line, 30, yPosition);
+      yPosition += 6;
+    });
+  yPosition += 10;
+
+  // Payment
+  doc.setFontSize(14);
+  doc.text('Donation', 20, yPosition);
+  yPosition += 8;
+  doc.setFontSize(12);
+  const details = [
+    `Amount: ${formatCurrency(receipt.amount, receipt.currency)}`,
+    `Payment Method: ${receipt.payment_method}`,
+    `Payment Date: ${formatDate(receipt.payment_date)}`,
+    ...(receipt.replaces ? [`Replaces receipt ${receipt.replaces}, after a partial refund`] : []),
+  ];
+  details.forEach(line => {
+    doc.text(line, 30, yPosition);
+    yPosition += 6;
+  });
+  const words = doc.splitTextToSize(`Amount in words: ${amountInWords(receipt.amount, receipt.currency)}`, pageWidth - 60);
+  doc.text(words, 30, yPosition);
+  yPosition += words.length * 6 + 20;
+
+  doc.text('Thank you for your generous support.', 20, yPosition);
+
+  if (receipt.status === 'void') {
+    doc.setFontSize(60);
+    doc.setTextColor(200, 0, 0);
+    doc.text('VOID', pageWidth / 2, 150, { align: 'center', angle: 30 });
+    doc.setFontSize(12);
+    doc.text(`Voided ${formatDate(receipt.voided_at!)}: ${receipt.void_reason || ''}`, 20, yPosition + 15);
+    doc.setTextColor(0, 0, 0);
+  }
+
+  // Footer
+  doc.setFontSize(10);
+  const footer = options.reprint ? `Reprinted on ${formatDate(new Date())} - copy of receipt ${receipt.number}` : `Receipt ${receipt.number}`;
+  doc.text(footer, 20, doc.internal.pageSize.height - 10);
+
+  // Download
+  doc.save(`receipt-${receipt.number}.pdf`);
+}
+
+// Members with anything received in the year, in name order
+export function getDonorStatements(members: Member[], payments: Payment[], year: number): DonorStatement[] {
+  const byMember = new Map<string, Payment[]>();
+  payments
+    .filter(p => p.status === 'paid' && !p.deleted_at && new Date(p.payment_date).getFullYear() === year)
+    .forEach(p => byMember.set(p.member_id, [...(byMember.get(p.member_id) ?? []), p]));
+
+  return members
+    .filter(member => byMember.has(member.id))
+    .map(member => {
+      const contributions = byMember.get(member.id)!.sort((a, b) => a.payment_date.localeCompare(b.payment_date));
+      return { member, year, contributions, total: contributions.reduce((sum, p) => sum + p.amount, 0) };
+    })
+    .sort((a, b) => a.member.full_name.localeCompare(b.member.full_name));
+}
+
+function drawDonorStatement(doc: jsPDF, statement: DonorStatement, receipts: Receipt[], settings: Settings): void {
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const { member, year } = statement;
+  let yPosition = 20;
+
+  // Header
+  doc.setFontSize(20);
+  doc.text(settings.org_name, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 10;
+
+  doc.setFontSize(12);
+  doc.text(settings.org_address, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 20;
+
+  doc.setFontSize(16);
+  doc.text(`Contribution Statement - ${year}`, pageWidth / 2, yPosition, { align: 'center' });
+  yPosition += 15;
+
+  // Donor
+  doc.setFontSize(12);
+  [member.full_name, member.address, member.email]
+    .filter((line): line is string => !!line)
+    .forEach(line => {
+      doc.text(line, 20, yPosition);
+      yPosition += 6;
+    });
+  yPosition += 10;
+
+  // Contributions
+  const writeHeader = () => {
+    doc.setFontSize(11);
+    doc.text('Date', 20, yPosition);
+    doc.text('Method', 60, yPosition);
+    doc.text('Receipt', 100, yPosition);
+    doc.text('Amount', pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 2;
+    doc.line(20, yPosition, pageWidth - 20, yPosition);
+    yPosition += 6;
+  };
+  writeHeader();
+
+  doc.setFontSize(10);
+  statement.contributions.forEach(payment => {
+    if (yPosition > pageHeight - 30) {
+      doc.addPage();
+      yPosition = 20;
+      writeHeader();
+      doc.setFontSize(10);
+    }
+    const label = payment.reverses ? (payment.reversal_type === 'void' ? 'Void' : 'Refund') : getActiveReceipt(receipts, payment.id)?.number ?? '';
+    doc.text(formatDate(payment.payment_date), 20, yPosition);
+    doc.text(payment.payment_method, 60, yPosition);
+    doc.text(label, 100, yPosition);
+    doc.text(formatCurrency(payment.amount, settings.default_currency), pageWidth - 20, yPosition, { align: 'right' });
+    yPosition += 6;
+  });
+
+  yPosition += 2;
+  doc.line(20, yPosition, pageWidth - 20, yPosition);
+  yPosition += 8;
+  doc.setFontSize(12);
+  doc.text(`Total contributed in ${year}`, 20, yPosition);
+  doc.text(formatCurrency(statement.total, settings.default_currency), pageWidth - 20, yPosition, { align: 'right' });
+  yPosition += 15;
+
+  doc.setFontSize(10);
+  doc.text('Thank you for your generous support throughout the year.', 20, yPosition);
+
+  // Footer
+  doc.text(`Generated on ${formatDate(new Date())}`, 20, pageHeight - 10);
+}
+
+export function generateDonorStatementPDF(statement: DonorStatement, receipts: Receipt[], settings: Settings): jsPDF {
+  const doc = new jsPDF();
+  drawDonorStatement(doc, statement, receipts, settings);
+  return doc;
+}
+
+// Every statement in one file, each starting on a new page
+export function generateMergedDonorStatementsPDF(statements: DonorStatement[], receipts: Receipt[], settings: Settings): jsPDF {
+  const doc = new jsPDF();
+  statements.forEach((statement, index) => {
+    if (index > 0) doc.addPage();
+    drawDonorStatement(doc, statement, receipts, settings);
+  });
+  return doc;
+}
+
+export function getDonorStatementFileName(statement: DonorStatement): string {
+  const name = statement.member.full_name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `statement-${statement.year}-${name || statement.member.id}.pdf`;
+}
+
+export function pdfToBase64(doc: jsPDF): string {
+  return doc.output('datauristring').split(',')[1];
+}
+
 export function downloadFile(content: string, filename: string, type: string = 'text/plain'): void {
   const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
@@ -167,43 +432,66 @@ export function downloadFile(content: string, filename: string, type: string = '
 export function exportMonthlyReportPDF(
   members: Member[], 
   payments: Payment[], 
+  installments: Installment[],
   settings: Settings,
-  month: Date = new Date()
+  month: Date = new Date(),
+  segmentName?: string,
+  funds: Fund[] = []
 ): void {
-  return generateMonthlyReportPDF(members, payments, settings, month);
+  return generateMonthlyReportPDF(members, payments, installments, settings, month, segmentName, funds);
 }
 
 export function exportMonthlyReportCSV(
   members: Member[], 
   payments: Payment[], 
+  installments: Installment[],
   settings: Settings,
-  month: Date = new Date()
+  month: Date = new Date(),
+  segmentName?: string,
+  funds: Fund[] = []
 ): string {
   const activeMembers = members.filter(m => m.active).length;
   const expectedIncome = getMonthlyExpectedIncome(members);
   const collectedIncome = getMonthlyCollected(payments, month);
   const unpaidCount = payments.filter(p => p.status === 'unpaid').length;
-  const overdueCount = payments.filter(p => p.status === 'overdue').length;
+  const overdueCount = getOverdueInstallments(installments).length;
 
   const csvData = [
     ['Monthly Report', formatDate(month, 'MMMM yyyy')],
+    ...(segmentName ? [['Segment', segmentName]] : []),
     [''],
     ['Active Members', activeMembers],
     ['Expected Monthly Income', expectedIncome],
     ['Collected This Month', collectedIncome],
     ['Unpaid Payments', unpaidCount],
-    ['Overdue Payments', overdueCount],
-    ['Collection Rate (%)', expectedIncome > 0 ? ((collectedIncome / expectedIncome) * 100).toFixed(1) : 0]
+    ['Overdue Installments', overdueCount],
+    ['Collection Rate (%)', expectedIncome > 0 ? ((collectedIncome / expectedIncome) * 100).toFixed(1) : 0],
+    [''],
+    ['Collected by Fund'],
+    ...getCollectedByFund(payments, funds, p => getMonthlyCollected(p, month)).map(row => [row.name, row.collected])
   ];
 
   return Papa.unparse(csvData);
 }
 
+// Collected is net of refunds and voids; the payment count leaves out the reversing entries
+function summarizeYear(payments: Payment[], year: number) {
+  const received = payments.filter(p => p.status === 'paid' && new Date(p.payment_date).getFullYear() === year);
+  const reversals = received.filter(isReversal);
+  return {
+    yearPayments: received.filter(p => !isReversal(p)),
+    totalCollected: received.reduce((sum, p) => sum + p.amount, 0),
+    totalReversed: -reversals.reduce((sum, p) => sum + p.amount, 0),
+  };
+}
+
 export function exportAnnualSummaryPDF(
   members: Member[], 
   payments: Payment[], 
   settings: Settings,
-  year: number = new Date().getFullYear()
+  year: number = new Date().getFullYear(),
+  segmentName?: string,
+  funds: Fund[] = []
 ): void {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
@@ -220,11 +508,10 @@ export function exportAnnualSummaryPDF(
 
   doc.setFontSize(16);
   doc.text(`Annual Summary - ${year}`, pageWidth / 2, yPosition, { align: 'center' });
-  yPosition += 20;
+  yPosition += addSegmentLine(doc, segmentName, pageWidth, yPosition);
 
   // Annual statistics
-  const yearPayments = payments.filter(p => new Date(p.payment_date).getFullYear() === year);
-  const totalCollected = yearPayments.reduce((sum, p) => sum + p.amount, 0);
+  const { yearPayments, totalCollected, totalReversed } = summarizeYear(payments, year);
   const activeMembers = members.filter(m => m.active).length;
 
   doc.setFontSize(12);
@@ -232,6 +519,7 @@ export function exportAnnualSummaryPDF(
     `Total Members: ${members.length}`,
     `Active Members: ${activeMembers}`,
     `Total Collected: ${formatCurrency(totalCollected, settings.default_currency)}`,
+    `Refunds and Voids: ${formatCurrency(totalReversed, settings.default_currency)}`,
     `Total Payments: ${yearPayments.length}`
   ];
 
@@ -240,6 +528,9 @@ export function exportAnnualSummaryPDF(
     yPosition += 8;
   });
 
+  yPosition += 10;
+  addFundBreakdown(doc, getCollectedByFund(payments, funds, p => summarizeYear(p, year).totalCollected), settings, yPosition);
+
   // Footer
   doc.setFontSize(10);
   doc.text(`Generated on ${formatDate(new Date())}`, 20, doc.internal.pageSize.height - 10);
@@ -251,19 +542,25 @@ export function exportAnnualSummaryCSV(
   members: Member[], 
   payments: Payment[], 
   settings: Settings,
-  year: number = new Date().getFullYear()
+  year: number = new Date().getFullYear(),
+  segmentName?: string,
+  funds: Fund[] = []
 ): string {
-  const yearPayments = payments.filter(p => new Date(p.payment_date).getFullYear() === year);
-  const totalCollected = yearPayments.reduce((sum, p) => sum + p.amount, 0);
+  const { yearPayments, totalCollected, totalReversed } = summarizeYear(payments, year);
   const activeMembers = members.filter(m => m.active).length;
 
   const csvData = [
     ['Annual Summary', year],
+    ...(segmentName ? [['Segment', segmentName]] : []),
     [''],
     ['Total Members', members.length],
     ['Active Members', activeMembers],
     ['Total Collected', totalCollected],
-    ['Total Payments', yearPayments.length]
+    ['Refunds and Voids', totalReversed],
+    ['Total Payments', yearPayments.length],
+    [''],
+    ['Collected by Fund'],
+    ...getCollectedByFund(payments, funds, p => summarizeYear(p, year).totalCollected).map(row => [row.name, row.collected])
   ];
 
   return Papa.unparse(csvData);
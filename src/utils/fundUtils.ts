@@ -0,0 +1,75 @@
+import { format } from 'date-fns';
+import { Fund, FundKind, Payment } from '@/types';
+import { formatDate } from './dateUtils';
+
+export const GENERAL_FUND_NAME = 'General fund';
+
+export const FUND_KIND_LABELS: Record<FundKind, string> = {
+  fund: 'Restricted fund',
+  campaign: 'Fundraising campaign',
+};
+
+export function getFundName(fundId: string | undefined, funds: Fund[]): string {
+  if (!fundId) return GENERAL_FUND_NAME;
+  return funds.find(fund => fund.id === fundId)?.name ?? 'Removed fund';
+}
+
+export function describeFundWindow(fund: Fund): string {
+  if (fund.start_date && fund.end_date) return `${formatDate(fund.start_date)} – ${formatDate(fund.end_date)}`;
+  if (fund.start_date) return `From ${formatDate(fund.start_date)}`;
+  if (fund.end_date) return `Until ${formatDate(fund.end_date)}`;
+  return 'Ongoing';
+}
+
+// Whether a payment made on this day can be designated to the fund
+export function isFundOpen(fund: Fund, date: Date = new Date()): boolean {
+  const day = format(date, 'yyyy-MM-dd');
+  return !fund.archived_at && (!fund.start_date || day >= fund.start_date) && (!fund.end_date || day <= fund.end_date);
+}
+
+export interface FundProgress {
+  raised: number; // net of refunds and voids
+  donors: number;
+  goal?: number;
+  percent?: number; // of the goal, 0-100 and beyond; unset without a goal
+}
+
+// Counts every received payment designated to the fund, whatever its date, so
+// a gift logged late still counts towards the goal
+export function getFundProgress(fund: Fund, payments: Payment[]): FundProgress {
+  const designated = payments.filter(p => p.fund_id === fund.id && p.status === 'paid' && !p.deleted_at);
+  const raised = designated.reduce((sum, p) => sum + p.amount, 0);
+  // A donor is anyone whose gifts to the fund are still above 0 after refunds
+  const byMember = designated.reduce((totals, p) => totals.set(p.member_id, (totals.get(p.member_id) ?? 0) + p.amount), new Map<string, number>());
+  const donors = [...byMember.values()].filter(total => total > 0).length;
+  return {
+    raised,
+    donors,
+    goal: fund.goal_amount,
+    percent: fund.goal_amount ? (raised / fund.goal_amount) * 100 : undefined,
+  };
+}
+
+export interface FundCollection {
+  fund_id?: string; // unset for the general fund
+  name: string;
+  collected: number;
+}
+
+// Splits a report's collected total by fund. `collect` is the report's own
+// total, applied to each fund's payments, so the rows always add up to it.
+// The general fund is always listed; other funds only when they took money.
+export function getCollectedByFund(
+  payments: Payment[],
+  funds: Fund[],
+  collect: (payments: Payment[]) => number
+): FundCollection[] {
+  const designatedIds = [...new Set(payments.map(p => p.fund_id).filter((id): id is string => !!id))];
+  const ids = [...funds.map(fund => fund.id), ...designatedIds.filter(id => !funds.some(fund => fund.id === id))];
+
+  const general: FundCollection = { name: GENERAL_FUND_NAME, collected: collect(payments.filter(p => !p.fund_id)) };
+  const designated = ids
+    .map(id => ({ fund_id: id, name: getFundName(id, funds), collected: collect(payments.filter(p => p.fund_id === id)) }))
+    .filter(row => row.collected !== 0);
+  return [general, ...designated];
+}
@@ -0,0 +1,88 @@
+import { Member, Message, MessageChannel } from '@/types';
+import { normalizePhoneNumber } from './smsUtils';
+import { TemplateContextData, buildTemplateContext, renderMessageTemplate } from './templateUtils';
+
+export const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+};
+
+export function getMemberPhone(member: Member, countryCode?: string): string | null {
+  return normalizePhoneNumber(member.phone_number, countryCode) ?? normalizePhoneNumber(member.alt_phone_number, countryCode);
+}
+
+// An address that has not hard-bounced, for a member who has not opted out
+export function canEmail(member: Member): boolean {
+  return !!member.email?.trim() && !member.email_invalid_at && !member.email_opt_out_at;
+}
+
+export function canText(member: Member, countryCode?: string): boolean {
+  return !member.sms_opt_out_at && !!getMemberPhone(member, countryCode);
+}
+
+// True when the member has contact details but has opted out of, or bounced on, all of them
+export function isOptedOut(member: Member, countryCode?: string): boolean {
+  const blocked = !!(member.email_opt_out_at || member.email_invalid_at || member.sms_opt_out_at);
+  return blocked && getContactChannels(member, countryCode).length === 0;
+}
+
+// The member's preferred_contact, narrowed to the channels they can actually be
+// reached on. If none of the preferred ones work, any channel that does is used.
+// Opt-outs and hard bounces make a channel unusable.
+export function getContactChannels(member: Member, countryCode?: string): MessageChannel[] {
+  const reachable: Record<MessageChannel, boolean> = {
+    email: canEmail(member),
+    sms: canText(member, countryCode),
+  };
+  const preferred: MessageChannel[] = member.preferred_contact === 'both' ? ['email', 'sms'] : [member.preferred_contact];
+  const usable = preferred.filter(channel => reachable[channel]);
+  if (usable.length > 0) return usable;
+  return (['email', 'sms'] as const).filter(channel => reachable[channel]).slice(0, 1);
+}
+
+export interface MessageDraft {
+  message_type: Message['message_type'];
+  message_subject?: string;
+  message_content: string; // the email body
+  sms_content?: string; // the text message; falls back to message_content
+}
+
+// One message per channel the member takes. Subjects are kept on SMS records
+// too so the history still says what each message was about.
+export function buildMemberMessages(
+  member: Member,
+  draft: MessageDraft,
+  sentAt: string,
+  countryCode?: string
+): Omit<Message, 'id'>[] {
+  return getContactChannels(member, countryCode).map(channel => ({
+    member_id: member.id,
+    message_type: draft.message_type,
+    message_subject: draft.message_subject,
+    message_content: channel === 'sms' ? draft.sms_content || draft.message_content : draft.message_content,
+    sent_at: sentAt,
+    channel,
+  }));
+}
+
+// As buildMemberMessages, with the draft treated as a template and rendered
+// with this member's own details, so each stored message holds the final text.
+// Throws TemplateSyntaxError for a malformed draft.
+export function buildPersonalizedMessages(
+  member: Member,
+  draft: MessageDraft,
+  data: TemplateContextData,
+  sentAt: string
+): Omit<Message, 'id'>[] {
+  const rendered = renderMessageTemplate({
+    subject: draft.message_subject ?? '',
+    content: draft.message_content,
+    sms_content: draft.sms_content,
+  }, buildTemplateContext(member, data));
+  return buildMemberMessages(member, {
+    message_type: draft.message_type,
+    message_subject: rendered.subject,
+    message_content: rendered.content,
+    sms_content: rendered.sms_content,
+  }, sentAt, data.settings?.sms_country_code);
+}
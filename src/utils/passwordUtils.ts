@@ -0,0 +1,65 @@
+const PBKDF2_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export interface PasswordHash {
+  hash: string;
+  salt: string;
+  iterations: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+async function deriveBits(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string, iterations: number = PBKDF2_ITERATIONS): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveBits(password, salt, iterations);
+  return { hash: toBase64(hash), salt: toBase64(salt), iterations };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const candidate = await deriveBits(password, fromBase64(stored.salt), stored.iterations);
+  const expected = fromBase64(stored.hash);
+  if (candidate.length !== expected.length) return false;
+
+  // Compare every byte so timing does not reveal how much of the hash matched
+  let diff = 0;
+  for (let i = 0; i < candidate.length; i++) {
+    diff |= candidate[i] ^ expected[i];
+  }
+  return diff === 0;
+}
+
+export function validatePasswordStrength(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) return 'Password must contain letters and numbers';
+  return null;
+}
+
+// Readable one-time password for new accounts and admin resets
+export function generateTemporaryPassword(length: number = 12): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  let password = Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+  // Guarantee the strength rule is met
+  if (!/[0-9]/.test(password)) password = password.slice(0, -1) + '7';
+  if (!/[A-Za-z]/.test(password)) password = 'k' + password.slice(1);
+  return password;
+}
@@ -0,0 +1,22 @@
+import { Payment, PaymentReversalType } from '@/types';
+
+export const REVERSAL_LABELS: Record<PaymentReversalType, string> = {
+  refund: 'Refunded',
+  void: 'Voided',
+};
+
+// Refund and void entries are negative payments linked to the one they reverse
+export function isReversal(payment: Payment): boolean {
+  return !!payment.reverses;
+}
+
+export function canReverse(payment: Payment): boolean {
+  return payment.status === 'paid' && !payment.reverses && !payment.reversed_by && !payment.deleted_at;
+}
+
+// What a payment still counts for once any refund or void against it is taken off
+export function getNetAmount(payment: Payment, payments: Payment[]): number {
+  if (!payment.reversed_by) return payment.amount;
+  const reversal = payments.find(p => p.id === payment.reversed_by && !p.deleted_at);
+  return reversal ? payment.amount + reversal.amount : payment.amount;
+}
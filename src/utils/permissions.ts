@@ -0,0 +1,67 @@
+import { Capability, RoleDefinition, User } from '@/types';
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  'members.create': 'Add members',
+  'members.edit': 'Edit members',
+  'members.delete': 'Delete members',
+  'payments.create': 'Log payments',
+  'payments.edit': 'Edit payments',
+  'payments.delete': 'Delete payments',
+  'payments.reverse': 'Refund or void payments',
+  'receipts.void': 'Void receipts',
+  'messages.send': 'Send messages',
+  'messages.bulk_send': 'Send bulk messages',
+  'messages.delete': 'Delete messages',
+  'templates.manage': 'Manage message templates',
+  'segments.manage': 'Manage member segments',
+  'funds.manage': 'Manage funds and campaigns',
+  'settings.write': 'Change settings',
+  'data.export': 'Export data',
+  'data.import': 'Import data',
+  'data.clear': 'Clear all data',
+  'users.manage': 'Manage users and roles',
+  'audit.view': 'View the audit log',
+  'recycle_bin.manage': 'Restore or purge deleted items',
+};
+
+export const ALL_CAPABILITIES = Object.keys(CAPABILITY_LABELS) as Capability[];
+
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+  {
+    id: 'admin',
+    name: 'Administrator',
+    description: 'Full access, including users, settings and data management',
+    capabilities: ALL_CAPABILITIES,
+    built_in: true,
+  },
+  {
+    id: 'staff',
+    name: 'Staff',
+    description: 'Day-to-day member, payment and message work',
+    capabilities: ['members.create', 'members.edit', 'payments.create', 'payments.edit', 'messages.send', 'segments.manage'],
+    built_in: true,
+  },
+];
+
+export class PermissionDeniedError extends Error {
+  constructor(public capability: Capability) {
+    super(`You do not have permission to ${CAPABILITY_LABELS[capability].toLowerCase()}`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+export function getRole(roleId: string, roles: RoleDefinition[]): RoleDefinition | undefined {
+  return roles.find(role => role.id === roleId) || BUILT_IN_ROLES.find(role => role.id === roleId);
+}
+
+export function hasCapability(user: User | null, roles: RoleDefinition[], capability: Capability): boolean {
+  if (!user || !user.active) return false;
+  const role = getRole(user.role, roles);
+  return !!role && role.capabilities.includes(capability);
+}
+
+export function assertCapability(user: User | null, roles: RoleDefinition[], capability: Capability): void {
+  if (!hasCapability(user, roles, capability)) {
+    throw new PermissionDeniedError(capability);
+  }
+}
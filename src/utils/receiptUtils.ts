@@ -0,0 +1,67 @@
+import { Payment, Receipt } from '@/types';
+
+export function formatReceiptNumber(sequence: number): string {
+  return `RCT-${String(sequence).padStart(6, '0')}`;
+}
+
+// The receipt that currently stands for a payment; voided ones are history
+export function getActiveReceipt(receipts: Receipt[], paymentId: string): Receipt | undefined {
+  return receipts.find(receipt => receipt.payment_id === paymentId && receipt.status === 'issued');
+}
+
+// What a receipt prints from its payment; changing any of these outdates the receipt
+export const RECEIPTED_PAYMENT_FIELDS: (keyof Payment)[] = ['amount', 'member_id', 'payment_method', 'payment_date', 'status'];
+
+// Only money actually received gets a receipt; refund and void entries never do
+export function canIssueReceipt(payment: Payment): boolean {
+  return payment.status === 'paid' && payment.amount > 0 && !payment.reverses && !payment.reversed_by && !payment.deleted_at;
+}
+
+const ONES = [
+  '', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion'];
+
+// Major and minor unit names for the currencies donors are likely to use
+const CURRENCY_UNITS: Record<string, [string, string]> = {
+  ETB: ['birr', 'santim'],
+  USD: ['dollars', 'cents'],
+  EUR: ['euros', 'cents'],
+  GBP: ['pounds', 'pence'],
+};
+
+function underThousandToWords(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+  if (hundreds > 0) parts.push(`${ONES[hundreds]} hundred`);
+  if (rest > 0 && rest < 20) parts.push(ONES[rest]);
+  if (rest >= 20) parts.push(rest % 10 ? `${TENS[Math.floor(rest / 10)]}-${ONES[rest % 10]}` : TENS[Math.floor(rest / 10)]);
+  return parts.join(' and ');
+}
+
+export function numberToWords(n: number): string {
+  if (n === 0) return 'zero';
+  const groups: string[] = [];
+  let remaining = Math.floor(n);
+  for (let scale = 0; remaining > 0 && scale < SCALES.length; scale++) {
+    const group = remaining % 1000;
+    if (group > 0) groups.unshift([underThousandToWords(group), SCALES[scale]].filter(Boolean).join(' '));
+    remaining = Math.floor(remaining / 1000);
+  }
+  // "twenty thousand and thirty", as with hundreds
+  const last = Math.floor(n) % 1000;
+  if (groups.length > 1 && last > 0 && last < 100) return `${groups.slice(0, -1).join(' ')} and ${groups[groups.length - 1]}`;
+  return groups.join(' ');
+}
+
+// "One thousand five hundred birr and fifty santim only"
+export function amountInWords(amount: number, currency: string): string {
+  const cents = Math.round(amount * 100);
+  const [major, minor] = CURRENCY_UNITS[currency] ?? [currency, 'cents'];
+  const words = `${numberToWords(Math.floor(cents / 100))} ${major}` +
+    (cents % 100 ? ` and ${numberToWords(cents % 100)} ${minor}` : '');
+  return `${words.charAt(0).toUpperCase()}${words.slice(1)} only`;
+}
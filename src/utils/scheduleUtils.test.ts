@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { buildSchedule, getDueDates, getInstallmentId } from './scheduleUtils';
+import { Installment, Member, Payment } from '@/types';
+
+function member(overrides: Partial<Member> = {}): Member {
+  return {
+    id: 'm1',
+    full_name: 'Ada Lovelace',
+    email: 'ada@example.org',
+    phone_number: '+251911223344',
+    payment_amount: 100,
+    payment_frequency: 'monthly',
+    payment_start_date: '2026-01-01',
+    payment_method: 'bank',
+    preferred_contact: 'email',
+    active: true,
+    created_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  } as Member;
+}
+
+function payment(id: string, amount: number, paymentDate: string, overrides: Partial<Payment> = {}): Payment {
+  return { id, member_id: 'm1', amount, payment_date: paymentDate, payment_method: 'bank', status: 'paid', ...overrides };
+}
+
+// Due date -> [paid_amount, state], to read a schedule at a glance
+function summarize(installments: Installment[]) {
+  return Object.fromEntries(installments.map(i => [i.due_date, [i.paid_amount, i.state]]));
+}
+
+describe('getDueDates', () => {
+  it.each([
+    ['monthly', '2026-01-31', '2026-04-01', ['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']],
+    ['monthly', '2028-01-31', '2028-03-01', ['2028-01-31', '2028-02-29', '2028-03-31']],
+    ['three_months', '2025-11-30', '2026-05-01', ['2025-11-30', '2026-02-28', '2026-05-30']],
+    ['three_months', '2027-11-30', '2028-03-01', ['2027-11-30', '2028-02-29', '2028-05-30']],
+    ['six_months', '2025-08-31', '2026-03-01', ['2025-08-31', '2026-02-28', '2026-08-31']],
+    ['yearly', '2028-02-29', '2030-01-01', ['2028-02-29', '2029-02-28', '2030-02-28']],
+  ] as const)('%s from %s keeps to the month end', (frequency, start, through, expected) => {
+    const dates = getDueDates(member({ payment_frequency: frequency, payment_start_date: start }), new Date(`${through}T12:00:00`));
+
+    expect(dates).toEqual(expected);
+  });
+
+  it('returns nothing for an unreadable start date', () => {
+    expect(getDueDates(member({ payment_start_date: 'soon' }), new Date())).toEqual([]);
+  });
+});
+
+describe('buildSchedule', () => {
+  const today = new Date('2026-03-15T12:00:00');
+
+  it.each([
+    {
+      name: 'a partial payment leaves the installment partially paid',
+      payments: [payment('p1', 60, '2026-01-05')],
+      expected: { '2026-01-01': [60, 'partially_paid'], '2026-02-01': [0, 'open'], '2026-03-01': [0, 'open'], '2026-04-01': [0, 'open'] },
+    },
+    {
+      name: 'an overpayment rolls forward to later installments',
+      payments: [payment('p1', 250, '2026-01-05')],
+      expected: { '2026-01-01': [100, 'paid'], '2026-02-01': [100, 'paid'], '2026-03-01': [50, 'partially_paid'], '2026-04-01': [0, 'open'] },
+    },
+    {
+      name: 'payments fill installments oldest first',
+      payments: [payment('p2', 100, '2026-02-03'), payment('p1', 50, '2026-01-05'), payment('p3', 100, '2026-03-02')],
+      expected: { '2026-01-01': [100, 'paid'], '2026-02-01': [100, 'paid'], '2026-03-01': [50, 'partially_paid'], '2026-04-01': [0, 'open'] },
+    },
+    {
+      name: 'unpaid and deleted payments are not allocated',
+      payments: [payment('p1', 100, '2026-01-05', { status: 'unpaid' }), payment('p2', 100, '2026-01-06', { deleted_at: '2026-01-07T00:00:00.000Z' })],
+      expected: { '2026-01-01': [0, 'open'], '2026-02-01': [0, 'open'], '2026-03-01': [0, 'open'], '2026-04-01': [0, 'open'] },
+    },
+    {
+      name: 'a partly refunded payment counts for what is left',
+      payments: [
+        payment('p1', 200, '2026-01-05', { reversed_by: 'r1', reversal_type: 'refund' }),
+        payment('r1', -80, '2026-01-20', { reverses: 'p1', reversal_type: 'refund' }),
+      ],
+      expected: { '2026-01-01': [100, 'paid'], '2026-02-01': [20, 'partially_paid'], '2026-03-01': [0, 'open'], '2026-04-01': [0, 'open'] },
+    },
+    {
+      name: 'a voided payment counts for nothing',
+      payments: [
+        payment('p1', 100, '2026-01-05', { reversed_by: 'r1', reversal_type: 'void' }),
+        payment('r1', -100, '2026-01-05', { reverses: 'p1', reversal_type: 'void' }),
+        payment('p2', 100, '2026-02-05'),
+      ],
+      expected: { '2026-01-01': [100, 'paid'], '2026-02-01': [0, 'open'], '2026-03-01': [0, 'open'], '2026-04-01': [0, 'open'] },
+    },
+  ])('$name', ({ payments, expected }) => {
+    expect(summarize(buildSchedule(member(), [], payments, today))).toEqual(expected);
+  });
+
+  it('skips waived and written-off installments when allocating', () => {
+    const resolved = (dueDate: string, state: 'waived' | 'written_off'): Installment => ({
+      id: getInstallmentId('m1', dueDate),
+      member_id: 'm1',
+      due_date: dueDate,
+      expected_amount: 100,
+      paid_amount: 0,
+      allocations: [],
+      state,
+      resolved_at: '2026-03-10T00:00:00.000Z',
+    });
+    const existing = [resolved('2026-01-01', 'waived'), resolved('2026-02-01', 'written_off')];
+
+    const schedule = buildSchedule(member(), existing, [payment('p1', 150, '2026-01-05')], today);
+    expect(summarize(schedule)).toEqual({
+      '2026-01-01': [0, 'waived'],
+      '2026-02-01': [0, 'written_off'],
+      '2026-03-01': [100, 'paid'],
+      '2026-04-01': [50, 'partially_paid'],
+    });
+    expect(schedule[2].allocations).toEqual([{ payment_id: 'p1', amount: 100 }]);
+  });
+
+  it('keeps the amount an installment was due with after the terms change', () => {
+    const first = buildSchedule(member(), [], [payment('p1', 100, '2026-01-05')], today);
+
+    const schedule = buildSchedule(member({ payment_amount: 150 }), first, [payment('p1', 100, '2026-01-05')], today);
+    expect(schedule.map(i => i.expected_amount)).toEqual([100, 100, 100, 150]);
+  });
+
+  it('records which payments went to each installment', () => {
+    const schedule = buildSchedule(member(), [], [payment('p1', 60, '2026-01-05'), payment('p2', 60, '2026-01-20')], today);
+
+    expect(schedule[0].allocations).toEqual([{ payment_id: 'p1', amount: 60 }, { payment_id: 'p2', amount: 40 }]);
+    expect(schedule[1].allocations).toEqual([{ payment_id: 'p2', amount: 20 }]);
+  });
+
+  it('generates nothing new for an inactive member', () => {
+    expect(buildSchedule(member({ active: false }), [], [], today)).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+import { addMonths, differenceInDays, format, parseISO, startOfDay } from 'date-fns';
+import { Installment, InstallmentState, Member, Payment } from '@/types';
+import { getNetAmount, isReversal } from './paymentUtils';
+
+export type PaymentStatus = 'current' | 'partially_paid' | 'due_soon' | 'overdue';
+
+export interface MemberBalance {
+  owed: number; // still outstanding on installments that have fallen due
+  paid: number; // everything received
+  credit: number; // received but not yet allocated to any installment
+  remaining: number; // still to pay on the next installment
+}
+
+export const INSTALLMENT_STATE_LABELS: Record<InstallmentState, string> = {
+  open: 'Open',
+  partially_paid: 'Partially paid',
+  paid: 'Paid',
+  waived: 'Waived',
+  written_off: 'Written off',
+};
+
+const FREQUENCY_MONTHS: Record<Member['payment_frequency'], number> = {
+  monthly: 1,
+  three_months: 3,
+  six_months: 6,
+  yearly: 12,
+};
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Amounts are kept to the cent so repeated allocation never drifts
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getInstallmentId(memberId: string, dueDate: string): string {
+  return `${memberId}:${dueDate}`;
+}
+
+export function isResolved(installment: Installment): boolean {
+  return installment.state === 'waived' || installment.state === 'written_off';
+}
+
+// Due dates from the start date up to and including `through`, plus the first
+// one after it. Each is counted from the start date rather than the previous
+// due date, so month-end dates do not drift (Jan 31, Feb 28, Mar 31).
+export function getDueDates(member: Member, through: Date): string[] {
+  const start = parseISO(member.payment_start_date);
+  if (isNaN(start.getTime())) return [];
+
+  const step = FREQUENCY_MONTHS[member.payment_frequency] ?? 1;
+  const limit = toDateKey(through);
+  const dates: string[] = [];
+  for (let i = 0; ; i++) {
+    const dueDate = toDateKey(addMonths(start, i * step));
+    dates.push(dueDate);
+    if (dueDate > limit) return dates;
+  }
+}
+
+// Works out a member's schedule as of `today` from their current terms, the
+// installments stored so far and their payments.
+//
+// Installments that have fallen due keep the amount they were generated with,
+// as long as they still match the terms or have money against them; waived and
+// written-off ones are always kept. Future installments follow the member's
+// current amount and frequency. Inactive members accrue no new installments.
+//
+// Received payments are then allocated oldest first to the earliest installments
+// that still expect money, net of any refund or void against them. Anything left
+// over is not allocated.
+export function buildSchedule(
+  member: Member,
+  existing: Installment[],
+  payments: Payment[],
+  today: Date = new Date()
+): Installment[] {
+  const todayKey = toDateKey(today);
+  const dueDates = member.active ? getDueDates(member, today) : [];
+  const dueDateSet = new Set(dueDates);
+
+  const schedule = new Map<string, Installment>();
+  existing
+    .filter(installment =>
+      isResolved(installment) ||
+      (installment.due_date <= todayKey && (dueDateSet.has(installment.due_date) || installment.paid_amount > 0))
+    )
+    .forEach(installment => schedule.set(installment.due_date, installment));
+
+  dueDates
+    .filter(dueDate => !schedule.has(dueDate))
+    .forEach(dueDate => schedule.set(dueDate, {
+      id: getInstallmentId(member.id, dueDate),
+      member_id: member.id,
+      due_date: dueDate,
+      expected_amount: member.payment_amount,
+      paid_amount: 0,
+      allocations: [],
+      state: 'open',
+    }));
+
+  const installments = [...schedule.values()]
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))
+    .map(installment => ({ ...installment, paid_amount: 0, allocations: [] as Installment['allocations'] }));
+
+  const payable = installments.filter(installment => !isResolved(installment));
+  const received = payments
+    .filter(payment => payment.status === 'paid' && !payment.deleted_at && !isReversal(payment))
+    .sort((a, b) => a.payment_date.localeCompare(b.payment_date) || a.id.localeCompare(b.id));
+
+  let cursor = 0;
+  for (const payment of received) {
+    let remaining = roundAmount(getNetAmount(payment, payments));
+    while (remaining > 0 && cursor < payable.length) {
+      const installment = payable[cursor];
+      const amount = Math.min(remaining, roundAmount(installment.expected_amount - installment.paid_amount));
+      if (amount > 0) {
+        installment.paid_amount = roundAmount(installment.paid_amount + amount);
+        installment.allocations.push({ payment_id: payment.id, amount });
+        remaining = roundAmount(remaining - amount);
+      }
+      if (installment.paid_amount >= installment.expected_amount) cursor++;
+    }
+  }
+
+  return installments.map(installment => {
+    if (isResolved(installment)) return installment;
+    const state: InstallmentState = installment.paid_amount >= installment.expected_amount
+      ? 'paid'
+      : installment.paid_amount > 0 ? 'partially_paid' : 'open';
+    return { ...installment, state };
+  });
+}
+
+export function getOutstandingAmount(installment: Installment): number {
+  if (isResolved(installment)) return 0;
+  return Math.max(0, roundAmount(installment.expected_amount - installment.paid_amount));
+}
+
+export function isInstallmentOverdue(installment: Installment, today: Date = new Date()): boolean {
+  return getOutstandingAmount(installment) > 0 && installment.due_date < toDateKey(today);
+}
+
+export function getOverdueInstallments(installments: Installment[], today: Date = new Date()): Installment[] {
+  return installments.filter(installment => isInstallmentOverdue(installment, today));
+}
+
+// The earliest installment still waiting for money
+export function getNextDueInstallment(installments: Installment[]): Installment | undefined {
+  return installments
+    .filter(installment => getOutstandingAmount(installment) > 0)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))[0];
+}
+
+export function getNextDueDate(installments: Installment[]): Date | undefined {
+  const next = getNextDueInstallment(installments);
+  return next ? parseISO(next.due_date) : undefined;
+}
+
+// Reminder timing wins over a partial payment: an installment that is half
+// paid and due tomorrow is still due soon
+export function getPaymentStatus(installments: Installment[], reminderDays: number = 3, today: Date = new Date()): PaymentStatus {
+  const next = getNextDueInstallment(installments);
+  if (!next) return 'current';
+
+  const daysDiff = differenceInDays(parseISO(next.due_date), startOfDay(today));
+  if (daysDiff < 0) return 'overdue';
+  if (daysDiff <= reminderDays) return 'due_soon';
+  if (next.state === 'partially_paid') return 'partially_paid';
+  return 'current';
+}
+
+// Overpayments fill later installments as they are generated, so credit is
+// whatever has been received beyond every installment scheduled so far.
+// Refund and void entries are negative, so summing everything paid nets them off.
+export function getMemberBalance(installments: Installment[], payments: Payment[], today: Date = new Date()): MemberBalance {
+  const todayKey = toDateKey(today);
+  const paid = payments
+    .filter(payment => payment.status === 'paid' && !payment.deleted_at)
+    .reduce((total, payment) => total + payment.amount, 0);
+  const allocated = installments.reduce((total, installment) => total + installment.paid_amount, 0);
+  const next = getNextDueInstallment(installments);
+
+  return {
+    owed: roundAmount(installments
+      .filter(installment => installment.due_date <= todayKey)
+      .reduce((total, installment) => total + getOutstandingAmount(installment), 0)),
+    paid: roundAmount(paid),
+    credit: Math.max(0, roundAmount(paid - allocated)),
+    remaining: next ? getOutstandingAmount(next) : 0,
+  };
+}
+
+export function isDue(installments: Installment[], reminderDays: number = 3): boolean {
+  const status = getPaymentStatus(installments, reminderDays);
+  return status === 'due_soon' || status === 'overdue';
+}
@@ -1,5 +1,16 @@
 import Fuse from 'fuse.js';
-import { Member, SearchResult } from '@/types';
+import {
+  Member,
+  Payment,
+  Installment,
+  SearchResult,
+  StatementTransaction,
+  TransactionMatch,
+  MatchCandidate,
+  MatchConfidence,
+  MatchReason,
+} from '@/types';
+import { getOutstandingAmount, getNextDueInstallment } from './scheduleUtils';
 
 const fuseOptions = {
   keys: [
@@ -63,4 +74,134 @@ export function filterMembers(
     
     return true;
   });
-}
\ No newline at end of file
+}
+
+// How much each kind of evidence counts towards a bank statement match. A
+// reference or phone number is close to proof; a name or amount only helps.
+const MATCH_WEIGHTS: Record<MatchReason, number> = {
+  reference: 0.6,
+  phone: 0.5,
+  name: 0.4,
+  amount: 0.2,
+};
+const CONFIDENT_SCORE = 0.6;
+const CONFIDENT_MARGIN = 0.3;
+// An amount on its own is only worth suggesting when few members give exactly that
+const MAX_AMOUNT_ONLY_CANDIDATES = 5;
+
+const payerFuseOptions = {
+  keys: ['full_name'],
+  threshold: 0.35,
+  includeScore: true,
+  ignoreLocation: true,
+};
+
+// Local numbers and +251 numbers compare on their last nine digits
+const toPhoneKey = (phone: string) => phone.replace(/\D/g, '').slice(-9);
+
+function findPhoneKeys(text: string): string[] {
+  return (text.match(/\+?\d[\d\s-]{7,}\d/g) ?? []).map(toPhoneKey).filter(key => key.length === 9);
+}
+
+const normalizeReference = (reference: string) => reference.replace(/\s+/g, '').toUpperCase();
+
+// Scores every member against each credit on a statement. Credits whose bank
+// id is already on a payment are returned with that payment and no candidates.
+export function matchStatementTransactions(
+  transactions: StatementTransaction[],
+  members: Member[],
+  payments: Payment[],
+  installments: Installment[]
+): TransactionMatch[] {
+  const liveMembers = members.filter(member => !member.deleted_at);
+  const fuse = new Fuse(liveMembers, payerFuseOptions);
+
+  const recorded = new Map<string, string>();
+  // Standing orders repeat the payer's reference, so past bank payments teach us who sends which
+  const referenceOwners = new Map<string, Set<string>>();
+  payments.filter(payment => !payment.deleted_at).forEach(payment => {
+    if (payment.bank_transaction_id) recorded.set(payment.bank_transaction_id, payment.id);
+    if (payment.bank_reference) {
+      const key = normalizeReference(payment.bank_reference);
+      referenceOwners.set(key, (referenceOwners.get(key) ?? new Set()).add(payment.member_id));
+    }
+  });
+
+  const phoneOwners = new Map<string, string[]>();
+  liveMembers.forEach(member => {
+    [member.phone_number, member.alt_phone_number].forEach(phone => {
+      const key = phone ? toPhoneKey(phone) : '';
+      if (key.length === 9) phoneOwners.set(key, [...(phoneOwners.get(key) ?? []), member.id]);
+    });
+  });
+
+  const expectedAmounts = new Map<string, number[]>();
+  liveMembers.forEach(member => {
+    const next = getNextDueInstallment(installments.filter(installment => installment.member_id === member.id));
+    expectedAmounts.set(member.id, next ? [member.payment_amount, getOutstandingAmount(next)] : [member.payment_amount]);
+  });
+
+  const membersById = new Map(liveMembers.map(member => [member.id, member]));
+
+  return transactions.map(transaction => {
+    const recordedPaymentId = recorded.get(transaction.id);
+    if (recordedPaymentId) {
+      return { transaction, confidence: 'unmatched', candidates: [], recorded_payment_id: recordedPaymentId };
+    }
+
+    const evidence = new Map<string, Map<MatchReason, number>>();
+    const addEvidence = (memberId: string, reason: MatchReason, weight: number = MATCH_WEIGHTS[reason]) => {
+      const reasons = evidence.get(memberId) ?? new Map<MatchReason, number>();
+      reasons.set(reason, Math.max(reasons.get(reason) ?? 0, weight));
+      evidence.set(memberId, reasons);
+    };
+
+    const text = [transaction.reference, transaction.description, transaction.payer].filter(Boolean).join(' ');
+
+    if (transaction.reference) {
+      referenceOwners.get(normalizeReference(transaction.reference))?.forEach(memberId => addEvidence(memberId, 'reference'));
+    }
+    // Short ids from older imports would match by accident, so only full ids count
+    liveMembers
+      .filter(member => member.id.length >= 16 && text.toLowerCase().includes(member.id.toLowerCase()))
+      .forEach(member => addEvidence(member.id, 'reference'));
+
+    findPhoneKeys(text).forEach(key => phoneOwners.get(key)?.forEach(memberId => addEvidence(memberId, 'phone')));
+
+    // Fuse scores run from 0 (exact) to the threshold; closer names count for more
+    const payerName = transaction.payer || transaction.description;
+    if (payerName.trim()) {
+      fuse.search(payerName).forEach(result => {
+        const closeness = 1 - (result.score ?? 1) / payerFuseOptions.threshold;
+        if (closeness > 0) addEvidence(result.item.id, 'name', MATCH_WEIGHTS.name * closeness);
+      });
+    }
+
+    const paysThisAmount = (memberId: string) =>
+      expectedAmounts.get(memberId)?.some(amount => Math.abs(amount - transaction.amount) < 0.005) ?? false;
+    if (evidence.size > 0) {
+      evidence.forEach((_, memberId) => paysThisAmount(memberId) && addEvidence(memberId, 'amount'));
+    } else {
+      const byAmount = liveMembers.filter(member => member.active && paysThisAmount(member.id));
+      if (byAmount.length <= MAX_AMOUNT_ONLY_CANDIDATES) byAmount.forEach(member => addEvidence(member.id, 'amount'));
+    }
+
+    const candidates: MatchCandidate[] = [...evidence]
+      .map(([memberId, reasons]) => ({
+        member: membersById.get(memberId)!,
+        score: Math.min(1, [...reasons.values()].reduce((total, weight) => total + weight, 0)),
+        reasons: [...reasons.keys()],
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = candidates;
+    let confidence: MatchConfidence = 'unmatched';
+    if (best && best.score >= CONFIDENT_SCORE && (!runnerUp || best.score - runnerUp.score >= CONFIDENT_MARGIN)) {
+      confidence = 'confident';
+    } else if (best) {
+      confidence = 'ambiguous';
+    }
+
+    return { transaction, confidence, candidates };
+  });
+}
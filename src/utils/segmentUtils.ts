@@ -0,0 +1,205 @@
+import { differenceInDays, format, parseISO, startOfDay } from 'date-fns';
+import { Installment, Member, MemberSegment, Message, Payment, SegmentCondition, SegmentField } from '@/types';
+import { getOutstandingAmount } from './scheduleUtils';
+import { formatCurrency, formatDate, getLastPaymentDate } from './dateUtils';
+
+export const SEGMENT_FIELD_LABELS: Record<SegmentField, string> = {
+  location: 'Location',
+  payment_frequency: 'Payment frequency',
+  payment_method: 'Payment method',
+  active: 'Status',
+  created_at: 'Joined',
+  overdue_days: 'Overdue',
+  lifetime_total: 'Lifetime giving',
+  last_payment_before: 'No payment since',
+  never_messaged: 'Never messaged',
+};
+
+export const FREQUENCY_LABELS: Record<Member['payment_frequency'], string> = {
+  monthly: 'Monthly',
+  three_months: 'Every 3 months',
+  six_months: 'Every 6 months',
+  yearly: 'Yearly',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<Member['payment_method'], string> = {
+  bank: 'Bank',
+  cash: 'Cash',
+  branch: 'Branch',
+};
+
+// A condition as first added in the builder, before its values are filled in
+export function getDefaultCondition(field: SegmentField, today: Date = new Date()): SegmentCondition {
+  switch (field) {
+    case 'location': return { field, values: [] };
+    case 'payment_frequency': return { field, values: [] };
+    case 'payment_method': return { field, values: [] };
+    case 'active': return { field, value: true };
+    case 'created_at': return { field };
+    case 'overdue_days': return { field, days: 30 };
+    case 'lifetime_total': return { field, min: 0 };
+    case 'last_payment_before': return { field, date: format(today, 'yyyy-MM-dd') };
+    case 'never_messaged': return { field };
+  }
+}
+
+// Why a condition can't be saved yet, or null when it can
+export function getConditionIssue(condition: SegmentCondition): string | null {
+  switch (condition.field) {
+    case 'location':
+    case 'payment_frequency':
+    case 'payment_method':
+      return condition.values.length === 0 ? `Choose at least one ${SEGMENT_FIELD_LABELS[condition.field].toLowerCase()}.` : null;
+    case 'created_at':
+      if (!condition.from && !condition.to) return 'Give a start or end date for when members joined.';
+      return condition.from && condition.to && condition.from > condition.to ? 'The join start date is after the end date.' : null;
+    case 'lifetime_total':
+      if (condition.min === undefined && condition.max === undefined) return 'Give a minimum or maximum lifetime total.';
+      return condition.min !== undefined && condition.max !== undefined && condition.min > condition.max
+        ? 'The lifetime minimum is above the maximum.'
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function describeCondition(condition: SegmentCondition, currency?: string): string {
+  switch (condition.field) {
+    case 'location':
+      return `Location is ${condition.values.join(' or ')}`;
+    case 'payment_frequency':
+      return `Pays ${condition.values.map(value => FREQUENCY_LABELS[value].toLowerCase()).join(' or ')}`;
+    case 'payment_method':
+      return `Pays by ${condition.values.map(value => PAYMENT_METHOD_LABELS[value].toLowerCase()).join(' or ')}`;
+    case 'active':
+      return condition.value ? 'Active' : 'Inactive';
+    case 'created_at':
+      if (condition.from && condition.to) return `Joined ${formatDate(condition.from)} – ${formatDate(condition.to)}`;
+      return condition.from ? `Joined on or after ${formatDate(condition.from)}` : `Joined on or before ${formatDate(condition.to)}`;
+    case 'overdue_days':
+      return `Overdue by more than ${condition.days} ${condition.days === 1 ? 'day' : 'days'}`;
+    case 'lifetime_total':
+      if (condition.min !== undefined && condition.max !== undefined) {
+        return `Has given ${formatCurrency(condition.min, currency)} – ${formatCurrency(condition.max, currency)}`;
+      }
+      return condition.min !== undefined
+        ? `Has given at least ${formatCurrency(condition.min, currency)}`
+        : `Has given at most ${formatCurrency(condition.max, currency)}`;
+    case 'last_payment_before':
+      return `No payment since ${formatDate(condition.date)}`;
+    case 'never_messaged':
+      return 'Never messaged';
+  }
+}
+
+export function describeSegment(segment: MemberSegment, currency?: string): string {
+  if (segment.conditions.length === 0) return 'Every member';
+  return segment.conditions.map(condition => describeCondition(condition, currency)).join(segment.match === 'all' ? ' and ' : ' or ');
+}
+
+export interface SegmentData {
+  payments: Payment[];
+  installments: Installment[];
+  messages: Message[];
+}
+
+interface MemberFacts {
+  payments: Payment[];
+  installments: Installment[];
+  messaged: boolean;
+}
+
+function groupByMember<T extends { member_id?: string; deleted_at?: string }>(records: T[]): Map<string, T[]> {
+  return records.reduce((groups, record) => {
+    if (!record.member_id || record.deleted_at) return groups;
+    const group = groups.get(record.member_id);
+    if (group) group.push(record);
+    else groups.set(record.member_id, [record]);
+    return groups;
+  }, new Map<string, T[]>());
+}
+
+function matchesCondition(member: Member, condition: SegmentCondition, facts: MemberFacts, today: Date): boolean {
+  switch (condition.field) {
+    case 'location':
+      return !!member.location && condition.values.includes(member.location);
+    case 'payment_frequency':
+      return condition.values.includes(member.payment_frequency);
+    case 'payment_method':
+      return condition.values.includes(member.payment_method);
+    case 'active':
+      return member.active === condition.value;
+    case 'created_at': {
+      const joined = format(parseISO(member.created_at), 'yyyy-MM-dd');
+      return (!condition.from || joined >= condition.from) && (!condition.to || joined <= condition.to);
+    }
+    case 'overdue_days':
+      return facts.installments.some(installment =>
+        getOutstandingAmount(installment) > 0 &&
+        differenceInDays(startOfDay(today), parseISO(installment.due_date)) > condition.days
+      );
+    case 'lifetime_total': {
+      // Refund and void entries are negative, so the sum is already net of them
+      const total = facts.payments
+        .filter(payment => payment.status === 'paid')
+        .reduce((sum, payment) => sum + payment.amount, 0);
+      return (condition.min === undefined || total >= condition.min) && (condition.max === undefined || total <= condition.max);
+    }
+    case 'last_payment_before': {
+      const last = getLastPaymentDate(facts.payments);
+      return !last || format(parseISO(last), 'yyyy-MM-dd') < condition.date;
+    }
+    case 'never_messaged':
+      return !facts.messaged;
+  }
+}
+
+// The members a segment picks out of those given, in the order given. A
+// segment with no conditions picks everyone.
+export function getSegmentMembers(
+  segment: MemberSegment,
+  members: Member[],
+  data: SegmentData,
+  today: Date = new Date()
+): Member[] {
+  if (segment.conditions.length === 0) return members;
+
+  const payments = groupByMember(data.payments);
+  const installments = groupByMember(data.installments);
+  const messaged = new Set(groupByMember(data.messages).keys());
+
+  return members.filter(member => {
+    const facts: MemberFacts = {
+      payments: payments.get(member.id) ?? [],
+      installments: installments.get(member.id) ?? [],
+      messaged: messaged.has(member.id),
+    };
+    const test = (condition: SegmentCondition) => matchesCondition(member, condition, facts, today);
+    return segment.match === 'all' ? segment.conditions.every(test) : segment.conditions.some(test);
+  });
+}
+
+export interface SegmentScope {
+  members: Member[];
+  payments: Payment[];
+  installments: Installment[];
+}
+
+// Records narrowed to one segment's members, for reports and exports.
+// Everything is kept when there is no segment.
+export function scopeToSegment(
+  segment: MemberSegment | undefined,
+  members: Member[],
+  data: SegmentData,
+  today: Date = new Date()
+): SegmentScope {
+  if (!segment) return { members, payments: data.payments, installments: data.installments };
+
+  const scoped = getSegmentMembers(segment, members, data, today);
+  const ids = new Set(scoped.map(member => member.id));
+  return {
+    members: scoped,
+    payments: data.payments.filter(payment => ids.has(payment.member_id)),
+    installments: data.installments.filter(installment => ids.has(installment.member_id)),
+  };
+}
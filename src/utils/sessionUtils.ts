@@ -0,0 +1,42 @@
+export const DEFAULT_SESSION_MAX_HOURS = 12;
+export const DEFAULT_IDLE_LOCK_MINUTES = 15;
+
+// Failed sign-ins allowed before delays start, then 5s, 10s, 20s... capped at 15 minutes
+const FREE_LOGIN_ATTEMPTS = 3;
+const BASE_LOGIN_DELAY_MS = 5000;
+const MAX_LOGIN_DELAY_MS = 15 * 60 * 1000;
+
+export interface LoginAttempts {
+  failures: number;
+  last_failed_at: string; // ISO
+}
+
+export class LoginThrottledError extends Error {
+  constructor(public retryAt: Date) {
+    super(`Too many failed attempts. Try again ${formatRetryDelay(retryAt)}.`);
+    this.name = 'LoginThrottledError';
+  }
+}
+
+export function getLoginDelayMs(failures: number): number {
+  if (failures < FREE_LOGIN_ATTEMPTS) return 0;
+  return Math.min(BASE_LOGIN_DELAY_MS * 2 ** (failures - FREE_LOGIN_ATTEMPTS), MAX_LOGIN_DELAY_MS);
+}
+
+// When the next attempt is allowed, or null if it is allowed now
+export function getRetryAt(attempts: LoginAttempts | undefined, now: Date = new Date()): Date | null {
+  if (!attempts) return null;
+  const retryAt = new Date(new Date(attempts.last_failed_at).getTime() + getLoginDelayMs(attempts.failures));
+  return retryAt > now ? retryAt : null;
+}
+
+export function isSessionExpired(expiresAt: string, now: Date = new Date()): boolean {
+  return new Date(expiresAt).getTime() <= now.getTime();
+}
+
+function formatRetryDelay(retryAt: Date): string {
+  const seconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  if (seconds < 60) return `in ${seconds} seconds`;
+  const minutes = Math.ceil(seconds / 60);
+  return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
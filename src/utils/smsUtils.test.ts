@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { countSmsSegments, normalizePhoneNumber } from './smsUtils';
+
+describe('normalizePhoneNumber', () => {
+  it.each([
+    ['+251-9-11-22-33-44'],
+    ['+251 (0)911 223344'],
+    ['0911 223344'],
+    ['00251911223344'],
+    ['911223344'],
+    ['251911223344'],
+  ])('turns %s into E.164', input => {
+    expect(normalizePhoneNumber(input)).toBe('+251911223344');
+  });
+
+  it('puts the given country code in front of local numbers', () => {
+    expect(normalizePhoneNumber('07700 900123', '44')).toBe('+447700900123');
+    expect(normalizePhoneNumber('+251911223344', '44')).toBe('+251911223344');
+  });
+
+  it.each([undefined, '', 'call the office', '12', '+0911223344', '+2519112233445566'])('refuses %j', input => {
+    expect(normalizePhoneNumber(input)).toBeNull();
+  });
+});
+
+describe('countSmsSegments', () => {
+  it.each([
+    // text, encoding, length, segments, perSegment, remaining
+    ['', 'GSM-7', 0, 0, 160, 160],
+    ['a'.repeat(160), 'GSM-7', 160, 1, 160, 0],
+    ['a'.repeat(161), 'GSM-7', 161, 2, 153, 145],
+    ['a'.repeat(307), 'GSM-7', 307, 3, 153, 152],
+    ['€'.repeat(80), 'GSM-7', 160, 1, 160, 0],
+    ['€'.repeat(81), 'GSM-7', 162, 2, 153, 144],
+    ['ሰ'.repeat(70), 'UCS-2', 70, 1, 70, 0],
+    ['ሰ'.repeat(71), 'UCS-2', 71, 2, 67, 63],
+    ['a'.repeat(69) + 'ሰ', 'UCS-2', 70, 1, 70, 0],
+  ])('counts %j', (text, encoding, length, segments, perSegment, remaining) => {
+    expect(countSmsSegments(text)).toEqual({ encoding, length, segments, perSegment, remaining });
+  });
+});
@@ -0,0 +1,69 @@
+export const DEFAULT_SMS_COUNTRY_CODE = '251';
+
+// Formatting people type around numbers: spaces, dashes, dots, brackets and a
+// bracketed trunk zero as in "+251 (0)9..."
+const PHONE_FORMATTING = /\(0\)|[\s\-.()/]/g;
+
+// E.164 numbers are a country code plus subscriber number, 8 to 15 digits in all
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+// "+251-9-11-22-33-44", "0911 223344", "00251911223344" and "911223344" all
+// become "+251911223344". Returns null when the input cannot be a phone number.
+export function normalizePhoneNumber(phone: string | undefined, countryCode: string = DEFAULT_SMS_COUNTRY_CODE): string | null {
+  if (!phone) return null;
+  let digits = phone.trim().replace(PHONE_FORMATTING, '');
+  if (!/^\+?\d+$/.test(digits)) return null;
+
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = countryCode + digits.slice(1);
+  } else if (!digits.startsWith(countryCode) || digits.length <= 9) {
+    // A bare subscriber number, without the trunk zero
+    digits = countryCode + digits;
+  }
+
+  const normalized = `+${digits}`;
+  return E164_PATTERN.test(normalized) ? normalized : null;
+}
+
+// GSM 03.38 basic character set; anything outside it (and its extension table)
+// forces the whole message into UCS-2, as Amharic text always does
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f'; // each takes two septets
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  length: number; // in septets for GSM-7, UTF-16 code units for UCS-2
+  segments: number;
+  perSegment: number;
+  remaining: number; // characters left before another segment is needed
+}
+
+// Single messages hold 160 GSM-7 or 70 UCS-2 characters; once split, each part
+// loses room to the concatenation header (153 and 67)
+export function countSmsSegments(text: string): SmsSegmentInfo {
+  const chars = Array.from(text);
+  const isGsm = chars.every(char => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+  const encoding: SmsEncoding = isGsm ? 'GSM-7' : 'UCS-2';
+  const length = isGsm
+    ? chars.reduce((sum, char) => sum + (GSM_EXTENDED.includes(char) ? 2 : 1), 0)
+    : text.length;
+
+  const single = isGsm ? 160 : 70;
+  const multi = isGsm ? 153 : 67;
+  const segments = length === 0 ? 0 : length <= single ? 1 : Math.ceil(length / multi);
+  const perSegment = segments > 1 ? multi : single;
+  return {
+    encoding,
+    length,
+    segments,
+    perSegment,
+    remaining: Math.max(0, perSegment * Math.max(segments, 1) - length),
+  };
+}
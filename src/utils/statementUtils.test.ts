@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseStatementAmount } from './statementUtils';
+
+describe('parseStatementAmount', () => {
+  it('reads both decimal separators', () => {
+    expect(parseStatementAmount('1,234.50')).toBe(1234.5);
+    expect(parseStatementAmount('1.234,50', ',')).toBe(1234.5);
+  });
+
+  it('ignores currency codes and symbols', () => {
+    expect(parseStatementAmount('EUR 20.00')).toBe(20);
+    expect(parseStatementAmount('$20.00')).toBe(20);
+    expect(parseStatementAmount('20,00 €', ',')).toBe(20);
+  });
+
+  it('treats a minus sign before or after the number as negative', () => {
+    expect(parseStatementAmount('-20.00')).toBe(-20);
+    expect(parseStatementAmount('20.00-')).toBe(-20);
+    expect(parseStatementAmount('EUR -20.00')).toBe(-20);
+    expect(parseStatementAmount('-€20,00', ',')).toBe(-20);
+    expect(parseStatementAmount('€-20.00')).toBe(-20);
+    expect(parseStatementAmount('20.00 EUR-')).toBe(-20);
+    expect(parseStatementAmount('−20.00')).toBe(-20);
+  });
+
+  it('treats parentheses as negative', () => {
+    expect(parseStatementAmount('(20.00)')).toBe(-20);
+    expect(parseStatementAmount('(EUR 20.00)')).toBe(-20);
+  });
+
+  it('keeps amounts with a hyphen elsewhere positive', () => {
+    expect(parseStatementAmount('1-234.50')).toBe(1234.5);
+    expect(parseStatementAmount('20.00 CR-EUR')).toBe(20);
+  });
+
+  it('returns NaN when there is no number', () => {
+    expect(parseStatementAmount('')).toBeNaN();
+    expect(parseStatementAmount('n/a')).toBeNaN();
+  });
+});
@@ -0,0 +1,197 @@
+import Papa from 'papaparse';
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { BankCsvMapping, StatementFormat, StatementTransaction } from '@/types';
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  camt053: 'CAMT.053',
+};
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const head = content.slice(0, 2000);
+  if (/camt\.053/i.test(head) || /<BkToCstmrStmt/i.test(head)) return 'camt053';
+  if (/OFXHEADER|<OFX>/i.test(head) || /\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  return 'csv';
+}
+
+// Bank amounts come as '1,234.50', '1.234,50', '(20.00)', '20.00-' or with a
+// currency code. Only parentheses, or a minus sign at either end of the text
+// around the number, make one negative: 'EUR -20' and '-€20' do, '1-234' does not.
+export function parseStatementAmount(raw: string, decimalSeparator: '.' | ',' = '.'): number {
+  const text = raw.trim();
+  const number = /\d(?:.*\d)?/.exec(text); // first digit to last
+  const hasSign = (part: string) => /^[-\u2212]|[-\u2212]$/.test(part.trim());
+  const negative = /^\(.*\)$/.test(text)
+    || (!!number && (hasSign(text.slice(0, number.index)) || hasSign(text.slice(number.index + number[0].length))));
+  const digits = text.replace(/[^\d.,]/g, '');
+  const normalized = decimalSeparator === ','
+    ? digits.replace(/\./g, '').replace(',', '.')
+    : digits.replace(/,/g, '');
+  const amount = parseFloat(normalized);
+  if (isNaN(amount)) return NaN;
+  return negative ? -amount : amount;
+}
+
+// Banks that give no id per row still give the same row every time, so the
+// row itself identifies the transfer when the same statement is loaded again
+function deriveTransactionId(parts: (string | number | undefined)[]): string {
+  const text = parts.map(part => part ?? '').join('|');
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return `row-${hash.toString(16)}`;
+}
+
+function toDateKey(date: Date): string | undefined {
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : undefined;
+}
+
+export function parseCsvStatement(content: string, mapping: BankCsvMapping): StatementTransaction[] {
+  const result = Papa.parse<Record<string, string>>(content.trim(), {
+    header: true,
+    delimiter: mapping.delimiter,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim(),
+  });
+
+  const headers = result.meta.fields ?? [];
+  const amountColumn = mapping.credit_column || mapping.amount_column || 'Amount';
+  const missing = [mapping.date_column, mapping.description_column, amountColumn].filter(column => !headers.includes(column));
+  if (missing.length > 0) {
+    throw new StatementParseError(`The file does not match the ${mapping.bank_name} format. Missing columns: ${missing.join(', ')}`);
+  }
+
+  const transactions: StatementTransaction[] = [];
+  result.data.forEach(row => {
+    const amount = parseStatementAmount(row[amountColumn] ?? '', mapping.decimal_separator);
+    const date = toDateKey(parse((row[mapping.date_column] ?? '').trim(), mapping.date_format, new Date()));
+    // Debits, blank credit cells and lines like opening balances are skipped
+    if (!(amount > 0) || !date) return;
+
+    const description = (row[mapping.description_column] ?? '').trim();
+    const reference = mapping.reference_column ? row[mapping.reference_column]?.trim() || undefined : undefined;
+    const payer = mapping.payer_column ? row[mapping.payer_column]?.trim() || undefined : undefined;
+    const bankId = mapping.transaction_id_column ? row[mapping.transaction_id_column]?.trim() : undefined;
+
+    transactions.push({
+      id: bankId || deriveTransactionId([mapping.id, date, amount, description, reference, payer]),
+      date,
+      amount,
+      description,
+      reference,
+      payer,
+    });
+  });
+  return transactions;
+}
+
+// OFX 1.x is SGML with unclosed tags, OFX 2.x is XML; reading each tag up to
+// the next '<' or line break handles both
+function readOfxTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>') : undefined;
+}
+
+export function parseOfxStatement(content: string): StatementTransaction[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi);
+  if (!blocks) throw new StatementParseError('No transactions found in the OFX file');
+
+  const transactions: StatementTransaction[] = [];
+  blocks.forEach(block => {
+    const amount = parseStatementAmount(readOfxTag(block, 'TRNAMT') ?? '');
+    const posted = readOfxTag(block, 'DTPOSTED') ?? '';
+    const date = toDateKey(parse(posted.slice(0, 8), 'yyyyMMdd', new Date()));
+    if (!(amount > 0) || !date) return;
+
+    const name = readOfxTag(block, 'NAME');
+    const memo = readOfxTag(block, 'MEMO');
+    const reference = readOfxTag(block, 'REFNUM') ?? readOfxTag(block, 'CHECKNUM');
+    transactions.push({
+      id: readOfxTag(block, 'FITID') ?? deriveTransactionId(['ofx', date, amount, name, memo, reference]),
+      date,
+      amount,
+      description: memo ?? name ?? '',
+      reference,
+      payer: name,
+    });
+  });
+  return transactions;
+}
+
+// Follows child elements by local name, ignoring the camt namespace version
+function findElement(parent: Element | undefined, path: string[]): Element | undefined {
+  let current = parent;
+  for (const name of path) {
+    current = current && Array.from(current.children).find(child => child.localName === name);
+  }
+  return current;
+}
+
+function readElement(parent: Element | undefined, ...paths: string[][]): string | undefined {
+  for (const path of paths) {
+    const value = findElement(parent, path)?.textContent?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+export function parseCamtStatement(content: string): StatementTransaction[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new StatementParseError('The CAMT.053 file is not valid XML');
+  }
+
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'Ntry'));
+  if (entries.length === 0) throw new StatementParseError('No entries found in the CAMT.053 file');
+
+  const transactions: StatementTransaction[] = [];
+  entries.forEach(entry => {
+    if (readElement(entry, ['CdtDbtInd']) !== 'CRDT') return;
+    if (readElement(entry, ['RvslInd']) === 'true') return;
+
+    const amount = parseStatementAmount(readElement(entry, ['Amt']) ?? '');
+    const booked = readElement(entry, ['BookgDt', 'Dt'], ['BookgDt', 'DtTm'], ['ValDt', 'Dt']) ?? '';
+    const date = toDateKey(parseISO(booked.slice(0, 10)));
+    if (!(amount > 0) || !date) return;
+
+    // A batched entry can hold several transfers, but the amount is only reliable per entry
+    const details = findElement(entry, ['NtryDtls', 'TxDtls']);
+    const description = readElement(details, ['RmtInf', 'Ustrd']) ?? readElement(entry, ['AddtlNtryInf']) ?? '';
+    const reference = readElement(details, ['RmtInf', 'Strd', 'CdtrRefInf', 'Ref'], ['Refs', 'EndToEndId']);
+    const payer = readElement(details, ['RltdPties', 'Dbtr', 'Nm'], ['RltdPties', 'Dbtr', 'Pty', 'Nm']);
+
+    transactions.push({
+      id: readElement(entry, ['AcctSvcrRef'], ['NtryRef']) ??
+        readElement(details, ['Refs', 'AcctSvcrRef'], ['Refs', 'TxId']) ??
+        deriveTransactionId(['camt', date, amount, description, reference, payer]),
+      date,
+      amount,
+      description,
+      reference: reference === 'NOTPROVIDED' ? undefined : reference,
+      payer,
+    });
+  });
+  return transactions;
+}
+
+export function parseStatement(content: string, statementFormat: StatementFormat, mapping?: BankCsvMapping): StatementTransaction[] {
+  switch (statementFormat) {
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'camt053':
+      return parseCamtStatement(content);
+    default:
+      if (!mapping) throw new StatementParseError('Choose which bank the CSV file is from');
+      return parseCsvStatement(content, mapping);
+  }
+}
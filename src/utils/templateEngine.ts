@@ -0,0 +1,290 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { formatCurrency } from './dateUtils';
+
+// A small Handlebars-like language for message templates:
+//   {{member.full_name}}                         a variable
+//   {{currency member.next_due_amount}}          a helper with arguments
+//   {{date member.next_due_date "d MMMM yyyy"}}  string and number literals
+//   {{#if member.balance}}...{{else}}...{{/if}}  conditionals ({{#unless}} too)
+//   {{#each member.recent_payments}}{{date date}}: {{currency amount}}{{/each}}
+// Inside #each, bare names refer to the current item first, {{this}} is the
+// item itself and {{@number}} counts from 1.
+
+export type TemplateValueType = 'text' | 'number' | 'currency' | 'date' | 'list';
+
+export interface TemplateVariable {
+  type: TemplateValueType;
+  description: string;
+  item?: Record<string, TemplateVariable>; // fields of each entry, for lists
+}
+
+export type TemplateSchema = Record<string, TemplateVariable>;
+
+export interface TemplateIssue {
+  message: string;
+  kind: 'syntax' | 'unknown_variable' | 'unknown_helper';
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type Argument =
+  | { kind: 'path'; path: string }
+  | { kind: 'literal'; value: string | number };
+
+interface Expression {
+  helper?: string;
+  args: Argument[];
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'output'; expression: Expression }
+  | { kind: 'if'; negate: boolean; condition: Expression; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type TemplateContext = Record<string, unknown>;
+
+type Helper = (args: unknown[], root: TemplateContext) => string;
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  if (typeof value !== 'string' || !value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+}
+
+function currencyOf(root: TemplateContext): string | undefined {
+  return (root.org as { currency?: string } | undefined)?.currency;
+}
+
+const HELPERS: Record<string, Helper> = {
+  currency: ([value, currency], root) =>
+    value === undefined || value === null || value === '' ? '' : formatCurrency(Number(value), (currency as string) || currencyOf(root)),
+  date: ([value, pattern]) => {
+    const date = toDate(value);
+    return date ? format(date, (pattern as string) || 'MMM dd, yyyy') : '';
+  },
+  upper: ([value]) => stringify(value).toUpperCase(),
+  lower: ([value]) => stringify(value).toLowerCase(),
+  default: ([value, fallback]) => isTruthy(value) ? stringify(value) : stringify(fallback),
+};
+
+export const TEMPLATE_HELPERS: Record<string, string> = {
+  currency: 'Formats an amount in the organization\'s currency: {{currency member.balance}}',
+  date: 'Formats a date, optionally with a pattern: {{date member.next_due_date "d MMMM yyyy"}}',
+  upper: 'Upper case: {{upper member.full_name}}',
+  lower: 'Lower case: {{lower member.email}}',
+  default: 'A fallback when empty: {{default member.first_name "friend"}}',
+};
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '' && value !== 0 && value !== false;
+}
+
+// Splits "date member.next_due_date \"d MMM\"" into words, keeping quoted strings whole
+function splitWords(source: string): string[] {
+  return source.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+}
+
+function parseArgument(word: string): Argument {
+  if (/^(["']).*\1$/.test(word)) return { kind: 'literal', value: word.slice(1, -1) };
+  if (/^-?\d+(\.\d+)?$/.test(word)) return { kind: 'literal', value: Number(word) };
+  return { kind: 'path', path: word };
+}
+
+function parseExpression(source: string): Expression {
+  const words = splitWords(source);
+  if (words.length === 0) throw new TemplateSyntaxError('Empty {{ }} tag');
+  if (words.length === 1) return { args: [parseArgument(words[0])] };
+  return { helper: words[0], args: words.slice(1).map(parseArgument) };
+}
+
+interface Frame {
+  kind: 'root' | 'if' | 'each';
+  nodes: TemplateNode[];
+  node?: Extract<TemplateNode, { kind: 'if' | 'each' }>;
+  inElse: boolean;
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: Frame = { kind: 'root', nodes: [], inElse: false };
+  const stack: Frame[] = [root];
+  const current = () => stack[stack.length - 1];
+  const pattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      current().nodes.push({ kind: 'text', text: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = pattern.lastIndex;
+    const tag = match[1];
+
+    if (tag.startsWith('#')) {
+      const [keyword, ...rest] = splitWords(tag.slice(1));
+      const argument = rest.join(' ');
+      if (!argument) throw new TemplateSyntaxError(`{{#${keyword}}} needs something to test`);
+      let node: Extract<TemplateNode, { kind: 'if' | 'each' }>;
+      if (keyword === 'if' || keyword === 'unless') {
+        node = { kind: 'if', negate: keyword === 'unless', condition: parseExpression(argument), then: [], otherwise: [] };
+      } else if (keyword === 'each') {
+        if (rest.length !== 1) throw new TemplateSyntaxError('{{#each}} takes a single list, e.g. {{#each member.recent_payments}}');
+        node = { kind: 'each', path: rest[0], body: [], otherwise: [] };
+      } else {
+        throw new TemplateSyntaxError(`Unknown block {{#${keyword}}}; use #if, #unless or #each`);
+      }
+      current().nodes.push(node);
+      stack.push({ kind: node.kind, nodes: node.kind === 'if' ? node.then : node.body, node, inElse: false });
+    } else if (tag === 'else') {
+      const frame = current();
+      if (frame.kind === 'root' || !frame.node) throw new TemplateSyntaxError('{{else}} outside an #if or #each block');
+      if (frame.inElse) throw new TemplateSyntaxError('A block can only have one {{else}}');
+      frame.inElse = true;
+      frame.nodes = frame.node.otherwise;
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const frame = current();
+      const expected = frame.kind === 'if' ? ['if', 'unless'] : [frame.kind];
+      if (frame.kind === 'root' || !expected.includes(keyword)) {
+        throw new TemplateSyntaxError(`{{/${keyword}}} does not close an open block`);
+      }
+      stack.pop();
+    } else {
+      current().nodes.push({ kind: 'output', expression: parseExpression(tag) });
+    }
+  }
+
+  if (lastIndex < source.length) {
+    current().nodes.push({ kind: 'text', text: source.slice(lastIndex) });
+  }
+  if (stack.length > 1) {
+    throw new TemplateSyntaxError(`{{#${current().kind}}} is never closed`);
+  }
+  return root.nodes;
+}
+
+interface Scope {
+  root: TemplateContext;
+  item?: unknown;
+  index?: number;
+}
+
+function lookup(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((current, key) =>
+    current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined, value);
+}
+
+function resolvePath(path: string, scope: Scope): unknown {
+  if (path === 'this') return scope.item;
+  if (path === '@index') return scope.index;
+  if (path === '@number') return scope.index === undefined ? undefined : scope.index + 1;
+  const parts = path.split('.');
+  if (parts[0] === 'this') return lookup(scope.item, parts.slice(1));
+  if (scope.item && typeof scope.item === 'object' && parts[0] in (scope.item as object)) {
+    return lookup(scope.item, parts);
+  }
+  return lookup(scope.root, parts);
+}
+
+function evaluate(expression: Expression, scope: Scope): unknown {
+  const values = expression.args.map(arg => arg.kind === 'literal' ? arg.value : resolvePath(arg.path, scope));
+  if (!expression.helper) return values[0];
+  const helper = HELPERS[expression.helper];
+  if (!helper) throw new TemplateSyntaxError(`Unknown helper "${expression.helper}"`);
+  return helper(values, scope.root);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'output':
+        return stringify(evaluate(node.expression, scope));
+      case 'if':
+        return isTruthy(evaluate(node.condition, scope)) !== node.negate
+          ? renderNodes(node.then, scope)
+          : renderNodes(node.otherwise, scope);
+      case 'each': {
+        const list = resolvePath(node.path, scope);
+        if (!Array.isArray(list) || list.length === 0) return renderNodes(node.otherwise, scope);
+        return list.map((item, index) => renderNodes(node.body, { root: scope.root, item, index })).join('');
+      }
+    }
+  }).join('');
+}
+
+// Throws TemplateSyntaxError for malformed templates; unknown variables render empty,
+// so run validateTemplate first when that matters
+export function renderTemplate(source: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(source), { root: context });
+}
+
+const SCOPE_VARIABLES = ['this', '@index', '@number'];
+
+function checkNodes(
+  nodes: TemplateNode[],
+  schema: TemplateSchema,
+  itemFields: Record<string, TemplateVariable> | undefined,
+  issues: TemplateIssue[]
+): void {
+  const checkPath = (path: string) => {
+    if (itemFields && (SCOPE_VARIABLES.includes(path) || path.replace(/^this\./, '') in itemFields)) return;
+    if (!(path in schema)) {
+      issues.push({ kind: 'unknown_variable', message: `Unknown variable "${path}"` });
+    }
+  };
+  const checkExpression = (expression: Expression) => {
+    if (expression.helper && !HELPERS[expression.helper]) {
+      issues.push({ kind: 'unknown_helper', message: `Unknown helper "${expression.helper}"` });
+    }
+    expression.args.forEach(arg => arg.kind === 'path' && checkPath(arg.path));
+  };
+
+  nodes.forEach(node => {
+    if (node.kind === 'output') {
+      checkExpression(node.expression);
+    } else if (node.kind === 'if') {
+      checkExpression(node.condition);
+      checkNodes(node.then, schema, itemFields, issues);
+      checkNodes(node.otherwise, schema, itemFields, issues);
+    } else if (node.kind === 'each') {
+      const variable = schema[node.path];
+      if (!variable) {
+        issues.push({ kind: 'unknown_variable', message: `Unknown variable "${node.path}"` });
+      } else if (variable.type !== 'list') {
+        issues.push({ kind: 'unknown_variable', message: `"${node.path}" is not a list, so it cannot be used with #each` });
+      }
+      checkNodes(node.body, schema, variable?.item, issues);
+      checkNodes(node.otherwise, schema, itemFields, issues);
+    }
+  });
+}
+
+// Everything that would stop a template from rendering as written: syntax
+// errors, and variables or helpers the schema does not know
+export function validateTemplate(source: string, schema: TemplateSchema): TemplateIssue[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(source);
+  } catch (error) {
+    return [{ kind: 'syntax', message: (error as Error).message }];
+  }
+  const issues: TemplateIssue[] = [];
+  checkNodes(nodes, schema, undefined, issues);
+  // The same unknown variable used twice is reported once
+  return issues.filter((issue, index) => issues.findIndex(other => other.message === issue.message) === index);
+}
@@ -0,0 +1,170 @@
+import { Installment, Member, MessageTemplate, MessageTemplateInput, Payment, Settings } from '@/types';
+import { TemplateIssue, TemplateSchema, renderTemplate, validateTemplate } from './templateEngine';
+import { getMemberBalance, getNextDueInstallment, getOutstandingAmount, getOverdueInstallments } from './scheduleUtils';
+import { getNetAmount } from './paymentUtils';
+
+const RECENT_PAYMENTS = 5;
+
+// Every variable a template may use. Validation checks templates against this
+// list, and buildTemplateContext fills in exactly these paths.
+export const MESSAGE_TEMPLATE_SCHEMA: TemplateSchema = {
+  'org.name': { type: 'text', description: 'Organization name' },
+  'org.address': { type: 'text', description: 'Organization address' },
+  'org.email': { type: 'text', description: 'Sender email address' },
+  'org.currency': { type: 'text', description: 'Currency code, e.g. ETB' },
+  'member.full_name': { type: 'text', description: 'Full name' },
+  'member.first_name': { type: 'text', description: 'First name' },
+  'member.email': { type: 'text', description: 'Email address' },
+  'member.phone': { type: 'text', description: 'Phone number' },
+  'member.location': { type: 'text', description: 'Location' },
+  'member.payment_amount': { type: 'currency', description: 'Agreed contribution per period' },
+  'member.payment_frequency': { type: 'text', description: 'How often they contribute' },
+  'member.next_due_date': { type: 'date', description: 'Due date of the next unpaid installment' },
+  'member.next_due_amount': { type: 'currency', description: 'Amount still owed on that installment' },
+  'member.overdue_amount': { type: 'currency', description: 'Total owed on installments already past due' },
+  'member.credit': { type: 'currency', description: 'Paid in advance beyond the schedule' },
+  'member.total_paid': { type: 'currency', description: 'Everything received, after refunds' },
+  'member.last_payment_date': { type: 'date', description: 'Date of the latest payment' },
+  'member.last_payment_amount': { type: 'currency', description: 'Amount of the latest payment' },
+  'member.recent_payments': {
+    type: 'list',
+    description: `Up to ${RECENT_PAYMENTS} latest payments, newest first`,
+    item: {
+      date: { type: 'date', description: 'Payment date' },
+      amount: { type: 'currency', description: 'Amount' },
+      method: { type: 'text', description: 'bank, cash or branch' },
+    },
+  },
+  today: { type: 'date', description: "Today's date" },
+};
+
+const FREQUENCY_LABELS: Record<Member['payment_frequency'], string> = {
+  monthly: 'monthly',
+  three_months: 'every three months',
+  six_months: 'every six months',
+  yearly: 'yearly',
+};
+
+export interface TemplateContextData {
+  installments: Installment[]; // the member's own, or all of them
+  payments: Payment[]; // likewise
+  settings: Settings | null;
+  today?: Date;
+}
+
+// The values a template sees for one member. Dates are ISO strings, amounts plain numbers;
+// the date and currency helpers format them.
+export function buildTemplateContext(member: Member, data: TemplateContextData): Record<string, unknown> {
+  const today = data.today ?? new Date();
+  const installments = data.installments.filter(i => i.member_id === member.id);
+  const payments = data.payments
+    .filter(p => p.member_id === member.id && p.status === 'paid' && !p.deleted_at && !p.reverses && getNetAmount(p, data.payments) > 0)
+    .sort((a, b) => b.payment_date.localeCompare(a.payment_date));
+  const nextDue = getNextDueInstallment(installments);
+  const balance = getMemberBalance(installments, data.payments.filter(p => p.member_id === member.id), today);
+
+  return {
+    org: {
+      name: data.settings?.org_name ?? '',
+      address: data.settings?.org_address ?? '',
+      email: data.settings?.from_email ?? '',
+      currency: data.settings?.default_currency,
+    },
+    member: {
+      full_name: member.full_name,
+      first_name: member.full_name.split(/\s+/)[0],
+      email: member.email,
+      phone: member.phone_number,
+      location: member.location ?? '',
+      payment_amount: member.payment_amount,
+      payment_frequency: FREQUENCY_LABELS[member.payment_frequency],
+      next_due_date: nextDue?.due_date,
+      next_due_amount: nextDue ? getOutstandingAmount(nextDue) : undefined,
+      overdue_amount: getOverdueInstallments(installments, today).reduce((sum, i) => sum + getOutstandingAmount(i), 0),
+      credit: balance.credit,
+      total_paid: balance.paid,
+      last_payment_date: payments[0]?.payment_date,
+      last_payment_amount: payments[0] && getNetAmount(payments[0], data.payments),
+      recent_payments: payments.slice(0, RECENT_PAYMENTS).map(p => ({
+        date: p.payment_date,
+        amount: getNetAmount(p, data.payments),
+        method: p.payment_method,
+      })),
+    },
+    today: today.toISOString(),
+  };
+}
+
+export interface TemplateFieldIssue extends TemplateIssue {
+  field: 'subject' | 'content' | 'sms_content';
+}
+
+const FIELD_LABELS: Record<TemplateFieldIssue['field'], string> = {
+  subject: 'Subject',
+  content: 'Message',
+  sms_content: 'SMS text',
+};
+
+// Issues across subject, body and SMS text, each labelled with where it was found
+export function validateMessageTemplate(template: Pick<MessageTemplateInput, 'subject' | 'content' | 'sms_content'>): TemplateFieldIssue[] {
+  return (['subject', 'content', 'sms_content'] as const).flatMap(field =>
+    validateTemplate(template[field] ?? '', MESSAGE_TEMPLATE_SCHEMA).map(issue => ({
+      ...issue,
+      field,
+      message: `${FIELD_LABELS[field]}: ${issue.message}`,
+    }))
+  );
+}
+
+export interface RenderedMessage {
+  subject: string;
+  content: string;
+  sms_content: string;
+}
+
+// Throws TemplateSyntaxError if any part is malformed
+export function renderMessageTemplate(
+  template: Pick<MessageTemplateInput, 'subject' | 'content' | 'sms_content'>,
+  context: Record<string, unknown>
+): RenderedMessage {
+  return {
+    subject: renderTemplate(template.subject, context),
+    content: renderTemplate(template.content, context),
+    sms_content: renderTemplate(template.sms_content || template.content, context),
+  };
+}
+
+export function isArchived(template: MessageTemplate): boolean {
+  return !!template.archived_at;
+}
+
+// Written into a new local database so there is something to start from
+export const STARTER_MESSAGE_TEMPLATES: MessageTemplateInput[] = [
+  {
+    name: 'Payment reminder',
+    message_type: 'reminder',
+    subject: 'Payment Reminder',
+    content: 'Dear {{member.first_name}},\n\n' +
+      '{{#if member.next_due_date}}Your membership contribution of {{currency member.next_due_amount}} is due on {{date member.next_due_date}}.' +
+      '{{else}}Your membership contribution is due soon.{{/if}} ' +
+      'Please make your payment to continue supporting our cause.\n\n{{org.name}}',
+    sms_content: '{{org.name}}: {{#if member.next_due_date}}{{currency member.next_due_amount}} due {{date member.next_due_date "d MMM"}}.' +
+      '{{else}}Your contribution is due soon.{{/if}} Thank you for your support.',
+  },
+  {
+    name: 'Thank you',
+    message_type: 'thank_you',
+    subject: 'Thank You for Your Contribution',
+    content: 'Dear {{member.first_name}},\n\n' +
+      'Thank you for your contribution of {{currency member.last_payment_amount}} on {{date member.last_payment_date}}. ' +
+      'Your support helps us continue our important work.\n\n{{org.name}}',
+    sms_content: 'Thank you for your contribution of {{currency member.last_payment_amount}} on {{date member.last_payment_date "d MMM"}}. {{org.name}}',
+  },
+  {
+    name: 'Announcement',
+    message_type: 'announcement',
+    subject: 'Important Announcement',
+    content: 'Dear {{member.first_name}},\n\nWe have an important update to share with you...\n\n{{org.name}}',
+    sms_content: '{{org.name}}: We have an important update to share with you...',
+  },
+];